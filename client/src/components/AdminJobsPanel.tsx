@@ -0,0 +1,195 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { Timer, Play } from "lucide-react";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { JobRun, JobRunStatus, ScheduledJobState } from "@shared/types";
+
+type ApiJob = {
+  name: string;
+  description: string;
+  intervalMinutes: number;
+  state: ScheduledJobState;
+};
+
+function toDate(value: any): Date | null {
+  if (!value) return null;
+  if (typeof value === "object" && typeof value._seconds === "number") {
+    return new Date(value._seconds * 1000);
+  }
+  const d = new Date(value);
+  return isNaN(d.getTime()) ? null : d;
+}
+
+function formatInterval(minutes: number): string {
+  if (minutes % (24 * 60) === 0) return `every ${minutes / (24 * 60)} day(s)`;
+  if (minutes % 60 === 0) return `every ${minutes / 60} hour(s)`;
+  return `every ${minutes} min`;
+}
+
+function statusBadge(status?: JobRunStatus | null) {
+  switch (status) {
+    case "succeeded":
+      return <Badge className="bg-green-100 text-green-800">Succeeded</Badge>;
+    case "failed":
+      return <Badge variant="destructive">Failed</Badge>;
+    case "running":
+      return <Badge className="bg-blue-100 text-blue-800">Running</Badge>;
+    default:
+      return <Badge variant="secondary">Never run</Badge>;
+  }
+}
+
+export function AdminJobsPanel() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedJob, setSelectedJob] = useState<string | null>(null);
+
+  const { data: jobs = [], isLoading: jobsLoading } = useQuery<ApiJob[]>({
+    queryKey: ["/api/admin/jobs"],
+    refetchInterval: 30_000,
+  });
+
+  const { data: runs = [] } = useQuery<Array<JobRun & { id: string }>>({
+    queryKey: ["/api/admin/jobs/runs", selectedJob],
+    queryFn: () =>
+      apiRequest(`/api/admin/jobs/runs${selectedJob ? `?job=${encodeURIComponent(selectedJob)}` : ""}`),
+    refetchInterval: 30_000,
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async (name: string): Promise<JobRun & { id: string }> =>
+      apiRequest(`/api/admin/jobs/${encodeURIComponent(name)}/run`, { method: "POST" }),
+    onSuccess: (run) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/jobs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/jobs/runs"] });
+      toast({
+        title: run.status === "succeeded" ? "Job finished" : "Job failed",
+        description: run.status === "succeeded" ? `${run.job} ran in ${run.durationMs}ms.` : run.error ?? undefined,
+        variant: run.status === "succeeded" ? undefined : "destructive",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      {/* Registered jobs */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Timer className="h-5 w-5" />
+            <span>Scheduled Jobs</span>
+          </CardTitle>
+          <CardDescription>
+            Background jobs run by the server on a fixed interval. Only one server instance runs a job
+            at a time.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {jobsLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#9B1B30]" />
+            </div>
+          ) : jobs.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">No jobs registered</div>
+          ) : (
+            <div className="space-y-3">
+              {jobs.map((job) => {
+                const lastRun = toDate(job.state.lastRunAt);
+                const nextRun = toDate(job.state.nextRunAt);
+                const leaseExpires = toDate(job.state.leaseExpiresAt);
+                const isRunning = !!job.state.leaseOwner && !!leaseExpires && leaseExpires > new Date();
+                return (
+                  <div key={job.name} className="border rounded-lg p-4">
+                    <div className="flex items-start justify-between gap-4">
+                      <div>
+                        <div className="font-semibold font-mono text-sm">{job.name}</div>
+                        <div className="text-sm text-muted-foreground">
+                          {job.description} • {formatInterval(job.intervalMinutes)}
+                        </div>
+                        <div className="text-xs text-muted-foreground mt-1">
+                          Last run: {lastRun ? `${formatDistanceToNow(lastRun)} ago` : "—"}
+                          {job.state.lastDurationMs != null && ` (${job.state.lastDurationMs}ms)`}
+                          {" • "}Next: {nextRun ? format(nextRun, "MMM dd, HH:mm") : "on next tick"}
+                        </div>
+                        {job.state.lastStatus === "failed" && job.state.lastError && (
+                          <div className="text-xs text-red-600 mt-1">{job.state.lastError}</div>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-2">
+                        {isRunning ? statusBadge("running") : statusBadge(job.state.lastStatus)}
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setSelectedJob(selectedJob === job.name ? null : job.name)}
+                        >
+                          {selectedJob === job.name ? "All Runs" : "History"}
+                        </Button>
+                        <Button
+                          size="sm"
+                          onClick={() => runMutation.mutate(job.name)}
+                          disabled={runMutation.isPending || isRunning}
+                        >
+                          <Play className="h-4 w-4 mr-1" />
+                          Run Now
+                        </Button>
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Run history */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Run History{selectedJob ? `: ${selectedJob}` : ""}</CardTitle>
+          <CardDescription>Most recent executions, newest first.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {runs.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">No runs yet</div>
+          ) : (
+            <div className="space-y-2">
+              {runs.map((run) => {
+                const started = toDate(run.startedAt);
+                return (
+                  <div key={run.id} className="border-t pt-2 text-sm">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-mono text-xs">{run.job}</span>
+                      <span className="text-muted-foreground">
+                        {started ? format(started, "MMM dd, HH:mm:ss") : "—"}
+                        {run.durationMs != null && ` • ${run.durationMs}ms`}
+                        {` • ${run.trigger === "manual" ? "manual" : "scheduled"}`}
+                      </span>
+                      {statusBadge(run.status)}
+                    </div>
+                    {run.error && <div className="text-xs text-red-600 mt-1">{run.error}</div>}
+                    {run.result && (
+                      <div className="text-xs text-muted-foreground mt-1 font-mono">
+                        {Object.entries(run.result)
+                          .map(([k, v]) => `${k}=${typeof v === "object" ? JSON.stringify(v) : String(v)}`)
+                          .join(" ")}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,291 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ShieldAlert, Check, X } from "lucide-react";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type {
+  ChatModerationConfig,
+  ModerationAppeal,
+  ModerationAppealStatus,
+  ModerationViolation,
+} from "@shared/types";
+
+type ApiAppeal = ModerationAppeal & {
+  id: string;
+  violation: (ModerationViolation & { id: string }) | null;
+  user: { id: string; firstName?: string; lastName?: string; email?: string; role?: string } | null;
+  strikes: number;
+  strikeThreshold: number;
+  suspendedUntil: string | null;
+};
+
+type ApiModerationConfig = {
+  config: ChatModerationConfig;
+  rules: Array<{ id: string; label: string; strike: boolean }>;
+};
+
+function toDate(value: any): Date | null {
+  if (!value) return null;
+  if (typeof value === "object" && typeof value._seconds === "number") {
+    return new Date(value._seconds * 1000);
+  }
+  const d = new Date(value);
+  return isNaN(d.getTime()) ? null : d;
+}
+
+function statusBadge(status: ModerationAppealStatus) {
+  switch (status) {
+    case "overturned":
+      return <Badge className="bg-green-100 text-green-800">Overturned</Badge>;
+    case "upheld":
+      return <Badge variant="secondary">Upheld</Badge>;
+    default:
+      return <Badge className="bg-amber-100 text-amber-800">Pending</Badge>;
+  }
+}
+
+export function AdminModerationPanel() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [statusFilter, setStatusFilter] = useState<ModerationAppealStatus | "all">("pending");
+  const [notes, setNotes] = useState<Record<string, string>>({});
+
+  const { data: appeals = [], isLoading } = useQuery<ApiAppeal[]>({
+    queryKey: ["/api/moderation/admin/appeals", statusFilter],
+    queryFn: () =>
+      apiRequest(`/api/moderation/admin/appeals${statusFilter === "all" ? "" : `?status=${statusFilter}`}`),
+  });
+
+  const { data: configData } = useQuery<ApiModerationConfig>({
+    queryKey: ["/api/moderation/admin/config"],
+  });
+
+  const [config, setConfig] = useState<ChatModerationConfig | null>(null);
+  useEffect(() => {
+    if (configData) setConfig(configData.config);
+  }, [configData]);
+
+  const resolveMutation = useMutation({
+    mutationFn: async ({ id, decision }: { id: string; decision: "upheld" | "overturned" }) =>
+      apiRequest(`/api/moderation/admin/appeals/${id}`, {
+        method: "PUT",
+        body: JSON.stringify({ decision, note: notes[id]?.trim() || undefined }),
+      }),
+    onSuccess: (result: { suspensionLifted: boolean }, { decision }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/moderation/admin/appeals"] });
+      toast({
+        title: decision === "overturned" ? "Strike removed" : "Strike upheld",
+        description: result.suspensionLifted ? "The user's chat suspension was lifted." : undefined,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const saveConfigMutation = useMutation({
+    mutationFn: async (next: ChatModerationConfig) =>
+      apiRequest("/api/moderation/admin/config", {
+        method: "PUT",
+        body: JSON.stringify({
+          strikeThreshold: next.strikeThreshold,
+          strikeWindowDays: next.strikeWindowDays,
+          suspensionHours: next.suspensionHours,
+        }),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/moderation/admin/config"] });
+      toast({ title: "Moderation policy saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      {/* Appeal queue */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center space-x-2">
+                <ShieldAlert className="h-5 w-5" />
+                <span>Moderation Appeals</span>
+              </CardTitle>
+              <CardDescription>
+                Blocked chat messages that users say were not contact sharing. Overturning removes the
+                strike.
+              </CardDescription>
+            </div>
+            <Select value={statusFilter} onValueChange={(v: any) => setStatusFilter(v)}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="pending">Pending</SelectItem>
+                <SelectItem value="upheld">Upheld</SelectItem>
+                <SelectItem value="overturned">Overturned</SelectItem>
+                <SelectItem value="all">All</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#9B1B30]" />
+            </div>
+          ) : appeals.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">No appeals</div>
+          ) : (
+            <div className="space-y-4">
+              {appeals.map((appeal) => {
+                const name =
+                  `${appeal.user?.firstName || ""} ${appeal.user?.lastName || ""}`.trim() || "Unknown user";
+                const createdAt = toDate(appeal.createdAt);
+                const suspendedUntil = toDate(appeal.suspendedUntil);
+                return (
+                  <div key={appeal.id} className="border rounded-lg p-4 space-y-3">
+                    <div className="flex items-start justify-between gap-4">
+                      <div>
+                        <div className="font-semibold">
+                          {name}
+                          <span className="ml-2 text-sm font-normal text-muted-foreground">
+                            {appeal.user?.role} • {appeal.user?.email}
+                          </span>
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          {createdAt ? format(createdAt, "MMM dd, HH:mm") : "—"} • Strikes: {appeal.strikes} of{" "}
+                          {appeal.strikeThreshold}
+                          {suspendedUntil && ` • Suspended until ${format(suspendedUntil, "MMM dd, HH:mm")}`}
+                        </div>
+                      </div>
+                      {statusBadge(appeal.status)}
+                    </div>
+
+                    {appeal.violation && (
+                      <div className="p-2 bg-muted/50 rounded border border-border">
+                        <p className="text-xs font-medium text-muted-foreground mb-1">
+                          Blocked ({appeal.violation.ruleLabel}):
+                        </p>
+                        <p className="text-sm italic">"{appeal.violation.content}"</p>
+                      </div>
+                    )}
+                    <div>
+                      <p className="text-xs font-medium text-muted-foreground mb-1">User's reason:</p>
+                      <p className="text-sm">{appeal.reason}</p>
+                    </div>
+
+                    {appeal.status === "pending" ? (
+                      <div className="space-y-2">
+                        <Textarea
+                          placeholder="Note to the user (optional)"
+                          value={notes[appeal.id] ?? ""}
+                          onChange={(e) => setNotes({ ...notes, [appeal.id]: e.target.value })}
+                          rows={2}
+                        />
+                        <div className="flex gap-2">
+                          <Button
+                            size="sm"
+                            onClick={() => resolveMutation.mutate({ id: appeal.id, decision: "overturned" })}
+                            disabled={resolveMutation.isPending}
+                          >
+                            <Check className="h-4 w-4 mr-1" />
+                            Overturn Strike
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => resolveMutation.mutate({ id: appeal.id, decision: "upheld" })}
+                            disabled={resolveMutation.isPending}
+                          >
+                            <X className="h-4 w-4 mr-1" />
+                            Uphold
+                          </Button>
+                        </div>
+                      </div>
+                    ) : (
+                      appeal.resolutionNote && (
+                        <p className="text-xs text-muted-foreground">Note: {appeal.resolutionNote}</p>
+                      )
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Strike policy */}
+      {config && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Strike Policy</CardTitle>
+            <CardDescription>
+              Each blocked attempt to share contact details is a strike. Reaching the threshold within the
+              window suspends the user's chat.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="strike-threshold">Strikes before suspension</Label>
+                <Input
+                  id="strike-threshold"
+                  type="number"
+                  min={1}
+                  value={config.strikeThreshold}
+                  onChange={(e) => setConfig({ ...config, strikeThreshold: Number(e.target.value) })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="strike-window">Strike window (days)</Label>
+                <Input
+                  id="strike-window"
+                  type="number"
+                  min={1}
+                  value={config.strikeWindowDays}
+                  onChange={(e) => setConfig({ ...config, strikeWindowDays: Number(e.target.value) })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="suspension-hours">Suspension (hours)</Label>
+                <Input
+                  id="suspension-hours"
+                  type="number"
+                  min={1}
+                  value={config.suspensionHours}
+                  onChange={(e) => setConfig({ ...config, suspensionHours: Number(e.target.value) })}
+                />
+              </div>
+            </div>
+            {configData && (
+              <div className="flex flex-wrap gap-2">
+                {configData.rules.map((rule) => (
+                  <Badge key={rule.id} variant={rule.strike ? "default" : "secondary"}>
+                    {rule.label}
+                    {!rule.strike && " (no strike)"}
+                  </Badge>
+                ))}
+              </div>
+            )}
+            <Button onClick={() => saveConfigMutation.mutate(config)} disabled={saveConfigMutation.isPending}>
+              Save Policy
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
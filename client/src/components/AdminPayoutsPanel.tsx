@@ -0,0 +1,275 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Wallet, Download, CheckCircle, Percent } from "lucide-react";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatFromCents } from "@/lib/currency";
+import { downloadPayoutStatement, type ApiPayoutBatch } from "@/lib/api";
+import type { CommissionConfig, Payout } from "@shared/types";
+
+function toDate(value: any): Date | null {
+  if (!value) return null;
+  if (typeof value === "object" && typeof value._seconds === "number") {
+    return new Date(value._seconds * 1000);
+  }
+  const d = new Date(value);
+  return isNaN(d.getTime()) ? null : d;
+}
+
+export function AdminPayoutsPanel() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [periodEnd, setPeriodEnd] = useState(() => format(new Date(), "yyyy-MM-dd"));
+  const [expandedBatch, setExpandedBatch] = useState<string | null>(null);
+  const [defaultRate, setDefaultRate] = useState("");
+  const [tierRates, setTierRates] = useState<Record<string, string>>({});
+
+  const { data: commission } = useQuery<{ config: CommissionConfig; defaults: CommissionConfig }>({
+    queryKey: ["/api/earnings/admin/commission"],
+  });
+
+  const { data: batches = [], isLoading: batchesLoading } = useQuery<ApiPayoutBatch[]>({
+    queryKey: ["/api/earnings/admin/payout-batches"],
+  });
+
+  const { data: batchPayouts = [] } = useQuery<Array<Payout & { id: string }>>({
+    queryKey: ["/api/earnings/admin/payout-batches", expandedBatch, "payouts"],
+    queryFn: () => apiRequest(`/api/earnings/admin/payout-batches/${expandedBatch}/payouts`),
+    enabled: !!expandedBatch,
+  });
+
+  useEffect(() => {
+    if (!commission?.config) return;
+    setDefaultRate(String(commission.config.defaultRatePercent));
+    setTierRates(
+      Object.fromEntries(
+        Object.entries(commission.config.tierRates ?? {}).map(([tier, rate]) => [tier, String(rate)]),
+      ),
+    );
+  }, [commission]);
+
+  const saveCommissionMutation = useMutation({
+    mutationFn: async () =>
+      apiRequest("/api/earnings/admin/commission", {
+        method: "PUT",
+        body: JSON.stringify({
+          defaultRatePercent: Number(defaultRate),
+          tierRates: Object.fromEntries(Object.entries(tierRates).map(([k, v]) => [k, Number(v)])),
+          subjectRates: commission?.config.subjectRates ?? {},
+        }),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/earnings/admin/commission"] });
+      toast({ title: "Commission saved", description: "New rates apply to earnings accrued from now on." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const createBatchMutation = useMutation({
+    mutationFn: async () => {
+      // Include everything accrued up to the end of the chosen day
+      const end = new Date(`${periodEnd}T23:59:59.999`);
+      return apiRequest("/api/earnings/admin/payout-batches", {
+        method: "POST",
+        body: JSON.stringify({ periodEnd: end.toISOString() }),
+      });
+    },
+    onSuccess: (batch: ApiPayoutBatch) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/earnings/admin/payout-batches"] });
+      setExpandedBatch(batch.id);
+      toast({
+        title: "Payout batch created",
+        description: `${batch.payoutCount} tutor payout(s), ${formatFromCents(batch.totalNetCents)} total.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const markPaidMutation = useMutation({
+    mutationFn: async (batchId: string) =>
+      apiRequest(`/api/earnings/admin/payout-batches/${batchId}/mark-paid`, { method: "POST" }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/earnings/admin/payout-batches"] });
+      toast({ title: "Batch marked as paid" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleDownload = async (payoutId: string) => {
+    try {
+      await downloadPayoutStatement(payoutId);
+    } catch (e: any) {
+      toast({ title: "Download failed", description: e?.message, variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Commission */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Percent className="h-5 w-5" />
+            <span>Platform Commission</span>
+          </CardTitle>
+          <CardDescription>
+            Percentage of each session price kept by the platform. Subject rates override tier rates,
+            which override the default.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid md:grid-cols-4 gap-4">
+            <div>
+              <Label htmlFor="commission-default">Default (%)</Label>
+              <Input
+                id="commission-default"
+                type="number"
+                min={0}
+                max={100}
+                value={defaultRate}
+                onChange={(e) => setDefaultRate(e.target.value)}
+              />
+            </div>
+            {Object.keys(tierRates).map((tier) => (
+              <div key={tier}>
+                <Label htmlFor={`commission-tier-${tier}`} className="capitalize">
+                  {tier} tier (%)
+                </Label>
+                <Input
+                  id={`commission-tier-${tier}`}
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={tierRates[tier]}
+                  onChange={(e) => setTierRates((prev) => ({ ...prev, [tier]: e.target.value }))}
+                />
+              </div>
+            ))}
+          </div>
+          {commission?.config.subjectRates && Object.keys(commission.config.subjectRates).length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              {Object.keys(commission.config.subjectRates).length} subject-specific rate(s) configured.
+            </p>
+          )}
+          <Button
+            onClick={() => saveCommissionMutation.mutate()}
+            disabled={saveCommissionMutation.isPending || defaultRate === ""}
+          >
+            Save Rates
+          </Button>
+        </CardContent>
+      </Card>
+
+      {/* Payout batches */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Wallet className="h-5 w-5" />
+            <span>Payout Batches</span>
+          </CardTitle>
+          <CardDescription>
+            Group unpaid tutor earnings into payouts, then mark the batch paid once transfers are sent.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex items-end gap-3">
+            <div>
+              <Label htmlFor="payout-period-end">Include earnings up to</Label>
+              <Input
+                id="payout-period-end"
+                type="date"
+                value={periodEnd}
+                onChange={(e) => setPeriodEnd(e.target.value)}
+              />
+            </div>
+            <Button onClick={() => createBatchMutation.mutate()} disabled={createBatchMutation.isPending}>
+              Run Payout Batch
+            </Button>
+          </div>
+
+          {batchesLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#9B1B30]" />
+            </div>
+          ) : batches.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">No payout batches yet</div>
+          ) : (
+            <div className="space-y-3">
+              {batches.map((b) => {
+                const end = toDate(b.periodEnd);
+                const isExpanded = expandedBatch === b.id;
+                return (
+                  <div key={b.id} className="border rounded-lg p-4">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <div className="font-semibold">
+                          Up to {end ? format(end, "MMM dd, yyyy") : "—"}
+                        </div>
+                        <div className="text-sm text-muted-foreground">
+                          {b.payoutCount} tutor(s) • Net {formatFromCents(b.totalNetCents)} • Commission{" "}
+                          {formatFromCents(b.totalCommissionCents)}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Badge variant={b.status === "paid" ? "default" : "secondary"}>
+                          {b.status === "paid" ? "Paid" : "Pending"}
+                        </Badge>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setExpandedBatch(isExpanded ? null : b.id)}
+                        >
+                          {isExpanded ? "Hide" : "Payouts"}
+                        </Button>
+                        {b.status !== "paid" && (
+                          <Button
+                            size="sm"
+                            onClick={() => markPaidMutation.mutate(b.id)}
+                            disabled={markPaidMutation.isPending}
+                          >
+                            <CheckCircle className="h-4 w-4 mr-1" />
+                            Mark Paid
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+
+                    {isExpanded && (
+                      <div className="mt-4 space-y-2">
+                        {batchPayouts.map((p) => (
+                          <div key={p.id} className="flex items-center justify-between text-sm border-t pt-2">
+                            <span className="font-mono text-xs">{p.tutorId}</span>
+                            <span>
+                              {p.entryCount} item(s) • {formatFromCents(p.netCents)}
+                            </span>
+                            <Button size="sm" variant="ghost" onClick={() => handleDownload(p.id)}>
+                              <Download className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
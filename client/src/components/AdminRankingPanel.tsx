@@ -0,0 +1,221 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { SlidersHorizontal, RotateCcw } from "lucide-react";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type {
+  RankingFactor,
+  RankingProfileId,
+  RankingProfileStats,
+  RankingWeightsConfig,
+} from "@shared/types";
+
+type RankingWeightsResponse = {
+  config: RankingWeightsConfig;
+  defaults: RankingWeightsConfig;
+  stats: RankingProfileStats[];
+};
+
+const FACTORS: Array<{ id: RankingFactor; label: string }> = [
+  { id: "subjectExpertise", label: "Subject expertise" },
+  { id: "ratingScore", label: "Rating" },
+  { id: "successMetrics", label: "Completion & retention" },
+  { id: "availability", label: "Availability" },
+  { id: "valueScore", label: "Value for money" },
+  { id: "experience", label: "Experience" },
+];
+
+const PROFILE_IDS: RankingProfileId[] = ["A", "B"];
+
+function toDate(value: any): Date | null {
+  if (!value) return null;
+  if (typeof value === "object" && typeof value._seconds === "number") {
+    return new Date(value._seconds * 1000);
+  }
+  const d = new Date(value);
+  return isNaN(d.getTime()) ? null : d;
+}
+
+export function AdminRankingPanel() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<RankingWeightsConfig | null>(null);
+
+  const { data, isLoading } = useQuery<RankingWeightsResponse>({
+    queryKey: ["/api/admin/ranking-weights"],
+  });
+
+  useEffect(() => {
+    if (data) setDraft(data.config);
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (config: RankingWeightsConfig) =>
+      apiRequest("/api/admin/ranking-weights", {
+        method: "PUT",
+        body: JSON.stringify({
+          profiles: config.profiles,
+          experimentEnabled: config.experimentEnabled,
+          splitPercent: config.splitPercent,
+        }),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/ranking-weights"] });
+      toast({ title: "Ranking weights saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading || !draft || !data) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#9B1B30]" />
+      </div>
+    );
+  }
+
+  const total = (id: RankingProfileId) =>
+    FACTORS.reduce((sum, f) => sum + (Number(draft.profiles[id].weights[f.id]) || 0), 0);
+  const valid = PROFILE_IDS.every((id) => total(id) === 100 && draft.profiles[id].name.trim());
+
+  const updateProfile = (id: RankingProfileId, patch: Partial<RankingWeightsConfig["profiles"]["A"]>) =>
+    setDraft({ ...draft, profiles: { ...draft.profiles, [id]: { ...draft.profiles[id], ...patch } } });
+
+  const updateWeight = (id: RankingProfileId, factor: RankingFactor, value: string) =>
+    updateProfile(id, { weights: { ...draft.profiles[id].weights, [factor]: Math.max(0, Number(value) || 0) } });
+
+  const startedAt = toDate(data.config.experimentStartedAt);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center space-x-2">
+              <SlidersHorizontal className="h-5 w-5" />
+              <span>Ranking Weights</span>
+            </CardTitle>
+            <CardDescription>
+              Points each factor contributes to a tutor's match score (each profile adds up to 100). Students see
+              the reasons for the most heavily weighted factors first.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => setDraft({ ...draft, profiles: data.defaults.profiles })}>
+            <RotateCcw className="h-4 w-4 mr-1" />
+            Defaults
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid md:grid-cols-2 gap-4">
+          {PROFILE_IDS.map((id) => (
+            <div key={id} className="border rounded-lg p-4 space-y-3">
+              <div className="flex items-center gap-2">
+                <Badge variant={id === "A" ? "default" : "secondary"}>{id}</Badge>
+                <Input
+                  value={draft.profiles[id].name}
+                  onChange={(e) => updateProfile(id, { name: e.target.value })}
+                  className="h-8"
+                />
+              </div>
+              {FACTORS.map((factor) => (
+                <div key={factor.id} className="flex items-center justify-between gap-2">
+                  <Label htmlFor={`weight-${id}-${factor.id}`} className="text-sm">
+                    {factor.label}
+                  </Label>
+                  <Input
+                    id={`weight-${id}-${factor.id}`}
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={draft.profiles[id].weights[factor.id]}
+                    onChange={(e) => updateWeight(id, factor.id, e.target.value)}
+                    className="h-8 w-20 text-right"
+                  />
+                </div>
+              ))}
+              <div className={`text-sm text-right ${total(id) === 100 ? "text-muted-foreground" : "text-red-600"}`}>
+                Total: {total(id)} / 100
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="border rounded-lg p-4 space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <div className="font-medium">A/B experiment</div>
+              <div className="text-sm text-muted-foreground">
+                {draft.experimentEnabled
+                  ? `${draft.splitPercent}% of students are ranked with B, the rest with A.`
+                  : "Off: every student is ranked with profile A."}
+              </div>
+            </div>
+            <Switch
+              checked={draft.experimentEnabled}
+              onCheckedChange={(checked) => setDraft({ ...draft, experimentEnabled: checked })}
+            />
+          </div>
+          {draft.experimentEnabled && (
+            <div className="flex items-center gap-2">
+              <Label htmlFor="ranking-split" className="text-sm">
+                Students on B (%)
+              </Label>
+              <Input
+                id="ranking-split"
+                type="number"
+                min={1}
+                max={99}
+                value={draft.splitPercent}
+                onChange={(e) => setDraft({ ...draft, splitPercent: Number(e.target.value) || 0 })}
+                className="h-8 w-20 text-right"
+              />
+            </div>
+          )}
+          <p className="text-xs text-muted-foreground">
+            Starting the experiment or changing a profile's weights while it runs resets the numbers below.
+          </p>
+        </div>
+
+        {data.config.experimentEnabled && (
+          <div className="space-y-2">
+            <div className="font-medium">
+              Booking conversion{startedAt ? ` since ${format(startedAt, "MMM dd, yyyy")}` : ""}
+            </div>
+            <div className="grid md:grid-cols-2 gap-4">
+              {data.stats.map((s) => (
+                <div key={s.profile} className="border rounded-lg p-4">
+                  <div className="flex items-center gap-2 mb-2">
+                    <Badge variant={s.profile === "A" ? "default" : "secondary"}>{s.profile}</Badge>
+                    <span className="font-medium">{s.name}</span>
+                  </div>
+                  <div className="text-2xl font-bold">{(s.conversionRate * 100).toFixed(1)}%</div>
+                  <div className="text-sm text-muted-foreground">
+                    {s.convertedStudents} of {s.students} students booked a ranked tutor • {s.bookings} bookings •{" "}
+                    {s.rankings} ranked lists served
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <Button onClick={() => saveMutation.mutate(draft)} disabled={!valid || saveMutation.isPending}>
+            {saveMutation.isPending ? "Saving..." : "Save Weights"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
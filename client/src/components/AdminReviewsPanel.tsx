@@ -0,0 +1,247 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Star, EyeOff, Eye, Check, RefreshCw } from "lucide-react";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { Review, ReviewModerationAction, ReviewReport } from "@shared/types";
+
+type PersonSummary = { id: string; firstName?: string; lastName?: string; email?: string } | null;
+
+type QueueReview = Review & {
+  id: string;
+  reports: Array<ReviewReport & { id: string }>;
+  student: PersonSummary;
+  tutor: PersonSummary;
+};
+
+const REASON_LABELS: Record<string, string> = {
+  abusive: "Abusive",
+  spam: "Spam",
+  personal_info: "Personal info",
+  off_topic: "Off topic",
+  other: "Other",
+};
+
+const ACTION_TOASTS: Record<ReviewModerationAction, string> = {
+  hide: "Review hidden",
+  restore: "Review restored",
+  hide_reply: "Reply hidden",
+  dismiss_reports: "Reports dismissed",
+};
+
+function toDate(value: any): Date | null {
+  if (!value) return null;
+  if (typeof value === "object" && typeof value._seconds === "number") {
+    return new Date(value._seconds * 1000);
+  }
+  const d = new Date(value);
+  return isNaN(d.getTime()) ? null : d;
+}
+
+const nameOf = (p: PersonSummary) => `${p?.firstName || ""} ${p?.lastName || ""}`.trim() || "Unknown";
+
+export function AdminReviewsPanel() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [filter, setFilter] = useState<"flagged" | "hidden">("flagged");
+  const [notes, setNotes] = useState<Record<string, string>>({});
+
+  const { data: reviews = [], isLoading } = useQuery<QueueReview[]>({
+    queryKey: ["/api/reviews/admin/queue", filter],
+    queryFn: () => apiRequest(`/api/reviews/admin/queue?filter=${filter}`),
+  });
+
+  const moderateMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: ReviewModerationAction }) =>
+      apiRequest(`/api/reviews/admin/${id}`, {
+        method: "PUT",
+        body: JSON.stringify({ action, note: notes[id]?.trim() || undefined }),
+      }),
+    onSuccess: (_, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reviews/admin/queue"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reviews"] });
+      toast({ title: ACTION_TOASTS[action] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const recomputeMutation = useMutation({
+    mutationFn: async () => apiRequest("/api/reviews/admin/recompute-ratings", { method: "POST" }),
+    onSuccess: (result: { tutors: number }) => {
+      toast({ title: "Ratings recomputed", description: `${result.tutors} tutor profiles updated.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center space-x-2">
+              <Star className="h-5 w-5" />
+              <span>Review Moderation</span>
+            </CardTitle>
+            <CardDescription>
+              Reported reviews and tutor replies. Hidden reviews no longer count towards the tutor's rating.
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => recomputeMutation.mutate()}
+              disabled={recomputeMutation.isPending}
+            >
+              <RefreshCw className={`h-4 w-4 mr-1 ${recomputeMutation.isPending ? "animate-spin" : ""}`} />
+              Recompute Ratings
+            </Button>
+            <Select value={filter} onValueChange={(v: any) => setFilter(v)}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="flagged">Reported</SelectItem>
+                <SelectItem value="hidden">Hidden</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#9B1B30]" />
+          </div>
+        ) : reviews.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            {filter === "flagged" ? "No reported reviews" : "No hidden reviews"}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {reviews.map((review) => {
+              const createdAt = toDate(review.createdAt);
+              const openReports = review.reports.filter((r) => r.status === "open");
+              return (
+                <div key={review.id} className="border rounded-lg p-4 space-y-3">
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <div className="font-semibold">
+                        {nameOf(review.student)} → {nameOf(review.tutor)}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {review.rating}/5 • {createdAt ? format(createdAt, "MMM dd, yyyy") : "—"}
+                        {review.sessionId ? " • verified session" : " • legacy review"}
+                      </div>
+                    </div>
+                    <div className="flex gap-1">
+                      {review.status === "hidden" && <Badge variant="secondary">Hidden</Badge>}
+                      {openReports.length > 0 && (
+                        <Badge className="bg-amber-100 text-amber-800">
+                          {openReports.length} open report{openReports.length === 1 ? "" : "s"}
+                        </Badge>
+                      )}
+                    </div>
+                  </div>
+
+                  {review.comment && <p className="text-sm italic">"{review.comment}"</p>}
+                  {review.reply && (
+                    <div className="p-2 bg-muted/50 rounded border border-border">
+                      <p className="text-xs font-medium text-muted-foreground mb-1">
+                        Tutor reply{review.reply.hidden ? " (hidden)" : ""}:
+                      </p>
+                      <p className="text-sm">{review.reply.text}</p>
+                    </div>
+                  )}
+
+                  {review.reports.length > 0 && (
+                    <div className="space-y-1">
+                      {review.reports.map((report) => (
+                        <div key={report.id} className="text-xs text-muted-foreground">
+                          <Badge variant="outline" className="mr-2 text-[10px]">
+                            {REASON_LABELS[report.reason] ?? report.reason}
+                          </Badge>
+                          {report.details || "No details"}
+                          {report.status === "resolved" && " (resolved)"}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {review.moderation && (
+                    <p className="text-xs text-muted-foreground">
+                      Last action: {review.moderation.action.replace("_", " ")}
+                      {review.moderation.note ? ` — ${review.moderation.note}` : ""}
+                    </p>
+                  )}
+
+                  <Textarea
+                    placeholder="Internal note (optional)"
+                    value={notes[review.id] ?? ""}
+                    onChange={(e) => setNotes({ ...notes, [review.id]: e.target.value })}
+                    rows={2}
+                  />
+                  <div className="flex flex-wrap gap-2">
+                    {review.status === "hidden" ? (
+                      <Button
+                        size="sm"
+                        onClick={() => moderateMutation.mutate({ id: review.id, action: "restore" })}
+                        disabled={moderateMutation.isPending}
+                      >
+                        <Eye className="h-4 w-4 mr-1" />
+                        Restore Review
+                      </Button>
+                    ) : (
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        onClick={() => moderateMutation.mutate({ id: review.id, action: "hide" })}
+                        disabled={moderateMutation.isPending}
+                      >
+                        <EyeOff className="h-4 w-4 mr-1" />
+                        Hide Review
+                      </Button>
+                    )}
+                    {review.reply && !review.reply.hidden && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => moderateMutation.mutate({ id: review.id, action: "hide_reply" })}
+                        disabled={moderateMutation.isPending}
+                      >
+                        <EyeOff className="h-4 w-4 mr-1" />
+                        Hide Reply
+                      </Button>
+                    )}
+                    {openReports.length > 0 && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => moderateMutation.mutate({ id: review.id, action: "dismiss_reports" })}
+                        disabled={moderateMutation.isPending}
+                      >
+                        <Check className="h-4 w-4 mr-1" />
+                        Dismiss Reports
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,268 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { GraduationCap, Plus, Trash2, RotateCcw } from "lucide-react";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { Curriculum, EducationTaxonomy, Subject, SubjectTopic } from "@shared/types";
+
+type TaxonomyResponse = { taxonomy: EducationTaxonomy; defaults: EducationTaxonomy };
+
+// New rows get an id from their name on save; existing ids never change since tutors' levels refer to them
+const slugify = (s: string) =>
+  s
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 40);
+
+const withIds = (curricula: Curriculum[]): Curriculum[] =>
+  curricula.map((c) => ({
+    id: c.id || slugify(c.name),
+    name: c.name.trim(),
+    gradeBands: c.gradeBands.map((b) => ({ id: b.id || slugify(b.label), label: b.label.trim() })),
+  }));
+
+// Topic editor rows: children are typed as a comma-separated list
+type TopicRow = { id: string; name: string; children: string };
+
+const toRows = (topics: SubjectTopic[] = []): TopicRow[] =>
+  topics.map((t) => ({ id: t.id, name: t.name, children: (t.children ?? []).map((c) => c.name).join(", ") }));
+
+const fromRows = (rows: TopicRow[]): SubjectTopic[] =>
+  rows
+    .filter((r) => r.name.trim())
+    .map((r) => {
+      const children = r.children
+        .split(",")
+        .map((name) => name.trim())
+        .filter(Boolean)
+        .map((name) => ({ id: slugify(name), name }));
+      return { id: r.id || slugify(r.name), name: r.name.trim(), ...(children.length && { children }) };
+    });
+
+export function AdminTaxonomyPanel() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [curricula, setCurricula] = useState<Curriculum[]>([]);
+  const [subjectId, setSubjectId] = useState<string>("");
+  const [topics, setTopics] = useState<TopicRow[]>([]);
+
+  const { data: taxonomy, isLoading } = useQuery<EducationTaxonomy>({
+    queryKey: ["/api/taxonomy"],
+  });
+
+  const { data: subjects = [] } = useQuery<Subject[]>({
+    queryKey: ["/api/subjects"],
+  });
+
+  useEffect(() => {
+    if (taxonomy) setCurricula(taxonomy.curricula);
+  }, [taxonomy]);
+
+  useEffect(() => {
+    setTopics(toRows(subjects.find((s) => s.id === subjectId)?.topics));
+  }, [subjectId, subjects]);
+
+  const saveTaxonomyMutation = useMutation({
+    mutationFn: async (next: Curriculum[]): Promise<TaxonomyResponse> =>
+      apiRequest("/api/admin/taxonomy", {
+        method: "PUT",
+        body: JSON.stringify({ curricula: withIds(next) }),
+      }),
+    onSuccess: (result) => {
+      queryClient.setQueryData(["/api/taxonomy"], result.taxonomy);
+      toast({ title: "Taxonomy saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const saveTopicsMutation = useMutation({
+    mutationFn: async () =>
+      apiRequest(`/api/admin/subjects/${subjectId}/topics`, {
+        method: "PUT",
+        body: JSON.stringify({ topics: fromRows(topics) }),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/subjects"] });
+      toast({ title: "Topics saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateCurriculum = (index: number, patch: Partial<Curriculum>) =>
+    setCurricula(curricula.map((c, i) => (i === index ? { ...c, ...patch } : c)));
+
+  const updateTopic = (index: number, patch: Partial<TopicRow>) =>
+    setTopics(topics.map((t, i) => (i === index ? { ...t, ...patch } : t)));
+
+  const resetToDefaults = async () => {
+    const { defaults }: TaxonomyResponse = await apiRequest("/api/admin/taxonomy");
+    setCurricula(defaults.curricula);
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center space-x-2">
+                <GraduationCap className="h-5 w-5" />
+                <span>Curricula & Grade Bands</span>
+              </CardTitle>
+              <CardDescription>
+                Tutors pick the levels they teach from this list; students filter by it in search and the match wizard.
+              </CardDescription>
+            </div>
+            <Button variant="outline" size="sm" onClick={resetToDefaults}>
+              <RotateCcw className="h-4 w-4 mr-1" />
+              Defaults
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#9B1B30]" />
+            </div>
+          ) : (
+            curricula.map((curriculum, ci) => (
+              <div key={ci} className="border rounded-lg p-4 space-y-3">
+                <div className="flex items-center gap-2">
+                  <Input
+                    value={curriculum.name}
+                    onChange={(e) => updateCurriculum(ci, { name: e.target.value })}
+                    placeholder="Curriculum name"
+                  />
+                  {curriculum.id && (
+                    <span className="text-xs text-muted-foreground whitespace-nowrap">{curriculum.id}</span>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setCurricula(curricula.filter((_, i) => i !== ci))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                <div className="space-y-2 pl-4">
+                  {curriculum.gradeBands.map((band, bi) => (
+                    <div key={bi} className="flex items-center gap-2">
+                      <Input
+                        value={band.label}
+                        onChange={(e) =>
+                          updateCurriculum(ci, {
+                            gradeBands: curriculum.gradeBands.map((b, i) =>
+                              i === bi ? { ...b, label: e.target.value } : b
+                            ),
+                          })
+                        }
+                        placeholder="Grade band"
+                        className="h-8 text-sm"
+                      />
+                      {band.id && <span className="text-xs text-muted-foreground whitespace-nowrap">{band.id}</span>}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() =>
+                          updateCurriculum(ci, { gradeBands: curriculum.gradeBands.filter((_, i) => i !== bi) })
+                        }
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  ))}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() =>
+                      updateCurriculum(ci, { gradeBands: [...curriculum.gradeBands, { id: "", label: "" }] })
+                    }
+                  >
+                    <Plus className="h-3 w-3 mr-1" />
+                    Add band
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+          <div className="flex justify-between">
+            <Button
+              variant="outline"
+              onClick={() => setCurricula([...curricula, { id: "", name: "", gradeBands: [] }])}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add curriculum
+            </Button>
+            <Button onClick={() => saveTaxonomyMutation.mutate(curricula)} disabled={saveTaxonomyMutation.isPending}>
+              {saveTaxonomyMutation.isPending ? "Saving..." : "Save Taxonomy"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Subject Topics</CardTitle>
+          <CardDescription>Topics and their subtopics for a subject, e.g. Algebra: Linear equations, Quadratics.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Select value={subjectId} onValueChange={setSubjectId}>
+            <SelectTrigger className="w-64">
+              <SelectValue placeholder="Choose a subject" />
+            </SelectTrigger>
+            <SelectContent>
+              {subjects.map((s) => (
+                <SelectItem key={s.id} value={s.id}>
+                  {s.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {subjectId && (
+            <>
+              {topics.map((topic, ti) => (
+                <div key={ti} className="grid md:grid-cols-[1fr_2fr_auto] gap-2">
+                  <Input
+                    value={topic.name}
+                    onChange={(e) => updateTopic(ti, { name: e.target.value })}
+                    placeholder="Topic"
+                  />
+                  <Input
+                    value={topic.children}
+                    onChange={(e) => updateTopic(ti, { children: e.target.value })}
+                    placeholder="Subtopics, comma-separated"
+                  />
+                  <Button variant="ghost" size="sm" onClick={() => setTopics(topics.filter((_, i) => i !== ti))}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <div className="flex justify-between">
+                <Button variant="outline" onClick={() => setTopics([...topics, { id: "", name: "", children: "" }])}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add topic
+                </Button>
+                <Button onClick={() => saveTopicsMutation.mutate()} disabled={saveTopicsMutation.isPending}>
+                  {saveTopicsMutation.isPending ? "Saving..." : "Save Topics"}
+                </Button>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -14,6 +14,7 @@ import {
   updateProfile,
 } from "firebase/auth";
 import { auth } from "@/lib/firebase";
+import { connectRealtime, disconnectRealtime, subscribeRealtime } from "@/lib/realtime";
 import { useQueryClient } from "@tanstack/react-query";
 
 type Role = "student" | "tutor" | "admin" | null;
@@ -25,6 +26,7 @@ interface User {
   lastName?: string | null;
   profileImageUrl?: string | null;
   role?: Role;
+  timezone?: string | null;
 }
 
 interface MeResponse {
@@ -119,6 +121,25 @@ export function AuthProvider({ children }: AuthProviderProps) {
     return unsubscribe;
   }, [queryClient]);
 
+  // Realtime push channel for the signed-in user; new notifications refresh the lists and badges
+  useEffect(() => {
+    if (!firebaseUser) {
+      disconnectRealtime();
+      return;
+    }
+    connectRealtime(() => firebaseUser.getIdToken().catch(() => null));
+    const unsubscribe = subscribeRealtime((event) => {
+      if (event.type === "notification:new") {
+        queryClient.invalidateQueries({ queryKey: ["notifications"] });
+        queryClient.invalidateQueries({ queryKey: ["unread-notifications-count"] });
+      }
+    });
+    return () => {
+      unsubscribe();
+      disconnectRealtime();
+    };
+  }, [firebaseUser, queryClient]);
+
   useEffect(() => {
     const originalFetch = window.fetch;
 
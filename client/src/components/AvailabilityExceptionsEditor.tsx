@@ -0,0 +1,251 @@
+// client/src/components/AvailabilityExceptionsEditor.tsx
+import { useMemo, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import { CalendarOff, CalendarPlus, Loader2, Trash2 } from "lucide-react";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { AvailabilityException, AvailabilityExceptionType } from "@shared/types";
+
+interface AvailabilityExceptionsEditorProps {
+  exceptions: AvailabilityException[];
+}
+
+const ymd = (d: Date) => format(d, "yyyy-MM-dd");
+
+// Every date covered by the given exceptions, for calendar highlighting
+function coveredDates(list: AvailabilityException[]): Date[] {
+  const dates: Date[] = [];
+  for (const e of list) {
+    const cur = parseISO(e.startDate);
+    const end = parseISO(e.endDate);
+    while (cur <= end) {
+      dates.push(new Date(cur));
+      cur.setDate(cur.getDate() + 1);
+    }
+  }
+  return dates;
+}
+
+/**
+ * Calendar editor for date-specific availability: vacation ranges, single
+ * blocked days and one-off extra hours. Overrides the weekly schedule for
+ * booking and the public availability endpoint.
+ */
+export function AvailabilityExceptionsEditor({ exceptions }: AvailabilityExceptionsEditorProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [range, setRange] = useState<DateRange | undefined>(undefined);
+  const [type, setType] = useState<AvailabilityExceptionType>("time_off");
+  const [startTime, setStartTime] = useState("09:00");
+  const [endTime, setEndTime] = useState("12:00");
+  const [note, setNote] = useState("");
+
+  const today = ymd(new Date());
+  const upcoming = useMemo(
+    () =>
+      exceptions
+        .filter((e) => e.endDate >= today)
+        .sort((a, b) => a.startDate.localeCompare(b.startDate)),
+    [exceptions, today],
+  );
+
+  const saveMutation = useMutation({
+    // Past exceptions are dropped on every save so the profile stays small
+    mutationFn: async (next: AvailabilityException[]) =>
+      apiRequest("/api/tutors/profile", {
+        method: "PUT",
+        body: JSON.stringify({ availabilityExceptions: next.filter((e) => e.endDate >= today) }),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tutors/profile"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tutors"] });
+      toast({ title: "Availability updated" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleAdd = () => {
+    if (!range?.from) return;
+    if (type === "extra_slot" && !(startTime < endTime)) {
+      toast({ title: "Invalid hours", description: "End time must be after start time.", variant: "destructive" });
+      return;
+    }
+
+    const added: AvailabilityException = {
+      id: crypto.randomUUID(),
+      type,
+      startDate: ymd(range.from),
+      endDate: ymd(range.to ?? range.from),
+      startTime: type === "extra_slot" ? startTime : null,
+      endTime: type === "extra_slot" ? endTime : null,
+      note: note.trim() || null,
+    };
+
+    saveMutation.mutate([...upcoming, added], {
+      onSuccess: () => {
+        setRange(undefined);
+        setNote("");
+      },
+    });
+  };
+
+  const handleRemove = (id: string) => {
+    saveMutation.mutate(upcoming.filter((e) => e.id !== id));
+  };
+
+  const describe = (e: AvailabilityException) => {
+    const from = format(parseISO(e.startDate), "MMM dd, yyyy");
+    const to = format(parseISO(e.endDate), "MMM dd, yyyy");
+    const dates = e.startDate === e.endDate ? from : `${from} – ${to}`;
+    return e.type === "extra_slot" ? `${dates}, ${e.startTime}–${e.endTime}` : dates;
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarOff className="h-5 w-5 text-[#9B1B30]" />
+          Time Off & Extra Hours
+        </CardTitle>
+        <CardDescription>
+          Block vacations or single days, or open extra hours on specific dates. These override your
+          weekly schedule.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid md:grid-cols-2 gap-6">
+          <Calendar
+            mode="range"
+            selected={range}
+            onSelect={setRange}
+            disabled={(d) => ymd(d) < today}
+            modifiers={{
+              timeOff: coveredDates(upcoming.filter((e) => e.type === "time_off")),
+              extra: coveredDates(upcoming.filter((e) => e.type === "extra_slot")),
+            }}
+            modifiersClassNames={{
+              timeOff: "line-through text-red-600",
+              extra: "font-bold text-green-700",
+            }}
+            className="rounded-md border"
+          />
+
+          <div className="space-y-4">
+            <div>
+              <Label>Type</Label>
+              <Select value={type} onValueChange={(v) => setType(v as AvailabilityExceptionType)}>
+                <SelectTrigger className="mt-2" data-testid="select-exception-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="time_off">Time off (not bookable)</SelectItem>
+                  <SelectItem value="extra_slot">Extra hours</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {type === "extra_slot" && (
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label htmlFor="exception-start">From</Label>
+                  <Input
+                    id="exception-start"
+                    type="time"
+                    step={900}
+                    value={startTime}
+                    onChange={(e) => setStartTime(e.target.value)}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="exception-end">To</Label>
+                  <Input
+                    id="exception-end"
+                    type="time"
+                    step={900}
+                    value={endTime}
+                    onChange={(e) => setEndTime(e.target.value)}
+                  />
+                </div>
+              </div>
+            )}
+
+            <div>
+              <Label htmlFor="exception-note">Note (optional)</Label>
+              <Input
+                id="exception-note"
+                value={note}
+                maxLength={200}
+                placeholder="e.g. Eid holiday"
+                onChange={(e) => setNote(e.target.value)}
+              />
+            </div>
+
+            <p className="text-sm text-muted-foreground">
+              {range?.from
+                ? `Selected: ${format(range.from, "MMM dd")}${
+                    range.to && ymd(range.to) !== ymd(range.from) ? ` – ${format(range.to, "MMM dd")}` : ""
+                  }`
+                : "Select a day or a range on the calendar."}
+            </p>
+
+            <Button
+              onClick={handleAdd}
+              disabled={!range?.from || saveMutation.isPending}
+              data-testid="button-add-exception"
+            >
+              {saveMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <CalendarPlus className="h-4 w-4 mr-2" />
+              )}
+              Add
+            </Button>
+          </div>
+        </div>
+
+        {upcoming.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No upcoming time off or extra hours.</p>
+        ) : (
+          <div className="space-y-2">
+            {upcoming.map((e) => (
+              <div
+                key={e.id}
+                className="flex items-center justify-between border rounded-md p-3 text-sm"
+                data-testid={`exception-${e.id}`}
+              >
+                <div className="flex items-center gap-3">
+                  <Badge variant={e.type === "time_off" ? "destructive" : "secondary"}>
+                    {e.type === "time_off" ? "Time off" : "Extra hours"}
+                  </Badge>
+                  <span>{describe(e)}</span>
+                  {e.note && <span className="text-muted-foreground">— {e.note}</span>}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleRemove(e.id)}
+                  disabled={saveMutation.isPending}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -9,27 +9,45 @@ import { Badge } from "@/components/ui/badge";
 import { Calendar } from "@/components/ui/calendar";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { formatMoney } from "@/lib/currency";
+import { formatDate, formatDateTime, formatTime, viewerTimeZone } from "@/lib/timezone";
+import { resolveTimeZone, toZonedYMD } from "@shared/timezone";
 import { PaymentModal } from "@/components/PaymentModal";
 
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
-import type { CreateSession, SessionStatus } from "@shared/types";
+import type {
+  AvailabilityException,
+  CreateSession,
+  Payment,
+  PaymentMethod,
+  SeriesFrequency,
+  SessionStatus,
+} from "@shared/types";
 import { AlertCircle } from "lucide-react";
 
 type BookingModalProps = {
   tutor: any;
   onClose: () => void;
   onConfirm: () => void;
+  // Pre-selected slot from an availability search: a day in the tutor's zone and its slot labels
+  initialSlot?: { date: string; slotStarts: string[]; subjectId?: string } | null;
 };
 
 type CreateSessionPayload = Omit<CreateSession, "scheduledAt"> & {
   scheduledAt: string;
 };
 
-type Slot = { start: string; end: string; available: boolean; at: string };
+// start/end are wall-clock labels in the tutor's zone; at/endAt are ISO with that zone's offset
+type Slot = { start: string; end: string; available: boolean; at: string; endAt: string };
+
+type RepeatMode = "none" | SeriesFrequency;
+type SeriesOccurrence = { scheduledAt: string; ok: boolean; reason: string | null };
+
+const MAX_SERIES_OCCURRENCES = 26; // matches server cap
 
 // Match server DAY_KEYS order: 0 = sunday, 1 = monday, ...
 const DAY_KEYS = [
@@ -70,7 +88,90 @@ async function postSession(payload: CreateSessionPayload) {
   }
 }
 
-export function BookingModal({ tutor, onClose, onConfirm }: BookingModalProps) {
+type BookingRequest = {
+  session: Omit<CreateSessionPayload, "paymentId" | "priceCents">;
+  method: PaymentMethod;
+  // Set for recurring bookings; the session fields describe the first occurrence
+  series?: { frequency: SeriesFrequency; occurrences?: number; until?: string; count: number };
+};
+
+async function postJson<T>(url: string, body: unknown, fallbackMessage: string): Promise<T> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    credentials: "include",
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data?.message || `${fallbackMessage} (${response.status})`);
+  }
+  return data as T;
+}
+
+// Open a payment intent priced by the server and place the hold on it.
+// The returned payment id is what POST /api/sessions requires.
+async function authorizeBookingPayment(session: BookingRequest["session"], method: PaymentMethod) {
+  const intent = await postJson<Payment & { id: string }>(
+    "/api/payments/intents",
+    {
+      tutorId: session.tutorId,
+      subjectId: session.subjectId,
+      durationMinutes: session.duration,
+      method,
+    },
+    "Failed to start payment"
+  );
+
+  return postJson<Payment & { id: string }>(
+    `/api/payments/${intent.id}/authorize`,
+    {},
+    "Payment was not authorized"
+  );
+}
+
+// Release a hold whose booking failed. Best effort: the server voids
+// unclaimed holds on a schedule as well.
+async function releasePayment(paymentId: string) {
+  await postJson(`/api/payments/${paymentId}/void`, {}, "Failed to release payment").catch((error) =>
+    console.error("❌ Failed to release payment hold:", error)
+  );
+}
+
+// Every occurrence is charged separately, so a series holds one payment per session.
+// If any authorization or the booking itself fails, every hold placed so far is released.
+async function postSeries(session: BookingRequest["session"], method: PaymentMethod, series: NonNullable<BookingRequest["series"]>) {
+  const paymentIds: string[] = [];
+  try {
+    for (let i = 0; i < series.count; i++) {
+      const payment = await authorizeBookingPayment(session, method);
+      paymentIds.push(payment.id);
+    }
+
+    return await postJson<{ id: string; sessions: unknown[] }>(
+      "/api/session-series",
+      {
+        tutorId: session.tutorId,
+        subjectId: session.subjectId,
+        scheduledAt: session.scheduledAt,
+        duration: session.duration,
+        frequency: series.frequency,
+        occurrences: series.occurrences,
+        until: series.until,
+        paymentIds,
+        notes: session.notes,
+        timeSlots: session.timeSlots,
+      },
+      "Failed to book recurring sessions"
+    );
+  } catch (error) {
+    await Promise.all(paymentIds.map(releasePayment));
+    throw error;
+  }
+}
+
+export function BookingModal({ tutor, onClose, onConfirm, initialSlot }: BookingModalProps) {
   const { user } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -82,18 +183,35 @@ export function BookingModal({ tutor, onClose, onConfirm }: BookingModalProps) {
       : { id: s?.id ?? String(idx), name: s?.name ?? String(s) }
   );
 
-  const [selectedDate, setSelectedDate] = useState<Date | undefined>(new Date());
-  const [selectedSlots, setSelectedSlots] = useState<string[]>([]);
-  const [selectedSubject, setSelectedSubject] = useState<string>(tutorSubjects[0]?.id ?? "");
+  const [selectedDate, setSelectedDate] = useState<Date | undefined>(() => {
+    if (!initialSlot) return new Date();
+    const [y, m, d] = initialSlot.date.split("-").map(Number);
+    return new Date(y, m - 1, d);
+  });
+  const [selectedSlots, setSelectedSlots] = useState<string[]>(initialSlot?.slotStarts ?? []);
+  const [selectedSubject, setSelectedSubject] = useState<string>(
+    tutorSubjects.some((s: { id: string }) => s.id === initialSlot?.subjectId)
+      ? initialSlot!.subjectId!
+      : tutorSubjects[0]?.id ?? ""
+  );
   const [notes, setNotes] = useState<string>("");
 
   const [slots, setSlots] = useState<Slot[]>([]);
+  const [tutorTimeZone, setTutorTimeZone] = useState<string | null>(null);
   const [loadingSlots, setLoadingSlots] = useState(false);
   const [slotsError, setSlotsError] = useState<string | null>(null);
 
   // Track specific calendar dates that turned out to have no available slots
   const [unavailableDates, setUnavailableDates] = useState<Set<string>>(new Set());
 
+  // Recurring booking
+  const [repeat, setRepeat] = useState<RepeatMode>("none");
+  const [repeatEnd, setRepeatEnd] = useState<"count" | "until">("count");
+  const [repeatCount, setRepeatCount] = useState<number>(4);
+  const [repeatUntil, setRepeatUntil] = useState<string>("");
+  const [seriesPreview, setSeriesPreview] = useState<SeriesOccurrence[]>([]);
+  const [seriesError, setSeriesError] = useState<string | null>(null);
+
   // Payment modal state
   const [showPaymentModal, setShowPaymentModal] = useState(false);
 
@@ -116,6 +234,70 @@ export function BookingModal({ tutor, onClose, onConfirm }: BookingModalProps) {
   const platformFee = useMemo(() => sessionCost * 0.1, [sessionCost]);
   const totalPrice = useMemo(() => sessionCost + platformFee, [sessionCost, platformFee]);
 
+  // Times are shown in the viewer's zone; the calendar date is a day in the tutor's zone
+  const timeZone = viewerTimeZone(user);
+  const slotLabel = (s: Slot) => `${formatTime(new Date(s.at), timeZone)} - ${formatTime(new Date(s.endAt), timeZone)}`;
+
+  // Start of the (first) session: the earliest selected slot, as the server computed it
+  const scheduledAt = useMemo(() => {
+    if (!selectedDate || selectedSlots.length === 0) return null;
+    const first = slots.find((s) => s.start === [...selectedSlots].sort()[0]);
+    return first ? new Date(first.at) : null;
+  }, [selectedDate, selectedSlots, slots]);
+
+  const seriesEnd = useMemo(
+    () =>
+      repeatEnd === "count"
+        ? { occurrences: Math.min(Math.max(repeatCount || 2, 2), MAX_SERIES_OCCURRENCES) }
+        : { until: repeatUntil || undefined },
+    [repeatEnd, repeatCount, repeatUntil]
+  );
+
+  const occurrenceCount = repeat === "none" ? 1 : seriesPreview.length;
+  const seriesBlocked = repeat !== "none" && (seriesPreview.length === 0 || seriesPreview.some((o) => !o.ok));
+  const grandTotal = totalPrice * Math.max(occurrenceCount, 1);
+
+  // Check every occurrence of a recurring booking against the tutor's schedule
+  useEffect(() => {
+    if (repeat === "none" || !scheduledAt || !tutor?.id || !selectedSubject) {
+      setSeriesPreview([]);
+      setSeriesError(null);
+      return;
+    }
+    if (repeatEnd === "until" && !repeatUntil) {
+      setSeriesPreview([]);
+      return;
+    }
+
+    let cancelled = false;
+    postJson<{ occurrences: SeriesOccurrence[] }>(
+      "/api/session-series/preview",
+      {
+        tutorId: String(tutor.id),
+        subjectId: selectedSubject,
+        scheduledAt: scheduledAt.toISOString(),
+        duration,
+        frequency: repeat,
+        ...seriesEnd,
+      },
+      "Failed to check recurring dates"
+    )
+      .then((data) => {
+        if (cancelled) return;
+        setSeriesPreview(data.occurrences ?? []);
+        setSeriesError(null);
+      })
+      .catch((e: any) => {
+        if (cancelled) return;
+        setSeriesPreview([]);
+        setSeriesError(e?.message || "Failed to check recurring dates");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [repeat, repeatEnd, repeatUntil, seriesEnd, scheduledAt, duration, selectedSubject, tutor?.id]);
+
   // Fetch availability for selected date
   useEffect(() => {
     async function load() {
@@ -139,6 +321,7 @@ export function BookingModal({ tutor, onClose, onConfirm }: BookingModalProps) {
 
         const serverSlots: Slot[] = Array.isArray(data?.slots) ? data.slots : [];
         setSlots(serverSlots);
+        setTutorTimeZone(typeof data?.timeZone === "string" ? data.timeZone : null);
 
         // If this date has no available slots, mark it as unavailable
         if (serverSlots.length === 0 || serverSlots.every((s) => !s.available)) {
@@ -164,24 +347,32 @@ export function BookingModal({ tutor, onClose, onConfirm }: BookingModalProps) {
     load();
   }, [tutor?.id, selectedDate]);
 
+  // Calendar days are days of the tutor's calendar: availability is fetched for that date in their zone
+  const tutorZone = resolveTimeZone(tutorTimeZone ?? tutor?.timezone);
+
   // Disable dates:
-  // - Past dates
-  // - Weekdays where tutor.availability[key].isAvailable === false
+  // - Dates already over in the tutor's time zone
+  // - Dates inside a time-off exception
+  // - Weekdays where tutor.availability[key].isAvailable === false (unless an extra slot opens that date)
   // - Concrete dates we already know are fully unavailable (unavailableDates)
   const isDateDisabled = (date: Date) => {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
     const candidate = new Date(date);
     candidate.setHours(0, 0, 0, 0);
+    const ymd = format(candidate, "yyyy-MM-dd");
+
+    // Disable past dates (the tutor's today, not the browser's)
+    if (ymd < toZonedYMD(new Date(), tutorZone)) return true;
 
-    // Disable past dates
-    if (candidate < today) return true;
+    // Date-specific exceptions override the weekly pattern (same rules as the server)
+    const exceptions: AvailabilityException[] = (tutor as any)?.availabilityExceptions ?? [];
+    const covering = exceptions.filter((e) => e.startDate <= ymd && ymd <= e.endDate);
+    if (covering.some((e) => e.type === "time_off")) return true;
+    const hasExtraSlot = covering.some((e) => e.type === "extra_slot");
 
     // Disable full off-days based on weekly availability (matches server DAY_KEYS / toDayKey)
     const key = toDayKey(candidate);
     const weeklyAvailability = (tutor as any)?.availability;
-    if (weeklyAvailability) {
+    if (weeklyAvailability && !hasExtraSlot) {
       const dayAvail = weeklyAvailability[key];
       if (!dayAvail || dayAvail.isAvailable === false) {
         return true;
@@ -189,8 +380,7 @@ export function BookingModal({ tutor, onClose, onConfirm }: BookingModalProps) {
     }
 
     // Disable dates we already discovered as having no slots
-    const yyyy_mm_dd = format(candidate, "yyyy-MM-dd");
-    if (unavailableDates.has(yyyy_mm_dd)) return true;
+    if (unavailableDates.has(ymd)) return true;
 
     return false;
   };
@@ -207,14 +397,31 @@ export function BookingModal({ tutor, onClose, onConfirm }: BookingModalProps) {
   };
 
   const m = useMutation({
-    mutationFn: (payload: CreateSessionPayload) => postSession(payload),
+    mutationFn: async ({ session, method, series }: BookingRequest) => {
+      if (series) return postSeries(session, method, series);
+
+      const payment = await authorizeBookingPayment(session, method);
+      try {
+        return await postSession({
+          ...session,
+          paymentId: payment.id,
+          priceCents: payment.sessionPriceCents,
+        });
+      } catch (error) {
+        await releasePayment(payment.id);
+        throw error;
+      }
+    },
 
     onSuccess: (created: any) => {
       console.log("✅ Booking successful:", created);
 
       toast({
         title: "Success",
-        description: "Session request sent to the tutor. It will appear as pending until accepted.",
+        description:
+          occurrenceCount > 1
+            ? `${occurrenceCount} recurring session requests sent to the tutor. They will appear as pending until accepted.`
+            : "Session request sent to the tutor. It will appear as pending until accepted.",
         duration: 3000,
       });
 
@@ -266,22 +473,27 @@ export function BookingModal({ tutor, onClose, onConfirm }: BookingModalProps) {
       return;
     }
 
+    if (seriesBlocked) {
+      toast({
+        title: "Recurring dates unavailable",
+        description: seriesError ?? "Some repeat dates cannot be booked. Adjust the schedule and try again.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     // Show payment modal instead of directly booking
+    m.reset();
     setShowPaymentModal(true);
   };
 
-  const handlePaymentConfirmation = (paymentMethod: string) => {
-    if (!user?.id || !selectedDate || selectedSlots.length === 0) return;
-
-    // Use the first selected slot as the start time
-    const firstSlot = [...selectedSlots].sort()[0];
-    const [hh, mm] = firstSlot.split(":").map((n) => parseInt(n, 10));
-    const scheduledAt = new Date(selectedDate);
-    scheduledAt.setHours(hh, mm, 0, 0);
+  const handlePaymentConfirmation = (paymentMethod: PaymentMethod) => {
+    if (!user?.id || !scheduledAt) return;
 
     const tutorProfileId: string = String(tutor?.id || "");
 
-    const payload: CreateSessionPayload = {
+    // priceCents is set from the authorized payment, not computed here
+    const payload: BookingRequest["session"] = {
       studentId: user.id,
       tutorId: tutorProfileId,
       subjectId: selectedSubject,
@@ -290,13 +502,16 @@ export function BookingModal({ tutor, onClose, onConfirm }: BookingModalProps) {
       timeSlots: [...selectedSlots].sort(), // Store individual time slots
       notes,
       meetingLink: undefined,
-      priceCents: Math.round(sessionCost * 100),
       status: "pending" as SessionStatus, // request starts as pending
     };
 
     console.log("📤 Booking session with payload:", payload);
     console.log("💳 Payment method selected:", paymentMethod);
-    m.mutate(payload);
+    m.mutate({
+      session: payload,
+      method: paymentMethod,
+      series: repeat === "none" ? undefined : { frequency: repeat, ...seriesEnd, count: seriesPreview.length },
+    });
   };
 
   return (
@@ -440,7 +655,7 @@ export function BookingModal({ tutor, onClose, onConfirm }: BookingModalProps) {
                             : ""
                         }
                       >
-                        {s.start} - {s.end}
+                        {slotLabel(s)}
                       </Button>
                     ))}
                   </div>
@@ -449,9 +664,84 @@ export function BookingModal({ tutor, onClose, onConfirm }: BookingModalProps) {
               <p className="text-xs text-muted-foreground mt-2">
                 💡 Click multiple slots for longer sessions
               </p>
+              {tutorTimeZone && tutorTimeZone !== timeZone && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  Times are shown in your time zone ({timeZone}). The tutor's schedule is in {tutorTimeZone}.
+                </p>
+              )}
             </div>
           </div>
 
+          {/* Repeat */}
+          <div>
+            <Label className="text-base font-medium">Repeat</Label>
+            <div className="mt-2 grid md:grid-cols-3 gap-3">
+              <Select value={repeat} onValueChange={(v) => setRepeat(v as RepeatMode)}>
+                <SelectTrigger data-testid="select-repeat">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Does not repeat</SelectItem>
+                  <SelectItem value="weekly">Weekly</SelectItem>
+                  <SelectItem value="biweekly">Every 2 weeks</SelectItem>
+                </SelectContent>
+              </Select>
+              {repeat !== "none" && (
+                <>
+                  <Select value={repeatEnd} onValueChange={(v) => setRepeatEnd(v as "count" | "until")}>
+                    <SelectTrigger data-testid="select-repeat-end">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="count">For a number of sessions</SelectItem>
+                      <SelectItem value="until">Until a date</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {repeatEnd === "count" ? (
+                    <Input
+                      type="number"
+                      min={2}
+                      max={MAX_SERIES_OCCURRENCES}
+                      value={repeatCount}
+                      onChange={(e) => setRepeatCount(parseInt(e.target.value, 10) || 0)}
+                      data-testid="input-repeat-count"
+                    />
+                  ) : (
+                    <Input
+                      type="date"
+                      value={repeatUntil}
+                      min={selectedDate ? format(selectedDate, "yyyy-MM-dd") : undefined}
+                      onChange={(e) => setRepeatUntil(e.target.value)}
+                      data-testid="input-repeat-until"
+                    />
+                  )}
+                </>
+              )}
+            </div>
+
+            {repeat !== "none" && scheduledAt && (
+              <div className="mt-3 space-y-1 text-sm">
+                {seriesError ? (
+                  <Alert variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>{seriesError}</AlertDescription>
+                  </Alert>
+                ) : (
+                  seriesPreview.map((o) => (
+                    <div key={o.scheduledAt} className="flex justify-between">
+                      <span>{formatDateTime(new Date(o.scheduledAt), timeZone)}</span>
+                      {o.ok ? (
+                        <span className="text-green-600">Available</span>
+                      ) : (
+                        <span className="text-destructive">{o.reason}</span>
+                      )}
+                    </div>
+                  ))
+                )}
+              </div>
+            )}
+          </div>
+
           {/* Notes */}
           <div>
             <Label htmlFor="notes" className="text-base font-medium">
@@ -480,19 +770,22 @@ export function BookingModal({ tutor, onClose, onConfirm }: BookingModalProps) {
                   </span>
                 </div>
               )}
-              {selectedDate && selectedSlots.length > 0 && (
+              {scheduledAt && selectedSlots.length > 0 && (
                 <>
                   <div className="flex justify-between">
                     <span>Date & Time:</span>
                     <span className="font-medium">
-                      {format(selectedDate, "MMM dd, yyyy")} at {selectedSlots.sort()[0]}
+                      {formatDate(scheduledAt, timeZone)} at {formatTime(scheduledAt, timeZone)}
                     </span>
                   </div>
                   {selectedSlots.length > 1 && (
                     <div className="flex justify-between">
                       <span>Time Slots:</span>
                       <span className="font-medium text-xs">
-                        {selectedSlots.sort().join(", ")}
+                        {slots
+                          .filter((s) => selectedSlots.includes(s.start))
+                          .map((s) => formatTime(new Date(s.at), timeZone))
+                          .join(", ")}
                       </span>
                     </div>
                   )}
@@ -518,10 +811,18 @@ export function BookingModal({ tutor, onClose, onConfirm }: BookingModalProps) {
                 <span className="font-medium">{formatMoney(platformFee)}
 </span>
               </div>
+              {occurrenceCount > 1 && (
+                <div className="flex justify-between">
+                  <span>Sessions:</span>
+                  <span className="font-medium">
+                    {occurrenceCount} × {formatMoney(totalPrice)}
+                  </span>
+                </div>
+              )}
               <div className="border-t border-border pt-2 flex justify-between font-semibold">
                 <span>Total:</span>
 <span data-testid="text-total-price">
-  {formatMoney(totalPrice)}
+  {formatMoney(grandTotal)}
 </span>              </div>
             </div>
           </div>
@@ -538,7 +839,7 @@ export function BookingModal({ tutor, onClose, onConfirm }: BookingModalProps) {
             </Button>
             <Button
               onClick={handleBooking}
-              disabled={m.isPending || !selectedDate || selectedSlots.length === 0 || user?.role === "tutor"}
+              disabled={m.isPending || !selectedDate || selectedSlots.length === 0 || seriesBlocked || user?.role === "tutor"}
               className="flex-1 btn-primary"
               data-testid="button-confirm-booking"
             >
@@ -550,7 +851,7 @@ export function BookingModal({ tutor, onClose, onConfirm }: BookingModalProps) {
               ) : (
                 <>
   <i className="fas fa-credit-card mr-2" />
-  Confirm &amp; Pay {formatMoney(totalPrice)}
+  Confirm &amp; Pay {formatMoney(grandTotal)}
 </>
 
               )}
@@ -563,10 +864,11 @@ export function BookingModal({ tutor, onClose, onConfirm }: BookingModalProps) {
     {/* Payment Modal */}
     {showPaymentModal && (
       <PaymentModal
-        totalAmount={totalPrice}
+        totalAmount={grandTotal}
         onClose={() => setShowPaymentModal(false)}
         onConfirmPayment={handlePaymentConfirmation}
         isProcessing={m.isPending}
+        errorMessage={m.error ? (m.error as Error).message : null}
       />
     )}
     </>
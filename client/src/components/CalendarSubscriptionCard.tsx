@@ -0,0 +1,93 @@
+// client/src/components/CalendarSubscriptionCard.tsx
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { CalendarCheck, Copy, RefreshCw } from "lucide-react";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+type Subscription = { url: string };
+
+/**
+ * Secret iCal feed URL of the user's sessions, for Google/Apple/Outlook
+ * calendar subscriptions. Rotating the URL revokes the old one.
+ */
+export function CalendarSubscriptionCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery<Subscription>({
+    queryKey: ["/api/calendar/subscription"],
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: async (): Promise<Subscription> =>
+      apiRequest("/api/calendar/subscription/rotate", { method: "POST" }),
+    onSuccess: (next) => {
+      queryClient.setQueryData(["/api/calendar/subscription"], next);
+      toast({ title: "Calendar link replaced", description: "Subscribe again with the new link." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleCopy = async () => {
+    if (!data?.url) return;
+    try {
+      await navigator.clipboard.writeText(data.url);
+      toast({ title: "Link copied" });
+    } catch {
+      toast({ title: "Could not copy", description: "Select the link and copy it manually.", variant: "destructive" });
+    }
+  };
+
+  const webcalUrl = data?.url.replace(/^https?:\/\//, "webcal://");
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarCheck className="h-5 w-5 text-[#9B1B30]" />
+          Calendar Sync
+        </CardTitle>
+        <CardDescription>
+          Subscribe to this private link in your phone or computer calendar to see your confirmed
+          sessions there. Keep it secret: anyone with the link can see your schedule.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex gap-2">
+          <Input
+            readOnly
+            value={isLoading ? "Loading…" : data?.url ?? ""}
+            onFocus={(e) => e.target.select()}
+            data-testid="input-calendar-feed-url"
+          />
+          <Button variant="outline" onClick={handleCopy} disabled={!data?.url}>
+            <Copy className="h-4 w-4" />
+          </Button>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {webcalUrl && (
+            <Button asChild size="sm">
+              <a href={webcalUrl}>Open in calendar app</a>
+            </Button>
+          )}
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => rotateMutation.mutate()}
+            disabled={rotateMutation.isPending || !data?.url}
+            data-testid="button-rotate-calendar-feed"
+          >
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Replace link
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,82 @@
+// client/src/components/ChatAttachment.tsx
+import { useEffect, useState } from "react";
+import { FileText, ImageIcon, Loader2 } from "lucide-react";
+
+import { useToast } from "@/hooks/use-toast";
+import { chatAttachmentUrl, fetchAttachmentBlobUrl, formatFileSize, openChatAttachment } from "@/lib/chatAttachments";
+import type { MessageAttachment } from "@shared/types";
+
+/** Image thumbnail or file chip for a chat message; clicking opens the full file */
+export function ChatAttachment({ attachment, className = "" }: { attachment: MessageAttachment; className?: string }) {
+  const { toast } = useToast();
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [previewFailed, setPreviewFailed] = useState(false);
+  const [opening, setOpening] = useState(false);
+
+  useEffect(() => {
+    if (!attachment.isImage) return;
+    let cancelled = false;
+    let objectUrl: string | null = null;
+    fetchAttachmentBlobUrl(chatAttachmentUrl(attachment.id, "thumbnail"))
+      .then((url) => {
+        if (cancelled) URL.revokeObjectURL(url);
+        else setPreviewUrl((objectUrl = url));
+      })
+      .catch(() => !cancelled && setPreviewFailed(true));
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [attachment.id, attachment.isImage]);
+
+  const handleOpen = async () => {
+    setOpening(true);
+    try {
+      await openChatAttachment(attachment);
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message || "Failed to open attachment", variant: "destructive" });
+    } finally {
+      setOpening(false);
+    }
+  };
+
+  if (attachment.isImage && !previewFailed) {
+    return (
+      <button
+        type="button"
+        onClick={handleOpen}
+        className={`block overflow-hidden rounded-md ${className}`}
+        title={attachment.fileName}
+        data-testid={`attachment-${attachment.id}`}
+      >
+        {previewUrl ? (
+          <img src={previewUrl} alt={attachment.fileName} className="max-h-48 w-full object-cover" />
+        ) : (
+          <div className="flex h-32 w-48 items-center justify-center bg-black/10">
+            <ImageIcon className="h-6 w-6 opacity-60" />
+          </div>
+        )}
+      </button>
+    );
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={handleOpen}
+      disabled={opening}
+      className={`flex w-full items-center gap-2 rounded-md bg-black/10 p-2 text-left ${className}`}
+      data-testid={`attachment-${attachment.id}`}
+    >
+      {opening ? (
+        <Loader2 className="h-5 w-5 flex-shrink-0 animate-spin" />
+      ) : (
+        <FileText className="h-5 w-5 flex-shrink-0" />
+      )}
+      <span className="min-w-0">
+        <span className="block truncate text-sm font-medium">{attachment.fileName}</span>
+        <span className="block text-xs opacity-75">{formatFileSize(attachment.fileSize)}</span>
+      </span>
+    </button>
+  );
+}
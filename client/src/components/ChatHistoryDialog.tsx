@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useInfiniteQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import {
   Dialog,
   DialogContent,
@@ -14,6 +14,8 @@ import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { apiRequest } from "@/lib/queryClient";
 import { format } from "date-fns";
+import { ChatAttachment } from "@/components/ChatAttachment";
+import type { MessageAttachment } from "@shared/types";
 
 interface ChatHistoryDialogProps {
   userId: string;
@@ -37,20 +39,27 @@ type ChatMessage = {
   receiverId: string;
   content: string;
   fileUrl?: string | null;
+  attachment?: MessageAttachment | null;
   read: boolean;
   createdAt: string;
   sender?: ChatUser | null;
   receiver?: ChatUser | null;
 };
 
-type ConversationGroup = {
-  partnerId: string;
-  partnerName: string;
-  partnerRole: string;
-  partnerAvatar?: string | null;
-  messages: ChatMessage[];
+type ConversationSummary = {
+  id: string;
+  otherUser: ChatUser | null;
+  messageCount: number;
+  unreadCount: number;
+  lastActivityAt: string;
 };
 
+type ConversationPage = { conversations: ConversationSummary[]; nextCursor: string | null };
+type MessagePage = { messages: ChatMessage[]; nextCursor: string | null };
+
+const partnerNameOf = (c: ConversationSummary) =>
+  c.otherUser ? `${c.otherUser.firstName || ""} ${c.otherUser.lastName || ""}`.trim() || "Unknown" : "Unknown";
+
 export function ChatHistoryDialog({
   userId,
   userType,
@@ -60,53 +69,60 @@ export function ChatHistoryDialog({
 }: ChatHistoryDialogProps) {
   const [selectedConversation, setSelectedConversation] = useState<string | null>(null);
 
-  // Fetch all messages for this user
-  const { data: messages, isLoading } = useQuery<ChatMessage[]>({
-    queryKey: [`/api/admin/${userType}s`, userId, "messages"],
-    queryFn: () => apiRequest(`/api/admin/${userType}s/${userId}/messages`),
+  const queryClient = useQueryClient();
+
+  // Conversations come from the inbox index, most recent first
+  const {
+    data: conversationPages,
+    isLoading,
+    hasNextPage: hasMoreConversations,
+    fetchNextPage: fetchMoreConversations,
+    isFetchingNextPage: fetchingMoreConversations,
+  } = useInfiniteQuery({
+    queryKey: ["/api/conversations", userId],
+    queryFn: ({ pageParam }): Promise<ConversationPage> =>
+      apiRequest(
+        `/api/conversations?userId=${encodeURIComponent(userId)}&limit=50${
+          pageParam ? `&cursor=${encodeURIComponent(pageParam)}` : ""
+        }`
+      ),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
     enabled: open,
   });
+  const conversations = conversationPages?.pages.flatMap((p) => p.conversations) ?? [];
 
-  // Group messages by conversation partner
-  const conversations: ConversationGroup[] = [];
-  if (messages && messages.length > 0) {
-    const conversationMap = new Map<string, ConversationGroup>();
-
-    messages.forEach((message) => {
-      // Determine who the conversation partner is
-      const isUserSender = message.senderId === userId;
-      const partnerId = isUserSender ? message.receiverId : message.senderId;
-      const partner = isUserSender ? message.receiver : message.sender;
-
-      if (!conversationMap.has(partnerId)) {
-        conversationMap.set(partnerId, {
-          partnerId,
-          partnerName: partner
-            ? `${partner.firstName || ""} ${partner.lastName || ""}`.trim() || "Unknown"
-            : "Unknown",
-          partnerRole: partner?.role || "unknown",
-          partnerAvatar: partner?.profileImageUrl,
-          messages: [],
-        });
-      }
-
-      conversationMap.get(partnerId)!.messages.push(message);
-    });
-
-    conversations.push(...Array.from(conversationMap.values()));
+  // Messages of the selected conversation, loaded a page at a time going back
+  const {
+    data: messagePages,
+    isLoading: messagesLoading,
+    hasNextPage: hasOlderMessages,
+    fetchNextPage: fetchOlderMessages,
+    isFetchingNextPage: fetchingOlderMessages,
+  } = useInfiniteQuery({
+    queryKey: ["/api/admin/conversations", selectedConversation, "messages"],
+    queryFn: ({ pageParam }): Promise<MessagePage> =>
+      apiRequest(
+        `/api/admin/conversations/${selectedConversation}/messages?limit=50${
+          pageParam ? `&before=${encodeURIComponent(pageParam)}` : ""
+        }`
+      ),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: open && !!selectedConversation,
+  });
+  const selectedMessages = messagePages ? [...messagePages.pages].reverse().flatMap((p) => p.messages) : [];
 
-    // Sort conversations by latest message
-    conversations.sort((a, b) => {
-      const latestA = a.messages[a.messages.length - 1];
-      const latestB = b.messages[b.messages.length - 1];
-      return new Date(latestB.createdAt).getTime() - new Date(latestA.createdAt).getTime();
-    });
-  }
+  // Conversations that predate the index only show up after a rebuild
+  const rebuildMutation = useMutation({
+    mutationFn: async () => apiRequest("/api/admin/conversations/rebuild", { method: "POST" }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/conversations"] }),
+  });
 
   // Auto-select first conversation when dialog opens
   useEffect(() => {
     if (open && conversations.length > 0 && !selectedConversation) {
-      setSelectedConversation(conversations[0].partnerId);
+      setSelectedConversation(conversations[0].id);
     }
   }, [open, conversations, selectedConversation]);
 
@@ -117,7 +133,7 @@ export function ChatHistoryDialog({
     }
   }, [open]);
 
-  const selectedConv = conversations.find((c) => c.partnerId === selectedConversation);
+  const selectedConv = conversations.find((c) => c.id === selectedConversation);
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -140,6 +156,14 @@ export function ChatHistoryDialog({
             <div className="text-center">
               <i className="fas fa-comments text-3xl text-muted-foreground mb-2" />
               <p className="text-sm text-muted-foreground">No messages found</p>
+              <Button
+                variant="link"
+                size="sm"
+                onClick={() => rebuildMutation.mutate()}
+                disabled={rebuildMutation.isPending}
+              >
+                {rebuildMutation.isPending ? "Rebuilding…" : "Rebuild conversation index"}
+              </Button>
             </div>
           </div>
         ) : (
@@ -155,30 +179,41 @@ export function ChatHistoryDialog({
                 <div className="p-2 space-y-1">
                   {conversations.map((conv) => (
                     <Button
-                      key={conv.partnerId}
-                      variant={selectedConversation === conv.partnerId ? "secondary" : "ghost"}
+                      key={conv.id}
+                      variant={selectedConversation === conv.id ? "secondary" : "ghost"}
                       className="w-full justify-start h-auto py-3 px-3"
-                      onClick={() => setSelectedConversation(conv.partnerId)}
+                      onClick={() => setSelectedConversation(conv.id)}
                     >
                       <Avatar className="w-10 h-10 mr-3">
-                        <AvatarImage src={conv.partnerAvatar || undefined} />
+                        <AvatarImage src={conv.otherUser?.profileImageUrl || undefined} />
                         <AvatarFallback>
-                          {conv.partnerName.split(" ").map((n) => n[0]).join("")}
+                          {partnerNameOf(conv).split(" ").map((n) => n[0]).join("")}
                         </AvatarFallback>
                       </Avatar>
                       <div className="flex-1 text-left min-w-0">
-                        <div className="font-medium text-sm truncate">{conv.partnerName}</div>
+                        <div className="font-medium text-sm truncate">{partnerNameOf(conv)}</div>
                         <div className="flex items-center gap-2">
                           <Badge variant="outline" className="text-xs">
-                            {conv.partnerRole}
+                            {conv.otherUser?.role || "unknown"}
                           </Badge>
                           <span className="text-xs text-muted-foreground">
-                            {conv.messages.length} messages
+                            {conv.messageCount} messages
                           </span>
                         </div>
                       </div>
                     </Button>
                   ))}
+                  {hasMoreConversations && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="w-full"
+                      onClick={() => fetchMoreConversations()}
+                      disabled={fetchingMoreConversations}
+                    >
+                      {fetchingMoreConversations ? "Loading…" : "Load more"}
+                    </Button>
+                  )}
                 </div>
               </ScrollArea>
             </div>
@@ -190,17 +225,17 @@ export function ChatHistoryDialog({
                   <div className="p-4 border-b">
                     <div className="flex items-center space-x-3">
                       <Avatar className="w-10 h-10">
-                        <AvatarImage src={selectedConv.partnerAvatar || undefined} />
+                        <AvatarImage src={selectedConv.otherUser?.profileImageUrl || undefined} />
                         <AvatarFallback>
-                          {selectedConv.partnerName.split(" ").map((n) => n[0]).join("")}
+                          {partnerNameOf(selectedConv).split(" ").map((n) => n[0]).join("")}
                         </AvatarFallback>
                       </Avatar>
                       <div>
-                        <h3 className="font-semibold">{selectedConv.partnerName}</h3>
+                        <h3 className="font-semibold">{partnerNameOf(selectedConv)}</h3>
                         <div className="flex items-center gap-2">
-                          <Badge variant="secondary">{selectedConv.partnerRole}</Badge>
+                          <Badge variant="secondary">{selectedConv.otherUser?.role || "unknown"}</Badge>
                           <span className="text-xs text-muted-foreground">
-                            {selectedConv.messages.length} messages
+                            {selectedConv.messageCount} messages
                           </span>
                         </div>
                       </div>
@@ -209,13 +244,31 @@ export function ChatHistoryDialog({
 
                   <ScrollArea className="flex-1 p-4">
                     <div className="space-y-4 max-w-4xl mx-auto">
-                      {selectedConv.messages.map((message, index) => {
+                      {messagesLoading && (
+                        <div className="text-center text-sm text-muted-foreground">
+                          <i className="fas fa-spinner fa-spin mr-2" />
+                          Loading messages...
+                        </div>
+                      )}
+                      {hasOlderMessages && (
+                        <div className="flex justify-center">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => fetchOlderMessages()}
+                            disabled={fetchingOlderMessages}
+                          >
+                            {fetchingOlderMessages ? "Loading…" : "Load earlier messages"}
+                          </Button>
+                        </div>
+                      )}
+                      {selectedMessages.map((message, index) => {
                         const isUserMessage = message.senderId === userId;
                         const showDateSeparator =
                           index === 0 ||
                           format(new Date(message.createdAt), "yyyy-MM-dd") !==
                             format(
-                              new Date(selectedConv.messages[index - 1].createdAt),
+                              new Date(selectedMessages[index - 1].createdAt),
                               "yyyy-MM-dd"
                             );
 
@@ -267,7 +320,11 @@ export function ChatHistoryDialog({
                                     <p className="text-sm whitespace-pre-wrap break-words">
                                       {message.content}
                                     </p>
-                                    {message.fileUrl && (
+                                    {message.attachment ? (
+                                      <div className="mt-2 pt-2 border-t border-current/20">
+                                        <ChatAttachment attachment={message.attachment} />
+                                      </div>
+                                    ) : message.fileUrl && (
                                       <div className="mt-2 pt-2 border-t border-current/20">
                                         <a
                                           href={message.fileUrl}
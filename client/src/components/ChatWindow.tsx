@@ -1,5 +1,11 @@
 import { useState, useEffect, useRef } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  useInfiniteQuery,
+  useQuery,
+  useMutation,
+  useQueryClient,
+  type InfiniteData,
+} from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -8,7 +14,24 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { sendRealtime } from "@/lib/realtime";
+import { useRealtimeConnected, useRealtimeEvent } from "@/hooks/useRealtime";
 import { format } from "date-fns";
+import { Paperclip, ShieldAlert, X } from "lucide-react";
+import { ChatAttachment } from "@/components/ChatAttachment";
+import { ModerationAppealDialog } from "@/components/ModerationAppealDialog";
+import {
+  CHAT_ATTACHMENT_ACCEPT,
+  CHAT_ATTACHMENT_MAX_BYTES,
+  formatFileSize,
+  uploadChatAttachment,
+  type UploadedChatAttachment,
+} from "@/lib/chatAttachments";
+import type { MessageAttachment, ModerationAppeal, ModerationViolation } from "@shared/types";
+
+const TYPING_SEND_INTERVAL_MS = 2500;
+const TYPING_DISPLAY_MS = 5000;
+const MESSAGE_PAGE_SIZE = 30;
 
 interface ChatWindowProps {
   userId: string; // other participant (student or tutor)
@@ -26,13 +49,32 @@ type ChatMessage = {
   id: string;
   senderId: string;
   receiverId: string;
+  sessionId?: string | null;
   content: string;
+  attachment?: MessageAttachment | null;
   read: boolean;
   createdAt: string;
   sender?: ChatUser | null;
   receiver?: ChatUser | null;
 };
 
+// One page of history, oldest first; nextCursor fetches the page before it
+type MessagePage = { messages: ChatMessage[]; nextCursor: string | null };
+
+type ModerationStatus = {
+  strikes: number;
+  strikeThreshold: number;
+  suspendedUntil: string | null;
+  violations: Array<ModerationViolation & { id: string; appeal: ModerationAppeal | null }>;
+};
+
+type BlockedNotice = {
+  message: string;
+  violationId?: string;
+  strikes?: number;
+  strikeThreshold?: number;
+};
+
 export function ChatWindow({ userId, onClose }: ChatWindowProps) {
   const { user } = useAuth();
   const { toast } = useToast();
@@ -40,18 +82,52 @@ export function ChatWindow({ userId, onClose }: ChatWindowProps) {
 
   const [newMessage, setNewMessage] = useState("");
   const [hasMarkedRead, setHasMarkedRead] = useState(false);
+  const [otherIsTyping, setOtherIsTyping] = useState(false);
+  const [pendingAttachment, setPendingAttachment] = useState<UploadedChatAttachment | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [blockedNotice, setBlockedNotice] = useState<BlockedNotice | null>(null);
+  const [appealViolationId, setAppealViolationId] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const lastTypingSentRef = useRef(0);
+  const typingTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const realtime = useRealtimeConnected();
 
-  // Fetch full conversation with this user
+  // Conversation with this user, newest page first; older pages load on demand
   const {
-    data: messages,
+    data: history,
     isLoading,
-  } = useQuery<ChatMessage[]>({
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
     queryKey: ["/api/messages", userId],
-    queryFn: () => apiRequest(`/api/messages/${userId}`),
-    refetchInterval: 15000, // Optimized: 15s instead of 5s for chat
+    queryFn: ({ pageParam }): Promise<MessagePage> =>
+      apiRequest(
+        `/api/messages/${userId}?limit=${MESSAGE_PAGE_SIZE}${pageParam ? `&before=${encodeURIComponent(pageParam)}` : ""}`,
+      ),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    // New messages are pushed over the realtime socket; poll only while it is down
+    refetchInterval: realtime ? false : 15000,
     staleTime: 10000, // Cache for 10s
   });
+  const messages = history ? [...history.pages].reverse().flatMap((p) => p.messages) : undefined;
+  const lastMessageId = messages?.[messages.length - 1]?.id;
+
+  const updateMessages = (fn: (pages: MessagePage[]) => MessagePage[]) =>
+    queryClient.setQueryData<InfiniteData<MessagePage, string | null>>(["/api/messages", userId], (prev) =>
+      prev ? { ...prev, pages: fn(prev.pages) } : prev,
+    );
+
+  const { data: moderation } = useQuery<ModerationStatus>({
+    queryKey: ["/api/moderation/me"],
+  });
+  const suspendedUntil =
+    moderation?.suspendedUntil && new Date(moderation.suspendedUntil) > new Date()
+      ? new Date(moderation.suspendedUntil)
+      : null;
+  const appealableViolation = moderation?.violations.find((v) => v.status === "active" && !v.appealId);
 
   // Fetch the "other" user for header
   const { data: otherUser } = useQuery<ChatUser>({
@@ -60,23 +136,38 @@ export function ChatWindow({ userId, onClose }: ChatWindowProps) {
   });
 
   const sendMessageMutation = useMutation({
-    mutationFn: async (content: string) => {
+    mutationFn: async ({ content, attachmentId }: { content: string; attachmentId?: string }) => {
       return await apiRequest("/api/messages", {
         method: "POST",
         body: JSON.stringify({
           receiverId: userId,
           content,
+          attachmentId,
         }),
       });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/messages", userId] });
       setNewMessage("");
+      setPendingAttachment(null);
+      setBlockedNotice(null);
+      lastTypingSentRef.current = 0;
+      sendRealtime({ type: "typing", toUserId: userId, isTyping: false });
     },
     onError: (error: any) => {
       // Handle blocked messages with specific error messages
-      const errorMessage = error?.message || "Failed to send message";
-      const isBlocked = error?.blocked === true;
+      const errorMessage = error?.data?.message || error?.message || "Failed to send message";
+      const isBlocked = error?.data?.blocked === true;
+
+      if (isBlocked) {
+        queryClient.invalidateQueries({ queryKey: ["/api/moderation/me"] });
+        setBlockedNotice({
+          message: errorMessage,
+          violationId: error.data.violationId,
+          strikes: error.data.strikes,
+          strikeThreshold: error.data.strikeThreshold,
+        });
+      }
 
       toast({
         title: isBlocked ? "⚠️ Message Blocked" : "Error",
@@ -101,13 +192,58 @@ export function ChatWindow({ userId, onClose }: ChatWindowProps) {
     },
   });
 
-  // Scroll to bottom whenever messages change
+  useRealtimeEvent((event) => {
+    if (event.type === "message:new") {
+      const m = event.message as ChatMessage;
+      if (m.senderId !== userId && m.receiverId !== userId) return;
+      updateMessages((pages) =>
+        pages.some((p) => p.messages.some((x) => x.id === m.id))
+          ? pages
+          : [{ ...pages[0], messages: [...pages[0].messages, m] }, ...pages.slice(1)],
+      );
+      if (m.senderId === userId) {
+        setOtherIsTyping(false);
+        markAsReadMutation.mutate();
+      }
+    } else if (event.type === "message:read" && event.readerId === userId) {
+      updateMessages((pages) =>
+        pages.map((p) => ({
+          ...p,
+          messages: p.messages.map((x) => (x.receiverId === userId ? { ...x, read: true } : x)),
+        })),
+      );
+    } else if (event.type === "typing" && event.fromUserId === userId) {
+      setOtherIsTyping(event.isTyping);
+      if (typingTimeoutRef.current) clearTimeout(typingTimeoutRef.current);
+      // Stop showing the indicator if the "stopped typing" frame never arrives
+      if (event.isTyping) typingTimeoutRef.current = setTimeout(() => setOtherIsTyping(false), TYPING_DISPLAY_MS);
+    }
+  });
+
+  useEffect(
+    () => () => {
+      if (typingTimeoutRef.current) clearTimeout(typingTimeoutRef.current);
+    },
+    [],
+  );
+
+  const handleInputChange = (value: string) => {
+    setNewMessage(value);
+    const nowMs = Date.now();
+    if (value.trim() && nowMs - lastTypingSentRef.current > TYPING_SEND_INTERVAL_MS) {
+      lastTypingSentRef.current = nowMs;
+      sendRealtime({ type: "typing", toUserId: userId, isTyping: true });
+    }
+  };
+
+  // Scroll to bottom when a new message arrives (not when older pages load)
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages]);
+  }, [lastMessageId]);
 
   useEffect(() => {
     setHasMarkedRead(false);
+    setPendingAttachment(null);
   }, [userId]);
 
   // Mark as read once when messages load
@@ -116,13 +252,36 @@ export function ChatWindow({ userId, onClose }: ChatWindowProps) {
       markAsReadMutation.mutate();
       setHasMarkedRead(true);
     }
-  }, [messages, hasMarkedRead, markAsReadMutation]);
+  }, [messages?.length, hasMarkedRead, markAsReadMutation]);
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    if (file.size > CHAT_ATTACHMENT_MAX_BYTES) {
+      toast({
+        title: "File too large",
+        description: `Attachments can be at most ${formatFileSize(CHAT_ATTACHMENT_MAX_BYTES)}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      setPendingAttachment(await uploadChatAttachment(file, userId));
+    } catch (error: any) {
+      toast({ title: "Upload failed", description: error.message || "Failed to upload file", variant: "destructive" });
+    } finally {
+      setIsUploading(false);
+    }
+  };
 
   const handleSendMessage = (e: React.FormEvent) => {
     e.preventDefault();
     const trimmed = newMessage.trim();
-    if (!trimmed) return;
-    sendMessageMutation.mutate(trimmed);
+    if (!trimmed && !pendingAttachment) return;
+    sendMessageMutation.mutate({ content: trimmed, attachmentId: pendingAttachment?.id });
   };
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
@@ -155,7 +314,7 @@ export function ChatWindow({ userId, onClose }: ChatWindowProps) {
                 </CardTitle>
                 <div className="flex items-center space-x-1">
                   <div className="w-2 h-2 bg-green-400 rounded-full" />
-                  <span className="text-xs opacity-90">Online</span>
+                  <span className="text-xs opacity-90">{otherIsTyping ? "typing…" : "Online"}</span>
                 </div>
               </div>
             </div>
@@ -191,8 +350,24 @@ export function ChatWindow({ userId, onClose }: ChatWindowProps) {
               </div>
             ) : Array.isArray(messages) && messages.length > 0 ? (
               <div className="space-y-3">
-                {messages.map((message) => {
+                {hasNextPage && (
+                  <div className="flex justify-center">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-xs"
+                      onClick={() => fetchNextPage()}
+                      disabled={isFetchingNextPage}
+                      data-testid="button-load-older-messages"
+                    >
+                      {isFetchingNextPage ? "Loading…" : "Load earlier messages"}
+                    </Button>
+                  </div>
+                )}
+                {messages.map((message, index) => {
                   const isOwnMessage = message.senderId === user?.id;
+                  const isLastOwn =
+                    isOwnMessage && !messages.slice(index + 1).some((m) => m.senderId === user?.id);
                   return (
                     <div
                       key={message.id}
@@ -207,10 +382,22 @@ export function ChatWindow({ userId, onClose }: ChatWindowProps) {
                               : "bg-muted text-foreground"
                           }`}
                         >
-                          <p className="text-sm">{message.content}</p>
+                          {message.attachment && (
+                            <ChatAttachment
+                              attachment={message.attachment}
+                              className={message.content ? "mb-2" : ""}
+                            />
+                          )}
+                          {message.content && <p className="text-sm">{message.content}</p>}
                         </div>
                         <p className="text-xs text-muted-foreground mt-1 px-1">
+                          {message.sessionId && (
+                            <span className="mr-1" title="Sent in a session thread">
+                              <i className="fas fa-calendar-alt" /> Session ·
+                            </span>
+                          )}
                           {format(new Date(message.createdAt), "HH:mm")}
+                          {isLastOwn && message.read && " · Seen"}
                         </p>
                       </div>
                       {!isOwnMessage && (
@@ -239,20 +426,106 @@ export function ChatWindow({ userId, onClose }: ChatWindowProps) {
 
           {/* Message Input */}
           <div className="p-4 border-t flex-shrink-0">
+            {suspendedUntil ? (
+              <div className="mb-2 rounded-md border border-red-200 bg-red-50 p-2 text-xs text-red-800">
+                <div className="flex items-center gap-1 font-medium">
+                  <ShieldAlert className="h-3 w-3" />
+                  Chat suspended until {format(suspendedUntil, "MMM d, HH:mm")}
+                </div>
+                <p>Too many messages were blocked for sharing contact details.</p>
+                {appealableViolation && (
+                  <button
+                    type="button"
+                    className="mt-1 underline"
+                    onClick={() => setAppealViolationId(appealableViolation.id)}
+                    data-testid="button-appeal-suspension"
+                  >
+                    Appeal a strike
+                  </button>
+                )}
+              </div>
+            ) : (
+              blockedNotice && (
+                <div className="mb-2 rounded-md border border-amber-200 bg-amber-50 p-2 text-xs text-amber-900">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="flex items-center gap-1 font-medium">
+                      <ShieldAlert className="h-3 w-3" />
+                      Message blocked
+                      {blockedNotice.strikes != null &&
+                        ` · strike ${blockedNotice.strikes} of ${blockedNotice.strikeThreshold}`}
+                    </span>
+                    <button type="button" onClick={() => setBlockedNotice(null)} aria-label="Dismiss">
+                      <X className="h-3 w-3" />
+                    </button>
+                  </div>
+                  {blockedNotice.violationId &&
+                    !moderation?.violations.some((v) => v.id === blockedNotice.violationId && v.appealId) && (
+                    <button
+                      type="button"
+                      className="mt-1 underline"
+                      onClick={() => setAppealViolationId(blockedNotice.violationId!)}
+                      data-testid="button-appeal-block"
+                    >
+                      Appeal this decision
+                    </button>
+                  )}
+                </div>
+              )
+            )}
+            {pendingAttachment && (
+              <div className="mb-2 flex items-center gap-2 rounded-md bg-muted px-2 py-1 text-xs">
+                <Paperclip className="h-3 w-3 flex-shrink-0" />
+                <span className="min-w-0 flex-1 truncate">{pendingAttachment.fileName}</span>
+                <span className="text-muted-foreground">{formatFileSize(pendingAttachment.fileSize)}</span>
+                <button
+                  type="button"
+                  onClick={() => setPendingAttachment(null)}
+                  aria-label="Remove attachment"
+                  data-testid="button-remove-attachment"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </div>
+            )}
             <form onSubmit={handleSendMessage} className="flex space-x-2">
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={CHAT_ATTACHMENT_ACCEPT}
+                className="hidden"
+                onChange={handleFileSelected}
+                data-testid="input-attachment"
+              />
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                className="px-2"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={!!suspendedUntil || isUploading || sendMessageMutation.isPending}
+                aria-label="Attach a file"
+                data-testid="button-attach-file"
+              >
+                {isUploading ? <i className="fas fa-spinner fa-spin" /> : <Paperclip className="h-4 w-4" />}
+              </Button>
               <Input
                 value={newMessage}
-                onChange={(e) => setNewMessage(e.target.value)}
+                onChange={(e) => handleInputChange(e.target.value)}
                 onKeyPress={handleKeyPress}
-                placeholder="Type a message..."
+                placeholder={suspendedUntil ? "Chat suspended" : "Type a message..."}
                 className="flex-1"
-                disabled={sendMessageMutation.isPending}
+                disabled={!!suspendedUntil || sendMessageMutation.isPending}
                 data-testid="input-message"
               />
               <Button
                 type="submit"
                 size="sm"
-                disabled={!newMessage.trim() || sendMessageMutation.isPending}
+                disabled={
+                  !!suspendedUntil ||
+                  (!newMessage.trim() && !pendingAttachment) ||
+                  isUploading ||
+                  sendMessageMutation.isPending
+                }
                 data-testid="button-send-message"
               >
                 {sendMessageMutation.isPending ? (
@@ -265,6 +538,10 @@ export function ChatWindow({ userId, onClose }: ChatWindowProps) {
           </div>
         </CardContent>
       </Card>
+      <ModerationAppealDialog
+        violationId={appealViolationId}
+        onOpenChange={(open) => !open && setAppealViolationId(null)}
+      />
     </div>
   );
 }
@@ -0,0 +1,87 @@
+// client/src/components/ModerationAppealDialog.tsx
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+interface ModerationAppealDialogProps {
+  violationId: string | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+/** Ask an admin to review a blocked chat message; one appeal per strike */
+export function ModerationAppealDialog({ violationId, onOpenChange }: ModerationAppealDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    if (violationId) setReason("");
+  }, [violationId]);
+
+  const appealMutation = useMutation({
+    mutationFn: async () =>
+      apiRequest("/api/moderation/appeals", {
+        method: "POST",
+        body: JSON.stringify({ violationId, reason: reason.trim() }),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/moderation/me"] });
+      toast({ title: "Appeal sent", description: "An administrator will review it and notify you." });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={!!violationId} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Appeal blocked message</DialogTitle>
+          <DialogDescription>
+            Tell us why this message did not share contact details. If the appeal is accepted the strike is
+            removed.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="appeal-reason">Reason</Label>
+          <Textarea
+            id="appeal-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="e.g. The numbers were page numbers from the homework sheet"
+            rows={4}
+            maxLength={1000}
+            data-testid="input-appeal-reason"
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => appealMutation.mutate()}
+            disabled={reason.trim().length < 10 || appealMutation.isPending}
+            data-testid="button-submit-appeal"
+          >
+            Submit Appeal
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -15,6 +15,7 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { useAuth } from "@/components/AuthProvider";
 import { useToast } from "@/hooks/use-toast";
+import { useRealtimeConnected } from "@/hooks/useRealtime";
 import {
   User,
   Settings,
@@ -62,7 +63,8 @@ export default function Navbar() {
     enabled: !!user, // avoid 401 spam before login
   });
 
-  // Unread notifications (poll)
+  // Unread notifications (poll only while the realtime socket is down)
+  const realtime = useRealtimeConnected();
   const { data: unread = 0 } = useQuery({
     queryKey: ["unread-notifications-count"],
     enabled: !!user, // only poll when signed in
@@ -75,7 +77,7 @@ export default function Navbar() {
       const json = await res.json();
       return Number(json?.unread ?? 0);
     },
-    refetchInterval: 30_000, // Optimized: 30s instead of 15s
+    refetchInterval: realtime ? false : 30_000, // pushed over the realtime socket when connected
     staleTime: 20_000, // Optimized: 20s instead of 10s
   });
 
@@ -0,0 +1,159 @@
+// client/src/components/NotificationPreferencesCard.tsx
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Bell } from "lucide-react";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { NotificationChannelPreference, NotificationPreferences, NotificationType } from "@shared/types";
+
+type NotificationEventInfo = {
+  type: NotificationType;
+  label: string;
+  description: string;
+  defaults: NotificationChannelPreference;
+};
+
+type NotificationSettings = {
+  preferences: NotificationPreferences;
+  events: NotificationEventInfo[];
+};
+
+/** In-app / email routing per notification type, quiet hours and the daily digest */
+export function NotificationPreferencesCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data } = useQuery<NotificationSettings>({
+    queryKey: ["/api/me/notification-preferences"],
+  });
+
+  const [prefs, setPrefs] = useState<NotificationPreferences | null>(null);
+  useEffect(() => {
+    if (data) setPrefs(data.preferences);
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (next: NotificationPreferences) =>
+      apiRequest("/api/me/notification-preferences", { method: "PUT", body: JSON.stringify(next) }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/me/notification-preferences"] });
+      toast({ title: "Notification settings saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (!data || !prefs) return null;
+
+  const channelsOf = (e: NotificationEventInfo) => prefs.events[e.type] ?? e.defaults;
+  const setChannel = (e: NotificationEventInfo, channel: keyof NotificationChannelPreference, on: boolean) =>
+    setPrefs({ ...prefs, events: { ...prefs.events, [e.type]: { ...channelsOf(e), [channel]: on } } });
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Bell className="h-5 w-5 text-[#9B1B30]" />
+          Notifications
+        </CardTitle>
+        <CardDescription>Choose how you hear about each kind of update. Turn both off to mute it.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <div className="grid grid-cols-[1fr_auto_auto] gap-x-6 px-3 text-xs font-medium text-muted-foreground">
+            <span />
+            <span>In-app</span>
+            <span>Email</span>
+          </div>
+          {data.events.map((e) => {
+            const channels = channelsOf(e);
+            return (
+              <div
+                key={e.type}
+                className="grid grid-cols-[1fr_auto_auto] items-center gap-x-6 rounded-md border p-3"
+              >
+                <div>
+                  <div className="text-sm font-medium">{e.label}</div>
+                  <div className="text-xs text-muted-foreground">{e.description}</div>
+                </div>
+                <Switch
+                  aria-label={`${e.label} in-app`}
+                  checked={channels.inApp}
+                  onCheckedChange={(checked) => setChannel(e, "inApp", checked)}
+                />
+                <Switch
+                  aria-label={`${e.label} email`}
+                  checked={channels.email}
+                  onCheckedChange={(checked) => setChannel(e, "email", checked)}
+                />
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="space-y-3 rounded-md border p-3">
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="quiet-hours">Quiet hours</Label>
+              <p className="text-xs text-muted-foreground">
+                Emails are held until these hours end (your time zone). In-app notifications still arrive.
+              </p>
+            </div>
+            <Switch
+              id="quiet-hours"
+              checked={prefs.quietHours.enabled}
+              onCheckedChange={(checked) =>
+                setPrefs({ ...prefs, quietHours: { ...prefs.quietHours, enabled: checked } })
+              }
+            />
+          </div>
+          {prefs.quietHours.enabled && (
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-muted-foreground">From</span>
+              <Input
+                type="time"
+                className="w-32"
+                value={prefs.quietHours.start}
+                onChange={(ev) => setPrefs({ ...prefs, quietHours: { ...prefs.quietHours, start: ev.target.value } })}
+              />
+              <span className="text-sm text-muted-foreground">to</span>
+              <Input
+                type="time"
+                className="w-32"
+                value={prefs.quietHours.end}
+                onChange={(ev) => setPrefs({ ...prefs, quietHours: { ...prefs.quietHours, end: ev.target.value } })}
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between rounded-md border p-3">
+          <div>
+            <Label htmlFor="daily-digest">Daily digest</Label>
+            <p className="text-xs text-muted-foreground">One email a day listing notifications you have not read.</p>
+          </div>
+          <Switch
+            id="daily-digest"
+            checked={prefs.dailyDigest}
+            onCheckedChange={(checked) => setPrefs({ ...prefs, dailyDigest: checked })}
+          />
+        </div>
+
+        <Button
+          onClick={() => saveMutation.mutate(prefs)}
+          disabled={saveMutation.isPending}
+          data-testid="button-save-notification-preferences"
+        >
+          Save Notification Settings
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
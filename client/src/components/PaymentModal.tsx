@@ -4,14 +4,14 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { Label } from "@/components/ui/label";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { formatMoney } from "@/lib/currency";
-
-type PaymentMethod = "paypal" | "applepay" | "benefitpay";
+import type { PaymentMethod } from "@shared/types";
 
 type PaymentModalProps = {
   totalAmount: number;
   onClose: () => void;
   onConfirmPayment: (paymentMethod: PaymentMethod) => void;
   isProcessing?: boolean;
+  errorMessage?: string | null; // last authorization/booking failure, shown inline
 };
 
 export function PaymentModal({
@@ -19,6 +19,7 @@ export function PaymentModal({
   onClose,
   onConfirmPayment,
   isProcessing = false,
+  errorMessage = null,
 }: PaymentModalProps) {
   const [selectedPaymentMethod, setSelectedPaymentMethod] = useState<PaymentMethod>("paypal");
 
@@ -104,6 +105,17 @@ export function PaymentModal({
             </RadioGroup>
           </div>
 
+          {/* Payment failure (declined authorization, slot taken, ...) */}
+          {errorMessage && !isProcessing && (
+            <div
+              className="flex items-start space-x-2 text-sm text-destructive bg-destructive/10 rounded-lg p-3"
+              data-testid="text-payment-error"
+            >
+              <i className="fas fa-exclamation-circle mt-0.5" />
+              <p>{errorMessage}</p>
+            </div>
+          )}
+
           {/* Security Notice */}
           <div className="flex items-start space-x-2 text-sm text-muted-foreground bg-secondary rounded-lg p-3">
             <i className="fas fa-lock text-green-600 mt-0.5" />
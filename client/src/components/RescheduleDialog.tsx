@@ -0,0 +1,180 @@
+// client/src/components/RescheduleDialog.tsx
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { AlertCircle } from "lucide-react";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest } from "@/lib/queryClient";
+import { formatTime, viewerTimeZone } from "@/lib/timezone";
+
+// start is the tutor's wall-clock label; at carries the tutor zone's offset
+type Slot = { start: string; end: string; available: boolean; at: string; endAt: string };
+
+interface RescheduleDialogProps {
+  session: any;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Propose a new time for a session. The session keeps its duration, so a
+ * start slot is only offered when enough consecutive slots are free.
+ */
+export function RescheduleDialog({ session, open, onOpenChange }: RescheduleDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const timeZone = viewerTimeZone(user);
+
+  const [date, setDate] = useState<Date | undefined>(undefined);
+  const [startSlot, setStartSlot] = useState<Slot | null>(null);
+  const [reason, setReason] = useState("");
+
+  const slotCount = Math.max(1, Math.ceil(Number(session.duration ?? 60) / 60));
+  const ymd = date ? format(date, "yyyy-MM-dd") : null;
+
+  const { data: slots = [], isLoading: slotsLoading } = useQuery<Slot[]>({
+    queryKey: ["/api/tutors", session.tutorId, "availability", ymd],
+    queryFn: async () => {
+      const data = await apiRequest(
+        `/api/tutors/${encodeURIComponent(session.tutorId)}/availability?date=${ymd}&step=60`
+      );
+      return Array.isArray(data?.slots) ? data.slots : [];
+    },
+    enabled: open && !!ymd,
+  });
+
+  // A start works when it and the following (duration - 1) hourly slots are free
+  const startable = slots.filter((s, i) =>
+    slots.slice(i, i + slotCount).length === slotCount && slots.slice(i, i + slotCount).every((x) => x.available)
+  );
+
+  const proposeMutation = useMutation({
+    mutationFn: async () => {
+      const i = slots.findIndex((s) => s.start === startSlot!.start);
+      return apiRequest(`/api/sessions/${session.id}/reschedule`, {
+        method: "POST",
+        body: JSON.stringify({
+          scheduledAt: startSlot!.at,
+          timeSlots: slots.slice(i, i + slotCount).map((s) => s.start),
+          reason: reason.trim() || undefined,
+        }),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+      toast({ title: "Reschedule proposed", description: "The other party has been notified." });
+      setStartSlot(null);
+      setReason("");
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not propose reschedule", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const isPast = (d: Date) => {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    return d < today;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Propose a New Time</DialogTitle>
+          <DialogDescription>
+            The session keeps its {session.duration || 60}-minute length. It only moves once the other
+            person accepts.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid md:grid-cols-2 gap-6">
+          <div>
+            <Label className="text-base font-medium">New Date</Label>
+            <Calendar
+              mode="single"
+              selected={date}
+              onSelect={(d) => {
+                setDate(d);
+                setStartSlot(null);
+              }}
+              disabled={isPast}
+              className="mt-2 rounded-md border"
+            />
+          </div>
+
+          <div>
+            <Label className="text-base font-medium">Start Time</Label>
+            <div className="mt-2 min-h-[200px]">
+              {!date ? (
+                <p className="text-sm text-muted-foreground">Pick a date first.</p>
+              ) : slotsLoading ? (
+                <p className="text-sm text-muted-foreground">Loading slots…</p>
+              ) : startable.length === 0 ? (
+                <Alert>
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>No free time long enough on this date.</AlertDescription>
+                </Alert>
+              ) : (
+                <div className="grid grid-cols-2 gap-2">
+                  {startable.map((s) => (
+                    <Button
+                      key={s.start}
+                      size="sm"
+                      variant={startSlot?.start === s.start ? "default" : "outline"}
+                      onClick={() => setStartSlot(s)}
+                      data-testid={`button-reschedule-time-${s.start}`}
+                    >
+                      {formatTime(new Date(s.at), timeZone)}
+                    </Button>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div>
+          <Label htmlFor="reschedule-reason">Reason (optional)</Label>
+          <Textarea
+            id="reschedule-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            rows={2}
+            className="mt-2"
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => proposeMutation.mutate()}
+            disabled={!startSlot || proposeMutation.isPending}
+            data-testid="button-propose-reschedule"
+          >
+            Send Proposal
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,112 @@
+// client/src/components/ReviewReportDialog.tsx
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { ReviewReportReason } from "@shared/types";
+
+const REPORT_REASONS: Array<{ value: ReviewReportReason; label: string }> = [
+  { value: "abusive", label: "Abusive or harassing" },
+  { value: "spam", label: "Spam or fake" },
+  { value: "personal_info", label: "Shares personal information" },
+  { value: "off_topic", label: "Not about the session" },
+  { value: "other", label: "Something else" },
+];
+
+interface ReviewReportDialogProps {
+  reviewId: string | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+/** Flag a review for the moderators; one report per user and review */
+export function ReviewReportDialog({ reviewId, onOpenChange }: ReviewReportDialogProps) {
+  const { toast } = useToast();
+  const [reason, setReason] = useState<ReviewReportReason>("abusive");
+  const [details, setDetails] = useState("");
+
+  useEffect(() => {
+    if (reviewId) {
+      setReason("abusive");
+      setDetails("");
+    }
+  }, [reviewId]);
+
+  const reportMutation = useMutation({
+    mutationFn: async () =>
+      apiRequest(`/api/reviews/${reviewId}/report`, {
+        method: "POST",
+        body: JSON.stringify({ reason, details: details.trim() || undefined }),
+      }),
+    onSuccess: () => {
+      toast({ title: "Review reported", description: "Thanks — a moderator will take a look." });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={!!reviewId} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Report review</DialogTitle>
+          <DialogDescription>Tell the moderators what is wrong with this review.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Reason</Label>
+            <Select value={reason} onValueChange={(v) => setReason(v as ReviewReportReason)}>
+              <SelectTrigger data-testid="select-report-reason">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {REPORT_REASONS.map((r) => (
+                  <SelectItem key={r.value} value={r.value}>
+                    {r.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="report-details">Details (optional)</Label>
+            <Textarea
+              id="report-details"
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              rows={3}
+              maxLength={1000}
+              data-testid="input-report-details"
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => reportMutation.mutate()}
+            disabled={reportMutation.isPending}
+            data-testid="button-submit-report"
+          >
+            Report
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,12 +1,19 @@
 // client/src/components/SessionCard.tsx
 import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { format } from "date-fns";
 import { formatMoney } from "@/lib/currency";
+import { formatDate, formatDateTime, formatTime, viewerTimeZone } from "@/lib/timezone";
+import { formatInTimeZone, toZonedYMD } from "@shared/timezone";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
 import { LessonSummaryDialog } from "./LessonSummaryDialog";
+import { RescheduleDialog } from "./RescheduleDialog";
+import { SessionThreadDialog } from "./SessionThreadDialog";
 
 interface SessionCardProps {
   session: any;
@@ -17,6 +24,9 @@ interface SessionCardProps {
    * - "request_cancel"  -> user started a cancel request
    * - "accept_cancel"   -> user agreed to cancel
    * - "reject_cancel"   -> user declined the cancel request
+   * - "cancel_occurrence" -> cancel just this occurrence of a recurring series
+   * - "cancel_series"   -> cancel this occurrence and the rest of its series
+   * - "accept_series"   -> tutor accepts every pending occurrence of the series
    */
   onAction?: (action: string) => void;
 }
@@ -56,6 +66,12 @@ function normalizeDate(raw: any): Date {
 export function SessionCard({ session, userRole, onChat, onAction }: SessionCardProps) {
   const [showSummaryDialog, setShowSummaryDialog] = useState(false);
   const [showFullDetails, setShowFullDetails] = useState(false);
+  const [showRescheduleDialog, setShowRescheduleDialog] = useState(false);
+  const [showThreadDialog, setShowThreadDialog] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const timeZone = viewerTimeZone(user);
 
   // Prefer scheduledDate; fallback to scheduledAt
   const scheduled = normalizeDate(session.scheduledDate ?? session.scheduledAt);
@@ -65,9 +81,10 @@ export function SessionCard({ session, userRole, onChat, onAction }: SessionCard
 
   const now = new Date();
   const isUpcoming = scheduled > now;
-  const isToday = scheduled.toDateString() === now.toDateString();
+  const isToday = toZonedYMD(scheduled, timeZone) === toZonedYMD(now, timeZone);
 
   const otherUser = userRole === "student" ? session.tutor.user : session.student;
+  const otherUserId: string = userRole === "student" ? session.tutor?.userId : session.studentId;
   const displayName =
     userRole === "student"
       ? `${session.tutor.user.firstName} ${session.tutor.user.lastName}`
@@ -88,6 +105,8 @@ export function SessionCard({ session, userRole, onChat, onAction }: SessionCard
         return "bg-gray-100 text-gray-800";
       case "cancelled":
         return "bg-red-100 text-red-800";
+      case "expired":
+        return "bg-orange-100 text-orange-800";
       default:
         return "bg-gray-100 text-gray-800";
     }
@@ -114,6 +133,33 @@ export function SessionCard({ session, userRole, onChat, onAction }: SessionCard
     return "fa-graduation-cap";
   })();
 
+  // ---- Rescheduling ----
+  const pendingReschedule = (Array.isArray(session.reschedules) ? session.reschedules : []).find(
+    (r: any) => r.status === "pending"
+  );
+  const rescheduleProposedByMe = pendingReschedule?.proposedBy === userRole;
+  const canProposeReschedule =
+    isUpcoming && (status === "pending" || status === "scheduled") && !pendingReschedule;
+
+  const respondRescheduleMutation = useMutation({
+    mutationFn: async (decision: "accept" | "decline") =>
+      apiRequest(`/api/sessions/${session.id}/reschedule/${pendingReschedule.id}/${decision}`, {
+        method: "POST",
+        body: JSON.stringify({}),
+      }),
+    onSuccess: (_, decision) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+      toast({ title: decision === "accept" ? "Session rescheduled" : "Reschedule declined" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // ---- Recurring series ----
+  const isSeries = !!session.seriesId;
+  const canCancelSeriesOccurrence = isSeries && isUpcoming && (status === "pending" || status === "scheduled");
+
   // ---- Cancel button state logic ----
   const showRequestCancelButton =
     status === "scheduled" &&
@@ -164,19 +210,25 @@ export function SessionCard({ session, userRole, onChat, onAction }: SessionCard
                 <Badge className={getStatusColor(status)}>
                   {status.replace("_", " ")}
                 </Badge>
+                {isSeries && (
+                  <Badge variant="outline" data-testid="badge-series">
+                    <i className="fas fa-redo text-xs mr-1" />
+                    Recurring #{Number(session.seriesIndex ?? 0) + 1}
+                  </Badge>
+                )}
               </div>
 
               <div className="flex items-center space-x-4 text-sm text-muted-foreground flex-wrap">
                 <div className="flex items-center space-x-1">
                   <i className="fas fa-calendar text-xs" />
                   <span data-testid="text-session-date">
-                    {format(scheduled, "MMM dd, yyyy")}
+                    {formatDate(scheduled, timeZone)}
                   </span>
                 </div>
                 <div className="flex items-center space-x-1">
                   <i className="fas fa-clock text-xs" />
                   <span data-testid="text-session-time">
-                    {format(scheduled, "HH:mm")}
+                    {formatTime(scheduled, timeZone)}
                   </span>
                 </div>
                 <div className="flex items-center space-x-1">
@@ -258,7 +310,7 @@ export function SessionCard({ session, userRole, onChat, onAction }: SessionCard
                         </div>
                         <div>
                           <span className="font-semibold text-gray-700">Date:</span>
-                          <p className="text-gray-900">{format(scheduled, "EEEE, MMM dd, yyyy")}</p>
+                          <p className="text-gray-900">{formatInTimeZone(scheduled, timeZone, { weekday: "long", year: "numeric", month: "short", day: "2-digit" })}</p>
                         </div>
                         <div>
                           <span className="font-semibold text-gray-700">Duration:</span>
@@ -276,13 +328,13 @@ export function SessionCard({ session, userRole, onChat, onAction }: SessionCard
                         <div>
                           <span className="font-semibold text-gray-700 text-xs">Time Slots:</span>
                           <div className="flex flex-wrap gap-1 mt-1">
-                            {session.timeSlots.map((slot: string, index: number) => {
-                              const [hours, minutes] = slot.split(":").map(Number);
-                              const endHours = hours + 1;
-                              const endTime = `${String(endHours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
+                            {/* Stored labels are in the tutor's zone; show the hours in the viewer's */}
+                            {session.timeSlots.map((_slot: string, index: number) => {
+                              const slotStart = new Date(scheduled.getTime() + index * 60 * 60_000);
+                              const slotEnd = new Date(slotStart.getTime() + 60 * 60_000);
                               return (
                                 <Badge key={index} variant="outline" className="text-xs">
-                                  {slot} - {endTime}
+                                  {formatTime(slotStart, timeZone)} - {formatTime(slotEnd, timeZone)}
                                 </Badge>
                               );
                             })}
@@ -303,6 +355,43 @@ export function SessionCard({ session, userRole, onChat, onAction }: SessionCard
                 </div>
               )}
 
+              {/* Pending reschedule proposal */}
+              {pendingReschedule && (
+                <div className="mt-3 p-2 rounded bg-purple-50 border border-purple-200 text-xs text-purple-900">
+                  <div>
+                    {rescheduleProposedByMe ? "You proposed" : `${userRole === "student" ? "Tutor" : "Student"} proposed`}{" "}
+                    moving this session to{" "}
+                    <span className="font-semibold">
+                      {formatDateTime(normalizeDate(pendingReschedule.scheduledAt), timeZone)}
+                    </span>
+                    {pendingReschedule.reason ? ` — "${pendingReschedule.reason}"` : ""}
+                  </div>
+                  {rescheduleProposedByMe ? (
+                    <div className="mt-1">Waiting for a response.</div>
+                  ) : (
+                    <div className="mt-2 flex gap-2">
+                      <Button
+                        size="sm"
+                        onClick={() => respondRescheduleMutation.mutate("accept")}
+                        disabled={respondRescheduleMutation.isPending}
+                        data-testid="button-accept-reschedule"
+                      >
+                        Accept New Time
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => respondRescheduleMutation.mutate("decline")}
+                        disabled={respondRescheduleMutation.isPending}
+                        data-testid="button-decline-reschedule"
+                      >
+                        Decline
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              )}
+
               {/* Cancel request info / status */}
               {status === "scheduled" && (
                 <div className="mt-3 text-xs">
@@ -347,6 +436,17 @@ export function SessionCard({ session, userRole, onChat, onAction }: SessionCard
               <i className="fas fa-comment" />
             </Button>
 
+            {/* Messages about this session only */}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowThreadDialog(true)}
+              data-testid="button-session-thread"
+            >
+              <i className="fas fa-comments mr-1" />
+              Session Chat
+            </Button>
+
             {/* AI Summary button for tutors on completed sessions */}
             {userRole === "tutor" && status === "completed" && (
               <Button
@@ -375,8 +475,53 @@ export function SessionCard({ session, userRole, onChat, onAction }: SessionCard
               </Button>
             )}
 
+            {canProposeReschedule && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowRescheduleDialog(true)}
+                data-testid="button-reschedule"
+              >
+                <i className="fas fa-calendar-alt mr-1" />
+                Reschedule
+              </Button>
+            )}
+
+            {/* Recurring series: cancel one occurrence or the rest */}
+            {canCancelSeriesOccurrence && (
+              <>
+                {userRole === "tutor" && status === "pending" && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onAction?.("accept_series")}
+                    data-testid="button-accept-series"
+                  >
+                    Accept All
+                  </Button>
+                )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onAction?.("cancel_occurrence")}
+                  data-testid="button-cancel-occurrence"
+                >
+                  <i className="fas fa-ban mr-1" />
+                  Skip
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onAction?.("cancel_series")}
+                  data-testid="button-cancel-series"
+                >
+                  Cancel Series
+                </Button>
+              </>
+            )}
+
             {/* Initial cancel request */}
-            {showRequestCancelButton && (
+            {showRequestCancelButton && !isSeries && (
               <Button
                 variant="outline"
                 size="sm"
@@ -418,13 +563,31 @@ export function SessionCard({ session, userRole, onChat, onAction }: SessionCard
             <div className="flex items-center space-x-2 text-sm text-yellow-800">
               <i className="fas fa-bell" />
               <span>
-                Session starts today at {format(scheduled, "HH:mm")}
+                Session starts today at {formatTime(scheduled, timeZone)}
               </span>
             </div>
           </div>
         )}
       </CardContent>
 
+      {showRescheduleDialog && (
+        <RescheduleDialog
+          session={session}
+          open={showRescheduleDialog}
+          onOpenChange={setShowRescheduleDialog}
+        />
+      )}
+
+      {showThreadDialog && (
+        <SessionThreadDialog
+          sessionId={session.id}
+          otherUserId={otherUserId}
+          title={`${subjectName} with ${displayName} · ${formatDate(scheduled, timeZone)}`}
+          open={showThreadDialog}
+          onOpenChange={setShowThreadDialog}
+        />
+      )}
+
       {/* Lesson Summary Dialog */}
       <LessonSummaryDialog
         session={session}
@@ -0,0 +1,103 @@
+// client/src/components/SessionReminderSettingsCard.tsx
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { BellRing } from "lucide-react";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { ReminderPreferences } from "@shared/types";
+
+type ReminderSettings = {
+  preferences: ReminderPreferences;
+  availableLeadTimesMinutes: number[];
+};
+
+function leadTimeLabel(minutes: number): string {
+  if (minutes % 60 === 0) {
+    const hours = minutes / 60;
+    return `${hours} hour${hours === 1 ? "" : "s"} before`;
+  }
+  return `${minutes} minutes before`;
+}
+
+/** How long before a session the user is reminded */
+export function SessionReminderSettingsCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data } = useQuery<ReminderSettings>({
+    queryKey: ["/api/me/reminder-preferences"],
+  });
+
+  const [prefs, setPrefs] = useState<ReminderPreferences | null>(null);
+  useEffect(() => {
+    if (data) setPrefs(data.preferences);
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (next: ReminderPreferences) =>
+      apiRequest("/api/me/reminder-preferences", { method: "PUT", body: JSON.stringify(next) }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/me/reminder-preferences"] });
+      toast({ title: "Reminder settings saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (!data || !prefs) return null;
+
+  const available = data.availableLeadTimesMinutes;
+  const isLeadOn = (lead: number) => !prefs.leadTimesMinutes || prefs.leadTimesMinutes.includes(lead);
+  const toggleLead = (lead: number, on: boolean) => {
+    const current = prefs.leadTimesMinutes ?? available;
+    const next = on ? Array.from(new Set([...current, lead])) : current.filter((l) => l !== lead);
+    // Everything selected is stored as null so new platform lead times are picked up automatically
+    setPrefs({ ...prefs, leadTimesMinutes: available.every((l) => next.includes(l)) ? null : next });
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BellRing className="h-5 w-5 text-[#9B1B30]" />
+          Session Reminders
+        </CardTitle>
+        <CardDescription>
+          Get reminded before your confirmed sessions start. Choose in-app or email delivery under
+          Notifications.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {available.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Remind me</p>
+            {available.map((lead) => (
+              <div key={lead} className="flex items-center justify-between rounded-md border p-3">
+                <Label htmlFor={`reminder-lead-${lead}`}>{leadTimeLabel(lead)}</Label>
+                <Switch
+                  id={`reminder-lead-${lead}`}
+                  checked={isLeadOn(lead)}
+                  onCheckedChange={(checked) => toggleLead(lead, checked)}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+
+        <Button
+          onClick={() => saveMutation.mutate(prefs)}
+          disabled={saveMutation.isPending}
+          data-testid="button-save-reminder-preferences"
+        >
+          Save Reminder Settings
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
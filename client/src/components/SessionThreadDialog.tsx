@@ -0,0 +1,193 @@
+// client/src/components/SessionThreadDialog.tsx
+import { useEffect, useRef, useState } from "react";
+import { useInfiniteQuery, useMutation, useQueryClient, type InfiniteData } from "@tanstack/react-query";
+import { format } from "date-fns";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { useRealtimeConnected, useRealtimeEvent } from "@/hooks/useRealtime";
+import { apiRequest } from "@/lib/queryClient";
+import { ChatAttachment } from "@/components/ChatAttachment";
+import type { ChatMessagePayload } from "@shared/types";
+
+const THREAD_PAGE_SIZE = 30;
+
+interface SessionThreadDialogProps {
+  sessionId: string;
+  otherUserId: string; // the other participant of the session
+  title: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type ThreadPage = { messages: ChatMessagePayload[]; nextCursor: string | null };
+
+/** Messages tied to one session: pre-lesson questions and post-lesson follow-ups */
+export function SessionThreadDialog({ sessionId, otherUserId, title, open, onOpenChange }: SessionThreadDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const realtime = useRealtimeConnected();
+  const [newMessage, setNewMessage] = useState("");
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+
+  const queryKey = ["/api/sessions", sessionId, "messages"];
+  const { data, isLoading, hasNextPage, fetchNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey,
+    queryFn: ({ pageParam }): Promise<ThreadPage> =>
+      apiRequest(
+        `/api/sessions/${sessionId}/messages?limit=${THREAD_PAGE_SIZE}${
+          pageParam ? `&before=${encodeURIComponent(pageParam)}` : ""
+        }`,
+      ),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: open,
+    refetchInterval: open && !realtime ? 15000 : false,
+  });
+  const messages = data ? [...data.pages].reverse().flatMap((p) => p.messages) : [];
+  const lastMessageId = messages[messages.length - 1]?.id;
+
+  useRealtimeEvent((event) => {
+    if (event.type !== "message:new" || event.message.sessionId !== sessionId) return;
+    const m = event.message;
+    queryClient.setQueryData<InfiniteData<ThreadPage, string | null>>(queryKey, (prev) =>
+      !prev || prev.pages.some((p) => p.messages.some((x) => x.id === m.id))
+        ? prev
+        : {
+            ...prev,
+            pages: [{ ...prev.pages[0], messages: [...prev.pages[0].messages, m] }, ...prev.pages.slice(1)],
+          },
+    );
+  });
+
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [lastMessageId]);
+
+  const sendMutation = useMutation({
+    mutationFn: async (content: string) =>
+      apiRequest("/api/messages", {
+        method: "POST",
+        body: JSON.stringify({ receiverId: otherUserId, content, sessionId }),
+      }),
+    onSuccess: () => {
+      setNewMessage("");
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/messages", otherUserId] });
+    },
+    onError: (error: any) => {
+      if (error?.data?.blocked) queryClient.invalidateQueries({ queryKey: ["/api/moderation/me"] });
+      toast({
+        title: error?.data?.blocked ? "⚠️ Message Blocked" : "Error",
+        description: error?.data?.message || error?.message || "Failed to send message",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSend = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = newMessage.trim();
+    if (trimmed) sendMutation.mutate(trimmed);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg h-[70vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            Questions before the lesson and follow-ups after it. Messages here also appear in your chat.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="flex-1 min-h-0 pr-2">
+          {isLoading ? (
+            <div className="py-8 text-center text-sm text-muted-foreground">
+              <i className="fas fa-spinner fa-spin mr-2" />
+              Loading messages...
+            </div>
+          ) : messages.length === 0 ? (
+            <div className="py-8 text-center text-sm text-muted-foreground">
+              No messages about this session yet.
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {hasNextPage && (
+                <div className="flex justify-center">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-xs"
+                    onClick={() => fetchNextPage()}
+                    disabled={isFetchingNextPage}
+                  >
+                    {isFetchingNextPage ? "Loading…" : "Load earlier messages"}
+                  </Button>
+                </div>
+              )}
+              {messages.map((message) => {
+                const isOwn = message.senderId === user?.id;
+                return (
+                  <div
+                    key={message.id}
+                    className={`flex ${isOwn ? "justify-end" : "justify-start"}`}
+                    data-testid={`session-message-${message.id}`}
+                  >
+                    <div className="max-w-[80%]">
+                      <div
+                        className={`p-3 rounded-lg ${isOwn ? "bg-primary text-white" : "bg-muted text-foreground"}`}
+                      >
+                        {message.attachment && (
+                          <ChatAttachment
+                            attachment={message.attachment}
+                            className={message.content ? "mb-2" : ""}
+                          />
+                        )}
+                        {message.content && <p className="text-sm whitespace-pre-wrap">{message.content}</p>}
+                      </div>
+                      <p className="text-xs text-muted-foreground mt-1 px-1">
+                        {format(new Date(message.createdAt), "MMM d, HH:mm")}
+                      </p>
+                    </div>
+                  </div>
+                );
+              })}
+              <div ref={messagesEndRef} />
+            </div>
+          )}
+        </ScrollArea>
+
+        <form onSubmit={handleSend} className="flex space-x-2 pt-2 border-t">
+          <Input
+            value={newMessage}
+            onChange={(e) => setNewMessage(e.target.value)}
+            placeholder="Ask about this session..."
+            className="flex-1"
+            disabled={sendMutation.isPending}
+            data-testid="input-session-message"
+          />
+          <Button
+            type="submit"
+            size="sm"
+            disabled={!newMessage.trim() || sendMutation.isPending}
+            data-testid="button-send-session-message"
+          >
+            {sendMutation.isPending ? <i className="fas fa-spinner fa-spin" /> : <i className="fas fa-paper-plane" />}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
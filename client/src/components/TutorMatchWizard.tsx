@@ -3,7 +3,9 @@ import { useQuery } from "@tanstack/react-query";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import type { Subject } from "@shared/types";
+import { RATING_DIMENSIONS } from "@shared/ratings";
+import { levelKey } from "@shared/taxonomy";
+import type { EducationTaxonomy, RatingDimension, Subject } from "@shared/types";
 
 interface TutorMatchWizardProps {
   open: boolean;
@@ -14,8 +16,11 @@ interface TutorMatchWizardProps {
 export interface TutorFilters {
   subjectId?: string;
   subjectName?: string;
+  gradeLevel?: string;      // education taxonomy level key
+  gradeLevelLabel?: string;
   maxRate?: number;
   minRating?: number;
+  priorities?: RatingDimension[]; // review dimensions weighted up in the ranking
 }
 
 export function TutorMatchWizard({ open, onClose, onComplete }: TutorMatchWizardProps) {
@@ -27,19 +32,41 @@ export function TutorMatchWizard({ open, onClose, onComplete }: TutorMatchWizard
     enabled: open,
   });
 
+  const { data: taxonomy } = useQuery<EducationTaxonomy>({
+    queryKey: ["/api/taxonomy"],
+    enabled: open,
+  });
+
   const handleSubjectSelect = (subjectId: string, subjectName: string) => {
     setFilters({ ...filters, subjectId, subjectName });
     setStep(2);
   };
 
+  const handleLevelSelect = (gradeLevel?: string, gradeLevelLabel?: string) => {
+    setFilters({ ...filters, gradeLevel, gradeLevelLabel });
+    setStep(3);
+  };
+
   const handleBudgetSelect = (maxRate: number) => {
     setFilters({ ...filters, maxRate });
-    setStep(3);
+    setStep(4);
   };
 
   const handleExperienceSelect = (minRating: number) => {
-    const finalFilters = { ...filters, minRating };
-    setFilters(finalFilters);
+    setFilters({ ...filters, minRating });
+    setStep(5);
+  };
+
+  const togglePriority = (id: RatingDimension) => {
+    const current = filters.priorities ?? [];
+    setFilters({
+      ...filters,
+      priorities: current.includes(id) ? current.filter((p) => p !== id) : [...current, id],
+    });
+  };
+
+  const handlePrioritiesDone = (skip: boolean) => {
+    const finalFilters = { ...filters, priorities: skip ? [] : filters.priorities ?? [] };
     onComplete(finalFilters);
     handleReset();
   };
@@ -64,7 +91,7 @@ export function TutorMatchWizard({ open, onClose, onComplete }: TutorMatchWizard
             Find Your Perfect Tutor
           </DialogTitle>
           <div className="flex items-center justify-center space-x-2 mt-4">
-            {[1, 2, 3].map((s) => (
+            {[1, 2, 3, 4, 5].map((s) => (
               <div
                 key={s}
                 className={`h-2 w-16 rounded-full transition-colors ${
@@ -114,8 +141,60 @@ export function TutorMatchWizard({ open, onClose, onComplete }: TutorMatchWizard
             </div>
           )}
 
-          {/* Step 2: Budget Selection */}
+          {/* Step 2: Curriculum & grade level */}
           {step === 2 && (
+            <div className="space-y-4" data-testid="step-level">
+              <div className="text-center">
+                <h3 className="text-lg font-semibold mb-2">Which curriculum and level?</h3>
+                <p className="text-sm text-muted-foreground">We'll only show tutors who teach it</p>
+              </div>
+
+              <div className="space-y-3 mt-6 max-h-80 overflow-y-auto">
+                {(taxonomy?.curricula ?? []).map((curriculum) => (
+                  <div key={curriculum.id}>
+                    <div className="text-sm font-medium mb-2">{curriculum.name}</div>
+                    <div className="flex flex-wrap gap-2">
+                      {curriculum.gradeBands.map((band) => (
+                        <Button
+                          key={band.id}
+                          variant="outline"
+                          size="sm"
+                          className="hover:border-primary hover:bg-primary/5"
+                          onClick={() =>
+                            handleLevelSelect(levelKey(curriculum.id, band.id), `${curriculum.name} · ${band.label}`)
+                          }
+                          data-testid={`button-level-${curriculum.id}-${band.id}`}
+                        >
+                          {band.label}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex justify-center gap-2 mt-4">
+                <Button
+                  variant="ghost"
+                  onClick={handleBack}
+                  data-testid="button-back"
+                >
+                  <i className="fas fa-arrow-left mr-2"></i>
+                  Back
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => handleLevelSelect()}
+                  data-testid="button-level-any"
+                >
+                  Any level
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {/* Step 3: Budget Selection */}
+          {step === 3 && (
             <div className="space-y-4" data-testid="step-budget">
               <div className="text-center">
                 <h3 className="text-lg font-semibold mb-2">What's your budget?</h3>
@@ -181,8 +260,8 @@ export function TutorMatchWizard({ open, onClose, onComplete }: TutorMatchWizard
             </div>
           )}
 
-          {/* Step 3: Experience Level */}
-          {step === 3 && (
+          {/* Step 4: Experience Level */}
+          {step === 4 && (
             <div className="space-y-4" data-testid="step-experience">
               <div className="text-center">
                 <h3 className="text-lg font-semibold mb-2">What level of experience do you prefer?</h3>
@@ -248,6 +327,67 @@ export function TutorMatchWizard({ open, onClose, onComplete }: TutorMatchWizard
               </div>
             </div>
           )}
+
+          {/* Step 5: What matters most */}
+          {step === 5 && (
+            <div className="space-y-4" data-testid="step-priorities">
+              <div className="text-center">
+                <h3 className="text-lg font-semibold mb-2">What matters most to you?</h3>
+                <p className="text-sm text-muted-foreground">
+                  Pick any that apply — tutors students rate highly on these rank first
+                </p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3 mt-6">
+                {RATING_DIMENSIONS.map((dimension) => {
+                  const selected = filters.priorities?.includes(dimension.id) ?? false;
+                  return (
+                    <Button
+                      key={dimension.id}
+                      variant="outline"
+                      className={`h-auto py-4 flex flex-col items-center space-y-1 hover:border-primary hover:bg-primary/5 ${
+                        selected ? "border-primary bg-primary/10" : ""
+                      }`}
+                      onClick={() => togglePriority(dimension.id)}
+                      data-testid={`button-priority-${dimension.id}`}
+                    >
+                      <span className="font-semibold">
+                        {selected && <i className="fas fa-check mr-1 text-primary"></i>}
+                        {dimension.label}
+                      </span>
+                      <span className="text-xs text-muted-foreground whitespace-normal">
+                        {dimension.description}
+                      </span>
+                    </Button>
+                  );
+                })}
+              </div>
+
+              <div className="flex justify-center gap-2 mt-4">
+                <Button
+                  variant="ghost"
+                  onClick={handleBack}
+                  data-testid="button-back"
+                >
+                  <i className="fas fa-arrow-left mr-2"></i>
+                  Back
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => handlePrioritiesDone(true)}
+                  data-testid="button-priorities-skip"
+                >
+                  Skip
+                </Button>
+                <Button
+                  onClick={() => handlePrioritiesDone(false)}
+                  data-testid="button-priorities-done"
+                >
+                  Find Tutors
+                </Button>
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Selected Filters Summary */}
@@ -261,12 +401,24 @@ export function TutorMatchWizard({ open, onClose, onComplete }: TutorMatchWizard
                   {filters.subjectName}
                 </Badge>
               )}
+              {filters.gradeLevelLabel && (
+                <Badge variant="default">
+                  <i className="fas fa-graduation-cap mr-1"></i>
+                  {filters.gradeLevelLabel}
+                </Badge>
+              )}
               {filters.maxRate && filters.maxRate < 999999 && (
                 <Badge variant="default">
                   <i className="fas fa-dollar-sign mr-1"></i>
                   Under ${filters.maxRate / 100}/hr
                 </Badge>
               )}
+              {!!filters.minRating && (
+                <Badge variant="default">
+                  <i className="fas fa-star mr-1"></i>
+                  {filters.minRating}+ stars
+                </Badge>
+              )}
             </div>
           </div>
         )}
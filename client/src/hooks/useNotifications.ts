@@ -2,16 +2,19 @@
 import { useQuery } from "@tanstack/react-query";
 import { fetchNotifications, ApiNotification } from "@/lib/api";
 import { useAuth } from "@/hooks/useAuth";
+import { useRealtimeConnected } from "@/hooks/useRealtime";
 
 export function useNotifications() {
   const { user } = useAuth();
   const enabled = !!user?.id;
+  const realtime = useRealtimeConnected();
 
   const { data = [], isLoading, refetch } = useQuery<ApiNotification[]>({
     queryKey: ["notifications", user?.id],
     enabled,
     queryFn: fetchNotifications,
-    refetchInterval: enabled ? 30000 : false, // Optimized: 30s instead of 10s
+    // Pushed over the realtime socket; poll only while it is down
+    refetchInterval: enabled && !realtime ? 30000 : false,
     staleTime: 20000, // Optimized: 20s instead of 5s
   });
 
@@ -0,0 +1,17 @@
+// src/hooks/useRealtime.ts
+import { useEffect, useRef, useSyncExternalStore } from "react";
+import type { RealtimeServerEvent } from "@shared/types";
+import { isRealtimeConnected, subscribeRealtime, subscribeRealtimeStatus } from "@/lib/realtime";
+
+/** True while the realtime socket is up; use it to switch polling off */
+export function useRealtimeConnected(): boolean {
+  return useSyncExternalStore(subscribeRealtimeStatus, isRealtimeConnected);
+}
+
+/** Call `handler` for every pushed event (the latest handler is always used) */
+export function useRealtimeEvent(handler: (event: RealtimeServerEvent) => void) {
+  const ref = useRef(handler);
+  ref.current = handler;
+
+  useEffect(() => subscribeRealtime((event) => ref.current(event)), []);
+}
@@ -1,4 +1,12 @@
 // src/lib/api.ts
+import type {
+  EarningsEntry,
+  Payout,
+  PayoutBatch,
+  RescheduleProposal,
+  SessionCancellation,
+} from "@shared/types";
+
 export async function api<T>(url: string, init?: RequestInit): Promise<T> {
   const res = await fetch(url, {
     credentials: "include",
@@ -45,12 +53,17 @@ export type ApiSession = {
   tutorId: string;     // NOTE: this is tutor_profile.id
   studentId: string;   // user.id
   subjectId: string;
-  status: "scheduled" | "in_progress" | "completed" | "cancelled";
+  status: "pending" | "scheduled" | "in_progress" | "completed" | "cancelled" | "expired";
   scheduledAt: any;    // could be ISO string or { _seconds, _nanoseconds }
   duration?: number;
   meetingLink?: string | null;
   notes?: string;
   priceCents?: number;
+  paymentId?: string | null;
+  cancellation?: SessionCancellation | null; // refund outcome when status is "cancelled"
+  seriesId?: string | null;  // set when booked as part of a recurring series
+  seriesIndex?: number;
+  reschedules?: RescheduleProposal[]; // proposal history; dates arrive serialized
 
   // AI-Generated Lesson Summary fields
   tutorNotes?: string;
@@ -86,6 +99,40 @@ export async function generateAISummary(sessionId: string) {
   });
 }
 
+// ---- Earnings & Payouts ----
+export type ApiEarningsSummary = {
+  currency: string;
+  availableCents: number;      // accrued, not yet in a payout
+  pendingPayoutCents: number;  // in a batch that is not marked paid yet
+  paidOutCents: number;
+  lifetimeGrossCents: number;
+  lifetimeCommissionCents: number;
+  lifetimeNetCents: number;
+  entries: Array<EarningsEntry & { id: string }>;
+  payouts: Array<Payout & { id: string }>;
+};
+
+export type ApiPayoutBatch = PayoutBatch & { id: string };
+
+export async function fetchMyEarnings() {
+  return api<ApiEarningsSummary>(`/api/earnings/me`);
+}
+
+// Statements are CSV attachments; fetch as a blob so the auth header is sent
+export async function downloadPayoutStatement(payoutId: string) {
+  const res = await fetch(`/api/earnings/payouts/${payoutId}/statement`, { credentials: "include" });
+  if (!res.ok) {
+    throw new Error(`Failed to download statement (${res.status})`);
+  }
+  const blob = await res.blob();
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `payout-statement-${payoutId}.csv`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
 // ---- Quiz Functions ----
 export type QuizQuestion = {
   question: string;
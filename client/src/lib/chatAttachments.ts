@@ -0,0 +1,95 @@
+import type { MessageAttachment } from "@shared/types";
+
+/**
+ * Client side of chat attachments. Files are uploaded first, then sent as a
+ * message that references the returned id. Attachment URLs require the auth
+ * header, so previews and downloads go through fetch + blob URLs rather than
+ * plain <img src> / <a href>.
+ */
+
+export const CHAT_ATTACHMENT_MAX_BYTES = 10 * 1024 * 1024;
+
+export const CHAT_ATTACHMENT_ACCEPT = [
+  "image/jpeg",
+  "image/png",
+  "image/gif",
+  "image/webp",
+  "application/pdf",
+  "application/msword",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/vnd.ms-powerpoint",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  "text/plain",
+].join(",");
+
+const THUMBNAIL_MAX_PX = 320;
+
+export type UploadedChatAttachment = MessageAttachment & { url: string };
+
+export function chatAttachmentUrl(id: string, variant: "original" | "thumbnail" = "original") {
+  return `/api/chat/attachments/${id}${variant === "thumbnail" ? "?variant=thumbnail" : ""}`;
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/** Downscale an image to a small JPEG; null for non-images or if the browser can't decode it */
+export async function makeImageThumbnail(file: File): Promise<Blob | null> {
+  if (!file.type.startsWith("image/")) return null;
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, THUMBNAIL_MAX_PX / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    canvas.getContext("2d")?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return await new Promise((resolve) => canvas.toBlob(resolve, "image/jpeg", 0.8));
+  } catch {
+    return null;
+  }
+}
+
+export async function uploadChatAttachment(file: File, receiverId: string): Promise<UploadedChatAttachment> {
+  const formData = new FormData();
+  formData.append("receiverId", receiverId);
+  formData.append("file", file);
+  const thumbnail = await makeImageThumbnail(file);
+  if (thumbnail) formData.append("thumbnail", thumbnail, "thumbnail.jpg");
+
+  const response = await fetch("/api/chat/attachments", {
+    method: "POST",
+    body: formData,
+    credentials: "include",
+  });
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || "Upload failed");
+  }
+  return response.json();
+}
+
+/** Fetch an attachment with the auth header and return an object URL (caller revokes it) */
+export async function fetchAttachmentBlobUrl(url: string): Promise<string> {
+  const response = await fetch(url, { credentials: "include" });
+  if (!response.ok) throw new Error(`${response.status}: Failed to load attachment`);
+  return URL.createObjectURL(await response.blob());
+}
+
+/** Open the full file in a new tab (images, PDFs) or save it (everything else) */
+export async function openChatAttachment(attachment: MessageAttachment) {
+  const blobUrl = await fetchAttachmentBlobUrl(chatAttachmentUrl(attachment.id));
+  const link = document.createElement("a");
+  link.href = blobUrl;
+  if (attachment.isImage || attachment.mimeType === "application/pdf") {
+    link.target = "_blank";
+    link.rel = "noopener noreferrer";
+  } else {
+    link.download = attachment.fileName;
+  }
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(blobUrl), 60_000);
+}
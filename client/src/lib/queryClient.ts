@@ -13,9 +13,10 @@ export async function apiRequest(url: string, options: RequestInit = {}) {
 
   if (!response.ok) {
     let errorMessage = `${response.status}: ${response.statusText}`;
+    let errorData: any = null;
     
     try {
-      const errorData = await response.json();
+      errorData = await response.json();
       if (errorData.message) {
         errorMessage = `${response.status}: ${errorData.message}`;
       }
@@ -23,7 +24,8 @@ export async function apiRequest(url: string, options: RequestInit = {}) {
       // Fallback to status text if JSON parsing fails
     }
     
-    throw new Error(errorMessage);
+    // Keep the status and body so callers can react to structured errors (e.g. blocked chat messages)
+    throw Object.assign(new Error(errorMessage), { status: response.status, data: errorData });
   }
 
   // Handle empty responses
@@ -0,0 +1,108 @@
+import type { RealtimeClientEvent, RealtimeServerEvent } from "@shared/types";
+
+/**
+ * Single WebSocket to the server's realtime hub, shared by the whole app.
+ * AuthProvider opens it on sign-in and closes it on sign-out; components
+ * subscribe to events and to the connection status, and fall back to
+ * polling while it is down.
+ */
+
+type Listener = (event: RealtimeServerEvent) => void;
+type StatusListener = (connected: boolean) => void;
+
+const REALTIME_PATH = "/ws";
+const MAX_BACKOFF_MS = 30_000;
+
+let socket: WebSocket | null = null;
+let getToken: (() => Promise<string | null>) | null = null;
+let connected = false;
+let attempts = 0;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+const listeners = new Set<Listener>();
+const statusListeners = new Set<StatusListener>();
+
+function setConnected(next: boolean) {
+  if (connected === next) return;
+  connected = next;
+  statusListeners.forEach((l) => l(next));
+}
+
+function scheduleReconnect() {
+  if (!getToken || reconnectTimer) return;
+  const delay = Math.min(1000 * 2 ** attempts, MAX_BACKOFF_MS);
+  attempts++;
+  reconnectTimer = setTimeout(() => {
+    reconnectTimer = null;
+    void open();
+  }, delay);
+}
+
+async function open() {
+  if (!getToken) return;
+  const token = await getToken();
+  if (!token || !getToken) return;
+
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  const ws = new WebSocket(`${protocol}//${window.location.host}${REALTIME_PATH}`);
+  socket = ws;
+
+  ws.onopen = () => ws.send(JSON.stringify({ type: "auth", token } satisfies RealtimeClientEvent));
+  ws.onmessage = (msg) => {
+    let event: RealtimeServerEvent;
+    try {
+      event = JSON.parse(msg.data);
+    } catch {
+      return;
+    }
+    if (event.type === "ready") {
+      attempts = 0;
+      setConnected(true);
+    }
+    listeners.forEach((l) => l(event));
+  };
+  ws.onclose = () => {
+    if (socket !== ws) return;
+    socket = null;
+    setConnected(false);
+    scheduleReconnect();
+  };
+}
+
+/** Open the connection for the signed-in user (tokens are fetched fresh on every reconnect) */
+export function connectRealtime(tokenProvider: () => Promise<string | null>) {
+  disconnectRealtime();
+  getToken = tokenProvider;
+  attempts = 0;
+  void open();
+}
+
+export function disconnectRealtime() {
+  getToken = null;
+  if (reconnectTimer) clearTimeout(reconnectTimer);
+  reconnectTimer = null;
+  const ws = socket;
+  socket = null;
+  ws?.close();
+  setConnected(false);
+}
+
+export function sendRealtime(event: RealtimeClientEvent) {
+  if (socket?.readyState === WebSocket.OPEN && connected) {
+    socket.send(JSON.stringify(event));
+  }
+}
+
+export function subscribeRealtime(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function subscribeRealtimeStatus(listener: StatusListener): () => void {
+  statusListeners.add(listener);
+  return () => statusListeners.delete(listener);
+}
+
+export function isRealtimeConnected(): boolean {
+  return connected;
+}
@@ -0,0 +1,32 @@
+import { formatInTimeZone, getLocalTimeZone, isValidTimeZone } from "@shared/timezone";
+
+/** Zone to show times in: the user's saved zone, else the browser's */
+export function viewerTimeZone(user?: { timezone?: string | null } | null): string {
+  return isValidTimeZone(user?.timezone) ? user!.timezone! : getLocalTimeZone();
+}
+
+/** "09:30" in the given zone */
+export function formatTime(date: Date, timeZone: string): string {
+  return formatInTimeZone(date, timeZone, { hour: "2-digit", minute: "2-digit", hourCycle: "h23" });
+}
+
+/** "Mar 01, 2025" in the given zone */
+export function formatDate(date: Date, timeZone: string): string {
+  return formatInTimeZone(date, timeZone, { year: "numeric", month: "short", day: "2-digit" });
+}
+
+/** "Sat, Mar 01, 2025 09:30" in the given zone */
+export function formatDateTime(date: Date, timeZone: string): string {
+  return `${formatInTimeZone(date, timeZone, {
+    weekday: "short",
+    year: "numeric",
+    month: "short",
+    day: "2-digit",
+  })} ${formatTime(date, timeZone)}`;
+}
+
+/** Every IANA zone the browser knows, for pickers */
+export function listTimeZones(): string[] {
+  const zones = typeof Intl.supportedValuesOf === "function" ? Intl.supportedValuesOf("timeZone") : [];
+  return zones.includes(getLocalTimeZone()) ? zones : [getLocalTimeZone(), ...zones];
+}
@@ -36,6 +36,9 @@ import {
   CalendarIcon,
   Filter,
   X,
+  Timer,
+  ShieldAlert,
+  Star,
 } from "lucide-react";
 import { LineChart, Line, BarChart, Bar, PieChart, Pie, Cell, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts";
 import {
@@ -57,6 +60,12 @@ import {
 } from "@/components/ui/dialog";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ChatHistoryDialog } from "@/components/ChatHistoryDialog";
+import { AdminPayoutsPanel } from "@/components/AdminPayoutsPanel";
+import { AdminJobsPanel } from "@/components/AdminJobsPanel";
+import { AdminModerationPanel } from "@/components/AdminModerationPanel";
+import { AdminReviewsPanel } from "@/components/AdminReviewsPanel";
+import { AdminTaxonomyPanel } from "@/components/AdminTaxonomyPanel";
+import { AdminRankingPanel } from "@/components/AdminRankingPanel";
 
 interface Notification {
   id: string;
@@ -175,7 +184,17 @@ export default function AdminDashboard() {
   const isAdmin = user?.role === "admin";
 
   const [currentTab, setCurrentTab] = useState<
-    "analytics" | "leaderboard" | "pending" | "notifications" | "students" | "tutors" | "admins"
+    | "analytics"
+    | "leaderboard"
+    | "pending"
+    | "notifications"
+    | "students"
+    | "tutors"
+    | "admins"
+    | "payouts"
+    | "jobs"
+    | "moderation"
+    | "reviews"
   >("analytics");
   const [userToDelete, setUserToDelete] = useState<{ id: string; type: string; name: string } | null>(
     null,
@@ -849,7 +868,7 @@ export default function AdminDashboard() {
         onValueChange={(v: any) => setCurrentTab(v)}
         className="space-y-6"
       >
-        <TabsList className="grid w-full grid-cols-7">
+        <TabsList className="grid w-full grid-cols-12">
           <TabsTrigger value="analytics">
             <BarChart3 className="h-4 w-4 mr-2" />
             Analytics
@@ -887,6 +906,26 @@ export default function AdminDashboard() {
             <Shield className="h-4 w-4 mr-2" />
             Admins
           </TabsTrigger>
+          <TabsTrigger value="payouts">
+            <DollarSign className="h-4 w-4 mr-2" />
+            Payouts
+          </TabsTrigger>
+          <TabsTrigger value="jobs">
+            <Timer className="h-4 w-4 mr-2" />
+            Jobs
+          </TabsTrigger>
+          <TabsTrigger value="moderation">
+            <ShieldAlert className="h-4 w-4 mr-2" />
+            Moderation
+          </TabsTrigger>
+          <TabsTrigger value="reviews">
+            <Star className="h-4 w-4 mr-2" />
+            Reviews
+          </TabsTrigger>
+          <TabsTrigger value="matching">
+            <GraduationCap className="h-4 w-4 mr-2" />
+            Matching
+          </TabsTrigger>
         </TabsList>
 
         {/* ANALYTICS TAB */}
@@ -1442,6 +1481,8 @@ export default function AdminDashboard() {
                 <div className="space-y-4">
                   {filteredNotifications.map((notification) => {
                     const isPhoneViolation = notification.type === "PHONE_NUMBER_VIOLATION";
+                    const isAppeal = notification.type === "MODERATION_APPEAL_SUBMITTED";
+                    const isReviewReport = notification.type === "REVIEW_REPORTED";
                     const notificationData = notification.data as any;
 
                     return (
@@ -1475,11 +1516,47 @@ export default function AdminDashboard() {
                                 <p className="text-sm italic">"{notificationData.messageContent}"</p>
                               </div>
                             )}
+                            {isAppeal && notificationData?.reason && (
+                              <div className="mt-2 p-2 bg-muted/50 rounded border border-border">
+                                <p className="text-xs font-medium text-muted-foreground mb-1">Appeal:</p>
+                                <p className="text-sm italic">"{notificationData.reason}"</p>
+                              </div>
+                            )}
                             <p className="text-xs text-muted-foreground mt-2">
                               {formatDateTime(notification.createdAt)}
                             </p>
                           </div>
                           <div className="flex gap-2">
+                            {isAppeal && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => {
+                                  setCurrentTab("moderation");
+                                  if (!notification.isRead) {
+                                    markAsReadMutation.mutate(notification.id);
+                                  }
+                                }}
+                              >
+                                <ShieldAlert className="h-4 w-4 mr-1" />
+                                Review Appeal
+                              </Button>
+                            )}
+                            {isReviewReport && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => {
+                                  setCurrentTab("reviews");
+                                  if (!notification.isRead) {
+                                    markAsReadMutation.mutate(notification.id);
+                                  }
+                                }}
+                              >
+                                <Star className="h-4 w-4 mr-1" />
+                                Open Review Queue
+                              </Button>
+                            )}
                             {isPhoneViolation && notificationData?.senderId && notificationData?.senderRole && (
                               <Button
                                 variant="outline"
@@ -1832,6 +1909,28 @@ export default function AdminDashboard() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        {/* PAYOUTS TAB */}
+        <TabsContent value="payouts">
+          <AdminPayoutsPanel />
+        </TabsContent>
+
+        <TabsContent value="jobs">
+          <AdminJobsPanel />
+        </TabsContent>
+
+        <TabsContent value="moderation">
+          <AdminModerationPanel />
+        </TabsContent>
+
+        <TabsContent value="reviews">
+          <AdminReviewsPanel />
+        </TabsContent>
+
+        <TabsContent value="matching" className="space-y-6">
+          <AdminRankingPanel />
+          <AdminTaxonomyPanel />
+        </TabsContent>
       </Tabs>
 
       {/* Delete User Confirmation Dialog */}
@@ -10,7 +10,7 @@ import { Button } from "@/components/ui/button";
 import { Calendar, Clock, User as UserIcon, Video, BookOpen } from "lucide-react";
 
 import { fetchSessions, ApiSession } from "@/lib/api";
-import { formatMoney } from "@/lib/currency";
+import { formatMoney, formatFromCents } from "@/lib/currency";
 
 // -------- Helpers --------
 function coerceToDate(v: any): Date {
@@ -37,11 +37,31 @@ function statusColor(status: ApiSession["status"]) {
       return "bg-gray-100 text-gray-800";
     case "cancelled":
       return "bg-red-100 text-red-800";
+    case "expired":
+      return "bg-orange-100 text-orange-800";
     default:
       return "bg-gray-100 text-gray-800";
   }
 }
 
+function cancellationSummary(c: NonNullable<ApiSession["cancellation"]>, role?: string | null) {
+  const by = c.cancelledBy === "student" ? "student" : c.cancelledBy === "tutor" ? "tutor" : "admin";
+  const refund =
+    c.refundStatus === "failed"
+      ? "refund failed, please contact support"
+      : c.refundStatus === "manual"
+      ? `refund of ${formatFromCents(c.refundCents)} pending review`
+      : c.refundCents > 0
+      ? `${formatFromCents(c.refundCents)} refunded (${c.refundPercent}%)`
+      : "no refund";
+
+  // Tutors also see the share they keep from late cancellations
+  if (role === "tutor" && c.tutorRetainedCents > 0) {
+    return `Cancelled by ${by} • ${refund} • you keep ${formatFromCents(c.tutorRetainedCents)}`;
+  }
+  return `Cancelled by ${by} • ${refund}`;
+}
+
 function subjectFAIcon(name?: string) {
   const n = (name || "").toLowerCase();
   if (n.includes("math")) return "fa-calculator";
@@ -62,6 +82,7 @@ type HydratedSession = {
   meetingLink?: string | null;
   notes?: string;
   priceCents?: number;
+  cancellation?: ApiSession["cancellation"];
   subjectName: string;
   counterpartName: string; // Tutor name for students, Student name for tutors
 };
@@ -99,6 +120,7 @@ export default function MySessions() {
           meetingLink: s.meetingLink ?? null,
           notes: s.notes ?? "",
           priceCents: s.priceCents,
+          cancellation: s.cancellation ?? null,
           subjectName: subjName,
           counterpartName: counterpart,
         };
@@ -112,7 +134,7 @@ export default function MySessions() {
     const pa = hydrated.filter(
       (s) => s.status === "completed" || (s.status === "scheduled" && s.scheduledAt <= now)
     );
-    const ca = hydrated.filter((s) => s.status === "cancelled");
+    const ca = hydrated.filter((s) => s.status === "cancelled" || s.status === "expired");
     return { upcoming: up, past: pa, cancelled: ca };
   }, [hydrated]);
 
@@ -278,6 +300,11 @@ export default function MySessions() {
                       <div>
                         <h4 className="font-medium">{s.subjectName}</h4>
                         <p className="text-sm text-muted-foreground">{format(s.scheduledAt, "PP")}</p>
+                        {s.cancellation && (
+                          <p className="text-xs text-muted-foreground" data-testid={`text-cancellation-${s.id}`}>
+                            {cancellationSummary(s.cancellation, user?.role)}
+                          </p>
+                        )}
                       </div>
                     </div>
                     <Badge variant="outline" className="bg-red-100 text-red-800">
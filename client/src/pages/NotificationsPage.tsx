@@ -19,6 +19,8 @@ import {
   Clock,
   Calendar,
   MessageCircle,
+  ShieldAlert,
+  Star,
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { format } from "date-fns";
@@ -156,6 +158,23 @@ export default function NotificationsPage() {
         return <Check className="h-5 w-5 text-green-500" />;
       case "SESSION_CANCELLED":
         return <Clock className="h-5 w-5 text-red-500" />;
+      case "SESSION_RESCHEDULE_REQUESTED":
+        return <Calendar className="h-5 w-5 text-purple-500" />;
+      case "SESSION_RESCHEDULED":
+        return <Check className="h-5 w-5 text-purple-500" />;
+      case "SESSION_RESCHEDULE_DECLINED":
+        return <Clock className="h-5 w-5 text-gray-500" />;
+      case "SESSION_REMINDER":
+        return <Clock className="h-5 w-5 text-blue-500" />;
+      case "SESSION_EXPIRED":
+        return <Clock className="h-5 w-5 text-orange-500" />;
+      case "CHAT_SUSPENDED":
+        return <ShieldAlert className="h-5 w-5 text-red-500" />;
+      case "MODERATION_APPEAL_RESOLVED":
+        return <ShieldAlert className="h-5 w-5 text-blue-500" />;
+      case "NEW_REVIEW":
+      case "REVIEW_REPLY":
+        return <Star className="h-5 w-5 text-yellow-500" />;
       default:
         return <Bell className="h-5 w-5 text-gray-500" />;
     }
@@ -17,12 +17,21 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDes
 import { Loader2, Upload, Clock, AlertCircle, Phone, GraduationCap, FileText, Award } from "lucide-react";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { listTimeZones, viewerTimeZone } from "@/lib/timezone";
 import type { Subject } from "@shared/schema";
+import type { EducationTaxonomy } from "@shared/types";
+import { levelKey } from "@shared/taxonomy";
+import { AvailabilityExceptionsEditor } from "@/components/AvailabilityExceptionsEditor";
+import { CalendarSubscriptionCard } from "@/components/CalendarSubscriptionCard";
+import { SessionReminderSettingsCard } from "@/components/SessionReminderSettingsCard";
+import { NotificationPreferencesCard } from "@/components/NotificationPreferencesCard";
 
 const profileSchema = z.object({
   firstName: z.string().min(1, "First name is required"),
   lastName: z.string().min(1, "Last name is required"),
   profileImageUrl: z.string().optional().or(z.literal("")),
+  timezone: z.string().min(1),
 });
 
 const tutorContactSchema = z.object({
@@ -56,6 +65,7 @@ export default function ProfileSettings() {
   const [selectedSubjects, setSelectedSubjects] = useState<string[]>([]);
   const [useSamePriceForAll, setUseSamePriceForAll] = useState(true);
   const [subjectPricing, setSubjectPricing] = useState<Record<string, string>>({});
+  const [teachingLevels, setTeachingLevels] = useState<string[]>([]);
 
   // Fetch tutor profile if user is a tutor (includes subjects in the response)
   const { data: tutorProfileData, isLoading: tutorProfileLoading } = useQuery({
@@ -73,6 +83,12 @@ export default function ProfileSettings() {
     enabled: user?.role === "tutor",
   });
 
+  // Curricula and grade bands tutors pick their levels from
+  const { data: taxonomy } = useQuery<EducationTaxonomy>({
+    queryKey: ["/api/taxonomy"],
+    enabled: user?.role === "tutor",
+  });
+
   // Check if user can change name (7-day limit)
   const canChangeName = useMemo(() => {
     if (!user?.lastNameChangeAt) return true;
@@ -100,6 +116,7 @@ export default function ProfileSettings() {
       firstName: user?.firstName || "",
       lastName: user?.lastName || "",
       profileImageUrl: user?.profileImageUrl || "",
+      timezone: viewerTimeZone(user),
     },
   });
 
@@ -134,6 +151,7 @@ export default function ProfileSettings() {
         firstName: user.firstName || "",
         lastName: user.lastName || "",
         profileImageUrl: user.profileImageUrl || "",
+        timezone: viewerTimeZone(user),
       });
       setImagePreview(user.profileImageUrl || null);
     }
@@ -152,6 +170,8 @@ export default function ProfileSettings() {
         hourlyRate: tutorProfile.hourlyRate || 0,
       });
 
+      setTeachingLevels((tutorProfile as any).teachingLevels || []);
+
       backgroundForm.reset({
         experience: tutorProfile.experience || "",
         education: tutorProfile.education || "",
@@ -430,6 +450,14 @@ export default function ProfileSettings() {
     });
   };
 
+  const handleLevelChange = (key: string, checked: boolean) => {
+    setTeachingLevels((prev) => (checked ? [...prev, key] : prev.filter((k) => k !== key)));
+  };
+
+  const handleSaveLevels = () => {
+    updateTutorProfileMutation.mutate({ teachingLevels });
+  };
+
   const togglePricingMode = () => {
     setUseSamePriceForAll(!useSamePriceForAll);
   };
@@ -597,6 +625,34 @@ export default function ProfileSettings() {
                   />
                 </div>
 
+                <FormField
+                  control={form.control}
+                  name="timezone"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Time Zone</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-timezone">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent className="max-h-72">
+                          {listTimeZones().map((tz) => (
+                            <SelectItem key={tz} value={tz}>
+                              {tz}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription className="text-xs text-muted-foreground">
+                        Session times are shown in this time zone
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
                 {/* Submit Button */}
                 <div className="flex justify-end gap-2">
                   <Button
@@ -619,6 +675,10 @@ export default function ProfileSettings() {
           </CardContent>
         </Card>
 
+        {(user.role === "student" || user.role === "tutor") && <CalendarSubscriptionCard />}
+        {(user.role === "student" || user.role === "tutor") && <NotificationPreferencesCard />}
+        {(user.role === "student" || user.role === "tutor") && <SessionReminderSettingsCard />}
+
         {/* Tutor Profile Sections - Only for tutors */}
         {user.role === "tutor" && (
           <>
@@ -895,6 +955,75 @@ export default function ProfileSettings() {
                   </CardContent>
                 </Card>
 
+                {/* Levels You Teach */}
+                <Card className="mt-6">
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <GraduationCap className="h-5 w-5 text-[#9B1B30]" />
+                      Levels You Teach
+                    </CardTitle>
+                    <CardDescription>
+                      Students filter tutors by curriculum and grade. Tick a whole curriculum if you teach all of it.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {(taxonomy?.curricula ?? []).map((curriculum) => {
+                      const wholeKey = levelKey(curriculum.id);
+                      const whole = teachingLevels.includes(wholeKey);
+                      return (
+                        <div key={curriculum.id} className="p-4 border rounded-lg space-y-3">
+                          <div className="flex items-center space-x-3">
+                            <Checkbox
+                              id={`level-${curriculum.id}`}
+                              checked={whole}
+                              onCheckedChange={(isChecked) => handleLevelChange(wholeKey, !!isChecked)}
+                            />
+                            <Label htmlFor={`level-${curriculum.id}`} className="font-medium cursor-pointer">
+                              {curriculum.name}
+                            </Label>
+                          </div>
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-2 pl-8">
+                            {curriculum.gradeBands.map((band) => {
+                              const key = levelKey(curriculum.id, band.id);
+                              const lid = `level-${curriculum.id}-${band.id}`;
+                              return (
+                                <div key={band.id} className="flex items-center space-x-2">
+                                  <Checkbox
+                                    id={lid}
+                                    checked={whole || teachingLevels.includes(key)}
+                                    disabled={whole}
+                                    onCheckedChange={(isChecked) => handleLevelChange(key, !!isChecked)}
+                                  />
+                                  <Label htmlFor={lid} className="text-sm cursor-pointer">
+                                    {band.label}
+                                  </Label>
+                                </div>
+                              );
+                            })}
+                          </div>
+                        </div>
+                      );
+                    })}
+
+                    <div className="flex justify-end">
+                      <Button
+                        type="button"
+                        onClick={handleSaveLevels}
+                        disabled={updateTutorProfileMutation.isPending}
+                      >
+                        {updateTutorProfileMutation.isPending ? (
+                          <>
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            Saving...
+                          </>
+                        ) : (
+                          "Save Levels"
+                        )}
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+
                 {/* Background & Qualifications */}
                 <Card className="mt-6">
                   <CardHeader>
@@ -985,6 +1114,9 @@ export default function ProfileSettings() {
                     </Form>
                   </CardContent>
                 </Card>
+
+                {/* Date-specific availability */}
+                <AvailabilityExceptionsEditor exceptions={(tutorProfile as any)?.availabilityExceptions ?? []} />
               </>
             )}
           </>
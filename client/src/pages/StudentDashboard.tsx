@@ -1,6 +1,6 @@
 
 import { useEffect, useMemo, useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import type { Session, TutorProfile, User, Subject } from "@shared/schema";
 import { useLocation } from "wouter";
 import { formatMoney, formatFromCents } from "@/lib/currency";
@@ -13,6 +13,7 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 
 import { useAuth } from "@/components/AuthProvider";
 import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
 import { SessionCard } from "@/components/SessionCard";
 import { ChatWindow } from "@/components/ChatWindow";
 
@@ -108,6 +109,36 @@ export default function StudentDashboard() {
     staleTime: 30000, // Cache for 30s
   });
 
+  // Cancel one occurrence of a recurring series, or it and every later one
+  const queryClient = useQueryClient();
+  const cancelSessionMutation = useMutation({
+    mutationFn: async ({ session, scope }: { session: any; scope: "occurrence" | "series" }) =>
+      scope === "series"
+        ? apiRequest(`/api/session-series/${session.seriesId}/cancel`, {
+            method: "POST",
+            body: JSON.stringify({ fromSessionId: session.id }),
+          })
+        : apiRequest(`/api/sessions/${session.id}`, {
+            method: "PUT",
+            body: JSON.stringify({ status: "cancelled" }),
+          }),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+      toast({
+        title: variables.scope === "series" ? "Series cancelled" : "Session cancelled",
+        description: "Any refund follows the cancellation policy.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleSessionAction = (session: any, action: string) => {
+    if (action === "cancel_occurrence") cancelSessionMutation.mutate({ session, scope: "occurrence" });
+    if (action === "cancel_series") cancelSessionMutation.mutate({ session, scope: "series" });
+  };
+
   const sortedSessions = useMemo<SessionWithRelations[]>(() => {
     const list = Array.isArray(sessions) ? [...sessions] : [];
     list.sort((a, b) => {
@@ -141,7 +172,7 @@ export default function StudentDashboard() {
   );
 
   const cancelledSessions = useMemo(
-    () => sortedSessions.filter((s) => s.status === "cancelled"),
+    () => sortedSessions.filter((s) => s.status === "cancelled" || s.status === "expired"),
     [sortedSessions],
   );
 
@@ -235,6 +266,7 @@ export default function StudentDashboard() {
             session={session}
             userRole="student"
             onChat={() => handleStartChat(session.tutor?.user?.id ?? session.tutorId)}
+            onAction={(action) => handleSessionAction(session, action)}
           />
         ))}
       </div>
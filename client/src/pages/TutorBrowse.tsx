@@ -1,10 +1,13 @@
 import { useEffect, useMemo, useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useInfiniteQuery, useQuery } from "@tanstack/react-query";
 import type {
   TutorProfile as TutorProfileFS,
   User as UserFS,
   Subject as SubjectFS,
+  EducationTaxonomy,
 } from "@shared/types";
+import { RATING_DIMENSIONS } from "@shared/ratings";
+import { levelKey, levelLabel } from "@shared/taxonomy";
 
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
@@ -25,6 +28,7 @@ import {
 } from "@/components/TutorMatchWizard";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
+import { formatTime, viewerTimeZone } from "@/lib/timezone";
 
 /* ------------------------------------------------------------------ */
 /* Local favorites (per user) stored in localStorage                   */
@@ -80,10 +84,37 @@ type TutorVM = TutorProfileFS & {
   aiReasoning?: string[];
 };
 
+// A free run of slots from /api/tutors/available; date/start are in the tutor's zone
+type OpenSlot = { date: string; start: string; at: string; endAt: string; slotStarts: string[] };
+
+type SearchPage = {
+  tutors: TutorVM[];
+  total: number;
+  facets: Array<{ id: string; name: string; count: number }>;
+  nextCursor: string | null;
+};
+
+const SORT_PARAMS: Record<string, string> = {
+  relevance: "relevance",
+  rating: "rating",
+  "price-low": "price_low",
+  "price-high": "price_high",
+  reviews: "reviews",
+};
+
 export default function TutorBrowse() {
   const [searchTerm, setSearchTerm] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
   const [selectedSubject, setSelectedSubject] = useState<string>("all");
   const [sortBy, setSortBy] = useState<string>("rating");
+  const [minRating, setMinRating] = useState<string>("any");
+  const [level, setLevel] = useState<string>("any");
+  const [minPrice, setMinPrice] = useState("");
+  const [maxPrice, setMaxPrice] = useState("");
+  const [availableOn, setAvailableOn] = useState("");
+  const [timeFrom, setTimeFrom] = useState("");
+  const [timeTo, setTimeTo] = useState("");
+  const [bookingSlot, setBookingSlot] = useState<OpenSlot | null>(null);
   const [showBookingModal, setShowBookingModal] = useState(false);
   const [selectedTutor, setSelectedTutor] = useState<TutorVM | null>(null);
   const [showWizard, setShowWizard] = useState(false);
@@ -99,34 +130,129 @@ export default function TutorBrowse() {
     setDisplayCount(12);
   }, [searchTerm, selectedSubject, sortBy, wizardFilters]);
 
+  const { data: taxonomy } = useQuery<EducationTaxonomy>({
+    queryKey: ["/api/taxonomy"],
+  });
+  const levelOptions = useMemo(
+    () =>
+      (taxonomy?.curricula ?? []).flatMap((c) => [
+        levelKey(c.id),
+        ...c.gradeBands.map((b) => levelKey(c.id, b.id)),
+      ]),
+    [taxonomy]
+  );
+
+  // Don't hit the search endpoint on every keystroke
+  useEffect(() => {
+    const t = setTimeout(() => setDebouncedSearch(searchTerm.trim()), 300);
+    return () => clearTimeout(t);
+  }, [searchTerm]);
+
   /* --------------------------- Load tutors from API --------------------------- */
   // Use AI recommendations when wizard filters are active
   const shouldUseAI = !!wizardFilters?.subjectId;
-  const apiEndpoint = shouldUseAI ? "/api/tutors/recommended" : "/api/tutors";
+  const apiEndpoint = "/api/tutors/recommended";
 
   const queryParams = shouldUseAI && wizardFilters
     ? new URLSearchParams({
         subjectId: wizardFilters.subjectId!,
+        ...(wizardFilters.gradeLevel && { gradeLevel: wizardFilters.gradeLevel }),
         ...(wizardFilters.maxRate && { maxBudget: wizardFilters.maxRate.toString() }),
+        ...(wizardFilters.priorities?.length && { priorities: wizardFilters.priorities.join(",") }),
         limit: "20",
       }).toString()
     : "";
 
   const {
     data: tutors = [],
-    isLoading: tutorsLoading,
+    isLoading: aiLoading,
   } = useQuery<TutorVM[]>({
     queryKey: [apiEndpoint, queryParams],
     queryFn: async () => {
-      const url = queryParams ? `${apiEndpoint}?${queryParams}` : apiEndpoint;
-      const res = await fetch(url);
+      const res = await fetch(`${apiEndpoint}?${queryParams}`);
       if (!res.ok) throw new Error("Failed to fetch tutors");
       return res.json();
     },
+    enabled: shouldUseAI,
   });
 
+  // "Who can teach me Thursday at 5pm?": a subject, a day and a time window
+  const timeZone = viewerTimeZone(user as any);
+  const shouldUseSlots =
+    !shouldUseAI && !!availableOn && !!timeFrom && !!timeTo && selectedSubject !== "all";
+
+  const slotParams = shouldUseSlots
+    ? new URLSearchParams({
+        subjectId: selectedSubject,
+        date: availableOn,
+        from: timeFrom,
+        to: timeTo,
+        timeZone,
+        ...(level !== "any" && { level }),
+        limit: "20",
+      }).toString()
+    : "";
+
+  const {
+    data: slotResults = [],
+    isLoading: slotsLoading,
+  } = useQuery<Array<TutorVM & { matchingSlots: OpenSlot[] }>>({
+    queryKey: ["/api/tutors/available", slotParams],
+    queryFn: async () => {
+      const res = await fetch(`/api/tutors/available?${slotParams}`);
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.message || "Failed to find available tutors");
+      return data;
+    },
+    enabled: shouldUseSlots,
+  });
+
+  // Regular browsing: the server filters, sorts and pages
+  const searchParams = new URLSearchParams({
+    ...(debouncedSearch && { q: debouncedSearch }),
+    ...(selectedSubject !== "all" && { subjectId: selectedSubject }),
+    ...(minRating !== "any" && { minRating }),
+    ...(level !== "any" && { level }),
+    ...(Number(minPrice) > 0 && { minPrice }),
+    ...(Number(maxPrice) > 0 && { maxPrice }),
+    ...(availableOn && { date: availableOn }),
+    sort: SORT_PARAMS[sortBy] ?? "rating",
+    limit: "12",
+  }).toString();
+
+  const {
+    data: searchData,
+    isLoading: searchLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ["/api/tutors/search", searchParams],
+    queryFn: async ({ pageParam }) => {
+      const cursor = pageParam ? `&cursor=${encodeURIComponent(pageParam)}` : "";
+      const res = await fetch(`/api/tutors/search?${searchParams}${cursor}`);
+      if (!res.ok) throw new Error("Failed to search tutors");
+      return (await res.json()) as SearchPage;
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (last) => last.nextCursor,
+    // Stays on in slot mode: its facets fill the subject filter
+    enabled: !shouldUseAI,
+  });
+
+  const searchResults = useMemo(
+    () => searchData?.pages.flatMap((p) => p.tutors) ?? [],
+    [searchData]
+  );
+  const searchTotal = searchData?.pages[0]?.total ?? 0;
+  const subjectFacets = searchData?.pages[0]?.facets ?? [];
+  const tutorsLoading = shouldUseAI ? aiLoading : shouldUseSlots ? slotsLoading : searchLoading;
+
   /* --------------------- Derive subjects from tutors -------------------------- */
   const subjectsForFilter: SubjectFS[] = useMemo(() => {
+    if (!shouldUseAI) {
+      return subjectFacets.map((f) => ({ id: f.id, name: f.name }) as SubjectFS);
+    }
     const map = new Map<string, SubjectFS>();
 
     tutors.forEach((tutor) => {
@@ -143,10 +269,13 @@ export default function TutorBrowse() {
     });
 
     return Array.from(map.values());
-  }, [tutors]);
+  }, [tutors, shouldUseAI, subjectFacets]);
 
   /* ------------------------------- Filters ------------------------------------ */
+  // Only the AI recommendations are filtered here; search results come filtered
   const filteredTutors = useMemo(() => {
+    if (shouldUseSlots) return slotResults;
+    if (!shouldUseAI) return searchResults;
     const term = searchTerm.trim().toLowerCase();
 
     const base = tutors.filter((tutor) => {
@@ -235,14 +364,32 @@ export default function TutorBrowse() {
     });
 
     return sorted;
-  }, [tutors, searchTerm, selectedSubject, sortBy, wizardFilters]);
-
-  // Slice tutors for pagination
-  const displayedTutors = filteredTutors.slice(0, displayCount);
-  const hasMoreTutors = filteredTutors.length > displayCount;
+  }, [tutors, searchTerm, selectedSubject, sortBy, wizardFilters, shouldUseAI, searchResults, shouldUseSlots, slotResults]);
+
+  // AI results are sliced locally; search results page through the cursor
+  const displayedTutors = shouldUseAI ? filteredTutors.slice(0, displayCount) : filteredTutors;
+  const hasMoreTutors = shouldUseAI
+    ? filteredTutors.length > displayCount
+    : !shouldUseSlots && !!hasNextPage;
+  const resultCount = shouldUseAI || shouldUseSlots ? filteredTutors.length : searchTotal;
+  const slotsOf = (tutor: TutorVM): OpenSlot[] =>
+    shouldUseSlots ? (tutor as TutorVM & { matchingSlots?: OpenSlot[] }).matchingSlots ?? [] : [];
+
+  const clearFilters = () => {
+    setSearchTerm("");
+    setSelectedSubject("all");
+    setSortBy("rating");
+    setMinRating("any");
+    setLevel("any");
+    setMinPrice("");
+    setMaxPrice("");
+    setAvailableOn("");
+    setTimeFrom("");
+    setTimeTo("");
+  };
 
   /* --------------------------- Handlers --------------------------------------- */
-  const handleBookSession = (tutor: TutorVM) => {
+  const handleBookSession = (tutor: TutorVM, slot: OpenSlot | null = null) => {
     if (user?.role === "tutor") {
       toast({
         title: "Cannot book session",
@@ -252,6 +399,7 @@ export default function TutorBrowse() {
       return;
     }
     setSelectedTutor(tutor);
+    setBookingSlot(slot);
     setShowBookingModal(true);
   };
 
@@ -293,7 +441,11 @@ export default function TutorBrowse() {
   };
 
   const handleLoadMore = () => {
-    setDisplayCount(prev => prev + 12);
+    if (shouldUseAI) {
+      setDisplayCount(prev => prev + 12);
+    } else {
+      fetchNextPage();
+    }
   };
 
   /* ------------------------------ UI ----------------------------------------- */
@@ -349,11 +501,15 @@ export default function TutorBrowse() {
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="all">All Subjects</SelectItem>
-                    {subjectsForFilter.map((subject) => (
-                      <SelectItem key={subject.id} value={subject.id}>
-                        {subject.name}
-                      </SelectItem>
-                    ))}
+                    {subjectsForFilter.map((subject) => {
+                      const facet = subjectFacets.find((f) => f.id === subject.id);
+                      return (
+                        <SelectItem key={subject.id} value={subject.id}>
+                          {subject.name}
+                          {!shouldUseAI && facet ? ` (${facet.count})` : ""}
+                        </SelectItem>
+                      );
+                    })}
                   </SelectContent>
                 </Select>
               </div>
@@ -363,6 +519,9 @@ export default function TutorBrowse() {
                     <SelectValue placeholder="Sort by" />
                   </SelectTrigger>
                   <SelectContent>
+                    {!shouldUseAI && debouncedSearch && (
+                      <SelectItem value="relevance">Best Match</SelectItem>
+                    )}
                     <SelectItem value="rating">Highest Rated</SelectItem>
                     <SelectItem value="price-low">
                       Price: Low to High
@@ -378,17 +537,101 @@ export default function TutorBrowse() {
                 <Button
                   variant="outline"
                   className="w-full"
-                  onClick={() => {
-                    setSearchTerm("");
-                    setSelectedSubject("all");
-                    setSortBy("rating");
-                  }}
+                  onClick={clearFilters}
                   data-testid="button-clear-filters"
                 >
                   Clear Filters
                 </Button>
               </div>
             </div>
+            {!shouldUseAI && (
+              <div className="grid md:grid-cols-7 gap-4 mt-4">
+                <div>
+                  <Select value={level} onValueChange={setLevel}>
+                    <SelectTrigger data-testid="select-level">
+                      <SelectValue placeholder="Any level" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="any">Any level</SelectItem>
+                      {levelOptions.map((key) => (
+                        <SelectItem key={key} value={key}>
+                          {levelLabel(taxonomy, key)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Select value={minRating} onValueChange={setMinRating}>
+                    <SelectTrigger data-testid="select-min-rating">
+                      <SelectValue placeholder="Any rating" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="any">Any rating</SelectItem>
+                      <SelectItem value="3.5">3.5+ stars</SelectItem>
+                      <SelectItem value="4">4+ stars</SelectItem>
+                      <SelectItem value="4.5">4.5+ stars</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Input
+                    type="number"
+                    min={0}
+                    placeholder="Min price / hr"
+                    value={minPrice}
+                    onChange={(e) => setMinPrice(e.target.value)}
+                    data-testid="input-min-price"
+                  />
+                </div>
+                <div>
+                  <Input
+                    type="number"
+                    min={0}
+                    placeholder="Max price / hr"
+                    value={maxPrice}
+                    onChange={(e) => setMaxPrice(e.target.value)}
+                    data-testid="input-max-price"
+                  />
+                </div>
+                <div>
+                  <Input
+                    type="date"
+                    value={availableOn}
+                    onChange={(e) => setAvailableOn(e.target.value)}
+                    aria-label="Available on"
+                    data-testid="input-available-on"
+                  />
+                </div>
+                <div>
+                  <Input
+                    type="time"
+                    step={3600}
+                    value={timeFrom}
+                    onChange={(e) => setTimeFrom(e.target.value)}
+                    disabled={!availableOn}
+                    aria-label="Free from"
+                    data-testid="input-time-from"
+                  />
+                </div>
+                <div>
+                  <Input
+                    type="time"
+                    step={3600}
+                    value={timeTo}
+                    onChange={(e) => setTimeTo(e.target.value)}
+                    disabled={!availableOn}
+                    aria-label="Free until"
+                    data-testid="input-time-to"
+                  />
+                </div>
+              </div>
+            )}
+            {!shouldUseAI && availableOn && timeFrom && timeTo && selectedSubject === "all" && (
+              <p className="text-sm text-muted-foreground mt-3">
+                Pick a subject to see tutors with a free slot in that time.
+              </p>
+            )}
           </CardContent>
         </Card>
 
@@ -417,6 +660,12 @@ export default function TutorBrowse() {
                           {wizardFilters.subjectName}
                         </Badge>
                       )}
+                      {wizardFilters.gradeLevelLabel && (
+                        <Badge variant="secondary">
+                          <i className="fas fa-graduation-cap mr-1" />
+                          {wizardFilters.gradeLevelLabel}
+                        </Badge>
+                      )}
                       {wizardFilters.maxRate &&
                         wizardFilters.maxRate < 999999 && (
                           <Badge variant="secondary">
@@ -431,6 +680,12 @@ export default function TutorBrowse() {
                             {wizardFilters.minRating}+ rating
                           </Badge>
                         )}
+                      {wizardFilters.priorities?.map((id) => (
+                        <Badge key={id} variant="secondary">
+                          <i className="fas fa-heart mr-1" />
+                          {RATING_DIMENSIONS.find((d) => d.id === id)?.label ?? id}
+                        </Badge>
+                      ))}
                     </div>
                   </div>
                 </div>
@@ -452,7 +707,9 @@ export default function TutorBrowse() {
         <div className="mb-6">
           <div className="flex items-center justify-between">
             <h2 className="text-xl font-semibold">
-              {filteredTutors.length} tutors found
+              {shouldUseSlots
+                ? `${resultCount} tutors free ${timeFrom}–${timeTo} on ${availableOn}`
+                : `${resultCount} tutors found`}
             </h2>
             <div className="flex items-center space-x-2">
               <Badge variant="outline" className="bg-primary/10 text-primary">
@@ -486,16 +743,35 @@ export default function TutorBrowse() {
           </div>
         ) : filteredTutors.length > 0 ? (
           <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {displayedTutors.map((tutor) => (
-              <TutorCard
-                key={tutor.id}
-                tutor={tutor}
-                onBook={() => handleBookSession(tutor)}
-                onViewProfile={() => (window.location.href = `/tutors/${tutor.id}`)}
-                onFavorite={() => handleFavoriteToggle(tutor.id)}
-                isFavorite={isFav(tutor.id)}
-              />
-            ))}
+            {displayedTutors.map((tutor) => {
+              const openSlots = slotsOf(tutor);
+              return (
+                <div key={tutor.id} className="space-y-2">
+                  <TutorCard
+                    tutor={tutor}
+                    onBook={() => handleBookSession(tutor, openSlots[0] ?? null)}
+                    onViewProfile={() => (window.location.href = `/tutors/${tutor.id}`)}
+                    onFavorite={() => handleFavoriteToggle(tutor.id)}
+                    isFavorite={isFav(tutor.id)}
+                  />
+                  {openSlots.length > 0 && (
+                    <div className="flex flex-wrap gap-2" data-testid={`open-slots-${tutor.id}`}>
+                      {openSlots.slice(0, 6).map((slot) => (
+                        <Button
+                          key={slot.at}
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleBookSession(tutor, slot)}
+                        >
+                          <i className="fas fa-clock mr-1" />
+                          {formatTime(new Date(slot.at), timeZone)}
+                        </Button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
           </div>
         ) : (
           <Card className="text-center py-12">
@@ -507,10 +783,7 @@ export default function TutorBrowse() {
                   Try adjusting your search criteria or browse all tutors
                 </p>
                 <Button
-                  onClick={() => {
-                    setSearchTerm("");
-                    setSelectedSubject("all");
-                  }}
+                  onClick={clearFilters}
                   data-testid="button-browse-all"
                 >
                   Browse All Tutors
@@ -526,9 +799,12 @@ export default function TutorBrowse() {
             <Button
               variant="outline"
               onClick={handleLoadMore}
+              disabled={isFetchingNextPage}
               data-testid="button-load-more"
             >
-              Load More Tutors ({filteredTutors.length - displayCount} remaining)
+              {isFetchingNextPage
+                ? "Loading…"
+                : `Load More Tutors (${resultCount - displayedTutors.length} remaining)`}
             </Button>
           </div>
         )}
@@ -540,6 +816,11 @@ export default function TutorBrowse() {
           tutor={selectedTutor}
           onClose={() => setShowBookingModal(false)}
           onConfirm={handleBookingConfirm}
+          initialSlot={
+            bookingSlot
+              ? { date: bookingSlot.date, slotStarts: bookingSlot.slotStarts, subjectId: selectedSubject }
+              : null
+          }
         />
       )}
 
@@ -16,15 +16,19 @@ import { apiRequest } from "@/lib/queryClient";
 import { SessionCard } from "@/components/SessionCard";
 import { ChatWindow } from "@/components/ChatWindow";
 import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import TutorAnalyticsSection from "@/components/TutorAnalyticsSection";
 import PreSessionMemoryGame from "@/components/PreSessionMemoryGame";
 import { useLocation } from "wouter";
-import { Calendar, Clock, CheckCircle, XCircle, AlertCircle, Save, Trash2, Download } from "lucide-react";
+import { Calendar, Clock, CheckCircle, XCircle, AlertCircle, Save, Trash2, Download, Plus, X } from "lucide-react";
 import { format } from "date-fns";
 import { formatMoney } from "@/lib/currency";
+import { listTimeZones } from "@/lib/timezone";
+import { DEFAULT_TIMEZONE } from "@shared/timezone";
 
 /** ---------- helpers ---------- */
-type DayAvailability = { isAvailable: boolean; startTime: string; endTime: string };
+type TimeWindow = { startTime: string; endTime: string };
+type DayAvailability = { isAvailable: boolean; windows: TimeWindow[] };
 
 const DAYS: Array<{ key: string; label: string }> = [
   { key: "monday", label: "Mon" },
@@ -38,10 +42,47 @@ const DAYS: Array<{ key: string; label: string }> = [
 
 const emptyWeek = (): Record<string, DayAvailability> =>
   DAYS.reduce((acc, d) => {
-    acc[d.key] = { isAvailable: false, startTime: "09:00", endTime: "17:00" };
+    acc[d.key] = { isAvailable: false, windows: [{ startTime: "09:00", endTime: "17:00" }] };
     return acc;
   }, {} as Record<string, DayAvailability>);
 
+/** Stored availability (profile or template) -> editor state; older data has a single start/end */
+function seedWeek(src: Record<string, any>): Record<string, DayAvailability> {
+  const seeded = emptyWeek();
+  for (const k of Object.keys(src)) {
+    if (seeded[k]) {
+      const windows: TimeWindow[] =
+        Array.isArray(src[k].windows) && src[k].windows.length > 0
+          ? src[k].windows.map((w: TimeWindow) => ({ startTime: w.startTime, endTime: w.endTime }))
+          : [{ startTime: src[k].startTime ?? "09:00", endTime: src[k].endTime ?? "17:00" }];
+      seeded[k] = { isAvailable: !!src[k].isAvailable, windows };
+    }
+  }
+  return seeded;
+}
+
+/** Editor state -> stored shape; startTime/endTime span the windows for older readers */
+function serializeWeek(week: Record<string, DayAvailability>) {
+  const out: Record<string, { isAvailable: boolean; startTime: string; endTime: string; windows: TimeWindow[] }> = {};
+  for (const [k, d] of Object.entries(week)) {
+    const windows = [...d.windows].sort((a, b) => a.startTime.localeCompare(b.startTime));
+    out[k] = {
+      isAvailable: d.isAvailable,
+      startTime: windows[0].startTime,
+      endTime: windows.reduce((max, w) => (w.endTime > max ? w.endTime : max), windows[0].endTime),
+      windows,
+    };
+  }
+  return out;
+}
+
+/** Window "Add hours" appends: from the latest end until 23:00 (or 23:59 late at night); null once the day is full */
+function nextWindow(windows: TimeWindow[]): TimeWindow | null {
+  const startTime = windows.reduce((max, w) => (w.endTime > max ? w.endTime : max), "") || "09:00";
+  if (startTime >= "23:59") return null;
+  return { startTime, endTime: startTime < "23:00" ? "23:00" : "23:59" };
+}
+
 /** Normalize Firestore Timestamp / string / number / Date into Date */
 function toDate(value: any): Date | null {
   try {
@@ -115,6 +156,9 @@ export default function TutorDashboard() {
   // Availability dialog state
   const [showAvailability, setShowAvailability] = useState(false);
   const [week, setWeek] = useState<Record<string, DayAvailability>>(emptyWeek());
+  const [bufferMinutes, setBufferMinutes] = useState("0");
+  const [minNoticeHours, setMinNoticeHours] = useState("0");
+  const [scheduleTimeZone, setScheduleTimeZone] = useState(DEFAULT_TIMEZONE);
   const [templateName, setTemplateName] = useState("");
   const [showSaveTemplate, setShowSaveTemplate] = useState(false);
 
@@ -203,11 +247,41 @@ export default function TutorDashboard() {
     },
   });
 
+  // Recurring series: accept every pending occurrence, or cancel the rest
+  const seriesMutation = useMutation({
+    mutationFn: async ({ seriesId, action, fromSessionId }: { seriesId: string; action: "accept" | "cancel"; fromSessionId?: string }) =>
+      apiRequest(`/api/session-series/${seriesId}/${action}`, {
+        method: "POST",
+        body: JSON.stringify(action === "cancel" ? { fromSessionId } : {}),
+      }),
+    onSuccess: async (result: any, variables) => {
+      await queryClient.refetchQueries({ queryKey: ["/api/sessions"] });
+      if (variables.action === "accept") {
+        const failed = result?.failed?.length ?? 0;
+        toast({
+          title: failed > 0 ? "Series partly accepted" : "Series accepted",
+          description: `${result?.accepted?.length ?? 0} session(s) accepted${failed > 0 ? `, ${failed} could not be confirmed` : ""}.`,
+          variant: failed > 0 ? "destructive" : undefined,
+        });
+      } else {
+        toast({ title: "Series cancelled", description: `${result?.cancelled?.length ?? 0} session(s) cancelled.` });
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
   const saveAvailabilityMutation = useMutation({
     mutationFn: async (payload: Record<string, DayAvailability>) =>
       apiRequest("/api/tutors/profile", {
         method: "PUT",
-        body: JSON.stringify({ availability: payload }),
+        body: JSON.stringify({
+          availability: serializeWeek(payload),
+          bufferMinutes: Number(bufferMinutes) || 0,
+          minNoticeHours: Number(minNoticeHours) || 0,
+          timezone: scheduleTimeZone,
+        }),
         headers: { "Content-Type": "application/json" },
       }),
     onSuccess: () => {
@@ -254,18 +328,12 @@ export default function TutorDashboard() {
   useEffect(() => {
     const tp: any = tutorProfile;
     if (tp?.availability) {
-      const seeded = emptyWeek();
-      const src = tp.availability as Record<string, any>;
-      for (const k of Object.keys(src)) {
-        if (seeded[k]) {
-          seeded[k] = {
-            isAvailable: !!src[k].isAvailable,
-            startTime: src[k].startTime ?? "09:00",
-            endTime: src[k].endTime ?? "17:00",
-          };
-        }
-      }
-      setWeek(seeded);
+      setWeek(seedWeek(tp.availability as Record<string, any>));
+    }
+    if (tp) {
+      setBufferMinutes(String(tp.bufferMinutes ?? 0));
+      setMinNoticeHours(String(tp.minNoticeHours ?? 0));
+      setScheduleTimeZone(tp.timezone || DEFAULT_TIMEZONE);
     }
   }, [tutorProfile]);
 
@@ -332,6 +400,19 @@ export default function TutorDashboard() {
   };
 
   const handleSessionAction = (sessionId: string, status: string) => {
+    const session = (Array.isArray(sessions) ? sessions : []).find((s: any) => s.id === sessionId);
+    if (status === "accept_series" && session?.seriesId) {
+      seriesMutation.mutate({ seriesId: session.seriesId, action: "accept" });
+      return;
+    }
+    if (status === "cancel_series" && session?.seriesId) {
+      seriesMutation.mutate({ seriesId: session.seriesId, action: "cancel", fromSessionId: sessionId });
+      return;
+    }
+    if (status === "cancel_occurrence") {
+      updateSessionMutation.mutate({ sessionId, status: "cancelled" });
+      return;
+    }
     updateSessionMutation.mutate({ sessionId, status });
   };
 
@@ -343,19 +424,14 @@ export default function TutorDashboard() {
     updateSessionMutation.mutate({ sessionId, status: "cancelled" });
   };
 
+  const updateWindow = (day: string, index: number, patch: Partial<TimeWindow>) =>
+    setWeek((s) => ({
+      ...s,
+      [day]: { ...s[day], windows: s[day].windows.map((w, j) => (j === index ? { ...w, ...patch } : w)) },
+    }));
+
   const handleLoadTemplate = (template: any) => {
-    const seeded = emptyWeek();
-    const src = template.availability as Record<string, any>;
-    for (const k of Object.keys(src)) {
-      if (seeded[k]) {
-        seeded[k] = {
-          isAvailable: !!src[k].isAvailable,
-          startTime: src[k].startTime ?? "09:00",
-          endTime: src[k].endTime ?? "17:00",
-        };
-      }
-    }
-    setWeek(seeded);
+    setWeek(seedWeek(template.availability as Record<string, any>));
     toast({
       title: "Template loaded",
       description: `Loaded schedule template: ${template.name}`,
@@ -371,7 +447,7 @@ export default function TutorDashboard() {
       });
       return;
     }
-    saveTemplateMutation.mutate({ name: templateName, availability: week });
+    saveTemplateMutation.mutate({ name: templateName, availability: serializeWeek(week) });
   };
 
   /** Pending Session Card Component */
@@ -924,7 +1000,7 @@ export default function TutorDashboard() {
                 onClick={() => {
                   const next = emptyWeek();
                   for (const d of ["monday", "tuesday", "wednesday", "thursday", "friday"]) {
-                    next[d] = { isAvailable: true, startTime: "09:00", endTime: "17:00" };
+                    next[d] = { isAvailable: true, windows: [{ startTime: "09:00", endTime: "17:00" }] };
                   }
                   setWeek(next);
                 }}
@@ -940,7 +1016,7 @@ export default function TutorDashboard() {
                 onClick={() => {
                   const mon = week["monday"];
                   const next = emptyWeek();
-                  for (const d of DAYS.map((x) => x.key)) next[d] = { ...mon };
+                  for (const d of DAYS.map((x) => x.key)) next[d] = { ...mon, windows: mon.windows.map((w) => ({ ...w })) };
                   setWeek(next);
                 }}
               >
@@ -964,37 +1040,110 @@ export default function TutorDashboard() {
                       <span className="w-12 font-medium">{d.label}</span>
                     </div>
 
-                    <div className="flex items-center gap-2">
-                      <div className="flex items-center gap-2">
-                        <span className="text-sm text-muted-foreground">From</span>
-                        <Input
-                          type="time"
-                          value={v.startTime}
-                          disabled={!v.isAvailable}
-                          onChange={(e) =>
-                            setWeek((s) => ({ ...s, [d.key]: { ...s[d.key], startTime: e.target.value } }))
-                          }
-                          className="w-28"
-                        />
-                      </div>
-                      <div className="flex items-center gap-2">
-                        <span className="text-sm text-muted-foreground">To</span>
-                        <Input
-                          type="time"
-                          value={v.endTime}
-                          disabled={!v.isAvailable}
-                          onChange={(e) =>
-                            setWeek((s) => ({ ...s, [d.key]: { ...s[d.key], endTime: e.target.value } }))
+                    <div className="flex flex-col items-end gap-2">
+                      {v.windows.map((w, i) => (
+                        <div key={i} className="flex items-center gap-2">
+                          <span className="text-sm text-muted-foreground">From</span>
+                          <Input
+                            type="time"
+                            value={w.startTime}
+                            disabled={!v.isAvailable}
+                            onChange={(e) => updateWindow(d.key, i, { startTime: e.target.value })}
+                            className="w-28"
+                          />
+                          <span className="text-sm text-muted-foreground">To</span>
+                          <Input
+                            type="time"
+                            value={w.endTime}
+                            disabled={!v.isAvailable}
+                            onChange={(e) => updateWindow(d.key, i, { endTime: e.target.value })}
+                            className="w-28"
+                          />
+                          {v.windows.length > 1 ? (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              disabled={!v.isAvailable}
+                              onClick={() =>
+                                setWeek((s) => ({
+                                  ...s,
+                                  [d.key]: { ...s[d.key], windows: s[d.key].windows.filter((_, j) => j !== i) },
+                                }))
+                              }
+                              className="h-8 w-8 p-0"
+                            >
+                              <X className="h-3 w-3" />
+                            </Button>
+                          ) : (
+                            <div className="w-8" />
+                          )}
+                        </div>
+                      ))}
+                      {v.isAvailable && v.windows.length < 6 && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={!nextWindow(v.windows)}
+                          onClick={() =>
+                            setWeek((s) => {
+                              const next = nextWindow(s[d.key].windows);
+                              if (!next) return s;
+                              return { ...s, [d.key]: { ...s[d.key], windows: [...s[d.key].windows, next] } };
+                            })
                           }
-                          className="w-28"
-                        />
-                      </div>
+                        >
+                          <Plus className="h-3 w-3 mr-1" />
+                          Add hours
+                        </Button>
+                      )}
                     </div>
                   </div>
                 );
               })}
             </div>
 
+            {/* booking rules */}
+            <div className="grid grid-cols-2 gap-3">
+              <div className="col-span-2">
+                <Label>Time zone of these hours</Label>
+                <Select value={scheduleTimeZone} onValueChange={setScheduleTimeZone}>
+                  <SelectTrigger data-testid="select-schedule-timezone">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="max-h-72">
+                    {listTimeZones().map((tz) => (
+                      <SelectItem key={tz} value={tz}>
+                        {tz}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="buffer-minutes">Break between sessions (minutes)</Label>
+                <Input
+                  id="buffer-minutes"
+                  type="number"
+                  min={0}
+                  max={120}
+                  step={5}
+                  value={bufferMinutes}
+                  onChange={(e) => setBufferMinutes(e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="min-notice-hours">Minimum booking notice (hours)</Label>
+                <Input
+                  id="min-notice-hours"
+                  type="number"
+                  min={0}
+                  max={336}
+                  value={minNoticeHours}
+                  onChange={(e) => setMinNoticeHours(e.target.value)}
+                />
+              </div>
+            </div>
+
             <div className="flex justify-end gap-2">
               <Button variant="outline" onClick={() => setShowAvailability(false)}>
                 Cancel
@@ -1003,10 +1152,16 @@ export default function TutorDashboard() {
                 onClick={() => {
                   for (const k of Object.keys(week)) {
                     const d = week[k];
-                    if (d.isAvailable && d.startTime >= d.endTime) {
+                    if (!d.isAvailable) continue;
+                    const sorted = [...d.windows].sort((a, b) => a.startTime.localeCompare(b.startTime));
+                    const invalid = sorted.find((w) => w.startTime >= w.endTime);
+                    const overlapping = sorted.some((w, i) => i > 0 && w.startTime < sorted[i - 1].endTime);
+                    if (invalid || overlapping) {
                       toast({
                         title: "Invalid time range",
-                        description: `On ${k}, end time must be after start time.`,
+                        description: invalid
+                          ? `On ${k}, end time must be after start time.`
+                          : `On ${k}, time ranges must not overlap.`,
                         variant: "destructive",
                       });
                       return;
@@ -11,7 +11,8 @@ import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { formatMoney } from "@/lib/currency";
+import { formatMoney, formatFromCents } from "@/lib/currency";
+import { fetchMyEarnings, downloadPayoutStatement, type ApiEarningsSummary } from "@/lib/api";
 
 import {
   AreaChart,
@@ -89,6 +90,14 @@ export default function TutorEarningsReport() {
     refetchOnWindowFocus: true,
   });
 
+  // Server-side ledger: net earnings after platform commission + payouts
+  const { data: earnings } = useQuery<ApiEarningsSummary>({
+    queryKey: ["/api/earnings/me"],
+    queryFn: fetchMyEarnings,
+    enabled: user?.role === "tutor",
+    retry: false,
+  });
+
   // Guard: unauthenticated
   if (!isLoading && !user) {
     toast({
@@ -100,6 +109,32 @@ export default function TutorEarningsReport() {
     return null;
   }
 
+  // sessionId -> net amount credited to the tutor for that session
+  const netBySession = useMemo(() => {
+    const map = new Map<string, number>();
+    for (const e of earnings?.entries ?? []) {
+      if (e.type === "session") map.set(e.sessionId, e.netCents / 100);
+    }
+    return map;
+  }, [earnings]);
+
+  // Prefer the ledger (commission applied); sessions completed before the
+  // ledger existed fall back to their list price
+  const sessionEarnings = (s: any): number =>
+    netBySession.get(s.id) ?? getSessionAmount(s);
+
+  const handleDownloadStatement = async (payoutId: string) => {
+    try {
+      await downloadPayoutStatement(payoutId);
+    } catch (e: any) {
+      toast({
+        title: "Download failed",
+        description: e?.message ?? "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const completedSessions = useMemo(
     () =>
       (Array.isArray(sessions) ? sessions : []).filter(
@@ -127,9 +162,40 @@ export default function TutorEarningsReport() {
     });
   }, [completedSessions, range]);
 
+  // Cancelled sessions in range that carry a refund record (policy outcome)
+  const cancelledWithRefunds = useMemo(() => {
+    const days = range === "all" ? null : range === "30" ? 30 : range === "90" ? 90 : 365;
+    const now = new Date();
+    now.setHours(0, 0, 0, 0);
+    const cutoff = new Date(now);
+    if (days) cutoff.setDate(now.getDate() - days + 1);
+
+    return (Array.isArray(sessions) ? sessions : []).filter((s: any) => {
+      if (s.status !== "cancelled" || !s.cancellation) return false;
+      if (!days) return true;
+      const dt = toDate(s.cancellation.cancelledAt) ?? toDate(s.scheduledAt);
+      if (!dt) return false;
+      const d = new Date(dt);
+      d.setHours(0, 0, 0, 0);
+      return d >= cutoff && d <= now;
+    }) as any[];
+  }, [sessions, range]);
+
+  const cancellationTotals = useMemo(
+    () =>
+      cancelledWithRefunds.reduce(
+        (acc, s) => ({
+          refunded: acc.refunded + (s.cancellation.refundCents ?? 0) / 100,
+          retained: acc.retained + (s.cancellation.tutorRetainedCents ?? 0) / 100,
+        }),
+        { refunded: 0, retained: 0 },
+      ),
+    [cancelledWithRefunds],
+  );
+
   const totalEarnings = useMemo(
-    () => filteredSessions.reduce((sum, s) => sum + getSessionAmount(s), 0),
-    [filteredSessions],
+    () => filteredSessions.reduce((sum, s) => sum + sessionEarnings(s), 0),
+    [filteredSessions, netBySession],
   );
 
   const totalMinutes = useMemo(
@@ -179,7 +245,7 @@ export default function TutorEarningsReport() {
 
     filteredSessions.forEach((s) => {
       const subjectName = s.subject?.name || "Unknown Subject";
-      const amount = getSessionAmount(s);
+      const amount = sessionEarnings(s);
 
       const current = map.get(subjectName) || {
         name: subjectName,
@@ -194,7 +260,7 @@ export default function TutorEarningsReport() {
     });
 
     return Array.from(map.values()).sort((a, b) => b.earnings - a.earnings);
-  }, [filteredSessions]);
+  }, [filteredSessions, netBySession]);
 
   // Success rate by status
   const sessionsByStatus = useMemo(() => {
@@ -255,7 +321,7 @@ export default function TutorEarningsReport() {
       const key = day.toISOString().slice(0, 10);
 
       const current = map.get(key) ?? 0;
-      map.set(key, current + getSessionAmount(s));
+      map.set(key, current + sessionEarnings(s));
     }
 
     let start: Date;
@@ -301,7 +367,7 @@ export default function TutorEarningsReport() {
     }
 
     return result;
-  }, [filteredSessions, range]);
+  }, [filteredSessions, range, netBySession]);
 
   return (
     <div className="min-h-screen bg-background pt-16">
@@ -313,7 +379,7 @@ export default function TutorEarningsReport() {
               Earnings Report
             </h1>
             <p className="text-muted-foreground mt-1 text-sm">
-              Detailed view of your completed sessions and earnings.
+              Detailed view of your completed sessions and earnings after platform commission.
             </p>
           </div>
           <Button
@@ -605,6 +671,181 @@ export default function TutorEarningsReport() {
           </CardContent>
         </Card>
 
+        {/* Balance & payouts (server ledger) */}
+        {earnings && (
+          <Card className="mb-8">
+            <CardHeader>
+              <CardTitle>Balance &amp; Payouts</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="grid md:grid-cols-4 gap-4">
+                <div className="text-center p-4 bg-green-50 dark:bg-green-950 rounded-lg">
+                  <div className="text-xs uppercase text-muted-foreground mb-1">
+                    Available Balance
+                  </div>
+                  <div className="text-2xl font-bold text-green-600 dark:text-green-400">
+                    {formatFromCents(earnings.availableCents)}
+                  </div>
+                </div>
+                <div className="text-center p-4 bg-blue-50 dark:bg-blue-950 rounded-lg">
+                  <div className="text-xs uppercase text-muted-foreground mb-1">
+                    Payout in Progress
+                  </div>
+                  <div className="text-2xl font-bold text-blue-600 dark:text-blue-400">
+                    {formatFromCents(earnings.pendingPayoutCents)}
+                  </div>
+                </div>
+                <div className="text-center p-4 bg-secondary rounded-lg">
+                  <div className="text-xs uppercase text-muted-foreground mb-1">
+                    Paid Out
+                  </div>
+                  <div className="text-2xl font-bold">
+                    {formatFromCents(earnings.paidOutCents)}
+                  </div>
+                </div>
+                <div className="text-center p-4 bg-secondary rounded-lg">
+                  <div className="text-xs uppercase text-muted-foreground mb-1">
+                    Platform Commission (all time)
+                  </div>
+                  <div className="text-2xl font-bold text-muted-foreground">
+                    {formatFromCents(earnings.lifetimeCommissionCents)}
+                  </div>
+                </div>
+              </div>
+
+              {earnings.payouts.length === 0 ? (
+                <div className="text-center text-muted-foreground text-sm py-4">
+                  No payouts yet.
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead className="border-b text-xs uppercase text-muted-foreground">
+                      <tr>
+                        <th className="py-2 text-left">Period End</th>
+                        <th className="py-2 text-right">Sessions</th>
+                        <th className="py-2 text-right">Gross</th>
+                        <th className="py-2 text-right">Commission</th>
+                        <th className="py-2 text-right">Net</th>
+                        <th className="py-2 text-center">Status</th>
+                        <th className="py-2 text-right">Statement</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {earnings.payouts.map((p) => {
+                        const periodEnd = toDate(p.periodEnd);
+                        return (
+                          <tr key={p.id} className="border-b last:border-b-0">
+                            <td className="py-2">
+                              {periodEnd ? format(periodEnd, "MMM dd, yyyy") : "—"}
+                            </td>
+                            <td className="py-2 text-right">{p.entryCount}</td>
+                            <td className="py-2 text-right">{formatFromCents(p.grossCents)}</td>
+                            <td className="py-2 text-right text-muted-foreground">
+                              {formatFromCents(p.commissionCents)}
+                            </td>
+                            <td className="py-2 text-right font-semibold">
+                              {formatFromCents(p.netCents)}
+                            </td>
+                            <td className="py-2 text-center">
+                              <Badge
+                                variant="outline"
+                                className={
+                                  p.status === "paid"
+                                    ? "bg-green-100 dark:bg-green-900"
+                                    : "bg-blue-100 dark:bg-blue-900"
+                                }
+                              >
+                                {p.status === "paid" ? "Paid" : "Processing"}
+                              </Badge>
+                            </td>
+                            <td className="py-2 text-right">
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => handleDownloadStatement(p.id)}
+                                data-testid={`button-statement-${p.id}`}
+                              >
+                                <i className="fas fa-download mr-1" />
+                                CSV
+                              </Button>
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Cancellations & refunds (per cancellation policy) */}
+        <Card className="mb-8">
+          <CardHeader>
+            <CardTitle>Cancellations &amp; Refunds</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {cancelledWithRefunds.length === 0 ? (
+              <div className="text-center text-muted-foreground text-sm py-8">
+                No cancelled sessions for this period.
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <div className="flex flex-wrap gap-2">
+                  <Badge variant="outline">
+                    Refunded to students: {formatMoney(cancellationTotals.refunded)}
+                  </Badge>
+                  <Badge variant="outline" className="bg-green-100 dark:bg-green-900">
+                    Late-cancellation fees kept: {formatMoney(cancellationTotals.retained)}
+                  </Badge>
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead className="border-b text-xs uppercase text-muted-foreground">
+                      <tr>
+                        <th className="py-2 text-left">Date</th>
+                        <th className="py-2 text-left">Student</th>
+                        <th className="py-2 text-left">Cancelled by</th>
+                        <th className="py-2 text-right">Session Price</th>
+                        <th className="py-2 text-right">Refunded</th>
+                        <th className="py-2 text-right">Retained (before commission)</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {cancelledWithRefunds.map((s) => {
+                        const dt = toDate(s.scheduledAt);
+                        const c = s.cancellation;
+                        return (
+                          <tr key={s.id} className="border-b last:border-b-0">
+                            <td className="py-2">
+                              {dt ? format(dt, "MMM dd, yyyy") : "TBD"}
+                            </td>
+                            <td className="py-2">
+                              {s.student?.firstName} {s.student?.lastName}
+                            </td>
+                            <td className="py-2 capitalize">{c.cancelledBy}</td>
+                            <td className="py-2 text-right">
+                              {formatMoney(getSessionAmount(s))}
+                            </td>
+                            <td className="py-2 text-right text-muted-foreground">
+                              {formatMoney((c.refundCents ?? 0) / 100)} ({c.refundPercent}%)
+                            </td>
+                            <td className="py-2 text-right font-semibold">
+                              {formatMoney((c.tutorRetainedCents ?? 0) / 100)}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Students summary */}
         <div className="mb-6">
           <Badge variant="outline">
@@ -645,7 +886,7 @@ export default function TutorEarningsReport() {
                   <tbody>
                     {filteredSessions.map((s) => {
                       const dt = toDate(s.scheduledAt);
-                      const amount = getSessionAmount(s);
+                      const amount = sessionEarnings(s);
                       const duration =
                         typeof s.duration === "number" ? s.duration : 60;
                       return (
@@ -8,12 +8,17 @@ import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Calendar } from "@/components/ui/calendar";
+import { Progress } from "@/components/ui/progress";
 import { useAuth } from "@/components/AuthProvider";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { formatMoney } from "@/lib/currency";
 import { ChatWindow } from "@/components/ChatWindow";
-import { MessageSquare } from "lucide-react";
+import { ReviewReportDialog } from "@/components/ReviewReportDialog";
+import { Flag, MessageSquare } from "lucide-react";
+import { RATING_DIMENSIONS, REVIEW_TAGS, aggregateReviewRatings } from "@shared/ratings";
+import { levelLabel } from "@shared/taxonomy";
+import type { EducationTaxonomy, RatingDimension, ReviewTag } from "@shared/types";
 
 /** ======= Minimal local types ======= */
 type UserLite = {
@@ -34,6 +39,7 @@ type TutorProfileLite = {
   experience?: string | null;
   hourlyRate?: number | null;
   subjectPricing?: Record<string, number>; // subject-specific pricing
+  teachingLevels?: string[]; // education taxonomy level keys
   isVerified?: boolean;
   isActive?: boolean;
   user: UserLite | null;
@@ -42,11 +48,21 @@ type TutorProfileLite = {
 
 type ReviewLite = {
   id: string;
+  sessionId?: string | null; // set on verified per-session reviews
   rating: number;
+  dimensions?: Partial<Record<RatingDimension, number>>;
+  tags?: ReviewTag[];
   comment?: string | null;
   createdAt: string | Date;
   studentId: string;
   student: UserLite | null;
+  reply?: { text: string; createdAt: string | Date } | null;
+};
+
+type ReviewableSessions = {
+  sessions: Array<{ id: string; scheduledAt: string; subjectName: string | null }>;
+  remaining: number;
+  cap: number;
 };
 
 type Slot = { start: string; end: string; available: boolean; at: string };
@@ -109,6 +125,14 @@ export default function TutorProfile() {
   // For review form
   const [ratingInput, setRatingInput] = useState<number>(5);
   const [commentInput, setCommentInput] = useState<string>("");
+  const [reviewSessionId, setReviewSessionId] = useState<string>("");
+  const [dimensionInput, setDimensionInput] = useState<Partial<Record<RatingDimension, number>>>({});
+  const [tagInput, setTagInput] = useState<ReviewTag[]>([]);
+
+  // Tutor replies and reports
+  const [replyDrafts, setReplyDrafts] = useState<Record<string, string>>({});
+  const [editingReplyId, setEditingReplyId] = useState<string | null>(null);
+  const [reportReviewId, setReportReviewId] = useState<string | null>(null);
 
   // For chat window
   const [showChat, setShowChat] = useState<boolean>(false);
@@ -138,6 +162,12 @@ export default function TutorProfile() {
     queryKey: ["/api/subjects"],
   });
 
+  /** Curricula and grade bands, to label the tutor's levels */
+  const { data: taxonomy } = useQuery<EducationTaxonomy>({
+    queryKey: ["/api/taxonomy"],
+    enabled: !!tutor?.teachingLevels?.length,
+  });
+
   /** Reviews for this tutor */
   const { data: reviews = [] } = useQuery<Array<ReviewLite>>({
     queryKey: ["/api/reviews", id],
@@ -160,12 +190,28 @@ export default function TutorProfile() {
       ? reviews.reduce((s, r) => s + (Number(r.rating) || 0), 0) / reviews.length
       : 0;
   const totalReviews = reviews?.length ?? 0;
+  const ratingSummary = aggregateReviewRatings(reviews);
+  const hasDimensionRatings = Object.keys(ratingSummary.dimensions).length > 0;
+  const topTags = (Object.entries(ratingSummary.tagCounts) as Array<[ReviewTag, number]>)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 6);
+
+  /** Completed sessions the student can still review (one review per session, capped per tutor) */
+  const { data: reviewable } = useQuery<ReviewableSessions>({
+    queryKey: ["/api/reviews/eligible", tutor?.id],
+    enabled: user?.role === "student" && !!tutor?.id,
+    queryFn: () => apiRequest(`/api/reviews/eligible/${tutor!.id}`),
+  });
+  const reviewableSessions = reviewable?.sessions ?? [];
+  const hasReviewed = !!user && reviews.some((r) => r.studentId === user.id);
+  const canWriteReview = user?.role === "student" && reviewableSessions.length > 0;
+  const isOwnProfile = !!user && !!tutor && tutor.userId === user.id;
 
-  const myReview =
-    user && reviews.length > 0
-      ? reviews.find((r) => r.studentId === user.id)
-      : undefined;
-  const canWriteReview = user?.role === "student" && !myReview;
+  useEffect(() => {
+    if (reviewableSessions.length > 0 && !reviewableSessions.some((s) => s.id === reviewSessionId)) {
+      setReviewSessionId(reviewableSessions[0].id);
+    }
+  }, [reviewableSessions, reviewSessionId]);
 
   /** Daily availability (with bookings removed) */
   const dateKey = selectedDate ? fmtYMD(selectedDate) : "";
@@ -221,7 +267,13 @@ export default function TutorProfile() {
 
   /** Review creation mutation */
   const createReview = useMutation({
-    mutationFn: async (payload: { tutorId: string; rating: number; comment: string }) => {
+    mutationFn: async (payload: {
+      sessionId: string;
+      rating: number;
+      dimensions: Partial<Record<RatingDimension, number>>;
+      tags: ReviewTag[];
+      comment: string;
+    }) => {
       return await apiRequest("/api/reviews", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
@@ -235,8 +287,11 @@ export default function TutorProfile() {
       });
       setCommentInput("");
       setRatingInput(5);
+      setDimensionInput({});
+      setTagInput([]);
       await Promise.all([
         queryClient.invalidateQueries({ queryKey: ["/api/reviews", id] }),
+        queryClient.invalidateQueries({ queryKey: ["/api/reviews/eligible", tutor?.id] }),
         queryClient.invalidateQueries({ queryKey: ["/api/tutors"] }),
       ]);
     },
@@ -245,12 +300,29 @@ export default function TutorProfile() {
         title: "Couldn’t submit review",
         description:
           e?.message ||
-          "You can only review tutors you’ve had a completed session with.",
+          "You can only review sessions you’ve completed with this tutor.",
         variant: "destructive",
       });
     },
   });
 
+  /** Tutor's public reply to a review (text = null removes it) */
+  const saveReply = useMutation({
+    mutationFn: async ({ reviewId, text }: { reviewId: string; text: string | null }) =>
+      apiRequest(`/api/reviews/${reviewId}/reply`, {
+        method: text === null ? "DELETE" : "PUT",
+        ...(text === null ? {} : { body: JSON.stringify({ text }) }),
+      }),
+    onSuccess: async (_, { text }) => {
+      setEditingReplyId(null);
+      toast({ title: text === null ? "Reply removed" : "Reply posted" });
+      await queryClient.invalidateQueries({ queryKey: ["/api/reviews", id] });
+    },
+    onError: (e: any) => {
+      toast({ title: "Couldn’t save reply", description: e?.message, variant: "destructive" });
+    },
+  });
+
   const handleBookSelected = () => {
     if (!user) {
       window.location.href = "/";
@@ -299,7 +371,7 @@ export default function TutorProfile() {
 
   const handleSubmitReview = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!user || !tutor || !canWriteReview) return;
+    if (!user || !tutor || !canWriteReview || !reviewSessionId) return;
     const trimmed = commentInput.trim();
     if (!ratingInput || ratingInput < 1 || ratingInput > 5) {
       toast({
@@ -310,8 +382,10 @@ export default function TutorProfile() {
       return;
     }
     createReview.mutate({
-      tutorId: tutor.id,
+      sessionId: reviewSessionId,
       rating: ratingInput,
+      dimensions: dimensionInput,
+      tags: tagInput,
       comment: trimmed,
     });
   };
@@ -497,6 +571,18 @@ export default function TutorProfile() {
                             ))}
                         </div>
                       </div>
+                      {!!tutor.teachingLevels?.length && (
+                        <div>
+                          <h4 className="font-semibold mb-3">Levels</h4>
+                          <div className="flex flex-wrap gap-2">
+                            {tutor.teachingLevels.map((key) => (
+                              <Badge key={key} variant="secondary">
+                                {levelLabel(taxonomy, key)}
+                              </Badge>
+                            ))}
+                          </div>
+                        </div>
+                      )}
                     </div>
                   </CardContent>
                 </Card>
@@ -532,6 +618,36 @@ export default function TutorProfile() {
                     <CardTitle>Student Reviews</CardTitle>
                   </CardHeader>
                   <CardContent>
+                    {/* What students rate this tutor on */}
+                    {(hasDimensionRatings || topTags.length > 0) && (
+                      <div className="border rounded-lg p-4 mb-6 space-y-3" data-testid="rating-breakdown">
+                        {RATING_DIMENSIONS.map((dimension) => {
+                          const agg = ratingSummary.dimensions[dimension.id];
+                          if (!agg) return null;
+                          return (
+                            <div key={dimension.id} className="flex items-center gap-3 text-sm">
+                              <span className="w-24 shrink-0" title={dimension.description}>
+                                {dimension.label}
+                              </span>
+                              <Progress value={(agg.average / 5) * 100} className="h-2 flex-1" />
+                              <span className="w-20 shrink-0 text-right text-xs text-muted-foreground">
+                                {agg.average.toFixed(1)} ({agg.count})
+                              </span>
+                            </div>
+                          );
+                        })}
+                        {topTags.length > 0 && (
+                          <div className="flex flex-wrap gap-2 pt-1">
+                            {topTags.map(([tag, count]) => (
+                              <Badge key={tag} variant="secondary" className="text-xs">
+                                {REVIEW_TAGS.find((t) => t.id === tag)?.label ?? tag} · {count}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    )}
+
                     {/* Existing reviews */}
                     {reviews.length > 0 && (
                       <div className="space-y-4 mb-6">
@@ -568,8 +684,25 @@ export default function TutorProfile() {
                                     ))}
                                   </div>
                                 </div>
-                                <div className="text-xs text-muted-foreground">
+                                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                                  {review.sessionId && (
+                                    <Badge variant="outline" className="text-[10px]">
+                                      <i className="fas fa-check-circle mr-1 text-green-600" />
+                                      Verified session
+                                    </Badge>
+                                  )}
                                   {safeDateLabel(review.createdAt)}
+                                  {user && user.id !== review.studentId && !isOwnProfile && (
+                                    <button
+                                      type="button"
+                                      onClick={() => setReportReviewId(review.id)}
+                                      className="hover:text-foreground"
+                                      aria-label="Report review"
+                                      data-testid={`button-report-review-${review.id}`}
+                                    >
+                                      <Flag className="h-3 w-3" />
+                                    </button>
+                                  )}
                                 </div>
                               </div>
                               {review.comment && (
@@ -577,6 +710,90 @@ export default function TutorProfile() {
                                   {review.comment}
                                 </p>
                               )}
+                              {(Object.keys(review.dimensions ?? {}).length > 0 || !!review.tags?.length) && (
+                                <div className="flex flex-wrap gap-1 mt-2">
+                                  {RATING_DIMENSIONS.filter((d) => review.dimensions?.[d.id]).map((d) => (
+                                    <Badge key={d.id} variant="outline" className="text-[10px]">
+                                      {d.label} {review.dimensions![d.id]}/5
+                                    </Badge>
+                                  ))}
+                                  {review.tags?.map((tag) => (
+                                    <Badge key={tag} variant="secondary" className="text-[10px]">
+                                      {REVIEW_TAGS.find((t) => t.id === tag)?.label ?? tag}
+                                    </Badge>
+                                  ))}
+                                </div>
+                              )}
+
+                              {/* Tutor's public reply */}
+                              {review.reply && editingReplyId !== review.id && (
+                                <div className="mt-3 ml-2 pl-3 border-l-2 border-primary/30">
+                                  <div className="text-xs font-semibold">
+                                    Response from {tutor.user?.firstName || "the tutor"}
+                                  </div>
+                                  <p className="text-sm text-muted-foreground whitespace-pre-wrap">
+                                    {review.reply.text}
+                                  </p>
+                                  {isOwnProfile && (
+                                    <div className="flex gap-3 mt-1 text-xs">
+                                      <button
+                                        type="button"
+                                        className="text-primary hover:underline"
+                                        onClick={() => {
+                                          setReplyDrafts({ ...replyDrafts, [review.id]: review.reply!.text });
+                                          setEditingReplyId(review.id);
+                                        }}
+                                      >
+                                        Edit
+                                      </button>
+                                      <button
+                                        type="button"
+                                        className="text-muted-foreground hover:underline"
+                                        onClick={() => saveReply.mutate({ reviewId: review.id, text: null })}
+                                        disabled={saveReply.isPending}
+                                      >
+                                        Remove
+                                      </button>
+                                    </div>
+                                  )}
+                                </div>
+                              )}
+                              {isOwnProfile && !review.reply && editingReplyId !== review.id && (
+                                <button
+                                  type="button"
+                                  className="mt-2 text-xs text-primary hover:underline"
+                                  onClick={() => setEditingReplyId(review.id)}
+                                  data-testid={`button-reply-review-${review.id}`}
+                                >
+                                  Reply publicly
+                                </button>
+                              )}
+                              {isOwnProfile && editingReplyId === review.id && (
+                                <div className="mt-2 space-y-2">
+                                  <textarea
+                                    className="w-full border rounded-md px-3 py-2 text-sm bg-background"
+                                    rows={2}
+                                    maxLength={1000}
+                                    value={replyDrafts[review.id] ?? ""}
+                                    onChange={(e) => setReplyDrafts({ ...replyDrafts, [review.id]: e.target.value })}
+                                    placeholder="Thank the student or respond to their feedback"
+                                  />
+                                  <div className="flex justify-end gap-2">
+                                    <Button size="sm" variant="ghost" onClick={() => setEditingReplyId(null)}>
+                                      Cancel
+                                    </Button>
+                                    <Button
+                                      size="sm"
+                                      onClick={() =>
+                                        saveReply.mutate({ reviewId: review.id, text: (replyDrafts[review.id] ?? "").trim() })
+                                      }
+                                      disabled={!(replyDrafts[review.id] ?? "").trim() || saveReply.isPending}
+                                    >
+                                      Post reply
+                                    </Button>
+                                  </div>
+                                </div>
+                              )}
                             </div>
                           </div>
                         ))}
@@ -593,13 +810,15 @@ export default function TutorProfile() {
                     {/* Review form for students */}
                     {user?.role === "student" && (
                       <div className="border-t pt-4 mt-4">
-                        <h4 className="font-semibold mb-2">
-                          {myReview ? "Your review" : "Write a review"}
-                        </h4>
+                        <h4 className="font-semibold mb-2">Write a review</h4>
 
-                        {myReview ? (
+                        {!canWriteReview ? (
                           <p className="text-sm text-muted-foreground">
-                            You&apos;ve already reviewed this tutor.
+                            {reviewable && reviewable.remaining === 0
+                              ? `You've reviewed ${reviewable.cap} sessions with this tutor, the most allowed.`
+                              : hasReviewed
+                              ? "You've reviewed all your completed sessions with this tutor."
+                              : "You can review a session once it is completed."}
                           </p>
                         ) : (
                           <form
@@ -607,6 +826,24 @@ export default function TutorProfile() {
                             className="space-y-3"
                             data-testid="form-add-review"
                           >
+                            <div>
+                              <p className="text-xs text-muted-foreground mb-1">
+                                Session
+                              </p>
+                              <select
+                                className="w-full border rounded-md px-3 py-2 text-sm bg-background"
+                                value={reviewSessionId}
+                                onChange={(e) => setReviewSessionId(e.target.value)}
+                                data-testid="select-review-session"
+                              >
+                                {reviewableSessions.map((s) => (
+                                  <option key={s.id} value={s.id}>
+                                    {s.subjectName || "Session"} · {safeDateLabel(s.scheduledAt)}
+                                  </option>
+                                ))}
+                              </select>
+                            </div>
+
                             <div>
                               <p className="text-xs text-muted-foreground mb-1">
                                 Rating
@@ -631,6 +868,73 @@ export default function TutorProfile() {
                               </div>
                             </div>
 
+                            <div>
+                              <p className="text-xs text-muted-foreground mb-1">
+                                In detail (optional)
+                              </p>
+                              <div className="space-y-1">
+                                {RATING_DIMENSIONS.map((dimension) => (
+                                  <div key={dimension.id} className="flex items-center justify-between text-sm">
+                                    <span title={dimension.description}>{dimension.label}</span>
+                                    <div className="flex space-x-1">
+                                      {[1, 2, 3, 4, 5].map((star) => (
+                                        <button
+                                          key={star}
+                                          type="button"
+                                          onClick={() =>
+                                            setDimensionInput({
+                                              ...dimensionInput,
+                                              [dimension.id]: dimensionInput[dimension.id] === star ? undefined : star,
+                                            })
+                                          }
+                                          className="focus:outline-none text-xs"
+                                          data-testid={`button-dimension-${dimension.id}-${star}`}
+                                        >
+                                          <i
+                                            className={
+                                              star <= (dimensionInput[dimension.id] ?? 0)
+                                                ? "fas fa-star text-yellow-400"
+                                                : "far fa-star text-gray-300"
+                                            }
+                                          />
+                                        </button>
+                                      ))}
+                                    </div>
+                                  </div>
+                                ))}
+                              </div>
+                            </div>
+
+                            <div>
+                              <p className="text-xs text-muted-foreground mb-1">
+                                Tags (optional)
+                              </p>
+                              <div className="flex flex-wrap gap-2">
+                                {REVIEW_TAGS.map((tag) => {
+                                  const selected = tagInput.includes(tag.id);
+                                  return (
+                                    <Badge
+                                      key={tag.id}
+                                      variant={selected ? "default" : "outline"}
+                                      className="cursor-pointer text-xs"
+                                      onClick={() =>
+                                        setTagInput(
+                                          selected
+                                            ? tagInput.filter((t) => t !== tag.id)
+                                            : tagInput.length < 5
+                                            ? [...tagInput, tag.id]
+                                            : tagInput
+                                        )
+                                      }
+                                      data-testid={`badge-review-tag-${tag.id}`}
+                                    >
+                                      {tag.label}
+                                    </Badge>
+                                  );
+                                })}
+                              </div>
+                            </div>
+
                             <div>
                               <p className="text-xs text-muted-foreground mb-1">
                                 Comment (optional)
@@ -655,8 +959,7 @@ export default function TutorProfile() {
                               </Button>
                             </div>
                             <p className="text-[11px] text-muted-foreground">
-                              You can only review tutors you&apos;ve had a completed
-                              session with.
+                              Each completed session can be reviewed once.
                             </p>
                           </form>
                         )}
@@ -776,6 +1079,11 @@ export default function TutorProfile() {
       </div>
 
       {/* Chat Window */}
+      <ReviewReportDialog
+        reviewId={reportReviewId}
+        onOpenChange={(open) => !open && setReportReviewId(null)}
+      />
+
       {showChat && tutor?.userId && (
         <ChatWindow userId={tutor.userId} onClose={() => setShowChat(false)} />
       )}
@@ -14,6 +14,8 @@ export interface LessonSummaryInput {
   subject?: string;
   studentName?: string;
   duration?: number;
+  // Session chat thread, oldest first; pre-lesson questions and follow-ups
+  sessionMessages?: Array<{ author: "Tutor" | "Student"; content: string }>;
 }
 
 export interface LessonSummary {
@@ -63,7 +65,7 @@ async function generateWithRetry(
 export async function generateLessonSummary(
   input: LessonSummaryInput
 ): Promise<LessonSummary> {
-  const { tutorNotes, subject, studentName, duration } = input;
+  const { tutorNotes, subject, studentName, duration, sessionMessages } = input;
 
   if (!process.env.GEMINI_API_KEY || process.env.GEMINI_API_KEY.trim() === "") {
     throw new Error(
@@ -82,7 +84,14 @@ ${duration ? `- Duration: ${duration} minutes` : ""}
 
 **Tutor's Notes:**
 ${tutorNotes}
-
+${
+  sessionMessages && sessionMessages.length > 0
+    ? `
+**Messages Exchanged About This Session** (use as supporting context; the tutor's notes take precedence):
+${sessionMessages.map((m) => `${m.author}: ${m.content}`).join("\n")}
+`
+    : ""
+}
 Please generate a structured summary with exactly these four sections:
 
 1. **What Was Learned**: Summarize the main topics, concepts, and skills covered in the session. Be specific about what was taught.
@@ -67,11 +67,18 @@ export function getEmailServiceStatus(): {
   };
 }
 
+export interface EmailAttachment {
+  filename: string;
+  content: string;
+  contentType: string; // e.g. "text/calendar; charset=utf-8; method=REQUEST"
+}
+
 export interface EmailOptions {
   to: string[];
   subject: string;
   html: string;
   text?: string;
+  attachments?: EmailAttachment[];
 }
 
 // -------------------------------
@@ -93,6 +100,11 @@ export async function sendEmail(options: EmailOptions): Promise<void> {
           subject: options.subject,
           html: options.html,
           text: options.text,
+          attachments: options.attachments?.map((a) => ({
+            filename: a.filename,
+            content: Buffer.from(a.content, "utf8"),
+            contentType: a.contentType,
+          })),
         });
       }
     } else if (emailService === "smtp" && smtpTransporter) {
@@ -103,6 +115,7 @@ export async function sendEmail(options: EmailOptions): Promise<void> {
         subject: options.subject,
         html: options.html,
         text: options.text,
+        attachments: options.attachments,
       });
     }
 
@@ -149,6 +162,17 @@ export async function sendToAdmins(subject: string, html: string, text?: string)
   });
 }
 
+// -------------------------------
+/** Escape user-provided text (names, titles, messages) before it goes into an HTML template. */
+function escapeHtml(value: unknown): string {
+  return String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
 // -------------------------------
 /** HTML/text template for tutor registration notification. */
 export function createTutorRegistrationEmail(
@@ -188,8 +212,8 @@ export function createTutorRegistrationEmail(
         </div>
         <div class="content">
           <h2>A new tutor has registered on Daresni!</h2>
-          <p><strong>Tutor Name:</strong> ${tutorName}</p>
-          <p><strong>Email:</strong> ${tutorEmail}</p>
+          <p><strong>Tutor Name:</strong> ${escapeHtml(tutorName)}</p>
+          <p><strong>Email:</strong> ${escapeHtml(tutorEmail)}</p>
           <p>Please review their profile and verify their credentials in the admin dashboard.</p>
           <a href="${adminUrl}" class="button">Review in Admin Dashboard</a>
           <p class="muted">This is an automated message; please do not reply.</p>
@@ -214,3 +238,286 @@ export function createTutorRegistrationEmail(
 
   return { subject, html, text };
 }
+
+// -------------------------------
+export type SessionInviteKind = "confirmed" | "rescheduled" | "cancelled";
+
+/** HTML/text template for a session confirmation, move or cancellation (sent with an .ics invite). */
+export function createSessionInviteEmail(
+  kind: SessionInviteKind,
+  details: { recipientName: string; withName: string; subjectName: string; when: string; durationMinutes: number }
+): { subject: string; html: string; text: string } {
+  const headline = {
+    confirmed: "Session Confirmed",
+    rescheduled: "Session Rescheduled",
+    cancelled: "Session Cancelled",
+  }[kind];
+  const lead = {
+    confirmed: "Your session is confirmed. The attached invite adds it to your calendar.",
+    rescheduled: "Your session has moved. The attached invite updates the event in your calendar.",
+    cancelled: "Your session was cancelled. The attached invite removes it from your calendar.",
+  }[kind];
+  const subject = `${headline}: ${details.subjectName} - Daresni`;
+  const dashboardUrl = `${process.env.FRONTEND_URL || "http://localhost:5000"}/dashboard`;
+
+  const html = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <title>${headline}</title>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background-color: #9B1B30; color: white; padding: 20px; text-align: center; }
+        .content { padding: 20px; background-color: #f9f9f9; }
+        .button {
+          display: inline-block;
+          background-color: #9B1B30;
+          color: white;
+          padding: 12px 24px;
+          text-decoration: none;
+          border-radius: 4px;
+          margin: 10px 0;
+        }
+        .muted { color: #777; font-size: 12px; margin-top: 16px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>${headline}</h1>
+        </div>
+        <div class="content">
+          <p>Hi ${escapeHtml(details.recipientName)},</p>
+          <p>${lead}</p>
+          <p><strong>Subject:</strong> ${escapeHtml(details.subjectName)}</p>
+          <p><strong>With:</strong> ${escapeHtml(details.withName)}</p>
+          <p><strong>When:</strong> ${escapeHtml(details.when)}</p>
+          <p><strong>Duration:</strong> ${details.durationMinutes} minutes</p>
+          <a href="${dashboardUrl}" class="button">Open Dashboard</a>
+          <p class="muted">This is an automated message; please do not reply.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+
+  const text = [
+    `${headline} - Daresni`,
+    "",
+    `Hi ${details.recipientName},`,
+    "",
+    lead,
+    "",
+    `Subject: ${details.subjectName}`,
+    `With: ${details.withName}`,
+    `When: ${details.when}`,
+    `Duration: ${details.durationMinutes} minutes`,
+    "",
+    `Dashboard: ${dashboardUrl}`,
+  ].join("\n");
+
+  return { subject, html, text };
+}
+
+// -------------------------------
+/** HTML/text template mirroring an in-app notification by email. */
+export function createNotificationEmail(
+  recipientName: string,
+  title: string,
+  body: string
+): { subject: string; html: string; text: string } {
+  const subject = `${title} - Daresni`;
+  const notificationsUrl = `${process.env.FRONTEND_URL || "http://localhost:5000"}/notifications`;
+
+  const html = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <title>${escapeHtml(title)}</title>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background-color: #9B1B30; color: white; padding: 20px; text-align: center; }
+        .content { padding: 20px; background-color: #f9f9f9; }
+        .button {
+          display: inline-block;
+          background-color: #9B1B30;
+          color: white;
+          padding: 12px 24px;
+          text-decoration: none;
+          border-radius: 4px;
+          margin: 10px 0;
+        }
+        .muted { color: #777; font-size: 12px; margin-top: 16px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>${escapeHtml(title)}</h1>
+        </div>
+        <div class="content">
+          <p>Hi ${escapeHtml(recipientName)},</p>
+          <p>${escapeHtml(body)}</p>
+          <a href="${notificationsUrl}" class="button">View Notifications</a>
+          <p class="muted">You can choose which emails you get in your profile settings. This is an automated message; please do not reply.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+
+  const text = [`${title} - Daresni`, "", `Hi ${recipientName},`, "", body, "", `Notifications: ${notificationsUrl}`].join(
+    "\n"
+  );
+
+  return { subject, html, text };
+}
+
+// -------------------------------
+/** HTML/text template for an upcoming-session reminder. */
+export function createSessionReminderEmail(details: {
+  recipientName: string;
+  withName: string;
+  subjectName: string;
+  when: string;
+  startsIn: string;
+  durationMinutes: number;
+}): { subject: string; html: string; text: string } {
+  const subject = `Reminder: ${details.subjectName} session in ${details.startsIn} - Daresni`;
+  const dashboardUrl = `${process.env.FRONTEND_URL || "http://localhost:5000"}/dashboard`;
+
+  const html = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <title>Session Reminder</title>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background-color: #9B1B30; color: white; padding: 20px; text-align: center; }
+        .content { padding: 20px; background-color: #f9f9f9; }
+        .button {
+          display: inline-block;
+          background-color: #9B1B30;
+          color: white;
+          padding: 12px 24px;
+          text-decoration: none;
+          border-radius: 4px;
+          margin: 10px 0;
+        }
+        .muted { color: #777; font-size: 12px; margin-top: 16px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>Session Reminder</h1>
+        </div>
+        <div class="content">
+          <p>Hi ${escapeHtml(details.recipientName)},</p>
+          <p>Your session starts in ${details.startsIn}.</p>
+          <p><strong>Subject:</strong> ${escapeHtml(details.subjectName)}</p>
+          <p><strong>With:</strong> ${escapeHtml(details.withName)}</p>
+          <p><strong>When:</strong> ${escapeHtml(details.when)}</p>
+          <p><strong>Duration:</strong> ${details.durationMinutes} minutes</p>
+          <a href="${dashboardUrl}" class="button">Open Dashboard</a>
+          <p class="muted">You can change reminder settings in your profile. This is an automated message; please do not reply.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+
+  const text = [
+    "Session Reminder - Daresni",
+    "",
+    `Hi ${details.recipientName},`,
+    "",
+    `Your session starts in ${details.startsIn}.`,
+    "",
+    `Subject: ${details.subjectName}`,
+    `With: ${details.withName}`,
+    `When: ${details.when}`,
+    `Duration: ${details.durationMinutes} minutes`,
+    "",
+    `Dashboard: ${dashboardUrl}`,
+  ].join("\n");
+
+  return { subject, html, text };
+}
+
+// -------------------------------
+/** HTML/text template for the daily digest of unread in-app notifications. */
+export function createNotificationDigestEmail(
+  recipientName: string,
+  items: Array<{ title: string; body?: string | null }>
+): { subject: string; html: string; text: string } {
+  const subject = `You have ${items.length} unread notification${items.length === 1 ? "" : "s"} - Daresni`;
+  const notificationsUrl = `${process.env.FRONTEND_URL || "http://localhost:5000"}/notifications`;
+  const shown = items.slice(0, 10);
+  const more = items.length - shown.length;
+
+  const html = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <title>Your Daily Digest</title>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background-color: #9B1B30; color: white; padding: 20px; text-align: center; }
+        .content { padding: 20px; background-color: #f9f9f9; }
+        .item { border-bottom: 1px solid #e5e5e5; padding: 8px 0; }
+        .button {
+          display: inline-block;
+          background-color: #9B1B30;
+          color: white;
+          padding: 12px 24px;
+          text-decoration: none;
+          border-radius: 4px;
+          margin: 10px 0;
+        }
+        .muted { color: #777; font-size: 12px; margin-top: 16px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>Your Daily Digest</h1>
+        </div>
+        <div class="content">
+          <p>Hi ${escapeHtml(recipientName)},</p>
+          <p>Here is what you missed on Daresni in the last day:</p>
+          ${shown
+            .map((i) => `<div class="item"><strong>${escapeHtml(i.title)}</strong>${i.body ? `<br>${escapeHtml(i.body)}` : ""}</div>`)
+            .join("")}
+          ${more > 0 ? `<p>…and ${more} more.</p>` : ""}
+          <a href="${notificationsUrl}" class="button">View Notifications</a>
+          <p class="muted">This is an automated message; please do not reply.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+
+  const text = [
+    "Your Daily Digest - Daresni",
+    "",
+    `Hi ${recipientName},`,
+    "",
+    "Here is what you missed on Daresni in the last day:",
+    "",
+    ...shown.map((i) => `- ${i.title}${i.body ? `: ${i.body}` : ""}`),
+    ...(more > 0 ? [`...and ${more} more.`] : []),
+    "",
+    `Notifications: ${notificationsUrl}`,
+  ].join("\n");
+
+  return { subject, html, text };
+}
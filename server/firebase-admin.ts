@@ -52,6 +52,7 @@ export interface AuthUser {
   firstName?: string | null;
   lastName?: string | null;
   profileImageUrl?: string | null;
+  timezone?: string | null; // IANA zone, e.g. "Asia/Bahrain"
 }
 
 declare global {
@@ -144,6 +145,7 @@ export const requireUser = async (
       firstName: (latest.firstName as any) ?? firstName ?? null,
       lastName: (latest.lastName as any) ?? lastName ?? null,
       profileImageUrl,
+      timezone: (latest.timezone as any) ?? null,
     };
 
     next();
@@ -156,6 +158,38 @@ export const requireUser = async (
   }
 };
 
+// -------------------------------------
+// Middleware: optionalUser (public routes that personalise for signed-in users)
+// Sets req.user when a valid token is sent; anonymous or invalid requests pass through.
+// -------------------------------------
+export const optionalUser = async (
+  req: Request,
+  _res: Response,
+  next: NextFunction
+) => {
+  const authHeader = req.headers.authorization;
+  if (!auth || !db || !authHeader?.startsWith("Bearer ")) return next();
+
+  try {
+    const decoded = await auth.verifyIdToken(authHeader.slice("Bearer ".length));
+    const existing = (await db.collection("users").doc(decoded.uid).get()).data();
+    if (existing && decoded.email) {
+      req.user = {
+        id: decoded.uid,
+        email: decoded.email,
+        role: (existing.role as any) ?? null,
+        firstName: (existing.firstName as any) ?? null,
+        lastName: (existing.lastName as any) ?? null,
+        profileImageUrl: (existing.profileImageUrl as any) ?? null,
+        timezone: (existing.timezone as any) ?? null,
+      };
+    }
+  } catch {
+    // treat as anonymous
+  }
+  next();
+};
+
 // -------------------------------------
 // Middleware: requireAdmin
 // -------------------------------------
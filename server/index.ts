@@ -2,6 +2,7 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startScheduler } from "./services/scheduler/jobScheduler";
 
 const app = express();
 app.use(express.json());
@@ -63,5 +64,6 @@ app.use((req, res, next) => {
   const port = Number.parseInt(process.env.PORT || "5000", 10) || 5000;
   server.listen(port, "0.0.0.0", () => {
     log(`serving on port ${port}`);
+    startScheduler();
   });
 })();
@@ -6,11 +6,132 @@ import fs from "fs";
 import multer from "multer";
 import type * as FirebaseFirestore from "@google-cloud/firestore";
 
-import { requireUser, requireAdmin, type AuthUser, fdb } from "./firebase-admin";
+import { requireUser, requireAdmin, optionalUser, type AuthUser, fdb } from "./firebase-admin";
 import { z } from "zod";
-import { sendToAdmins, createTutorRegistrationEmail, getEmailServiceStatus } from "./email";
-import { TutorRankingService } from "./services/tutorRanking";
+import {
+  sendEmail,
+  createSessionInviteEmail,
+  createSessionReminderEmail,
+  createTutorRegistrationEmail,
+  getEmailServiceStatus,
+  type SessionInviteKind,
+} from "./email";
+import { TutorRankingService, type RankedTutor, type TutorRankingCriteria } from "./services/tutorRanking";
 import studyBuddyRoutes from "./routes/studyBuddyRoutes";
+import paymentRoutes from "./routes/paymentRoutes";
+import earningsRoutes from "./routes/earningsRoutes";
+import schedulerRoutes from "./routes/schedulerRoutes";
+import moderationRoutes from "./routes/moderationRoutes";
+import reviewRoutes from "./routes/reviewRoutes";
+import { isPublishedReview } from "./services/reviews/reviewService";
+import { JobSchedulerError, registerJob, runJobNow } from "./services/scheduler/jobScheduler";
+import { attachRealtime, publishToUser, purgeRealtimeEvents } from "./services/realtime/realtimeHub";
+import { sendNotificationDigests } from "./services/notifications/notificationDigest";
+import {
+  CHAT_ATTACHMENT_MAX_BYTES,
+  ChatAttachmentError,
+  chatAttachmentUrl,
+  checkChatAttachment,
+  claimChatAttachment,
+  openChatAttachment,
+  purgeUnclaimedChatAttachments,
+  storeChatAttachment,
+} from "./services/chat/chatAttachments";
+import { moderateMessage } from "./services/moderation/messageModeration";
+import {
+  ConversationError,
+  clampPageSize,
+  getConversation,
+  listConversationMessages,
+  listConversations,
+  listSessionMessages,
+  markConversationRead,
+  rebuildConversationIndex,
+  recordConversationMessage,
+  toChatMessagePayload,
+} from "./services/chat/conversations";
+import { getChatSuspension, recordViolation } from "./services/moderation/chatModeration";
+import {
+  NOTIFICATION_EVENTS,
+  notifyAdmins,
+  notifyUser,
+  resolveNotificationPreferences,
+  sendDeferredEmails,
+} from "./services/notifications/notificationService";
+import {
+  DEFAULT_SESSION_REMINDER_CONFIG,
+  claimReminder,
+  dueLeadTime,
+  formatLeadTime,
+  getSessionReminderConfig,
+  resolveReminderPreferences,
+  saveSessionReminderConfig,
+  wantsReminder,
+} from "./services/notifications/sessionReminders";
+import {
+  PaymentError,
+  claimAuthorizedPayment,
+  claimAuthorizedPayments,
+  capturePayment,
+  voidPayment,
+  expireUnclaimedPayments,
+} from "./services/payments/paymentService";
+import { quoteCancellation, settleCancellation } from "./services/payments/refundService";
+import {
+  DEFAULT_CANCELLATION_POLICY,
+  getCancellationPolicy,
+  saveCancellationPolicy,
+} from "./services/payments/cancellationPolicy";
+import { accrueCancellationFee, accrueSessionEarnings } from "./services/payments/earningsLedger";
+import { buildCalendar, sessionEventUid, type ICalEvent } from "./services/calendar/icalendar";
+import { getOrCreateFeedToken, resolveFeedToken, revokeExposedFeedTokens } from "./services/calendar/feedTokens";
+import { toContactUser, toPublicUser } from "./services/users/publicUser";
+import {
+  DEFAULT_REQUEST_EXPIRY_CONFIG,
+  getRequestExpiryConfig,
+  requestExpiresAt,
+  saveRequestExpiryConfig,
+} from "./services/sessions/requestExpiry";
+import type {
+  AvailabilityException,
+  CancelledBy,
+  NotificationType,
+  RatingDimension,
+  RescheduleProposal,
+  SeriesFrequency,
+  SessionCancellation,
+  SessionSeries,
+} from "../shared/types";
+import {
+  addDaysYMD,
+  formatInTimeZone,
+  isValidTimeZone,
+  resolveTimeZone,
+  toZonedHHMM,
+  toZonedISO,
+  toZonedYMD,
+  weekdayOfYMD,
+  zonedTimeToUtc,
+} from "../shared/timezone";
+import { RATING_DIMENSION_IDS } from "../shared/ratings";
+import { MAX_SEARCH_LIMIT, TutorSearchError, searchTutors } from "./services/tutors/tutorSearch";
+import {
+  DEFAULT_EDUCATION_TAXONOMY,
+  getEducationTaxonomy,
+  saveEducationTaxonomy,
+  saveSubjectTopics,
+} from "./services/taxonomy/educationTaxonomy";
+import { teachesLevel, unknownLevelKeys } from "../shared/taxonomy";
+import {
+  DEFAULT_RANKING_WEIGHTS_CONFIG,
+  assignRankingProfile,
+  getRankingExperimentStats,
+  getRankingWeightsConfig,
+  recordRankingConversion,
+  recordRankingExposure,
+  saveRankingWeightsConfig,
+} from "./services/tutors/rankingWeights";
+import { refreshAllTutorStats, refreshTutorStatsFor } from "./services/tutors/tutorStats";
 
 const chooseRoleSchema = z.object({
   role: z.enum(["student", "tutor", "admin"]),
@@ -22,6 +143,7 @@ const updateTutorProfileSchema = z.object({
   hourlyRate: z.number().nonnegative().optional(),
   subjectPricing: z.record(z.string(), z.number().nonnegative()).optional(), // subject-specific pricing
   subjects: z.array(z.string()).optional(),
+  teachingLevels: z.array(z.string().min(1).max(100)).max(40).optional(), // education taxonomy level keys
 
   // extra profile fields
   education: z.string().min(1).optional(),
@@ -31,7 +153,8 @@ const updateTutorProfileSchema = z.object({
     name: z.string(),
   })).optional(),
 
-  // weekly availability (mon..sun) -> { isAvailable, startTime, endTime }
+  // weekly availability (mon..sun) -> { isAvailable, startTime, endTime, windows? }
+  // `windows` holds several ranges per day; startTime/endTime then span them all
   availability: z
     .record(
       z.string(), // e.g., "monday"
@@ -45,9 +168,61 @@ const updateTutorProfileSchema = z.object({
           .string()
           .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "HH:MM 24h format")
           .optional(),
+        windows: z
+          .array(
+            z
+              .object({
+                startTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "HH:MM 24h format"),
+                endTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "HH:MM 24h format"),
+              })
+              .refine((w) => w.startTime < w.endTime, { message: "endTime must be after startTime" })
+          )
+          .max(6)
+          .optional(),
       })
     )
     .optional(),
+
+  // IANA zone the availability above is written in, e.g. "Asia/Bahrain"
+  timezone: z.string().refine(isValidTimeZone, { message: "Unknown time zone" }).optional(),
+
+  // booking rules
+  bufferMinutes: z.number().int().min(0).max(120).optional(), // gap kept free around each session
+  minNoticeHours: z.number().min(0).max(24 * 14).optional(), // how far ahead a booking must be made
+
+  // date-specific overrides: time off ranges and one-off extra hours
+  availabilityExceptions: z
+    .array(
+      z
+        .object({
+          id: z.string().min(1).max(64),
+          type: z.enum(["time_off", "extra_slot"]),
+          startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "YYYY-MM-DD"),
+          endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "YYYY-MM-DD"),
+          startTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "HH:MM 24h format").nullable().optional(),
+          endTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "HH:MM 24h format").nullable().optional(),
+          note: z.string().max(200).nullable().optional(),
+        })
+        .refine((e) => e.endDate >= e.startDate, { message: "endDate must not be before startDate" })
+        .refine((e) => e.type !== "extra_slot" || (!!e.startTime && !!e.endTime && e.startTime < e.endTime), {
+          message: "Extra slots need a startTime before their endTime",
+        })
+    )
+    .max(200)
+    .optional(),
+});
+
+const tutorSearchQuerySchema = z.object({
+  q: z.string().trim().max(100).optional(),
+  subjectId: z.string().min(1).optional(),
+  minPrice: z.coerce.number().min(0).optional(),
+  maxPrice: z.coerce.number().min(0).optional(),
+  minRating: z.coerce.number().min(0).max(5).optional(),
+  level: z.string().min(1).max(100).optional(),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD").optional(),
+  sort: z.enum(["relevance", "rating", "price_low", "price_high", "reviews"]).optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_SEARCH_LIMIT).optional(),
+  cursor: z.string().min(1).optional(),
 });
 
 const insertFavoriteSchema = z.object({
@@ -65,12 +240,150 @@ const insertSessionSchema = z.object({
   status: z
     .enum(["pending", "scheduled", "in_progress", "completed", "cancelled"])
     .optional(),
+  paymentId: z.string().min(1, "An authorized payment is required to book"),
 });
 
-const createReviewSchema = z.object({
-  tutorId: z.string(),
-  rating: z.number().int().min(1).max(5),
-  comment: z.string().max(2000).optional(),
+const MAX_SERIES_OCCURRENCES = 26; // half a year of weekly lessons
+const SUMMARY_THREAD_MESSAGES = 50; // latest session-thread messages fed to the AI summary
+
+const sessionSeriesBaseSchema = z.object({
+  tutorId: z.string(), // tutor_profiles.id OR the tutor's userId
+  subjectId: z.string(),
+  scheduledAt: z.string(), // first occurrence
+  duration: z.number().int().positive(), // minutes
+  frequency: z.enum(["weekly", "biweekly"]),
+  occurrences: z.number().int().min(2).max(MAX_SERIES_OCCURRENCES).optional(),
+  until: z.string().optional(), // last possible occurrence date (inclusive)
+});
+
+const hasSeriesEnd = (b: { occurrences?: number; until?: string }) => !!b.occurrences !== !!b.until;
+const seriesEndError = { message: "Provide either occurrences or until", path: ["occurrences"] };
+
+const previewSessionSeriesSchema = sessionSeriesBaseSchema.refine(hasSeriesEnd, seriesEndError);
+
+const createSessionSeriesSchema = sessionSeriesBaseSchema
+  .extend({
+    paymentIds: z.array(z.string().min(1)).min(2).max(MAX_SERIES_OCCURRENCES), // one authorized payment per occurrence
+    notes: z.string().max(2000).optional(),
+    timeSlots: z.array(z.string()).optional(),
+  })
+  .refine(hasSeriesEnd, seriesEndError);
+
+const cancelSessionSeriesSchema = z.object({
+  fromSessionId: z.string().optional(), // cancel this occurrence and every later one; default: all upcoming
+  reason: z.string().max(500).optional(),
+});
+
+const rescheduleProposalSchema = z.object({
+  scheduledAt: z.string(), // proposed new start (ISO)
+  timeSlots: z.array(z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "HH:MM 24h format")).optional(),
+  reason: z.string().max(500).optional(),
+});
+
+const rescheduleResponseSchema = z.object({
+  note: z.string().max(500).optional(),
+});
+
+const cancellationPolicySchema = z.object({
+  noticeTiers: z
+    .array(
+      z.object({
+        minHoursBefore: z.number().min(0).max(24 * 30),
+        refundPercent: z.number().min(0).max(100),
+      })
+    )
+    .max(10),
+  afterStartRefundPercent: z.number().min(0).max(100),
+  tutorCancelRefundPercent: z.number().min(0).max(100),
+  adminCancelRefundPercent: z.number().min(0).max(100),
+});
+
+const requestExpiryConfigSchema = z.object({
+  responseWindowHours: z.number().min(1).max(24 * 14),
+  minHoursBeforeStart: z.number().min(0).max(72),
+});
+
+const rankingWeightsSchema = z
+  .object({
+    subjectExpertise: z.number().int().min(0).max(100),
+    ratingScore: z.number().int().min(0).max(100),
+    successMetrics: z.number().int().min(0).max(100),
+    availability: z.number().int().min(0).max(100),
+    valueScore: z.number().int().min(0).max(100),
+    experience: z.number().int().min(0).max(100),
+  })
+  .refine((w) => Object.values(w).reduce((a, b) => a + b, 0) === 100, "Weights must add up to 100");
+
+const rankingProfileSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+  weights: rankingWeightsSchema,
+});
+
+const rankingWeightsConfigSchema = z.object({
+  profiles: z.object({ A: rankingProfileSchema, B: rankingProfileSchema }),
+  experimentEnabled: z.boolean(),
+  splitPercent: z.number().int().min(1).max(99),
+});
+
+const sessionReminderConfigSchema = z.object({
+  leadTimesMinutes: z.array(z.number().int().min(5).max(7 * 24 * 60)).max(5),
+});
+
+const reminderPreferencesSchema = z.object({
+  leadTimesMinutes: z.array(z.number().int().positive()).nullable(),
+});
+
+const hhmm = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:MM");
+
+const notificationPreferencesSchema = z.object({
+  events: z.record(
+    z.string().refine((t) => NOTIFICATION_EVENTS[t as NotificationType]?.audience === "user", {
+      message: "Unknown notification type",
+    }),
+    z.object({ inApp: z.boolean(), email: z.boolean() })
+  ),
+  quietHours: z.object({ enabled: z.boolean(), start: hhmm, end: hhmm }),
+  dailyDigest: z.boolean(),
+});
+
+const availableTutorsQuerySchema = z.object({
+  subjectId: z.string().min(1),
+  level: z.string().min(1).max(100).optional(),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD"),
+  from: hhmm,
+  to: hhmm,
+  timeZone: z.string().refine(isValidTimeZone, "Unknown time zone").optional(),
+  duration: z.coerce.number().int().min(60).max(240).multipleOf(60).default(60),
+  limit: z.coerce.number().int().min(1).max(20).default(10),
+});
+
+const taxonomyId = z.string().regex(/^[a-z0-9-]{1,40}$/, "Use lowercase letters, digits and dashes");
+
+const uniqueIds = (items: Array<{ id: string }>) => new Set(items.map((i) => i.id)).size === items.length;
+
+const educationTaxonomySchema = z.object({
+  curricula: z
+    .array(
+      z.object({
+        id: taxonomyId,
+        name: z.string().trim().min(1).max(80),
+        gradeBands: z
+          .array(z.object({ id: taxonomyId, label: z.string().trim().min(1).max(80) }))
+          .max(20)
+          .refine(uniqueIds, "Grade band ids must be unique"),
+      })
+    )
+    .max(30)
+    .refine(uniqueIds, "Curriculum ids must be unique"),
+});
+
+const subjectTopicSchema = z.object({ id: taxonomyId, name: z.string().trim().min(1).max(80) });
+
+const subjectTopicsSchema = z.object({
+  topics: z
+    .array(subjectTopicSchema.extend({ children: z.array(subjectTopicSchema).max(50).optional() }))
+    .max(50)
+    .refine(uniqueIds, "Topic ids must be unique"),
 });
 
 const __filename = fileURLToPath(import.meta.url);
@@ -157,81 +470,192 @@ async function upsertUserFromReqUser(user: AuthUser) {
   );
 }
 
+/** 400 body when a tutor lists levels the taxonomy does not define, else null */
+async function invalidTeachingLevels(levels: string[] | undefined) {
+  if (!levels?.length) return null;
+  const unknown = unknownLevelKeys(await getEducationTaxonomy(), levels);
+  return unknown.length
+    ? { message: `Unknown teaching levels: ${unknown.join(", ")}`, fieldErrors: { teachingLevels: unknown } }
+    : null;
+}
+
+/**
+ * Active, verified tutors joined with their user, subjects and published
+ * rating; served by GET /api/tutors and scanned by GET /api/tutors/search
+ */
+async function loadTutorListing(): Promise<any[]> {
+  const now = Date.now();
+  if (cachedTutors && (now - cachedTutorsFetchedAt) < TUTORS_TTL_MS) {
+    console.log("[/api/tutors] Serving from cache");
+    return cachedTutors;
+  }
+
+  // Cache miss - fetch from Firestore
+  console.log("[/api/tutors] Fetching from Firestore");
+  const profs = await listCollection<any>("tutor_profiles", [
+    ["isActive", "==", true],
+    ["isVerified", "==", true],
+  ]);
+
+  if (profs.length === 0) {
+    cachedTutors = [];
+    cachedTutorsFetchedAt = now;
+    return cachedTutors;
+  }
+
+  const userIds = profs.map((p) => p.userId).filter(Boolean);
+  const tutorIds = profs.map((p) => p.id);
+
+  // Load users and tutor_subjects
+  const [mapUsers, tsDocs] = await Promise.all([
+    batchLoadMap<any>("users", userIds),
+    (async () => {
+      // fetch tutor_subjects in chunks of 10 for 'in' constraint
+      const chunks: string[][] = [];
+      for (let i = 0; i < tutorIds.length; i += 10) {
+        chunks.push(tutorIds.slice(i, i + 10));
+      }
+      const acc: FirebaseFirestore.QueryDocumentSnapshot[] = [];
+      for (const chunk of chunks) {
+        const snap = await fdb!
+          .collection("tutor_subjects")
+          .where("tutorId", "in", chunk)
+          .get();
+        acc.push(...snap.docs);
+      }
+      return acc;
+    })(),
+  ]);
+
+  // Map tutor -> subject ids
+  const byTutor = new Map<string, string[]>();
+  for (const d of tsDocs) {
+    const tId = d.get("tutorId") as string;
+    const sId = d.get("subjectId") as string;
+    if (!byTutor.has(tId)) byTutor.set(tId, []);
+    byTutor.get(tId)!.push(sId);
+  }
+
+  const subjectIds = Array.from(
+    new Set(tsDocs.map((d) => d.get("subjectId") as string).filter(Boolean))
+  );
+  const mapSubjects = await batchLoadMap<any>("subjects", subjectIds);
+
+  // ---- NEW: load reviews and compute average + count per tutor ----
+  const ratingStats = new Map<string, { sum: number; count: number }>();
+
+  if (tutorIds.length > 0) {
+    const reviewChunks: string[][] = [];
+    for (let i = 0; i < tutorIds.length; i += 10) {
+      reviewChunks.push(tutorIds.slice(i, i + 10));
+    }
+
+    for (const chunk of reviewChunks) {
+      const reviewSnap = await fdb!
+        .collection("reviews")
+        .where("tutorId", "in", chunk)
+        .get();
+
+      for (const rDoc of reviewSnap.docs) {
+        const r = rDoc.data() as any;
+        const tid = String(r.tutorId || "");
+        const rating = Number(r.rating ?? 0);
+        if (!tid || !rating || !isPublishedReview(r)) continue;
+
+        const prev = ratingStats.get(tid) || { sum: 0, count: 0 };
+        prev.sum += rating;
+        prev.count += 1;
+        ratingStats.set(tid, prev);
+      }
+    }
+  }
+
+  const tutorsWithSubjects = profs.map((p) => {
+    const sids = byTutor.get(p.id) || [];
+    const subjects = sids
+      .map((sid) =>
+        mapSubjects.get(sid) ? { id: sid, ...mapSubjects.get(sid)! } : null
+      )
+      .filter(Boolean);
+
+    const stats = ratingStats.get(p.id);
+    const reviewCount = stats?.count ?? 0;
+    const averageRating =
+      stats && stats.count > 0 ? stats.sum / stats.count : 0;
+
+    return {
+      ...p,
+      user: toPublicUser(mapUsers.get(p.userId)),
+      subjects,
+      // fields the TutorCard tries to read
+      averageRating,
+      reviewCount,
+      totalRating: averageRating,
+      totalReviews: reviewCount,
+    };
+  });
+
+  // Update cache
+  cachedTutors = tutorsWithSubjects;
+  cachedTutorsFetchedAt = now;
+
+  return tutorsWithSubjects;
+}
+
 /* =======================
    Availability utilities
    ======================= */
 
 const DAY_KEYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"] as const;
 type DayKey = (typeof DAY_KEYS)[number];
+const DAY_MS = 24 * 60 * 60_000;
+
+/** Zone the tutor's weekly availability and exceptions are written in */
+function tutorTimeZone(tutorProfile: any): string {
+  return resolveTimeZone(tutorProfile?.timezone);
+}
+/** Zone a user reads times in (notifications); tutors fall back to their availability zone */
+async function userTimeZone(userId: string, fallback?: string | null): Promise<string> {
+  const user = await getDoc<any>("users", userId);
+  return isValidTimeZone(user?.timezone) ? user.timezone : resolveTimeZone(fallback);
+}
+/** "Sat, Mar 1, 2025, 09:00 (Asia/Bahrain)" */
+function formatSessionTime(date: Date, timeZone: string): string {
+  return `${formatInTimeZone(date, timeZone)} (${timeZone})`;
+}
 
-function startOfDay(date: Date) {
-  const d = new Date(date);
-  d.setHours(0, 0, 0, 0);
-  return d;
+/** First and last instant of a calendar day in a zone */
+function zonedDayBounds(ymd: string, timeZone: string): { start: Date; end: Date } {
+  const start = zonedTimeToUtc(ymd, "00:00", timeZone);
+  const next = zonedTimeToUtc(addDaysYMD(ymd, 1), "00:00", timeZone);
+  return { start, end: new Date(next.getTime() - 1) };
 }
-function endOfDay(date: Date) {
-  const d = new Date(date);
-  d.setHours(23, 59, 59, 999);
-  return d;
+function dayKeyOfYMD(ymd: string): DayKey {
+  return DAY_KEYS[weekdayOfYMD(ymd)];
 }
-function toDayKey(date: Date): DayKey {
-  return DAY_KEYS[date.getDay()];
+function toMinutes(hhmm: string): number {
+  const [h, m] = hhmm.split(":").map(Number);
+  return (h || 0) * 60 + (m || 0);
 }
-function parseHHMM(hhmm: string | undefined, fallback: string): { h: number; m: number } {
-  const v = hhmm || fallback;
-  const [h, m] = v.split(":").map((n) => Number(n));
-  return { h: Math.max(0, Math.min(23, h || 0)), m: Math.max(0, Math.min(59, m || 0)) };
+function fromMinutes(total: number): string {
+  return `${String(Math.floor(total / 60)).padStart(2, "0")}:${String(total % 60).padStart(2, "0")}`;
 }
 function* generateSlots(startHHmm: string, endHHmm: string, stepMinutes = 60) {
-  // generate slot labels (HH:mm) in [start,end] with step
-  const [sh, sm] = startHHmm.split(":").map(Number);
-  const [eh, em] = endHHmm.split(":").map(Number);
-  const base = new Date();
-  base.setHours(sh, sm, 0, 0);
-  const end = new Date();
-  end.setHours(eh, em, 0, 0);
-
-  const cur = new Date(base);
-  while (cur < end) {
-    const next = new Date(cur.getTime() + stepMinutes * 60_000);
-    if (next <= end) {
-      const hh = cur.getHours().toString().padStart(2, "0");
-      const mm = cur.getMinutes().toString().padStart(2, "0");
-      const ehh = next.getHours().toString().padStart(2, "0");
-      const emm = next.getMinutes().toString().padStart(2, "0");
-      yield { start: `${hh}:${mm}`, end: `${ehh}:${emm}` };
-    }
-    cur.setTime(next.getTime());
+  // generate wall-clock slot labels (HH:mm) in [start,end] with step
+  const end = toMinutes(endHHmm);
+  for (let cur = toMinutes(startHHmm); cur + stepMinutes <= end; cur += stepMinutes) {
+    yield { start: fromMinutes(cur), end: fromMinutes(cur + stepMinutes) };
   }
 }
 function overlaps(aStart: Date, aEnd: Date, bStart: Date, bEnd: Date) {
   return aStart < bEnd && bStart < aEnd;
 }
 
-// helpers for YYYY-MM-DD → Date(00:00 local)
-function parseYMD(s: string): Date {
-  const [y, m, d] = s.split("-").map((n) => parseInt(n, 10));
-  const dt = new Date();
-  dt.setFullYear(isNaN(y) ? dt.getFullYear() : y);
-  dt.setMonth(isNaN(m) ? dt.getMonth() : m - 1, isNaN(d) ? dt.getDate() : d);
-  dt.setHours(0, 0, 0, 0);
-  return dt;
-}
-function parseDateParam(s?: string): Date {
-  if (!s) {
-    const t = new Date();
-    t.setHours(0, 0, 0, 0);
-    return t;
-  }
-  if (/^\d{4}-\d{2}-\d{2}$/.test(s)) return parseYMD(s);
-  const d = new Date(s);
-  if (isNaN(d.getTime())) {
-    const t = new Date();
-    t.setHours(0, 0, 0, 0);
-    return t;
-  }
-  d.setHours(0, 0, 0, 0);
-  return d;
+// ?date= param → "YYYY-MM-DD" in the given zone (today when missing or invalid)
+function parseDateParam(s: string | undefined, timeZone: string): string {
+  if (s && /^\d{4}-\d{2}-\d{2}$/.test(s)) return s;
+  const d = s ? new Date(s) : new Date();
+  return toZonedYMD(isNaN(d.getTime()) ? new Date() : d, timeZone);
 }
 
 /* =======================
@@ -290,25 +714,641 @@ async function fetchSessionsForUser(user: AuthUser, limit: number): Promise<any[
   );
   const mapTutorUsers = await batchLoadMap<any>("users", tutorUserIds);
 
+  // The other party only gets to see the contact fields of each user
   const formatted = raw.map((s) => {
     const subject = mapSubjects.get(s.subjectId) || null;
     if (user.role === "student") {
       const tProf = mapTutorProfiles.get(s.tutorId) || null;
-      const tUser = tProf ? mapTutorUsers.get(tProf.userId) || null : null;
+      const tUser = tProf ? toContactUser(mapTutorUsers.get(tProf.userId)) : null;
       return { ...s, subject, tutor: tProf ? { ...tProf, user: tUser } : null };
     } else if (user.role === "tutor") {
-      const student = mapStudents.get(s.studentId) || null;
+      const student = toContactUser(mapStudents.get(s.studentId));
       return { ...s, subject, student };
     } else {
       const tProf = mapTutorProfiles.get(s.tutorId) || null;
-      const tUser = tProf ? mapTutorUsers.get(tProf.userId) || null : null;
-      const student = mapStudents.get(s.studentId) || null;
+      const tUser = tProf ? toContactUser(mapTutorUsers.get(tProf.userId)) : null;
+      const student = toContactUser(mapStudents.get(s.studentId));
       return { ...s, subject, tutor: tProf ? { ...tProf, user: tUser } : null, student };
     }
   });
 
   return formatted;
 }
+
+/** Tell the other party a session was cancelled and what was refunded */
+async function notifySessionCancelled(session: any, cancellation: SessionCancellation) {
+  try {
+    const tutorProfile = await getDoc<any>("tutor_profiles", session.tutorId);
+    const start = new Date(coerceMillis(session.scheduledAt));
+    const when = async (userId: string, fallback?: string | null) =>
+      formatSessionTime(start, await userTimeZone(userId, fallback));
+    const refund = `BHD ${(cancellation.refundCents / 100).toFixed(2)} (${cancellation.refundPercent}%)`;
+
+    const recipients: Array<{ userId: string; body: string }> = [];
+    if (cancellation.cancelledBy !== "student") {
+      recipients.push({
+        userId: session.studentId,
+        body: `Your session on ${await when(session.studentId)} was cancelled. Refund: ${refund}.`,
+      });
+    }
+    if (cancellation.cancelledBy !== "tutor" && tutorProfile?.userId) {
+      recipients.push({
+        userId: tutorProfile.userId,
+        body: `The session on ${await when(tutorProfile.userId, tutorProfile.timezone)} was cancelled. Student refund: ${refund}.`,
+      });
+    }
+
+    await Promise.all(
+      recipients.map((r) =>
+        notifyUser(r.userId, "SESSION_CANCELLED", {
+          title: "Session cancelled",
+          body: r.body,
+          data: {
+            sessionId: session.id,
+            refundId: cancellation.refundId ?? null,
+            refundCents: cancellation.refundCents,
+          },
+        })
+      )
+    );
+  } catch (error) {
+    console.error("Failed to create cancellation notification:", error);
+  }
+}
+
+/* =======================
+   Calendar (iCal) helpers
+   ======================= */
+
+function displayName(u: any): string {
+  return [u?.firstName, u?.lastName].filter(Boolean).join(" ") || u?.email || "Daresni user";
+}
+
+// Address part of the configured sender ("Daresni <noreply@x>" -> "noreply@x")
+function organizerEmail(): string {
+  const from = getEmailServiceStatus().fromAddress ?? "Daresni <noreply@example.com>";
+  return from.match(/<([^>]+)>/)?.[1] ?? from;
+}
+
+/** iCalendar event for a session, as shown in feeds and invites */
+function sessionToICalEvent(
+  session: any,
+  details: { subjectName: string; student: any | null; tutorUser: any | null }
+): ICalEvent {
+  const start = new Date(coerceMillis(session.scheduledAt));
+  const end = new Date(start.getTime() + Number(session.duration ?? 60) * 60_000);
+  const attendee = (u: any) => (u?.email ? { email: u.email, name: displayName(u) } : null);
+  const attendees = [attendee(details.student), attendee(details.tutorUser)].filter(Boolean) as ICalEvent["attendees"];
+  const cancelled = session.status === "cancelled";
+
+  return {
+    uid: sessionEventUid(session.id),
+    sequence: Number(session.icalSequence ?? 0),
+    start,
+    end,
+    summary: `${details.subjectName}: ${displayName(details.student)} with ${displayName(details.tutorUser)}`,
+    description: [session.notes, session.meetingLink ? `Join: ${session.meetingLink}` : null]
+      .filter(Boolean)
+      .join("\n"),
+    url: session.meetingLink || null,
+    location: session.meetingLink ? "Online" : null,
+    status: cancelled ? "CANCELLED" : session.status === "pending" ? "TENTATIVE" : "CONFIRMED",
+    organizer: { email: organizerEmail(), name: "Daresni" },
+    attendees,
+    updatedAt: session.updatedAt ? new Date(coerceMillis(session.updatedAt)) : null,
+  };
+}
+
+/**
+ * Email both participants an .ics invite for a session that was confirmed,
+ * moved or cancelled. Reads the session fresh so the invite carries the
+ * current time and SEQUENCE. Failures are logged, never thrown.
+ */
+async function sendSessionInvite(sessionId: string, kind: SessionInviteKind) {
+  try {
+    const session = await getDoc<any>("tutoring_sessions", sessionId);
+    if (!session) return;
+
+    const [student, tutorProfile, subject] = await Promise.all([
+      getDoc<any>("users", session.studentId),
+      getDoc<any>("tutor_profiles", session.tutorId),
+      session.subjectId ? getDoc<any>("subjects", session.subjectId) : null,
+    ]);
+    const tutorUser = tutorProfile?.userId ? await getDoc<any>("users", tutorProfile.userId) : null;
+    const subjectName = subject?.name ?? "Tutoring session";
+
+    const event = sessionToICalEvent(session, { subjectName, student, tutorUser });
+    const method = kind === "cancelled" ? "CANCEL" : "REQUEST";
+    const ics = buildCalendar({ method, events: [event] });
+    const start = new Date(coerceMillis(session.scheduledAt));
+
+    const recipients = [
+      { user: student, other: tutorUser, timeZone: resolveTimeZone(student?.timezone) },
+      {
+        user: tutorUser,
+        other: student,
+        timeZone: isValidTimeZone(tutorUser?.timezone) ? tutorUser.timezone : tutorTimeZone(tutorProfile),
+      },
+    ];
+
+    for (const r of recipients) {
+      if (!r.user?.email) continue;
+      const content = createSessionInviteEmail(kind, {
+        recipientName: r.user.firstName || displayName(r.user),
+        withName: displayName(r.other),
+        subjectName,
+        when: formatSessionTime(start, r.timeZone),
+        durationMinutes: Number(session.duration ?? 60),
+      });
+      await sendEmail({
+        to: [r.user.email],
+        ...content,
+        attachments: [
+          {
+            filename: kind === "cancelled" ? "cancel.ics" : "invite.ics",
+            content: ics,
+            contentType: `text/calendar; charset=utf-8; method=${method}`,
+          },
+        ],
+      });
+    }
+  } catch (error) {
+    console.error(`Failed to send ${kind} invite for session ${sessionId}:`, error);
+  }
+}
+
+/** Public subscription URL for a feed token */
+function calendarFeedUrl(req: express.Request, token: string): string {
+  const base = process.env.FRONTEND_URL || `${req.protocol}://${req.get("host")}`;
+  return `${base}/api/calendar/feed/${token}.ics`;
+}
+
+/* =======================
+   Booking validation & lifecycle
+   ======================= */
+
+// Accepts tutor_profiles.id OR the tutor's userId
+async function resolveTutorProfile(idOrUserId: string): Promise<any | null> {
+  const byId = await getDoc<any>("tutor_profiles", idOrUserId);
+  if (byId) return byId;
+
+  const byUser = await fdb!.collection("tutor_profiles").where("userId", "==", idOrUserId).limit(1).get();
+  return byUser.empty ? null : ({ id: byUser.docs[0].id, ...byUser.docs[0].data() } as any);
+}
+
+type DayWindow = { startTime: string; endTime: string }; // "HH:MM"
+
+/**
+ * Bookable windows for one calendar day ("YYYY-MM-DD" in the tutor's zone):
+ * the weekly pattern plus any one-off extra slots, unless a time-off exception
+ * covers the day. Overlapping or touching windows are merged so a session may
+ * span them.
+ */
+function getDayWindows(tutorProfile: any, ymd: string): { windows: DayWindow[]; timeOff: boolean } {
+  const exceptions: AvailabilityException[] = Array.isArray(tutorProfile.availabilityExceptions)
+    ? tutorProfile.availabilityExceptions
+    : [];
+  const covers = (e: AvailabilityException) => e.startDate <= ymd && ymd <= e.endDate;
+
+  if (exceptions.some((e) => e.type === "time_off" && covers(e))) {
+    return { windows: [], timeOff: true };
+  }
+
+  const raw: DayWindow[] = [];
+  const weekly = tutorProfile.availability?.[dayKeyOfYMD(ymd)];
+  if (weekly?.isAvailable) {
+    if (Array.isArray(weekly.windows) && weekly.windows.length > 0) {
+      raw.push(...weekly.windows.map((w: DayWindow) => ({ startTime: w.startTime, endTime: w.endTime })));
+    } else {
+      raw.push({ startTime: weekly.startTime || "09:00", endTime: weekly.endTime || "17:00" });
+    }
+  }
+  for (const e of exceptions) {
+    if (e.type === "extra_slot" && covers(e) && e.startTime && e.endTime) {
+      raw.push({ startTime: e.startTime, endTime: e.endTime });
+    }
+  }
+
+  // "HH:MM" strings sort chronologically
+  raw.sort((a, b) => a.startTime.localeCompare(b.startTime));
+  const windows: DayWindow[] = [];
+  for (const w of raw) {
+    const last = windows[windows.length - 1];
+    if (last && w.startTime <= last.endTime) {
+      if (w.endTime > last.endTime) last.endTime = w.endTime;
+    } else {
+      windows.push({ ...w });
+    }
+  }
+  return { windows, timeOff: false };
+}
+
+/** Per-tutor booking rules with platform defaults */
+function getBookingRules(tutorProfile: any): { bufferMinutes: number; minNoticeMinutes: number } {
+  const buffer = Number(tutorProfile?.bufferMinutes);
+  const notice = Number(tutorProfile?.minNoticeHours);
+  return {
+    bufferMinutes: Number.isFinite(buffer) && buffer > 0 ? buffer : 0,
+    minNoticeMinutes: Number.isFinite(notice) && notice > 0 ? Math.round(notice * 60) : 0,
+  };
+}
+
+/**
+ * True if [start, end) collides with a booked session, keeping `bufferMinutes`
+ * free on both sides of the booked one.
+ */
+function collidesWithBooking(start: Date, end: Date, booked: any, bufferMinutes: number): boolean {
+  const bStart = new Date(coerceMillis(booked.scheduledAt));
+  const bEnd = new Date(bStart.getTime() + Number(booked.duration ?? 60) * 60_000);
+  return overlaps(
+    start,
+    end,
+    new Date(bStart.getTime() - bufferMinutes * 60_000),
+    new Date(bEnd.getTime() + bufferMinutes * 60_000)
+  );
+}
+
+type DaySlot = { start: string; end: string; available: boolean; at: string; endAt: string };
+
+// Confirmed/active sessions hold the tutor's time: their slots are shown as
+// taken and bookings over them are refused
+const BLOCKING_SESSION_STATUSES = ["scheduled", "in_progress"];
+
+function blocksTutorTime(session: any): boolean {
+  return BLOCKING_SESSION_STATUSES.includes(session.status || "scheduled");
+}
+
+/** Scheduled or in-progress sessions (any tutor) that can reach into [from, to] */
+async function loadBlockingSessions(from: Date, to: Date): Promise<any[]> {
+  // Avoid composite-index requirement: query by scheduledAt range, then filter tutorId in memory
+  const snap = await fdb!
+    .collection("tutoring_sessions")
+    .where("scheduledAt", ">=", new Date(from.getTime() - DAY_MS))
+    .where("scheduledAt", "<=", to)
+    .get();
+  return snap.docs
+    .map((d) => ({ id: d.id, ...(d.data() as any) }))
+    .filter(blocksTutorTime);
+}
+
+/**
+ * A tutor's slots for one day ("YYYY-MM-DD" in their zone). Slots in the
+ * past, inside the minimum notice, or within the buffer of one of `booked`
+ * (the tutor's blocking sessions) are listed as unavailable.
+ */
+function buildDaySlots(tutorProfile: any, ymd: string, step: number, booked: any[]): DaySlot[] {
+  const timeZone = tutorTimeZone(tutorProfile);
+  const { windows } = getDayWindows(tutorProfile, ymd);
+  const { bufferMinutes, minNoticeMinutes } = getBookingRules(tutorProfile);
+  const earliestStart = new Date(Date.now() + minNoticeMinutes * 60_000);
+
+  const slots: DaySlot[] = [];
+  for (const w of windows) {
+    for (const s of generateSlots(w.startTime, w.endTime, step)) {
+      const slotStart = zonedTimeToUtc(ymd, s.start, timeZone);
+      const slotEnd = new Date(slotStart.getTime() + step * 60_000);
+
+      // past slots (and those inside the notice period) not available
+      let available = slotStart >= earliestStart && slotStart > new Date();
+
+      // conflict with existing sessions
+      if (available && booked.some((b) => collidesWithBooking(slotStart, slotEnd, b, bufferMinutes))) {
+        available = false;
+      }
+
+      slots.push({
+        start: s.start,
+        end: s.end,
+        available,
+        at: toZonedISO(slotStart, timeZone),
+        endAt: toZonedISO(slotEnd, timeZone),
+      });
+    }
+  }
+  return slots;
+}
+
+type OpenSlot = { date: string; start: string; at: string; endAt: string; slotStarts: string[] };
+
+/**
+ * Start times where the tutor is free for `durationMinutes` inside
+ * [windowStart, windowEnd]: runs of back-to-back available hourly slots, so
+ * BookingModal can pre-select exactly those slots
+ */
+function findOpenSlots(
+  tutorProfile: any,
+  windowStart: Date,
+  windowEnd: Date,
+  durationMinutes: number,
+  booked: any[]
+): OpenSlot[] {
+  const timeZone = tutorTimeZone(tutorProfile);
+  const needed = Math.max(1, Math.round(durationMinutes / 60));
+  // The window can straddle midnight in the tutor's zone
+  const days = Array.from(
+    new Set([toZonedYMD(windowStart, timeZone), toZonedYMD(new Date(windowEnd.getTime() - 1), timeZone)])
+  );
+
+  const open: OpenSlot[] = [];
+  for (const ymd of days) {
+    const slots = buildDaySlots(tutorProfile, ymd, 60, booked);
+    for (let i = 0; i + needed <= slots.length; i++) {
+      const run = slots.slice(i, i + needed);
+      const contiguous = run.every((s, j) => s.available && (j === 0 || run[j - 1].endAt === s.at));
+      if (!contiguous) continue;
+      const start = new Date(run[0].at);
+      const end = new Date(run[run.length - 1].endAt);
+      if (start < windowStart || end > windowEnd) continue;
+      open.push({
+        date: ymd,
+        start: run[0].start,
+        at: run[0].at,
+        endAt: run[run.length - 1].endAt,
+        slotStarts: run.map((s) => s.start),
+      });
+    }
+  }
+  return open;
+}
+
+/** Why the tutor's availability rejects [start, end), or null if it fits */
+function checkAvailabilityWindow(tutorProfile: any, start: Date, end: Date): string | null {
+  const { minNoticeMinutes } = getBookingRules(tutorProfile);
+  if (minNoticeMinutes > 0 && start.getTime() < Date.now() + minNoticeMinutes * 60_000) {
+    return `Tutor needs at least ${minNoticeMinutes / 60} hours notice`;
+  }
+
+  const timeZone = tutorTimeZone(tutorProfile);
+  const ymd = toZonedYMD(start, timeZone);
+  const { windows, timeOff } = getDayWindows(tutorProfile, ymd);
+  if (timeOff) return "Tutor is on time off this day";
+  if (windows.length === 0) return "Tutor not available this day";
+
+  const fits = windows.some((w) => {
+    const windowStart = zonedTimeToUtc(ymd, w.startTime, timeZone);
+    const windowEnd = zonedTimeToUtc(ymd, w.endTime, timeZone);
+    return start >= windowStart && end <= windowEnd;
+  });
+
+  return fits ? null : "Outside tutor availability window";
+}
+
+/**
+ * True if a confirmed (scheduled) session of this tutor overlaps [start, end),
+ * including the tutor's buffer around each booked session
+ */
+async function hasBookingConflict(
+  tutorProfile: any,
+  start: Date,
+  end: Date,
+  ignoreSessionIds: string[] = []
+): Promise<boolean> {
+  const { bufferMinutes } = getBookingRules(tutorProfile);
+  // Sessions are shorter than a day, so only ones starting in the previous 24h can reach `start`
+  const bookedSnap = await fdb!
+    .collection("tutoring_sessions")
+    .where("tutorId", "==", tutorProfile.id)
+    .where("scheduledAt", ">=", new Date(start.getTime() - DAY_MS))
+    .where("scheduledAt", "<=", new Date(end.getTime() + bufferMinutes * 60_000))
+    .get();
+
+  for (const d of bookedSnap.docs) {
+    if (ignoreSessionIds.includes(d.id)) continue;
+    const s = d.data() as any;
+    if (!blocksTutorTime(s)) continue;
+
+    if (collidesWithBooking(start, end, s, bufferMinutes)) return true;
+  }
+  return false;
+}
+
+/**
+ * Accept a session request. Only a request that is still pending can be
+ * accepted: the status moves inside a transaction so an accept racing with
+ * expiry or a cancellation cannot revive the session. The payment is captured
+ * afterwards; a failed capture puts the session back to pending so the tutor
+ * can retry, and rethrows. Returns false when the request was no longer pending.
+ */
+async function acceptPendingSession(sessionId: string, paymentId?: string | null): Promise<boolean> {
+  const ref = fdb!.collection("tutoring_sessions").doc(sessionId);
+  const accepted = await fdb!.runTransaction(async (tx) => {
+    const current = await tx.get(ref);
+    if (current.data()?.status !== "pending") return false;
+    tx.update(ref, { status: "scheduled", updatedAt: now() });
+    return true;
+  });
+  if (!accepted) return false;
+
+  if (paymentId) {
+    try {
+      await capturePayment(paymentId);
+    } catch (paymentError) {
+      await fdb!.runTransaction(async (tx) => {
+        const current = await tx.get(ref);
+        if (current.data()?.status === "scheduled") tx.update(ref, { status: "pending", updatedAt: now() });
+      });
+      throw paymentError;
+    }
+  }
+  return true;
+}
+
+/**
+ * Cancel a session under the refund policy: settle the payment, store the
+ * outcome on the session, notify the other party and credit any retained fee.
+ * The session is moved to cancelled in a transaction before any money moves,
+ * so of two concurrent cancellations only one settles; the other gets null.
+ */
+async function cancelSessionWithPolicy(
+  sessionIn: any,
+  actor: AuthUser,
+  reason?: string | null,
+  { notify = true }: { notify?: boolean } = {}
+): Promise<SessionCancellation | null> {
+  const ref = fdb!.collection("tutoring_sessions").doc(sessionIn.id);
+  const session = await fdb!.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    const current = snap.data();
+    if (!current || current.status === "cancelled" || current.status === "completed") return null;
+    tx.update(ref, {
+      status: "cancelled",
+      icalSequence: Number(current.icalSequence ?? 0) + 1,
+      updatedAt: now(),
+    });
+    return { ...sessionIn, ...current, id: snap.id };
+  });
+  if (!session) return null;
+
+  const cancellation = await settleCancellation({
+    session: { ...session, scheduledAt: new Date(coerceMillis(session.scheduledAt)) },
+    cancelledBy: actor.role as CancelledBy,
+    actorId: actor.id,
+    reason: reason ?? null,
+  });
+
+  await ref.set({ cancellation, updatedAt: now() }, { merge: true });
+
+  if (notify) await notifySessionCancelled(session, cancellation);
+  // Only confirmed sessions were sent an invite that now needs withdrawing
+  if (session.status === "scheduled") await sendSessionInvite(session.id, "cancelled");
+  if (cancellation.tutorRetainedCents > 0) {
+    await accrueCancellationFee(session, cancellation.tutorRetainedCents);
+  }
+
+  return cancellation;
+}
+
+/**
+ * Start times of a recurring booking. Steps by calendar days in the tutor's
+ * zone so the lesson keeps its wall-clock time across DST changes.
+ */
+function buildSeriesOccurrences(
+  start: Date,
+  frequency: SeriesFrequency,
+  end: { occurrences?: number; until?: Date },
+  timeZone: string
+): Date[] {
+  const stepDays = frequency === "biweekly" ? 14 : 7;
+  const startYMD = toZonedYMD(start, timeZone);
+  const startHHMM = toZonedHHMM(start, timeZone);
+  const dates: Date[] = [];
+
+  for (let i = 0; i < MAX_SERIES_OCCURRENCES; i++) {
+    const d = zonedTimeToUtc(addDaysYMD(startYMD, i * stepDays), startHHMM, timeZone);
+    if (end.occurrences && i >= end.occurrences) break;
+    if (end.until && d > end.until) break;
+    dates.push(d);
+  }
+  return dates;
+}
+
+type SeriesOccurrenceCheck = { scheduledAt: Date; ok: boolean; reason: string | null };
+
+/** Run every occurrence through the same availability + conflict checks as a single booking */
+async function checkSeriesOccurrences(
+  tutorProfile: any,
+  dates: Date[],
+  duration: number
+): Promise<SeriesOccurrenceCheck[]> {
+  const nowMs = Date.now();
+  return Promise.all(
+    dates.map(async (start) => {
+      const end = new Date(start.getTime() + duration * 60_000);
+      let reason: string | null = start.getTime() <= nowMs ? "Occurrence is in the past" : null;
+      reason = reason ?? checkAvailabilityWindow(tutorProfile, start, end);
+      if (!reason && (await hasBookingConflict(tutorProfile, start, end))) {
+        reason = "Time slot already booked";
+      }
+      return { scheduledAt: start, ok: !reason, reason };
+    })
+  );
+}
+
+type SessionRole = "student" | "tutor" | "admin";
+
+/**
+ * Status changes each side may make through PUT /api/sessions/:id, as the
+ * statuses a session may be in for each target. Nothing goes back to pending,
+ * and students can only cancel: accepting is the tutor's decision.
+ */
+const SESSION_STATUS_TRANSITIONS: Record<SessionRole, Partial<Record<string, string[]>>> = {
+  student: {
+    cancelled: ["pending", "scheduled", "in_progress"],
+  },
+  tutor: {
+    scheduled: ["pending"],
+    in_progress: ["scheduled"],
+    completed: ["scheduled", "in_progress"],
+    cancelled: ["pending", "scheduled", "in_progress"],
+  },
+  admin: {
+    scheduled: ["pending"],
+    in_progress: ["scheduled"],
+    completed: ["scheduled", "in_progress"],
+    cancelled: ["pending", "scheduled", "in_progress"],
+  },
+};
+
+/** The user's side of a session, or null when they are not a participant */
+async function getSessionRole(session: any, user: AuthUser): Promise<SessionRole | null> {
+  if (user.role === "admin") return "admin";
+  if (user.role === "student") return session.studentId === user.id ? "student" : null;
+  if (user.role === "tutor") {
+    const profSnap = await fdb!.collection("tutor_profiles").where("userId", "==", user.id).limit(1).get();
+    return !profSnap.empty && profSnap.docs[0].id === session.tutorId ? "tutor" : null;
+  }
+  return null;
+}
+
+/** Hourly HH:MM slot labels (tutor's zone) covering a session, matching what BookingModal stores */
+function slotLabelsFor(start: Date, duration: number, timeZone: string): string[] {
+  const labels: string[] = [];
+  for (let m = 0; m < duration; m += 60) {
+    labels.push(toZonedHHMM(new Date(start.getTime() + m * 60_000), timeZone));
+  }
+  return labels;
+}
+
+/** Why a session cannot move to `start`, or null if the new time is bookable */
+async function checkSessionMove(session: any, start: Date): Promise<string | null> {
+  if (session.status !== "pending" && session.status !== "scheduled") {
+    return `A ${session.status} session cannot be rescheduled`;
+  }
+  if (start.getTime() <= Date.now()) return "The new time must be in the future";
+
+  const tutorProfile = await getDoc<any>("tutor_profiles", session.tutorId);
+  if (!tutorProfile) return "Tutor profile not found";
+
+  const end = new Date(start.getTime() + Number(session.duration ?? 60) * 60_000);
+  const unavailable = checkAvailabilityWindow(tutorProfile, start, end);
+  if (unavailable) return unavailable;
+
+  if (await hasBookingConflict(tutorProfile, start, end, [session.id])) {
+    return "Time slot already booked";
+  }
+  return null;
+}
+
+/** Notify the participant(s) on the other side of `actor` (admins notify both) */
+async function notifySessionCounterparty(
+  session: any,
+  actor: SessionRole,
+  notification: {
+    type: NotificationType;
+    title: string;
+    body: (timeZone: string) => string; // rendered in each recipient's zone
+    data?: Record<string, unknown>;
+  }
+) {
+  try {
+    const recipients: Array<{ userId: string; timeZone: string }> = [];
+    if (actor !== "student") {
+      recipients.push({ userId: session.studentId, timeZone: await userTimeZone(session.studentId) });
+    }
+    if (actor !== "tutor") {
+      const tutorProfile = await getDoc<any>("tutor_profiles", session.tutorId);
+      if (tutorProfile?.userId) {
+        recipients.push({
+          userId: tutorProfile.userId,
+          timeZone: await userTimeZone(tutorProfile.userId, tutorProfile.timezone),
+        });
+      }
+    }
+
+    await Promise.all(
+      recipients.map(({ userId, timeZone }) =>
+        notifyUser(userId, notification.type, {
+          title: notification.title,
+          body: notification.body(timeZone),
+          data: { sessionId: session.id, ...(notification.data ?? {}) },
+        })
+      )
+    );
+  } catch (error) {
+    console.error(`Failed to create ${notification.type} notification:`, error);
+  }
+}
+
 async function autoCompleteSessions(cutoff: Date): Promise<{
   checked: number;
   completed: number;
@@ -327,9 +1367,7 @@ async function autoCompleteSessions(cutoff: Date): Promise<{
 
   let checked = 0;
   let completed = 0;
-
-  let batch = fdb.batch();
-  let ops = 0;
+  const completedSessions: any[] = [];
 
   for (const d of docs) {
     const data = d.data() as any;
@@ -340,26 +1378,36 @@ async function autoCompleteSessions(cutoff: Date): Promise<{
     const end = new Date(start.getTime() + durationMinutes * 60_000);
 
     // Only auto-complete if the calculated end time has actually passed
-    if (end <= cutoff) {
-      batch.update(d.ref, {
-        status: "completed",
-        updatedAt: now(),
-      });
-      completed++;
-      ops++;
+    if (end > cutoff) continue;
 
-      // Commit in chunks to respect batch limits
-      if (ops >= 400) {
-        await batch.commit();
-        batch = fdb.batch();
-        ops = 0;
+    // Re-read in a transaction: a session cancelled (and refunded) since the
+    // query ran must not be completed and paid out
+    try {
+      const session = await fdb.runTransaction(async (tx) => {
+        const current = await tx.get(d.ref);
+        const status = current.data()?.status;
+        if (status !== "scheduled" && status !== "in_progress") return null;
+        tx.update(d.ref, { status: "completed", updatedAt: now() });
+        return { id: d.id, ...(current.data() as any) };
+      });
+      if (session) {
+        completedSessions.push(session);
+        completed++;
       }
+    } catch (error) {
+      console.error(`autoCompleteSessions: failed to complete session ${d.id}:`, error);
     }
   }
 
-  if (ops > 0) {
-    await batch.commit();
+  // Credit tutor earnings for everything we just closed (idempotent per session)
+  for (const s of completedSessions) {
+    try {
+      await accrueSessionEarnings(s);
+    } catch (error) {
+      console.error(`autoCompleteSessions: failed to accrue earnings for session ${s.id}:`, error);
+    }
   }
+  await refreshTutorStatsFor(completedSessions.map((s) => s.tutorId));
 
   console.log(
     `autoCompleteSessions: checked=${checked}, completed=${completed}, cutoff=${cutoff.toISOString()}`
@@ -368,6 +1416,231 @@ async function autoCompleteSessions(cutoff: Date): Promise<{
   return { checked, completed };
 }
 
+/**
+ * Top `limit` tutors ranked with the weighting profile the student is
+ * assigned, recording what they were shown when an A/B experiment runs
+ */
+async function rankTutorsForStudent(
+  tutorIds: string[],
+  criteria: TutorRankingCriteria,
+  limit: number
+): Promise<RankedTutor[]> {
+  const config = await getRankingWeightsConfig();
+  const profile = assignRankingProfile(config, criteria.studentId);
+  const rankings = await new TutorRankingService(fdb!, config.profiles[profile].weights).rankTutors(
+    tutorIds,
+    criteria
+  );
+  const top = rankings.slice(0, limit);
+  await recordRankingExposure(config, profile, criteria.studentId, top.map((r) => r.tutorId));
+  return top;
+}
+
+/**
+ * Best-ranked other tutors who teach the subject, for students whose request
+ * went unanswered
+ */
+async function suggestAlternativeTutors(
+  subjectId: string,
+  excludeTutorId: string,
+  studentId: string,
+  limit = 3
+): Promise<Array<{ tutorId: string; name: string }>> {
+  const profs = await listCollection<any>("tutor_profiles", [
+    ["isActive", "==", true],
+    ["isVerified", "==", true],
+  ]);
+
+  const subjectSnap = await fdb!.collection("tutor_subjects").where("subjectId", "==", subjectId).get();
+  const teachesSubject = new Set(subjectSnap.docs.map((d) => d.get("tutorId") as string));
+  const candidates = profs.filter((p) => p.id !== excludeTutorId && teachesSubject.has(p.id));
+  if (candidates.length === 0) return [];
+
+  const top = await rankTutorsForStudent(candidates.map((p) => p.id), { subjectId, studentId }, limit);
+
+  const byId = new Map(candidates.map((p) => [p.id, p]));
+  const users = await batchLoadMap<any>(
+    "users",
+    top.map((r) => byId.get(r.tutorId)?.userId).filter(Boolean)
+  );
+  return top.map((r) => ({
+    tutorId: r.tutorId,
+    name: displayName(users.get(byId.get(r.tutorId)?.userId)),
+  }));
+}
+
+/**
+ * Expire pending requests the tutor did not answer in time: mark them
+ * 'expired', release the payment hold and point the student to other tutors.
+ */
+async function expirePendingSessions(at: Date): Promise<{
+  checked: number;
+  expired: number;
+}> {
+  if (!fdb) throw new Error("Firestore not initialized");
+
+  const config = await getRequestExpiryConfig();
+  const pendingSnap = await fdb.collection("tutoring_sessions").where("status", "==", "pending").get();
+
+  let checked = 0;
+  let expired = 0;
+  const alternativesBySubject = new Map<string, Array<{ tutorId: string; name: string }>>();
+
+  for (const d of pendingSnap.docs) {
+    checked++;
+    const data = d.data() as any;
+    const scheduledAt = new Date(coerceMillis(data.scheduledAt));
+    // Legacy requests without createdAt only expire on the start cutoff
+    const createdAt = new Date(coerceMillis(data.createdAt) || at.getTime());
+    if (requestExpiresAt(config, { createdAt, scheduledAt }) > at) continue;
+
+    // The tutor may be accepting right now; only expire what is still pending
+    const didExpire = await fdb.runTransaction(async (tx) => {
+      const snap = await tx.get(d.ref);
+      if (snap.data()?.status !== "pending") return false;
+      tx.update(d.ref, { status: "expired", expiredAt: now(), updatedAt: now() });
+      return true;
+    });
+    if (!didExpire) continue;
+    expired++;
+
+    const session = { id: d.id, ...data };
+    if (session.paymentId) {
+      try {
+        await voidPayment(session.paymentId);
+      } catch (error) {
+        console.error(`expirePendingSessions: failed to release payment ${session.paymentId}:`, error);
+      }
+    }
+
+    try {
+      if (!alternativesBySubject.has(session.subjectId)) {
+        alternativesBySubject.set(
+          session.subjectId,
+          await suggestAlternativeTutors(session.subjectId, session.tutorId, session.studentId)
+        );
+      }
+      const alternatives = alternativesBySubject.get(session.subjectId)!;
+
+      const [tutorProfile, timeZone] = await Promise.all([
+        getDoc<any>("tutor_profiles", session.tutorId),
+        userTimeZone(session.studentId),
+      ]);
+      const tutorUser = tutorProfile?.userId ? await getDoc<any>("users", tutorProfile.userId) : null;
+      const suggestion = alternatives.length
+        ? ` You could try ${alternatives.map((a) => a.name).join(", ")}.`
+        : "";
+
+      await notifyUser(session.studentId, "SESSION_EXPIRED", {
+        title: "Session request expired",
+        body:
+          `${displayName(tutorUser)} did not respond to your request for ${formatSessionTime(scheduledAt, timeZone)}. ` +
+          `Your payment hold has been released.${suggestion}`,
+        data: {
+          sessionId: session.id,
+          tutorId: session.tutorId,
+          subjectId: session.subjectId,
+          alternativeTutorIds: alternatives.map((a) => a.tutorId),
+        },
+      });
+    } catch (error) {
+      console.error(`expirePendingSessions: failed to notify student for session ${session.id}:`, error);
+    }
+  }
+
+  console.log(`expirePendingSessions: checked=${checked}, expired=${expired}, at=${at.toISOString()}`);
+
+  return { checked, expired };
+}
+
+/**
+ * Remind student and tutor of upcoming scheduled sessions at the configured
+ * lead times, through the channels each of them has left on.
+ */
+async function sendSessionReminders(at: Date): Promise<{
+  checked: number;
+  sent: number;
+}> {
+  if (!fdb) throw new Error("Firestore not initialized");
+
+  const { leadTimesMinutes } = await getSessionReminderConfig();
+  if (leadTimesMinutes.length === 0) return { checked: 0, sent: 0 };
+
+  const horizon = new Date(at.getTime() + Math.max(...leadTimesMinutes) * 60_000);
+  const snap = await fdb
+    .collection("tutoring_sessions")
+    .where("status", "==", "scheduled")
+    .where("scheduledAt", ">", at)
+    .where("scheduledAt", "<=", horizon)
+    .get();
+
+  let checked = 0;
+  let sent = 0;
+
+  for (const d of snap.docs) {
+    checked++;
+    const session = { id: d.id, ...(d.data() as any) };
+    const start = new Date(coerceMillis(session.scheduledAt));
+    const lead = dueLeadTime(leadTimesMinutes, start, at);
+    if (lead == null) continue;
+
+    try {
+      const [student, tutorProfile, subject] = await Promise.all([
+        getDoc<any>("users", session.studentId),
+        getDoc<any>("tutor_profiles", session.tutorId),
+        session.subjectId ? getDoc<any>("subjects", session.subjectId) : null,
+      ]);
+      const tutorUser = tutorProfile?.userId ? await getDoc<any>("users", tutorProfile.userId) : null;
+      const subjectName = subject?.name ?? "Tutoring session";
+      const startsIn = formatLeadTime(lead);
+
+      const recipients = [
+        { user: student, other: tutorUser, timeZone: resolveTimeZone(student?.timezone) },
+        {
+          user: tutorUser,
+          other: student,
+          timeZone: isValidTimeZone(tutorUser?.timezone) ? tutorUser.timezone : tutorTimeZone(tutorProfile),
+        },
+      ];
+
+      for (const r of recipients) {
+        if (!r.user) continue;
+        const prefs = resolveReminderPreferences(r.user.reminderPreferences);
+        if (!wantsReminder(prefs, lead)) continue;
+        if (!(await claimReminder(session.id, r.user.id, lead, start))) continue;
+
+        const when = formatSessionTime(start, r.timeZone);
+        const delivered = await notifyUser(
+          r.user.id,
+          "SESSION_REMINDER",
+          {
+            title: "Session reminder",
+            body: `Your ${subjectName} session with ${displayName(r.other)} starts in ${startsIn} (${when}).`,
+            data: { sessionId: session.id, leadMinutes: lead },
+          },
+          {
+            email: createSessionReminderEmail({
+              recipientName: r.user.firstName || displayName(r.user),
+              withName: displayName(r.other),
+              subjectName,
+              when,
+              startsIn,
+              durationMinutes: Number(session.duration ?? 60),
+            }),
+          }
+        );
+        if (delivered.inApp || delivered.email) sent++;
+      }
+    } catch (error) {
+      console.error(`sendSessionReminders: failed for session ${session.id}:`, error);
+    }
+  }
+
+  console.log(`sendSessionReminders: checked=${checked}, sent=${sent}, at=${at.toISOString()}`);
+
+  return { checked, sent };
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/initialize-firebase.html", (req, res) => {
     const initFilePath = path.join(__dirname, "../initialize-firebase.html");
@@ -481,6 +1754,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           lastName: user.lastName ?? null,
           profileImageUrl: user.profileImageUrl ?? null,
           role: user.role ?? null,
+          timezone: user.timezone ?? null,
         },
         hasTutorProfile: !!tutorProfile,
         tutorProfile: tutorProfile || undefined,
@@ -498,6 +1772,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         firstName: z.string().min(1).optional(),
         lastName: z.string().min(1).optional(),
         profileImageUrl: z.string().optional().or(z.literal("")).nullable(),
+        timezone: z.string().refine(isValidTimeZone, { message: "Unknown time zone" }).optional(),
       });
       const updateData = updateSchema.parse(req.body);
       if (updateData.profileImageUrl === "") delete (updateData as any).profileImageUrl;
@@ -529,6 +1804,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           lastName: updatedUser.lastName ?? null,
           profileImageUrl: updatedUser.profileImageUrl ?? null,
           role: updatedUser.role ?? null,
+          timezone: updatedUser.timezone ?? null,
         },
       });
     } catch (error) {
@@ -541,6 +1817,69 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // === NOTIFICATION PREFERENCES ===
+  app.get("/api/me/notification-preferences", requireUser, async (req, res) => {
+    try {
+      const user = await getDoc<any>("users", req.user!.id);
+      const events = (Object.keys(NOTIFICATION_EVENTS) as NotificationType[])
+        .filter((type) => NOTIFICATION_EVENTS[type].audience === "user")
+        .map((type) => {
+          const { label, description, defaults } = NOTIFICATION_EVENTS[type];
+          return { type, label, description, defaults };
+        });
+      res.json({ preferences: resolveNotificationPreferences(user?.notificationPreferences), events });
+    } catch (error) {
+      console.error("Error fetching notification preferences:", error);
+      res.status(500).json({ message: "Failed to fetch notification preferences", fieldErrors: {} });
+    }
+  });
+
+  app.put("/api/me/notification-preferences", requireUser, async (req, res) => {
+    try {
+      const preferences = notificationPreferencesSchema.parse(req.body);
+      // Overwrite rather than merge so events reset to default are dropped
+      await fdb!.collection("users").doc(req.user!.id).update({ notificationPreferences: preferences, updatedAt: now() });
+      res.json({ preferences });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation failed", fieldErrors: error.flatten().fieldErrors });
+      }
+      console.error("Error saving notification preferences:", error);
+      res.status(500).json({ message: "Failed to save notification preferences", fieldErrors: {} });
+    }
+  });
+
+  // === REMINDER PREFERENCES ===
+  app.get("/api/me/reminder-preferences", requireUser, async (req, res) => {
+    try {
+      const [user, config] = await Promise.all([getDoc<any>("users", req.user!.id), getSessionReminderConfig()]);
+      res.json({
+        preferences: resolveReminderPreferences(user?.reminderPreferences),
+        availableLeadTimesMinutes: config.leadTimesMinutes,
+      });
+    } catch (error) {
+      console.error("Error fetching reminder preferences:", error);
+      res.status(500).json({ message: "Failed to fetch reminder preferences", fieldErrors: {} });
+    }
+  });
+
+  app.put("/api/me/reminder-preferences", requireUser, async (req, res) => {
+    try {
+      const preferences = reminderPreferencesSchema.parse(req.body);
+      await fdb!
+        .collection("users")
+        .doc(req.user!.id)
+        .set({ reminderPreferences: preferences, updatedAt: now() }, { merge: true });
+      res.json({ preferences });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation failed", fieldErrors: error.flatten().fieldErrors });
+      }
+      console.error("Error saving reminder preferences:", error);
+      res.status(500).json({ message: "Failed to save reminder preferences", fieldErrors: {} });
+    }
+  });
+
   const upload = multer({
     storage: multer.memoryStorage(),
     limits: { fileSize: 5 * 1024 * 1024 },
@@ -713,6 +2052,61 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // === EDUCATION TAXONOMY ===
+  // Curricula and grade bands tutors declare and students filter by
+  app.get("/api/taxonomy", async (_req, res) => {
+    try {
+      res.json(await getEducationTaxonomy());
+    } catch (error) {
+      console.error("Error fetching education taxonomy:", error);
+      res.status(500).json({ message: "Failed to fetch education taxonomy", fieldErrors: {} });
+    }
+  });
+
+  app.get("/api/admin/taxonomy", requireUser, requireAdmin, async (_req, res) => {
+    try {
+      res.json({ taxonomy: await getEducationTaxonomy(), defaults: DEFAULT_EDUCATION_TAXONOMY });
+    } catch (error) {
+      console.error("Error fetching education taxonomy:", error);
+      res.status(500).json({ message: "Failed to fetch education taxonomy", fieldErrors: {} });
+    }
+  });
+
+  app.put("/api/admin/taxonomy", requireUser, requireAdmin, async (req, res) => {
+    try {
+      const body = educationTaxonomySchema.parse(req.body);
+      const taxonomy = await saveEducationTaxonomy(body, req.user!.id);
+      res.json({ taxonomy, defaults: DEFAULT_EDUCATION_TAXONOMY });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation failed", fieldErrors: error.flatten().fieldErrors });
+      }
+      console.error("Error saving education taxonomy:", error);
+      res.status(500).json({ message: "Failed to save education taxonomy", fieldErrors: {} });
+    }
+  });
+
+  // Replace a subject's topic tree
+  app.put("/api/admin/subjects/:id/topics", requireUser, requireAdmin, async (req, res) => {
+    try {
+      const { topics } = subjectTopicsSchema.parse(req.body);
+      if (!(await saveSubjectTopics(req.params.id, topics))) {
+        return res.status(404).json({ message: "Subject not found", fieldErrors: {} });
+      }
+
+      cachedSubjects = null;
+      console.log("[Cache] Subjects cache invalidated");
+
+      res.json({ id: req.params.id, topics });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation failed", fieldErrors: error.flatten().fieldErrors });
+      }
+      console.error("Error saving subject topics:", error);
+      res.status(500).json({ message: "Failed to save subject topics", fieldErrors: {} });
+    }
+  });
+
   // === TUTOR PROFILE (self) ===
   app.get("/api/tutors/profile", requireUser, async (req, res) => {
     try {
@@ -745,6 +2139,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const user = req.user!;
       const profileData = updateTutorProfileSchema.parse(req.body);
       const { subjects: subjectIds, ...tutorData } = profileData as any;
+      const badLevels = await invalidTeachingLevels(tutorData.teachingLevels);
+      if (badLevels) return res.status(400).json(badLevels);
 
       const profSnap = await fdb!.collection("tutor_profiles").where("userId", "==", user.id).limit(1).get();
 
@@ -784,22 +2180,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const tutorName = `${user.firstName || ""} ${user.lastName || ""}`.trim() || "Unknown";
-      await fdb!.collection("notifications").add({
-        type: "TUTOR_REGISTERED",
-        title: "New tutor registered",
-        body: `${tutorName} (${user.email})`,
-        data: { userId: user.id },
-        audience: "admin",
-        isRead: false,
-        createdAt: now(),
-      });
-
-      try {
-        const emailContent = createTutorRegistrationEmail(tutorName, user.email);
-        await sendToAdmins(emailContent.subject, emailContent.html, emailContent.text);
-      } catch (emailError) {
-        console.error("Failed to send admin notification email:", emailError);
-      }
+      await notifyAdmins(
+        "TUTOR_REGISTERED",
+        { title: "New tutor registered", body: `${tutorName} (${user.email})`, data: { userId: user.id } },
+        { email: createTutorRegistrationEmail(tutorName, user.email) }
+      );
 
       const finalProfile = await getDoc<any>("tutor_profiles", profileId);
       const joinedUser = await getDoc<any>("users", finalProfile!.userId);
@@ -833,6 +2218,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const user = req.user!;
       const updateData = updateTutorProfileSchema.parse(req.body);
       const { subjects: subjectIds, ...profileData } = updateData as any;
+      const badLevels = await invalidTeachingLevels(profileData.teachingLevels);
+      if (badLevels) return res.status(400).json(badLevels);
 
       const profSnap = await fdb!.collection("tutor_profiles").where("userId", "==", user.id).limit(1).get();
       if (profSnap.empty) return res.status(404).json({ message: "Tutor profile not found", fieldErrors: {} });
@@ -861,22 +2248,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       if (isFirstCompletion && (profileData.bio || profileData.phone || profileData.hourlyRate)) {
         const tutorName = `${user.firstName || ""} ${user.lastName || ""}`.trim() || "Unknown";
-        await fdb!.collection("notifications").add({
-          type: "TUTOR_REGISTERED",
-          title: "New tutor registered",
-          body: `${tutorName} (${user.email})`,
-          data: { userId: user.id },
-          audience: "admin",
-          isRead: false,
-          createdAt: now(),
-        });
-
-        try {
-          const emailContent = createTutorRegistrationEmail(tutorName, user.email);
-          await sendToAdmins(emailContent.subject, emailContent.html, emailContent.text);
-        } catch (emailError) {
-          console.error("Failed to send admin notification email:", emailError);
-        }
+        await notifyAdmins(
+          "TUTOR_REGISTERED",
+          { title: "New tutor registered", body: `${tutorName} (${user.email})`, data: { userId: user.id } },
+          { email: createTutorRegistrationEmail(tutorName, user.email) }
+        );
       }
 
       const updatedProfile = await ref.get();
@@ -893,6 +2269,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Invalidate tutors cache since profile was updated
       cachedTutors = null;
       console.log("[Cache] Tutors cache invalidated");
+      // Weekly availability feeds the ranking's slot density
+      if (profileData.availability) void refreshTutorStatsFor([ref.id]);
 
       res.json({ profile: { id: ref.id, ...updatedProfile.data() }, user: joinedUser, subjects });
     } catch (error) {
@@ -987,7 +2365,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
      ========================= */
 
   // GET /api/tutors/:id/availability?date=YYYY-MM-DD&step=60
-  // :id is tutor_profiles.id
+  // :id is tutor_profiles.id; date is a day in the tutor's time zone and each
+  // slot's `at`/`endAt` carry that zone's UTC offset
   app.get("/api/tutors/:id/availability", async (req, res) => {
     try {
       const tutorProfileId = req.params.id;
@@ -1006,71 +2385,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!profile) return res.status(404).json({ error: "Tutor not found" });
 
       // parse date & step
-      const dateStr = String(req.query.date ?? "");
-      const day = parseDateParam(dateStr); // local midnight
+      const timeZone = tutorTimeZone(profile);
+      const ymd = parseDateParam(String(req.query.date ?? ""), timeZone);
       const step = Math.max(15, Math.min(240, parseInt(String(req.query.step ?? "60"), 10) || 60));
 
-      const key = toDayKey(day);
-      const dayAvail = profile.availability?.[key];
-      if (!dayAvail || !dayAvail.isAvailable) return res.json({ slots: [] });
+      // Weekly pattern + date-specific exceptions
+      if (getDayWindows(profile, ymd).windows.length === 0) return res.json({ date: ymd, timeZone, slots: [] });
 
-      const { h: sh, m: sm } = parseHHMM(dayAvail.startTime, "09:00");
-      const { h: eh, m: em } = parseHHMM(dayAvail.endTime, "17:00");
-
-      // fetch booked sessions for that day
-      const sDay = startOfDay(day);
-      const eDay = endOfDay(day);
-
-      // Avoid composite-index requirement: query by scheduledAt range, then filter tutorId in memory
-      const bookedSnap = await fdb!
-        .collection("tutoring_sessions")
-        .where("scheduledAt", ">=", sDay)
-        .where("scheduledAt", "<=", eDay)
-        .get();
+      // fetch booked sessions that can reach into that day
+      const { start: sDay, end: eDay } = zonedDayBounds(ymd, timeZone);
+      const booked = (await loadBlockingSessions(sDay, eDay)).filter((s) => s.tutorId === profile.id);
+      const slots = buildDaySlots(profile, ymd, step, booked);
 
-      const booked = bookedSnap.docs
-        .map((d) => ({ id: d.id, ...(d.data() as any) }))
-        .filter((s) => s.tutorId === profile.id)
-        .filter((s) => {
-          const st = (s.status || "scheduled") as string;
-          // Only confirmed/active sessions block availability
-          return st === "scheduled" || st === "in_progress";
-        });
-
-      const slots: Array<{ start: string; end: string; available: boolean; at: string }> = [];
-      for (const s of generateSlots(
-        `${sh.toString().padStart(2, "0")}:${sm.toString().padStart(2, "0")}`,
-        `${eh.toString().padStart(2, "0")}:${em.toString().padStart(2, "0")}`,
-        step
-      )) {
-        const slotStart = new Date(day);
-        const [ssh, ssm] = s.start.split(":").map(Number);
-        slotStart.setHours(ssh, ssm, 0, 0);
-        const slotEnd = new Date(slotStart.getTime() + step * 60_000);
-
-        // past slots not available
-        let available = slotStart > new Date();
-
-        // conflict with existing sessions
-        for (const b of booked) {
-          const bStart = new Date(coerceMillis(b.scheduledAt));
-          const dur = Number(b.duration ?? step);
-          const bEnd = new Date(bStart.getTime() + dur * 60_000);
-          if (overlaps(slotStart, slotEnd, bStart, bEnd)) {
-            available = false;
-            break;
-          }
-        }
-
-        slots.push({
-          start: s.start,
-          end: s.end,
-          available,
-          at: slotStart.toISOString(),
-        });
-      }
-
-      res.json({ slots });
+      res.json({ date: ymd, timeZone, slots });
     } catch (e: any) {
       console.error("availability error:", e);
       res.status(500).json({ error: e?.message || "Availability error" });
@@ -1457,6 +2784,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         receiverId: m.receiverId,
         content: m.content,
         fileUrl: m.fileUrl || null,
+        attachment: m.attachment || null,
         read: !!m.read,
         createdAt: new Date(coerceMillis(m.createdAt)).toISOString(),
         sender: usersMap.get(m.senderId) || null,
@@ -1516,6 +2844,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         receiverId: m.receiverId,
         content: m.content,
         fileUrl: m.fileUrl || null,
+        attachment: m.attachment || null,
         read: !!m.read,
         createdAt: new Date(coerceMillis(m.createdAt)).toISOString(),
         sender: usersMap.get(m.senderId) || null,
@@ -1543,7 +2872,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Fetch all reviews
       const allReviewsSnap = await fdb!.collection("reviews").get();
-      const allReviews = allReviewsSnap.docs.map(d => ({ id: d.id, ...d.data() }));
+      const allReviews = allReviewsSnap.docs.map(d => ({ id: d.id, ...d.data() })).filter(isPublishedReview);
 
       // Calculate statistics for each tutor
       const results = profs.map((p) => {
@@ -1699,6 +3028,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       cachedStats = null;
       console.log("[Cache] Tutors and Stats cache invalidated");
 
+      const tutorUserId = snap.get("userId");
+      if (tutorUserId && !snap.get("isVerified")) {
+        await notifyUser(tutorUserId, "TUTOR_VERIFIED", {
+          title: "Your profile is verified",
+          body: "Your tutor profile was approved and is now visible to students.",
+          data: { tutorId },
+        });
+      }
+
       res.json({ message: "Tutor verified successfully" });
     } catch (error) {
       console.error("Error verifying tutor:", error);
@@ -1825,134 +3163,108 @@ export async function registerRoutes(app: Express): Promise<Server> {
 // === TUTORS LISTING (with subjects + reviews) ===
 app.get("/api/tutors", async (_req, res) => {
   try {
-    // Check cache first
-    const now = Date.now();
-    if (cachedTutors && (now - cachedTutorsFetchedAt) < TUTORS_TTL_MS) {
-      console.log("[/api/tutors] Serving from cache");
-      return res.json(cachedTutors);
-    }
-
-    // Cache miss - fetch from Firestore
-    console.log("[/api/tutors] Fetching from Firestore");
-    const profs = await listCollection<any>("tutor_profiles", [
-      ["isActive", "==", true],
-      ["isVerified", "==", true],
-    ]);
-
-    if (profs.length === 0) {
-      cachedTutors = [];
-      cachedTutorsFetchedAt = now;
-      return res.json([]);
-    }
-
-    const userIds = profs.map((p) => p.userId).filter(Boolean);
-    const tutorIds = profs.map((p) => p.id);
-
-    // Load users and tutor_subjects
-    const [mapUsers, tsDocs] = await Promise.all([
-      batchLoadMap<any>("users", userIds),
-      (async () => {
-        // fetch tutor_subjects in chunks of 10 for 'in' constraint
-        const chunks: string[][] = [];
-        for (let i = 0; i < tutorIds.length; i += 10) {
-          chunks.push(tutorIds.slice(i, i + 10));
-        }
-        const acc: FirebaseFirestore.QueryDocumentSnapshot[] = [];
-        for (const chunk of chunks) {
-          const snap = await fdb!
-            .collection("tutor_subjects")
-            .where("tutorId", "in", chunk)
-            .get();
-          acc.push(...snap.docs);
-        }
-        return acc;
-      })(),
-    ]);
+    res.json(await loadTutorListing());
+  } catch (error) {
+    console.error("Error fetching tutors:", error);
+    res
+      .status(500)
+      .json({ message: "Failed to fetch tutors", fieldErrors: {} });
+  }
+});
 
-    // Map tutor -> subject ids
-    const byTutor = new Map<string, string[]>();
-    for (const d of tsDocs) {
-      const tId = d.get("tutorId") as string;
-      const sId = d.get("subjectId") as string;
-      if (!byTutor.has(tId)) byTutor.set(tId, []);
-      byTutor.get(tId)!.push(sId);
+// === TUTOR SEARCH ===
+// GET /api/tutors/search?q=&subjectId=&minPrice=&maxPrice=&minRating=&date=YYYY-MM-DD&sort=&limit=&cursor=
+// Text query over name/bio/subjects, filters, subject facet counts and cursor pagination
+app.get("/api/tutors/search", async (req, res) => {
+  try {
+    const params = tutorSearchQuerySchema.parse(req.query);
+    const listing = await loadTutorListing();
+    const result = searchTutors(listing, params, (tutor, ymd) => getDayWindows(tutor, ymd).windows.length > 0);
+    res.json(result);
+  } catch (error) {
+    if (error instanceof TutorSearchError) {
+      return res.status(error.status).json({ message: error.message, fieldErrors: {} });
     }
-
-    const subjectIds = Array.from(
-      new Set(tsDocs.map((d) => d.get("subjectId") as string).filter(Boolean))
-    );
-    const mapSubjects = await batchLoadMap<any>("subjects", subjectIds);
-
-    // ---- NEW: load reviews and compute average + count per tutor ----
-    const ratingStats = new Map<string, { sum: number; count: number }>();
-
-    if (tutorIds.length > 0) {
-      const reviewChunks: string[][] = [];
-      for (let i = 0; i < tutorIds.length; i += 10) {
-        reviewChunks.push(tutorIds.slice(i, i + 10));
-      }
-
-      for (const chunk of reviewChunks) {
-        const reviewSnap = await fdb!
-          .collection("reviews")
-          .where("tutorId", "in", chunk)
-          .get();
-
-        for (const rDoc of reviewSnap.docs) {
-          const r = rDoc.data() as any;
-          const tid = String(r.tutorId || "");
-          const rating = Number(r.rating ?? 0);
-          if (!tid || !rating) continue;
-
-          const prev = ratingStats.get(tid) || { sum: 0, count: 0 };
-          prev.sum += rating;
-          prev.count += 1;
-          ratingStats.set(tid, prev);
-        }
-      }
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid search", fieldErrors: error.flatten().fieldErrors });
     }
+    console.error("Error searching tutors:", error);
+    res.status(500).json({ message: "Failed to search tutors", fieldErrors: {} });
+  }
+});
 
-    const tutorsWithSubjects = profs.map((p) => {
-      const sids = byTutor.get(p.id) || [];
-      const subjects = sids
-        .map((sid) =>
-          mapSubjects.get(sid) ? { id: sid, ...mapSubjects.get(sid)! } : null
-        )
-        .filter(Boolean);
-
-      const stats = ratingStats.get(p.id);
-      const reviewCount = stats?.count ?? 0;
-      const averageRating =
-        stats && stats.count > 0 ? stats.sum / stats.count : 0;
-
-      return {
-        ...p,
-        user: mapUsers.get(p.userId) || null,
-        subjects,
-        // fields the TutorCard tries to read
-        averageRating,
-        reviewCount,
-        totalRating: averageRating,
-        totalReviews: reviewCount,
-      };
-    });
+// === AVAILABILITY SEARCH ===
+// GET /api/tutors/available?subjectId=&date=YYYY-MM-DD&from=HH:MM&to=HH:MM&timeZone=&duration=60&limit=10
+// Tutors of the subject with a genuinely free slot in the window (date/from/to in
+// `timeZone`, the student's), ranked, each with the slots that fit
+app.get("/api/tutors/available", optionalUser, async (req, res) => {
+  try {
+    const params = availableTutorsQuerySchema.parse(req.query);
+    const timeZone = resolveTimeZone(params.timeZone);
+    const windowStart = zonedTimeToUtc(params.date, params.from, timeZone);
+    const windowEnd = zonedTimeToUtc(params.date, params.to, timeZone);
+    if (windowEnd <= windowStart) {
+      return res.status(400).json({ message: "The time window must end after it starts", fieldErrors: {} });
+    }
+    if (windowEnd <= new Date()) {
+      return res.json([]);
+    }
 
-    // Update cache
-    cachedTutors = tutorsWithSubjects;
-    cachedTutorsFetchedAt = now;
+    const listing = (await loadTutorListing()).filter(
+      (t) =>
+        (t.subjects ?? []).some((s: any) => s?.id === params.subjectId) &&
+        (!params.level || teachesLevel(t.teachingLevels, params.level))
+    );
+    const booked = await loadBlockingSessions(windowStart, windowEnd);
+
+    const openSlots = new Map<string, OpenSlot[]>();
+    for (const tutor of listing) {
+      const slots = findOpenSlots(
+        tutor,
+        windowStart,
+        windowEnd,
+        params.duration,
+        booked.filter((b) => b.tutorId === tutor.id)
+      );
+      if (slots.length > 0) openSlots.set(tutor.id, slots);
+    }
+    if (openSlots.size === 0) {
+      return res.json([]);
+    }
+
+    const rankings = await rankTutorsForStudent(
+      Array.from(openSlots.keys()),
+      {
+        subjectId: params.subjectId,
+        gradeLevel: params.level,
+        studentId: req.user?.role === "student" ? req.user.id : undefined,
+        openSlots: Object.fromEntries(Array.from(openSlots, ([id, slots]) => [id, slots.length])),
+      },
+      params.limit
+    );
 
-    res.json(tutorsWithSubjects);
+    const byId = new Map(listing.map((t) => [t.id, t]));
+    res.json(
+      rankings.map((r) => ({
+        ...byId.get(r.tutorId),
+        aiScore: r.score,
+        aiBreakdown: r.breakdown,
+        aiReasoning: r.reasoning,
+        matchingSlots: openSlots.get(r.tutorId)!,
+      }))
+    );
   } catch (error) {
-    console.error("Error fetching tutors:", error);
-    res
-      .status(500)
-      .json({ message: "Failed to fetch tutors", fieldErrors: {} });
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid availability search", fieldErrors: error.flatten().fieldErrors });
+    }
+    console.error("Error searching available tutors:", error);
+    res.status(500).json({ message: "Failed to find available tutors", fieldErrors: {} });
   }
 });
 
 // === AI-POWERED TUTOR RECOMMENDATIONS ===
 // GET /api/tutors/recommended
-app.get("/api/tutors/recommended", async (req, res) => {
+app.get("/api/tutors/recommended", optionalUser, async (req, res) => {
   try {
     // Extract query parameters
     const subjectId = req.query.subjectId as string | undefined;
@@ -1961,6 +3273,15 @@ app.get("/api/tutors/recommended", async (req, res) => {
     const preferredDays = req.query.preferredDays
       ? (req.query.preferredDays as string).split(",")
       : undefined;
+    const preferredTimeSlots = req.query.preferredTimeSlots
+      ? (req.query.preferredTimeSlots as string).split(",").filter((t) => /^\d{2}:\d{2}$/.test(t))
+      : undefined;
+    // Review dimensions the student cares most about (TutorMatchWizard)
+    const priorities = req.query.priorities
+      ? ((req.query.priorities as string)
+          .split(",")
+          .filter((p) => RATING_DIMENSION_IDS.includes(p as RatingDimension)) as RatingDimension[])
+      : undefined;
     const limit = req.query.limit ? parseInt(req.query.limit as string) : 10;
 
     // Get all active and verified tutors
@@ -1989,21 +3310,30 @@ app.get("/api/tutors/recommended", async (req, res) => {
       tutorIds = tutorIds.filter((id) => tutorsForSubject.has(id));
     }
 
+    // Only tutors who declared the requested curriculum / grade band
+    if (gradeLevel) {
+      const levelOf = new Map(profs.map((p) => [p.id, p.teachingLevels as string[] | undefined]));
+      tutorIds = tutorIds.filter((id) => teachesLevel(levelOf.get(id), gradeLevel));
+    }
+
     if (tutorIds.length === 0) {
       return res.json([]);
     }
 
-    // Initialize ranking service and rank tutors
-    const rankingService = new TutorRankingService(fdb!);
-    const rankings = await rankingService.rankTutors(tutorIds, {
-      subjectId,
-      gradeLevel,
-      maxBudget,
-      preferredDays,
-    });
-
-    // Take top N tutors
-    const topRankings = rankings.slice(0, limit);
+    // Rank with the student's weighting profile and take the top N
+    const topRankings = await rankTutorsForStudent(
+      tutorIds,
+      {
+        subjectId,
+        gradeLevel,
+        studentId: req.user?.role === "student" ? req.user.id : undefined,
+        maxBudget,
+        preferredDays,
+        preferredTimeSlots,
+        priorities,
+      },
+      limit
+    );
 
     // Fetch full tutor data for top ranked tutors
     const topTutorIds = topRankings.map((r) => r.tutorId);
@@ -2061,7 +3391,7 @@ app.get("/api/tutors/recommended", async (req, res) => {
           const r = rDoc.data() as any;
           const tid = String(r.tutorId || "");
           const rating = Number(r.rating ?? 0);
-          if (!tid || !rating) continue;
+          if (!tid || !rating || !isPublishedReview(r)) continue;
 
           const prev = ratingStats.get(tid) || { sum: 0, count: 0 };
           prev.sum += rating;
@@ -2088,7 +3418,7 @@ app.get("/api/tutors/recommended", async (req, res) => {
 
       return {
         ...p,
-        user: mapUsers.get(p.userId) || null,
+        user: toPublicUser(mapUsers.get(p.userId)),
         subjects,
         averageRating,
         reviewCount,
@@ -2180,7 +3510,7 @@ app.get("/api/tutors/:id", async (req, res) => {
     for (const d of reviewsSnap.docs) {
       const data = d.data() as any;
       const rating = Number(data.rating ?? 0);
-      if (!rating) continue;
+      if (!rating || !isPublishedReview(data)) continue;
       sum += rating;
       count += 1;
     }
@@ -2189,7 +3519,7 @@ app.get("/api/tutors/:id", async (req, res) => {
 
     res.json({
       ...profile,
-      user: joinedUser,
+      user: toPublicUser(joinedUser),
       subjects,
       averageRating,
       reviewCount,
@@ -2281,215 +3611,921 @@ app.get("/api/tutors/:id", async (req, res) => {
         return res.status(400).json({ message: "Invalid scheduledAt", fieldErrors: {} });
       }
 
-      // duration -> minutes
-      const duration = Number(
-        body.duration ?? (req.body?.durationMinutes ?? body.durationMinutes) ?? 60
-      );
-      const sesEnd = new Date(sesStart.getTime() + duration * 60_000);
+      // duration -> minutes
+      const duration = Number(
+        body.duration ?? (req.body?.durationMinutes ?? body.durationMinutes) ?? 60
+      );
+      const sesEnd = new Date(sesStart.getTime() + duration * 60_000);
+
+      // Resolve tutor profile
+      const tutorProfile = await resolveTutorProfile(body.tutorId);
+      if (!tutorProfile) {
+        return res.status(404).json({ message: "Tutor profile not found", fieldErrors: {} });
+      }
+      const resolvedTutorId = tutorProfile.id as string;
+
+      console.log("✅ Tutor profile resolved:", {
+        tutorProfileId: resolvedTutorId,
+        tutorUserId: tutorProfile.userId,
+      });
+
+      // 1) Day availability window
+      const unavailable = checkAvailabilityWindow(tutorProfile, sesStart, sesEnd);
+      if (unavailable) {
+        return res.status(409).json({ message: unavailable, fieldErrors: {} });
+      }
+
+      // 2) Conflict check - Check only confirmed sessions (scheduled)
+      if (await hasBookingConflict(tutorProfile, sesStart, sesEnd)) {
+        return res.status(409).json({ message: "Time slot already booked", fieldErrors: {} });
+      }
+
+      // 3) Create session with PENDING status, claiming the authorized payment atomically
+      //    (price comes from the payment ledger, not the request body)
+      const docRef = fdb!.collection("tutoring_sessions").doc();
+      await fdb!.runTransaction(async (tx) => {
+        const payment = await claimAuthorizedPayment(tx, body.paymentId, {
+          studentId: user.id,
+          tutorId: resolvedTutorId,
+          subjectId: body.subjectId,
+          durationMinutes: duration,
+          sessionId: docRef.id,
+        });
+
+        tx.set(docRef, {
+          tutorId: resolvedTutorId,
+          studentId: user.id,
+          subjectId: body.subjectId,
+          scheduledAt: sesStart,
+          duration,
+          timeSlots: req.body.timeSlots || [], // Store individual time slots
+          status: "pending", // Start as pending
+          notes: req.body.notes || "",
+          meetingLink: req.body.meetingLink || null,
+          priceCents: payment.sessionPriceCents,
+          paymentId: payment.id,
+          createdAt: now(),
+          updatedAt: now(),
+        });
+      });
+
+      console.log("✅ Session created:", docRef.id);
+
+      // Booking conversion for the ranking A/B experiment
+      await recordRankingConversion(user.id, resolvedTutorId);
+      void refreshTutorStatsFor([resolvedTutorId]);
+
+      // 4) Notify tutor
+      const tutorUserId = tutorProfile.userId;
+      const studentName = `${user.firstName || ""} ${user.lastName || ""}`.trim() || "A student";
+
+      if (tutorUserId) {
+        const delivered = await notifyUser(tutorUserId, "SESSION_REQUESTED", {
+          title: "New session request",
+          body: `${studentName} requested a session on ${formatSessionTime(
+            sesStart,
+            await userTimeZone(tutorUserId, tutorProfile.timezone)
+          )}`,
+          data: {
+            sessionId: docRef.id,
+            tutorId: resolvedTutorId,
+            studentId: user.id,
+            subjectId: body.subjectId,
+          },
+        });
+
+        console.log("✅ Notification routed for tutor user:", tutorUserId, delivered);
+      } else {
+        console.warn("⚠️ No tutorUserId found, notification not created");
+      }
+
+      const snap = await docRef.get();
+      const sessionData = { id: snap.id, ...snap.data() };
+
+      console.log("✅ Session booking complete:", sessionData);
+
+      res.json(sessionData);
+    } catch (error) {
+      console.error("❌ Error creating session:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation failed", fieldErrors: error.flatten().fieldErrors });
+      }
+      if (error instanceof PaymentError) {
+        return res.status(error.status).json({ message: error.message, fieldErrors: {} });
+      }
+      res.status(500).json({ message: "Failed to create session", fieldErrors: {} });
+    }
+  });
+
+  app.put("/api/sessions/:id", requireUser, async (req, res) => {
+    try {
+      const user = req.user!;
+      const sessionId = req.params.id;
+      const { status } = req.body as { status: string };
+
+      const validStatuses = ["pending", "scheduled", "in_progress", "completed", "cancelled"];
+      if (!validStatuses.includes(status)) {
+        return res.status(400).json({ message: "Invalid session status", fieldErrors: {} });
+      }
+
+      const ref = fdb!.collection("tutoring_sessions").doc(sessionId);
+      const snap = await ref.get();
+      if (!snap.exists) {
+        return res.status(404).json({ message: "Session not found", fieldErrors: {} });
+      }
+      const session = { id: snap.id, ...(snap.data() as any) } as any;
+
+      if (session.status === "expired") {
+        return res.status(409).json({ message: "This session request has expired", fieldErrors: {} });
+      }
+
+      // Auth: only student, owning tutor, or admin can update
+      const role = await getSessionRole(session, user);
+      if (!role) {
+        return res.status(403).json({ message: "Not authorized to update this session", fieldErrors: {} });
+      }
+
+      if (session.status === status) {
+        return res.json(session);
+      }
+      const allowedFrom = SESSION_STATUS_TRANSITIONS[role][status];
+      if (!allowedFrom) {
+        return res.status(403).json({ message: `Not authorized to set a session to ${status}`, fieldErrors: {} });
+      }
+      if (!allowedFrom.includes(session.status)) {
+        return res.status(409).json({ message: `A ${session.status} session cannot be set to ${status}`, fieldErrors: {} });
+      }
+
+      // If we are confirming the session, enforce conflict check
+      if (status === "scheduled") {
+        const sesStart = new Date(coerceMillis(session.scheduledAt));
+        if (isNaN(sesStart.getTime())) {
+          return res.status(400).json({ message: "Invalid session date", fieldErrors: {} });
+        }
+        const sesEnd = new Date(sesStart.getTime() + Number(session.duration ?? 60) * 60_000);
+
+        const tutorProfile = (await getDoc<any>("tutor_profiles", session.tutorId)) ?? { id: session.tutorId };
+        if (await hasBookingConflict(tutorProfile, sesStart, sesEnd, [sessionId])) {
+          return res.status(409).json({ message: "Time slot already booked", fieldErrors: {} });
+        }
+      }
+
+      if (status === "scheduled") {
+        // Acceptance: captures the booking's payment
+        let accepted: boolean;
+        try {
+          accepted = await acceptPendingSession(sessionId, session.paymentId);
+        } catch (paymentError) {
+          if (paymentError instanceof PaymentError) {
+            console.error(`Payment ${session.paymentId} not captured for session ${sessionId}:`, paymentError.message);
+            return res.status(paymentError.status).json({ message: paymentError.message, fieldErrors: {} });
+          }
+          throw paymentError;
+        }
+        if (!accepted) {
+          return res.status(409).json({ message: "Only pending session requests can be accepted", fieldErrors: {} });
+        }
+      } else if (status === "cancelled") {
+        // Cancellation: apply the refund policy and record the outcome on the session
+        const cancellation = await cancelSessionWithPolicy(
+          session,
+          user,
+          typeof req.body?.reason === "string" ? req.body.reason.slice(0, 500) : null
+        );
+        if (!cancellation) {
+          return res.status(409).json({ message: "Session was already cancelled or completed", fieldErrors: {} });
+        }
+      } else {
+        // Re-checked in a transaction so the change cannot land on a session
+        // that was cancelled or completed since it was read
+        const changed = await fdb!.runTransaction(async (tx) => {
+          const current = await tx.get(ref);
+          if (!allowedFrom.includes(current.data()?.status)) return false;
+          tx.update(ref, { status, updatedAt: now() });
+          return true;
+        });
+        if (!changed) {
+          return res.status(409).json({ message: "Session status changed, reload and try again", fieldErrors: {} });
+        }
+      }
+      void refreshTutorStatsFor([session.tutorId]);
+
+      if (status === "scheduled") {
+        await sendSessionInvite(sessionId, "confirmed");
+      }
+
+      if (status === "completed") {
+        await accrueSessionEarnings(session);
+      }
+
+      // Invalidate stats cache if session was completed
+      if (status === "completed") {
+        cachedStats = null;
+        console.log("[Cache] Stats cache invalidated");
+      }
+
+      const updated = await ref.get();
+      res.json({ id: updated.id, ...updated.data() });
+    } catch (error) {
+      console.error("Error updating session:", error);
+      res.status(500).json({ message: "Failed to update session", fieldErrors: {} });
+    }
+  });
+
+  // Preview the refund a cancellation would produce right now
+  app.get("/api/sessions/:id/cancellation-quote", requireUser, async (req, res) => {
+    try {
+      const user = req.user!;
+      const session = await getDoc<any>("tutoring_sessions", req.params.id);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found", fieldErrors: {} });
+      }
+
+      if (user.role === "student" && session.studentId !== user.id) {
+        return res.status(403).json({ message: "Not authorized to view this session", fieldErrors: {} });
+      }
+      if (user.role === "tutor") {
+        const profSnap = await fdb!.collection("tutor_profiles").where("userId", "==", user.id).limit(1).get();
+        if (profSnap.empty || profSnap.docs[0].id !== session.tutorId) {
+          return res.status(403).json({ message: "Not authorized to view this session", fieldErrors: {} });
+        }
+      }
+
+      const quote = await quoteCancellation(
+        { ...session, scheduledAt: new Date(coerceMillis(session.scheduledAt)) },
+        user.role as CancelledBy
+      );
+      res.json(quote);
+    } catch (error) {
+      console.error("Error quoting cancellation:", error);
+      res.status(500).json({ message: "Failed to quote cancellation", fieldErrors: {} });
+    }
+  });
+
+  // === RESCHEDULING (proposal / accept handshake) ===
+
+  // Load a session with the caller's side of it and its pending proposal
+  async function loadSessionForReschedule(sessionId: string, user: AuthUser) {
+    const session = await getDoc<any>("tutoring_sessions", sessionId);
+    if (!session) return { ok: false, status: 404, message: "Session not found" } as const;
+
+    const role = await getSessionRole(session, user);
+    if (!role) return { ok: false, status: 403, message: "Not authorized to reschedule this session" } as const;
+
+    const reschedules: RescheduleProposal[] = Array.isArray(session.reschedules) ? session.reschedules : [];
+    return { ok: true, session, role, reschedules } as const;
+  }
+
+  /**
+   * POST /api/sessions/:id/reschedule
+   * Propose a new time. Validated like a booking; the other party is notified.
+   */
+  app.post("/api/sessions/:id/reschedule", requireUser, async (req, res) => {
+    try {
+      const user = req.user!;
+      const body = rescheduleProposalSchema.parse(req.body);
+
+      const loaded = await loadSessionForReschedule(req.params.id, user);
+      if (!loaded.ok) {
+        return res.status(loaded.status).json({ message: loaded.message, fieldErrors: {} });
+      }
+      const { session, role, reschedules } = loaded;
+
+      if (reschedules.some((r) => r.status === "pending")) {
+        return res.status(409).json({ message: "A reschedule proposal is already awaiting a response", fieldErrors: {} });
+      }
+
+      const start = new Date(body.scheduledAt);
+      if (isNaN(start.getTime())) {
+        return res.status(400).json({ message: "Invalid scheduledAt", fieldErrors: {} });
+      }
+      const duration = Number(session.duration ?? 60);
+      // Moving keeps the paid duration; slots are derived when not given
+      if (body.timeSlots?.length && body.timeSlots.length * 60 !== duration) {
+        return res.status(400).json({ message: "Proposed slots must match the session duration", fieldErrors: {} });
+      }
+      const timeSlots = body.timeSlots?.length
+        ? [...body.timeSlots].sort()
+        : slotLabelsFor(start, duration, tutorTimeZone(await getDoc<any>("tutor_profiles", session.tutorId)));
+
+      const blocked = await checkSessionMove(session, start);
+      if (blocked) {
+        return res.status(409).json({ message: blocked, fieldErrors: {} });
+      }
+
+      const proposal: RescheduleProposal = {
+        id: fdb!.collection("tutoring_sessions").doc().id,
+        proposedBy: role,
+        proposedByUserId: user.id,
+        fromScheduledAt: new Date(coerceMillis(session.scheduledAt)),
+        fromTimeSlots: session.timeSlots ?? [],
+        scheduledAt: start,
+        timeSlots,
+        reason: body.reason ?? null,
+        status: "pending",
+        createdAt: now(),
+        respondedAt: null,
+        respondedByUserId: null,
+        responseNote: null,
+      };
+
+      // Added in a transaction so two concurrent proposals cannot both pass the
+      // one-pending-proposal check, and none lands on a session cancelled meanwhile
+      const ref = fdb!.collection("tutoring_sessions").doc(session.id);
+      const conflict = await fdb!.runTransaction(async (tx) => {
+        const snap = await tx.get(ref);
+        const current: RescheduleProposal[] = snap.data()?.reschedules ?? [];
+        if (snap.data()?.status !== session.status) return "Session status changed, reload and try again";
+        if (current.some((r) => r.status === "pending")) return "A reschedule proposal is already awaiting a response";
+        tx.update(ref, { reschedules: [...current, proposal], updatedAt: now() });
+        return null;
+      });
+      if (conflict) {
+        return res.status(409).json({ message: conflict, fieldErrors: {} });
+      }
+
+      const from = proposal.fromScheduledAt;
+      await notifySessionCounterparty(session, role, {
+        type: "SESSION_RESCHEDULE_REQUESTED",
+        title: "Reschedule requested",
+        body: (tz) =>
+          `A move of the session on ${formatSessionTime(from, tz)} to ${formatSessionTime(start, tz)} was proposed.`,
+        data: { proposalId: proposal.id },
+      });
+
+      res.status(201).json(proposal);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation failed", fieldErrors: error.flatten().fieldErrors });
+      }
+      console.error("Error proposing reschedule:", error);
+      res.status(500).json({ message: "Failed to propose reschedule", fieldErrors: {} });
+    }
+  });
+
+  /**
+   * POST /api/sessions/:id/reschedule/:proposalId/:decision  (decision = accept | decline)
+   * The other party answers a pending proposal. Accepting re-validates the
+   * new time and moves the session.
+   */
+  app.post("/api/sessions/:id/reschedule/:proposalId/:decision", requireUser, async (req, res) => {
+    try {
+      const user = req.user!;
+      const { proposalId, decision } = req.params;
+      if (decision !== "accept" && decision !== "decline") {
+        return res.status(404).json({ message: "Unknown reschedule action", fieldErrors: {} });
+      }
+      const body = rescheduleResponseSchema.parse(req.body ?? {});
+
+      const loaded = await loadSessionForReschedule(req.params.id, user);
+      if (!loaded.ok) {
+        return res.status(loaded.status).json({ message: loaded.message, fieldErrors: {} });
+      }
+      const { session, role } = loaded;
+
+      const proposal = loaded.reschedules.find((r) => r.id === proposalId);
+      if (!proposal) {
+        return res.status(404).json({ message: "Reschedule proposal not found", fieldErrors: {} });
+      }
+      if (proposal.status !== "pending") {
+        return res.status(409).json({ message: `Proposal was already ${proposal.status}`, fieldErrors: {} });
+      }
+      if (proposal.proposedByUserId === user.id || (role !== "admin" && proposal.proposedBy === role)) {
+        return res.status(403).json({ message: "The other party must respond to this proposal", fieldErrors: {} });
+      }
+
+      const newStart = new Date(coerceMillis(proposal.scheduledAt));
+      if (decision === "accept") {
+        // Availability may have changed since the proposal was made
+        const blocked = await checkSessionMove(session, newStart);
+        if (blocked) {
+          return res.status(409).json({ message: blocked, fieldErrors: {} });
+        }
+      }
+
+      const ref = fdb!.collection("tutoring_sessions").doc(session.id);
+      const answered = await fdb!.runTransaction(async (tx) => {
+        const snap = await tx.get(ref);
+        const current: RescheduleProposal[] = snap.data()?.reschedules ?? [];
+        const idx = current.findIndex((r) => r.id === proposalId);
+        if (idx < 0 || current[idx].status !== "pending") return null;
+        // The move was validated for the session's status when it was read; a
+        // session cancelled or completed since then is not moved
+        if (decision === "accept" && snap.data()?.status !== session.status) return null;
+
+        const updated: RescheduleProposal = {
+          ...current[idx],
+          status: decision === "accept" ? "accepted" : "declined",
+          respondedAt: now(),
+          respondedByUserId: user.id,
+          responseNote: body.note ?? null,
+        };
+        const reschedules = current.map((r, i) => (i === idx ? updated : r));
+
+        tx.update(
+          ref,
+          decision === "accept"
+            ? {
+                reschedules,
+                scheduledAt: newStart,
+                timeSlots: updated.timeSlots ?? [],
+                icalSequence: Number(snap.data()?.icalSequence ?? 0) + 1,
+                updatedAt: now(),
+              }
+            : { reschedules, updatedAt: now() }
+        );
+        return updated;
+      });
+
+      if (!answered) {
+        return res.status(409).json({ message: "Proposal was already answered or the session changed", fieldErrors: {} });
+      }
+
+      await notifySessionCounterparty(session, role, {
+        type: decision === "accept" ? "SESSION_RESCHEDULED" : "SESSION_RESCHEDULE_DECLINED",
+        title: decision === "accept" ? "Session rescheduled" : "Reschedule declined",
+        body: (tz) =>
+          decision === "accept"
+            ? `Your session now starts ${formatSessionTime(newStart, tz)}.`
+            : `The proposed move to ${formatSessionTime(newStart, tz)} was declined.`,
+        data: { proposalId },
+      });
+
+      if (decision === "accept" && session.status === "scheduled") {
+        await sendSessionInvite(session.id, "rescheduled");
+      }
+
+      const updated = await ref.get();
+      res.json({ id: updated.id, ...updated.data() });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation failed", fieldErrors: error.flatten().fieldErrors });
+      }
+      console.error("Error answering reschedule proposal:", error);
+      res.status(500).json({ message: "Failed to answer reschedule proposal", fieldErrors: {} });
+    }
+  });
+
+  // === SESSION SERIES (recurring weekly / bi-weekly bookings) ===
+
+  // Resolve the tutor and check every occurrence of a requested series
+  async function planSeries(body: z.infer<typeof sessionSeriesBaseSchema>) {
+    const start = new Date(body.scheduledAt);
+    if (isNaN(start.getTime())) return { ok: false, status: 400, message: "Invalid scheduledAt" } as const;
+
+    const tutorProfile = await resolveTutorProfile(body.tutorId);
+    if (!tutorProfile) return { ok: false, status: 404, message: "Tutor profile not found" } as const;
+
+    const timeZone = tutorTimeZone(tutorProfile);
+    const until = body.until ? zonedDayBounds(parseDateParam(body.until, timeZone), timeZone).end : undefined;
+    const dates = buildSeriesOccurrences(
+      start,
+      body.frequency,
+      { occurrences: body.occurrences, until },
+      timeZone
+    );
+    if (dates.length < 2) {
+      return { ok: false, status: 400, message: "A series needs at least two occurrences" } as const;
+    }
+
+    const checks = await checkSeriesOccurrences(tutorProfile, dates, body.duration);
+    return { ok: true, tutorProfile, dates, checks, until: until ?? null } as const;
+  }
+
+  // Load a series and check the user is its student, its tutor or an admin
+  async function loadSeriesForUser(seriesId: string, user: AuthUser) {
+    const series = await getDoc<SessionSeries & { id: string }>("session_series", seriesId);
+    if (!series) return { ok: false, status: 404, message: "Series not found" } as const;
+
+    let tutorProfile: any = null;
+    if (user.role === "tutor") {
+      const profSnap = await fdb!.collection("tutor_profiles").where("userId", "==", user.id).limit(1).get();
+      tutorProfile = profSnap.empty ? null : { id: profSnap.docs[0].id, ...profSnap.docs[0].data() };
+    }
+
+    const allowed =
+      user.role === "admin" ||
+      (user.role === "student" && series.studentId === user.id) ||
+      (user.role === "tutor" && tutorProfile?.id === series.tutorId);
+    if (!allowed) return { ok: false, status: 403, message: "Not authorized to access this series" } as const;
+
+    const sessionMap = await batchLoadMap<any>("tutoring_sessions", series.sessionIds);
+    const sessions = series.sessionIds
+      .map((id) => sessionMap.get(id))
+      .filter(Boolean)
+      .map((s: any) => ({ ...s, scheduledAt: new Date(coerceMillis(s.scheduledAt)) }));
 
-      // Resolve tutor profile
-      let tutorProfile = await getDoc<any>("tutor_profiles", body.tutorId);
-      if (!tutorProfile) {
-        const byUser = await fdb!
-          .collection("tutor_profiles")
-          .where("userId", "==", body.tutorId)
-          .limit(1)
-          .get();
-        if (!byUser.empty) {
-          tutorProfile = { id: byUser.docs[0].id, ...byUser.docs[0].data() } as any;
-        }
-      }
-      if (!tutorProfile) {
-        return res.status(404).json({ message: "Tutor profile not found", fieldErrors: {} });
+    return { ok: true, series, sessions, tutorProfile } as const;
+  }
+
+  /**
+   * POST /api/session-series/preview
+   * Occurrence dates of a requested series and whether each one can be booked
+   */
+  app.post("/api/session-series/preview", requireUser, async (req, res) => {
+    try {
+      if (req.user!.role !== "student") {
+        return res.status(403).json({ message: "Only students can book sessions", fieldErrors: {} });
       }
-      const resolvedTutorId = tutorProfile.id as string;
 
-      console.log("✅ Tutor profile resolved:", {
-        tutorProfileId: resolvedTutorId,
-        tutorUserId: tutorProfile.userId,
-      });
+      const body = previewSessionSeriesSchema.parse(req.body);
+      const plan = await planSeries(body);
+      if (!plan.ok) {
+        return res.status(plan.status).json({ message: plan.message, fieldErrors: {} });
+      }
 
-      // 1) Day availability window
-      const key = toDayKey(sesStart);
-      const dayAvail = tutorProfile.availability?.[key];
-      if (!dayAvail || !dayAvail.isAvailable) {
-        return res.status(409).json({ message: "Tutor not available this day", fieldErrors: {} });
+      res.json({ tutorId: plan.tutorProfile.id, occurrences: plan.checks });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation failed", fieldErrors: error.flatten().fieldErrors });
       }
-      const { h: sh, m: sm } = parseHHMM(dayAvail.startTime, "09:00");
-      const { h: eh, m: em } = parseHHMM(dayAvail.endTime, "17:00");
+      console.error("Error previewing session series:", error);
+      res.status(500).json({ message: "Failed to preview series", fieldErrors: {} });
+    }
+  });
 
-      const dayStart = new Date(sesStart);
-      dayStart.setHours(sh, sm, 0, 0);
-      const dayEnd = new Date(sesStart);
-      dayEnd.setHours(eh, em, 0, 0);
+  /**
+   * POST /api/session-series
+   * Book every occurrence of a series as pending sessions, all or nothing.
+   * Each occurrence needs its own authorized payment (paymentIds, in order).
+   */
+  app.post("/api/session-series", requireUser, async (req, res) => {
+    try {
+      const user = req.user!;
+      if (user.role !== "student") {
+        return res.status(403).json({ message: "Only students can book sessions", fieldErrors: {} });
+      }
 
-      if (!(sesStart >= dayStart && sesEnd <= dayEnd)) {
-        return res.status(409).json({ message: "Outside tutor availability window", fieldErrors: {} });
+      const body = createSessionSeriesSchema.parse(req.body);
+      const plan = await planSeries(body);
+      if (!plan.ok) {
+        return res.status(plan.status).json({ message: plan.message, fieldErrors: {} });
       }
 
-      // 2) Conflict check - Check only confirmed sessions (scheduled)
-      const sDay = startOfDay(sesStart);
-      const eDay = endOfDay(sesStart);
-      const bookedSnap = await fdb!
-        .collection("tutoring_sessions")
-        .where("tutorId", "==", resolvedTutorId)
-        .where("scheduledAt", ">=", sDay)
-        .where("scheduledAt", "<=", eDay)
-        .get();
+      const { tutorProfile, dates, checks } = plan;
+      const blocked = checks.filter((c) => !c.ok);
+      if (blocked.length > 0) {
+        return res.status(409).json({
+          message: `${blocked.length} of ${checks.length} occurrences cannot be booked`,
+          fieldErrors: {},
+          occurrences: checks,
+        });
+      }
+      if (body.paymentIds.length !== dates.length) {
+        return res.status(400).json({
+          message: `Expected ${dates.length} payments, one per occurrence`,
+          fieldErrors: {},
+        });
+      }
 
-      for (const d of bookedSnap.docs) {
-        const s = { id: d.id, ...(d.data() as any) };
-        const st = (s.status || "scheduled") as string;
-        // Only block if session is scheduled (confirmed)
-        if (st !== "scheduled") continue;
+      const tutorId = tutorProfile.id as string;
+      const seriesRef = fdb!.collection("session_series").doc();
+      const sessionRefs = dates.map(() => fdb!.collection("tutoring_sessions").doc());
+
+      await fdb!.runTransaction(async (tx) => {
+        const payments = await claimAuthorizedPayments(
+          tx,
+          body.paymentIds.map((paymentId, i) => ({
+            paymentId,
+            studentId: user.id,
+            tutorId,
+            subjectId: body.subjectId,
+            durationMinutes: body.duration,
+            sessionId: sessionRefs[i].id,
+          }))
+        );
 
-        const bStart = new Date(coerceMillis(s.scheduledAt));
-        const bEnd = new Date(bStart.getTime() + Number(s.duration ?? 60) * 60_000);
-        if (overlaps(sesStart, sesEnd, bStart, bEnd)) {
-          return res.status(409).json({ message: "Time slot already booked", fieldErrors: {} });
-        }
-      }
+        sessionRefs.forEach((ref, i) => {
+          tx.set(ref, {
+            tutorId,
+            studentId: user.id,
+            subjectId: body.subjectId,
+            scheduledAt: dates[i],
+            duration: body.duration,
+            timeSlots: body.timeSlots || [],
+            status: "pending",
+            notes: body.notes || "",
+            meetingLink: null,
+            priceCents: payments[i].sessionPriceCents,
+            paymentId: payments[i].id,
+            seriesId: seriesRef.id,
+            seriesIndex: i,
+            createdAt: now(),
+            updatedAt: now(),
+          });
+        });
 
-      // 3) Create session with PENDING status
-      const docRef = await fdb!.collection("tutoring_sessions").add({
-        tutorId: resolvedTutorId,
-        studentId: user.id,
-        subjectId: body.subjectId,
-        scheduledAt: sesStart,
-        duration,
-        timeSlots: req.body.timeSlots || [], // Store individual time slots
-        status: "pending", // Start as pending
-        notes: req.body.notes || "",
-        meetingLink: req.body.meetingLink || null,
-        priceCents: req.body.priceCents || 0,
-        createdAt: now(),
-        updatedAt: now(),
+        const series: SessionSeries = {
+          studentId: user.id,
+          tutorId,
+          subjectId: body.subjectId,
+          frequency: body.frequency,
+          startAt: dates[0],
+          duration: body.duration,
+          occurrenceCount: dates.length,
+          until: plan.until,
+          sessionIds: sessionRefs.map((r) => r.id),
+          status: "active",
+          createdAt: now(),
+          updatedAt: now(),
+        };
+        tx.set(seriesRef, series);
       });
 
-      console.log("✅ Session created:", docRef.id);
+      console.log(`✅ Session series created: ${seriesRef.id} (${dates.length} occurrences)`);
 
-      // 4) Notify tutor
-      const tutorUserId = tutorProfile.userId;
-      const studentName = `${user.firstName || ""} ${user.lastName || ""}`.trim() || "A student";
+      // Booking conversion for the ranking A/B experiment (one booking for the whole series)
+      await recordRankingConversion(user.id, tutorId);
+      void refreshTutorStatsFor([tutorId]);
 
-      if (tutorUserId) {
+      // One request notification for the whole series
+      if (tutorProfile.userId) {
         try {
-          const notifRef = await fdb!.collection("notifications").add({
-            type: "SESSION_REQUESTED",
-            title: "New session request",
-            body: `${studentName} requested a session on ${sesStart.toLocaleDateString()} at ${sesStart.toLocaleTimeString()}`,
-            userId: tutorUserId,
-            audience: "user",
+          const studentName = `${user.firstName || ""} ${user.lastName || ""}`.trim() || "A student";
+          const cadence = body.frequency === "biweekly" ? "every two weeks" : "weekly";
+          await notifyUser(tutorProfile.userId, "SESSION_REQUESTED", {
+            title: "New recurring session request",
+            body: `${studentName} requested ${dates.length} sessions ${cadence} starting ${formatSessionTime(
+              dates[0],
+              await userTimeZone(tutorProfile.userId, tutorProfile.timezone)
+            )}`,
             data: {
-              sessionId: docRef.id,
-              tutorId: resolvedTutorId,
+              seriesId: seriesRef.id,
+              sessionId: sessionRefs[0].id,
+              tutorId,
               studentId: user.id,
               subjectId: body.subjectId,
             },
-            isRead: false,
-            createdAt: now(),
           });
-
-          console.log("✅ Notification created:", notifRef.id, "for tutor user:", tutorUserId);
         } catch (notifError) {
           console.error("❌ Failed to create notification:", notifError);
         }
-      } else {
-        console.warn("⚠️ No tutorUserId found, notification not created");
       }
 
-      const snap = await docRef.get();
-      const sessionData = { id: snap.id, ...snap.data() };
-
-      console.log("✅ Session booking complete:", sessionData);
-
-      res.json(sessionData);
+      const loaded = await loadSeriesForUser(seriesRef.id, user);
+      if (!loaded.ok) throw new Error(`Series ${seriesRef.id} missing after creation`);
+      res.status(201).json({ ...loaded.series, sessions: loaded.sessions });
     } catch (error) {
-      console.error("❌ Error creating session:", error);
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Validation failed", fieldErrors: error.flatten().fieldErrors });
       }
-      res.status(500).json({ message: "Failed to create session", fieldErrors: {} });
+      if (error instanceof PaymentError) {
+        return res.status(error.status).json({ message: error.message, fieldErrors: {} });
+      }
+      console.error("Error creating session series:", error);
+      res.status(500).json({ message: "Failed to create series", fieldErrors: {} });
     }
   });
 
-  app.put("/api/sessions/:id", requireUser, async (req, res) => {
+  /**
+   * GET /api/session-series/:id
+   * Series with its occurrences
+   */
+  app.get("/api/session-series/:id", requireUser, async (req, res) => {
     try {
-      const user = req.user!;
-      const sessionId = req.params.id;
-      const { status } = req.body as { status: string };
+      const loaded = await loadSeriesForUser(req.params.id, req.user!);
+      if (!loaded.ok) {
+        return res.status(loaded.status).json({ message: loaded.message, fieldErrors: {} });
+      }
+      res.json({ ...loaded.series, sessions: loaded.sessions });
+    } catch (error) {
+      console.error("Error fetching session series:", error);
+      res.status(500).json({ message: "Failed to fetch series", fieldErrors: {} });
+    }
+  });
 
-      const validStatuses = ["pending", "scheduled", "in_progress", "completed", "cancelled"];
-      if (!validStatuses.includes(status)) {
-        return res.status(400).json({ message: "Invalid session status", fieldErrors: {} });
+  /**
+   * POST /api/session-series/:id/accept
+   * Tutor accepts every pending occurrence. Occurrences that now conflict or
+   * whose payment cannot be captured stay pending and are reported back.
+   */
+  app.post("/api/session-series/:id/accept", requireUser, async (req, res) => {
+    try {
+      const user = req.user!;
+      if (user.role !== "tutor") {
+        return res.status(403).json({ message: "Only the tutor can accept a series", fieldErrors: {} });
       }
 
-      const ref = fdb!.collection("tutoring_sessions").doc(sessionId);
-      const snap = await ref.get();
-      if (!snap.exists) {
-        return res.status(404).json({ message: "Session not found", fieldErrors: {} });
+      const loaded = await loadSeriesForUser(req.params.id, user);
+      if (!loaded.ok) {
+        return res.status(loaded.status).json({ message: loaded.message, fieldErrors: {} });
       }
-      const session = { id: snap.id, ...(snap.data() as any) } as any;
 
-      // Auth: only student, owning tutor, or admin can update
-      if (user.role === "student" && session.studentId !== user.id) {
-        return res.status(403).json({ message: "Not authorized to update this session", fieldErrors: {} });
+      if (loaded.series.status === "cancelled") {
+        return res.status(409).json({ message: "This series has been cancelled", fieldErrors: {} });
       }
 
-      if (user.role === "tutor") {
-        const profSnap = await fdb!.collection("tutor_profiles").where("userId", "==", user.id).limit(1).get();
-        const tutorProfile = profSnap.empty ? null : ({ id: profSnap.docs[0].id, ...profSnap.docs[0].data() } as any);
-        if (!tutorProfile || session.tutorId !== tutorProfile.id) {
-          return res.status(403).json({ message: "Not authorized to update this session", fieldErrors: {} });
+      const accepted: string[] = [];
+      const failed: Array<{ sessionId: string; message: string }> = [];
+
+      const tutorProfile = (await getDoc<any>("tutor_profiles", loaded.series.tutorId)) ?? { id: loaded.series.tutorId };
+
+      // Sequential so each acceptance is visible to the next conflict check
+      for (const session of loaded.sessions.filter((s: any) => s.status === "pending")) {
+        const end = new Date(session.scheduledAt.getTime() + Number(session.duration ?? 60) * 60_000);
+        if (await hasBookingConflict(tutorProfile, session.scheduledAt, end, [session.id])) {
+          failed.push({ sessionId: session.id, message: "Time slot already booked" });
+          continue;
+        }
+
+        // Same status-checked acceptance as a single session
+        try {
+          if (!(await acceptPendingSession(session.id, session.paymentId))) {
+            failed.push({ sessionId: session.id, message: "Only pending session requests can be accepted" });
+            continue;
+          }
+        } catch (paymentError) {
+          if (!(paymentError instanceof PaymentError)) throw paymentError;
+          failed.push({ sessionId: session.id, message: paymentError.message });
+          continue;
         }
+
+        await sendSessionInvite(session.id, "confirmed");
+        accepted.push(session.id);
       }
+      if (accepted.length > 0) void refreshTutorStatsFor([loaded.series.tutorId]);
 
-      // If we are confirming the session, enforce conflict check
-      if (status === "scheduled") {
-        const sesStart = new Date(coerceMillis(session.scheduledAt));
-        if (isNaN(sesStart.getTime())) {
-          return res.status(400).json({ message: "Invalid session date", fieldErrors: {} });
+      res.json({ accepted, failed });
+    } catch (error) {
+      console.error("Error accepting session series:", error);
+      res.status(500).json({ message: "Failed to accept series", fieldErrors: {} });
+    }
+  });
+
+  /**
+   * POST /api/session-series/:id/cancel
+   * Cancel the rest of a series (from fromSessionId, or every upcoming
+   * occurrence). Each occurrence goes through the cancellation policy.
+   * Single occurrences are cancelled with PUT /api/sessions/:id.
+   */
+  app.post("/api/session-series/:id/cancel", requireUser, async (req, res) => {
+    try {
+      const user = req.user!;
+      const body = cancelSessionSeriesSchema.parse(req.body ?? {});
+
+      const loaded = await loadSeriesForUser(req.params.id, user);
+      if (!loaded.ok) {
+        return res.status(loaded.status).json({ message: loaded.message, fieldErrors: {} });
+      }
+      const { series, sessions } = loaded;
+
+      let fromMs = Date.now();
+      if (body.fromSessionId) {
+        const from = sessions.find((s: any) => s.id === body.fromSessionId);
+        if (!from) {
+          return res.status(400).json({ message: "Session is not part of this series", fieldErrors: {} });
         }
-        const duration = Number(session.duration ?? 60);
-        const sesEnd = new Date(sesStart.getTime() + duration * 60_000);
+        fromMs = from.scheduledAt.getTime();
+      }
 
-        const sDay = startOfDay(sesStart);
-        const eDay = endOfDay(sesStart);
+      const toCancel = sessions.filter(
+        (s: any) => (s.status === "pending" || s.status === "scheduled") && s.scheduledAt.getTime() >= fromMs
+      );
 
-        const bookedSnap = await fdb!
-          .collection("tutoring_sessions")
-          .where("tutorId", "==", session.tutorId)
-          .where("scheduledAt", ">=", sDay)
-          .where("scheduledAt", "<=", eDay)
-          .get();
+      const cancellations: Array<{ sessionId: string } & SessionCancellation> = [];
+      for (const session of toCancel) {
+        const cancellation = await cancelSessionWithPolicy(session, user, body.reason ?? null, { notify: false });
+        if (cancellation) cancellations.push({ sessionId: session.id, ...cancellation });
+      }
+      if (cancellations.length > 0) void refreshTutorStatsFor([series.tutorId]);
 
-        for (const d of bookedSnap.docs) {
-          if (d.id === sessionId) continue; // ignore self
-          const s = { id: d.id, ...(d.data() as any) };
-          const st = (s.status || "scheduled") as string;
-          if (st !== "scheduled") continue;
+      // The series ends once nothing before the cut-off is left to attend
+      const stillActive = sessions.some(
+        (s: any) => (s.status === "pending" || s.status === "scheduled") && !toCancel.includes(s)
+      );
+      if (!stillActive) {
+        await fdb!.collection("session_series").doc(series.id).set(
+          { status: "cancelled", cancelledAt: now(), cancelledByUserId: user.id, updatedAt: now() },
+          { merge: true }
+        );
+      }
 
-          const bStart = new Date(coerceMillis(s.scheduledAt));
-          const bEnd = new Date(bStart.getTime() + Number(s.duration ?? 60) * 60_000);
-          if (overlaps(sesStart, sesEnd, bStart, bEnd)) {
-            return res.status(409).json({ message: "Time slot already booked", fieldErrors: {} });
-          }
+      // One notification for the whole series instead of one per occurrence
+      if (cancellations.length > 0) {
+        try {
+          const tutorProfile = await getDoc<any>("tutor_profiles", series.tutorId);
+          const refundCents = cancellations.reduce((acc, c) => acc + c.refundCents, 0);
+          const summary = `${cancellations.length} upcoming session(s) were cancelled. Refund: BHD ${(refundCents / 100).toFixed(2)}.`;
+          const recipients = [
+            user.id !== series.studentId ? series.studentId : null,
+            tutorProfile?.userId && user.id !== tutorProfile.userId ? tutorProfile.userId : null,
+          ].filter(Boolean) as string[];
+
+          await Promise.all(
+            recipients.map((userId) =>
+              notifyUser(userId, "SESSION_CANCELLED", {
+                title: "Recurring sessions cancelled",
+                body: summary,
+                data: { seriesId: series.id, sessionIds: cancellations.map((c) => c.sessionId), refundCents },
+              })
+            )
+          );
+        } catch (notifError) {
+          console.error("Failed to create series cancellation notification:", notifError);
         }
       }
 
-      await ref.set({ status, updatedAt: now() }, { merge: true });
+      res.json({ seriesId: series.id, cancelled: cancellations });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation failed", fieldErrors: error.flatten().fieldErrors });
+      }
+      console.error("Error cancelling session series:", error);
+      res.status(500).json({ message: "Failed to cancel series", fieldErrors: {} });
+    }
+  });
+
+  // === CALENDAR FEEDS (iCal subscription) ===
 
-      // Invalidate stats cache if session was completed
-      if (status === "completed") {
-        cachedStats = null;
-        console.log("[Cache] Stats cache invalidated");
+  const FEED_STATUSES = new Set(["scheduled", "in_progress", "completed"]);
+
+  /**
+   * GET /api/calendar/subscription
+   * Secret iCal URL of the signed-in user's sessions
+   */
+  app.get("/api/calendar/subscription", requireUser, async (req, res) => {
+    try {
+      const user = req.user!;
+      if (user.role !== "student" && user.role !== "tutor") {
+        return res.status(403).json({ message: "Only students and tutors have a session calendar", fieldErrors: {} });
       }
+      const token = await getOrCreateFeedToken(user.id);
+      res.json({ url: calendarFeedUrl(req, token) });
+    } catch (error) {
+      console.error("Error fetching calendar subscription:", error);
+      res.status(500).json({ message: "Failed to fetch calendar subscription", fieldErrors: {} });
+    }
+  });
 
-      const updated = await ref.get();
-      res.json({ id: updated.id, ...updated.data() });
+  /**
+   * POST /api/calendar/subscription/rotate
+   * Replace the feed URL; the old one stops working immediately
+   */
+  app.post("/api/calendar/subscription/rotate", requireUser, async (req, res) => {
+    try {
+      const user = req.user!;
+      if (user.role !== "student" && user.role !== "tutor") {
+        return res.status(403).json({ message: "Only students and tutors have a session calendar", fieldErrors: {} });
+      }
+      const token = await getOrCreateFeedToken(user.id, true);
+      res.json({ url: calendarFeedUrl(req, token) });
     } catch (error) {
-      console.error("Error updating session:", error);
-      res.status(500).json({ message: "Failed to update session", fieldErrors: {} });
+      console.error("Error rotating calendar subscription:", error);
+      res.status(500).json({ message: "Failed to rotate calendar subscription", fieldErrors: {} });
+    }
+  });
+
+  /**
+   * GET /api/calendar/feed/:token.ics
+   * Public (token-authenticated) iCalendar feed for calendar apps
+   */
+  app.get("/api/calendar/feed/:token", async (req, res) => {
+    try {
+      const ownerId = await resolveFeedToken(req.params.token.replace(/\.ics$/, ""));
+      const owner = ownerId ? await getDoc<any>("users", ownerId) : null;
+      if (!owner) {
+        return res.status(404).json({ message: "Calendar not found", fieldErrors: {} });
+      }
+
+      const feedUser: AuthUser = {
+        id: owner.id,
+        email: owner.email,
+        role: owner.role ?? null,
+        firstName: owner.firstName ?? null,
+        lastName: owner.lastName ?? null,
+      };
+      if (feedUser.role !== "student" && feedUser.role !== "tutor") {
+        return res.status(404).json({ message: "Calendar not found", fieldErrors: {} });
+      }
+
+      const sessions = await fetchSessionsForUser(feedUser, 500);
+      const events = sessions
+        .filter((s) => FEED_STATUSES.has(s.status || "scheduled"))
+        .map((s) =>
+          sessionToICalEvent(s, {
+            subjectName: s.subject?.name ?? "Tutoring session",
+            student: feedUser.role === "student" ? owner : s.student,
+            tutorUser: feedUser.role === "tutor" ? owner : s.tutor?.user,
+          })
+        );
+
+      res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+      res.setHeader("Content-Disposition", 'inline; filename="daresni-sessions.ics"');
+      res.setHeader("Cache-Control", "private, max-age=300");
+      res.send(buildCalendar({ method: "PUBLISH", name: "Daresni Sessions", events }));
+    } catch (error) {
+      console.error("Error building calendar feed:", error);
+      res.status(500).json({ message: "Failed to build calendar feed", fieldErrors: {} });
+    }
+  });
+
+  // POST /api/admin/calendar-feeds/revoke-exposed  -> clear tokens left on users docs by older versions (one-off)
+  app.post("/api/admin/calendar-feeds/revoke-exposed", requireUser, requireAdmin, async (_req, res) => {
+    try {
+      res.json(await revokeExposedFeedTokens());
+    } catch (error) {
+      console.error("Error revoking exposed calendar feed tokens:", error);
+      res.status(500).json({ message: "Failed to revoke calendar feed tokens", fieldErrors: {} });
     }
   });
 
@@ -2569,12 +4605,23 @@ app.get("/api/tutors/:id", async (req, res) => {
       const studentSnap = await fdb!.collection("users").doc(session.studentId).get();
       const studentName = studentSnap.exists ? `${studentSnap.data()?.firstName} ${studentSnap.data()?.lastName}` : undefined;
 
+      // The session's chat thread (most recent messages) adds pre-lesson questions and follow-ups
+      const thread = await listSessionMessages(sessionId, { limit: SUMMARY_THREAD_MESSAGES });
+      const sessionMessages = thread.items
+        .reverse()
+        .filter((m) => typeof m.data.content === "string" && m.data.content.trim())
+        .map((m) => ({
+          author: (m.data.senderId === session.studentId ? "Student" : "Tutor") as "Student" | "Tutor",
+          content: m.data.content.trim().slice(0, 500),
+        }));
+
       // Generate the AI summary
       const aiSummary = await generateLessonSummary({
         tutorNotes: session.tutorNotes,
         subject,
         studentName,
         duration: session.duration,
+        sessionMessages,
       });
 
       // Save the summary to the session
@@ -2707,16 +4754,10 @@ I'm here to help you understand the concepts better and practice! Feel free to a
           ? `Your tutor has created a lesson report for your ${subject || "session"}. Check out your Study Buddy to review!`
           : `Your tutor has created a lesson report for your ${subject || "session"}. View the report, take the improvement quiz, and chat with your Study Buddy!`;
 
-        await fdb!.collection("notifications").add({
-          userId: session.studentId,
-          audience: "user",
-          type: "LESSON_REPORT_READY",
+        await notifyUser(session.studentId, "LESSON_REPORT_READY", {
           title: "New Lesson Report Available",
           body: notificationBody,
-          isRead: false,
-          sessionId,
-          studyBuddyConversationId: studyBuddyConvId,
-          createdAt: now(),
+          data: { sessionId, studyBuddyConversationId: studyBuddyConvId },
         });
         console.log(`Notification sent to student ${session.studentId}`);
       } catch (notifError) {
@@ -3051,145 +5092,48 @@ I'm here to help you understand the concepts better and practice! Feel free to a
           studentId: user.id,
           answers,
           score,
-          correctCount,
-          totalQuestions,
-          detailedResults,
-          completedAt: now(),
-          createdAt: now(),
-        });
-      }
-
-      const attempt = await attemptRef.get();
-      res.json({
-        id: attempt.id,
-        ...attempt.data(),
-        message: `Quiz completed! You scored ${score}% (${correctCount}/${totalQuestions} correct)`
-      });
-    } catch (error) {
-      console.error("Error submitting quiz:", error);
-      res.status(500).json({ message: "Failed to submit quiz", fieldErrors: {} });
-    }
-  });
-
-  // === REVIEWS ===
-  app.get("/api/reviews/:tutorId", async (req, res) => {
-    try {
-      const { tutorId } = req.params;
-      const snap = await fdb!
-        .collection("reviews")
-        .where("tutorId", "==", tutorId)
-        .orderBy("createdAt", "desc")
-        .get();
-      const raw = snap.docs.map((d) => ({ id: d.id, ...d.data() } as any));
-      const studentIds = Array.from(new Set(raw.map((r) => r.studentId).filter(Boolean)));
-      const mapStudents = await batchLoadMap<any>("users", studentIds);
-      const formatted = raw.map((r) => ({ ...r, student: mapStudents.get(r.studentId) || null }));
-      res.json(formatted);
-    } catch (error) {
-      console.error("Error fetching reviews:", error);
-      res.status(500).json({ message: "Failed to fetch reviews", fieldErrors: {} });
-    }
-  });
-
-  app.post("/api/reviews", requireUser, async (req, res) => {
-    try {
-      const me = req.user!;
-      if (me.role !== "student") {
-        return res.status(403).json({
-          message: "Only students can submit reviews",
-          fieldErrors: {},
-        });
-      }
-
-      const { tutorId, rating, comment } = createReviewSchema.parse(req.body);
-
-      // Resolve tutor profile id (allow passing either tutor_profile.id or tutor userId)
-      let tutorProfile = await getDoc<any>("tutor_profiles", tutorId);
-      if (!tutorProfile) {
-        const byUser = await fdb!
-          .collection("tutor_profiles")
-          .where("userId", "==", tutorId)
-          .limit(1)
-          .get();
-        if (!byUser.empty) {
-          tutorProfile = {
-            id: byUser.docs[0].id,
-            ...byUser.docs[0].data(),
-          } as any;
-        }
-      }
-
-      if (!tutorProfile) {
-        return res.status(404).json({
-          message: "Tutor profile not found",
-          fieldErrors: {},
-        });
-      }
-
-      const resolvedTutorId = tutorProfile.id as string;
-
-      // Ensure at least one COMPLETED session between this student and this tutor
-      const completedSnap = await fdb!
-        .collection("tutoring_sessions")
-        .where("tutorId", "==", resolvedTutorId)
-        .where("studentId", "==", me.id)
-        .where("status", "==", "completed")
-        .limit(1)
-        .get();
-
-      if (completedSnap.empty) {
-        return res.status(403).json({
-          message: "You can only review tutors you have completed a session with",
-          fieldErrors: {},
-        });
-      }
-
-      // Enforce one review per student/tutor
-      const existingSnap = await fdb!
-        .collection("reviews")
-        .where("tutorId", "==", resolvedTutorId)
-        .where("studentId", "==", me.id)
-        .limit(1)
-        .get();
-
-      if (!existingSnap.empty) {
-        return res.status(400).json({
-          message: "You have already reviewed this tutor",
-          fieldErrors: {},
+          correctCount,
+          totalQuestions,
+          detailedResults,
+          completedAt: now(),
+          createdAt: now(),
         });
       }
 
-      const docRef = await fdb!.collection("reviews").add({
-        tutorId: resolvedTutorId,
-        studentId: me.id,
-        rating,
-        comment: (comment ?? "").trim(),
-        createdAt: now(),
-        updatedAt: now(),
+      const attempt = await attemptRef.get();
+      res.json({
+        id: attempt.id,
+        ...attempt.data(),
+        message: `Quiz completed! You scored ${score}% (${correctCount}/${totalQuestions} correct)`
       });
-
-      const snap = await docRef.get();
-      const data = { id: snap.id, ...(snap.data() as any) };
-
-      res.json(data);
     } catch (error) {
-      console.error("Error creating review:", error);
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({
-          message: "Invalid review data",
-          fieldErrors: error.flatten().fieldErrors,
-        });
-      }
-      res.status(500).json({ message: "Failed to create review", fieldErrors: {} });
+      console.error("Error submitting quiz:", error);
+      res.status(500).json({ message: "Failed to submit quiz", fieldErrors: {} });
     }
   });
 
   // === MESSAGES (student <-> tutor chat) ===
 
-  const createMessageSchema = z.object({
-    receiverId: z.string(),
-    content: z.string().min(1),
-  });
+  const createMessageSchema = z
+    .object({
+      receiverId: z.string(),
+      content: z.string().default(""),
+      attachmentId: z.string().optional(),
+      sessionId: z.string().optional(), // post into that session's thread
+    })
+    .refine((m) => m.content.trim().length > 0 || !!m.attachmentId, {
+      message: "Message must have text or an attachment",
+      path: ["content"],
+    });
+
+  // Chat attachments are validated by the service; multer only caps the raw size
+  const chatAttachmentUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: CHAT_ATTACHMENT_MAX_BYTES, files: 2 },
+  }).fields([
+    { name: "file", maxCount: 1 },
+    { name: "thumbnail", maxCount: 1 },
+  ]);
 
   const adminMessagesQuerySchema = z.object({
     studentId: z.string().optional(),
@@ -3206,85 +5150,9 @@ I'm here to help you understand the concepts better and practice! Feel free to a
     );
   }
 
-  // Phone number detection function
-  function containsPhoneNumber(text: string): boolean {
-    // Common phone number patterns:
-    // - International: +1234567890, +1 234 567 8900, +1-234-567-8900
-    // - US/Local: (123) 456-7890, 123-456-7890, 123.456.7890, 12345678
-    // - With country code: 0012345678
-    // - 8-15 digits (changed from 10-15 to catch more patterns)
-    const phonePatterns = [
-      /\+?\d{1,3}[\s.-]?\(?\d{2,4}\)?[\s.-]?\d{3,4}[\s.-]?\d{2,4}/g, // International format
-      /\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{2,4}/g, // US format variations
-      /\d{8,15}/g, // Simple 8-15 digit sequences
-      /\d[\s.-]{0,2}\d[\s.-]{0,2}\d[\s.-]{0,2}\d[\s.-]{0,2}\d[\s.-]{0,2}\d[\s.-]{0,2}\d[\s.-]{0,2}\d/g, // Spaced digits
-    ];
-
-    return phonePatterns.some(pattern => pattern.test(text));
-  }
-
-  // Check if message is mostly numeric (potential number splitting attempt)
-  function isMostlyNumeric(text: string): boolean {
-    const cleanText = text.replace(/\s/g, '');
-    if (cleanText.length === 0) return false;
-
-    const digitCount = (cleanText.match(/\d/g) || []).length;
-    const digitRatio = digitCount / cleanText.length;
-
-    // If more than 60% digits, or it's just 1-3 digits, flag it
-    return digitRatio > 0.6 || /^\d{1,3}$/.test(cleanText);
-  }
-
-  // In-memory store for tracking recent messages (simple rate limiting)
-  // In production, consider using Redis or similar
-  const recentMessagesStore = new Map<string, Array<{ content: string; timestamp: number }>>();
-
-  function checkRapidNumericMessages(userId: string, receiverId: string, content: string): string | null {
-    const conversationKey = [userId, receiverId].sort().join('_');
-    const now = Date.now();
-    const timeWindow = 30000; // 30 seconds
-    const maxNumericMessages = 3; // Max 3 numeric messages in time window
-
-    // Get recent messages for this conversation
-    let recentMessages = recentMessagesStore.get(conversationKey) || [];
-
-    // Clean up old messages (older than time window)
-    recentMessages = recentMessages.filter(msg => now - msg.timestamp < timeWindow);
-
-    // Check if current message is mostly numeric
-    const isCurrentNumeric = isMostlyNumeric(content);
-
-    if (isCurrentNumeric) {
-      // Count recent numeric messages
-      const recentNumericCount = recentMessages.filter(msg => isMostlyNumeric(msg.content)).length;
-
-      if (recentNumericCount >= maxNumericMessages) {
-        return "You're sending numbers too quickly. Please slow down and send complete messages. Sharing phone numbers is not allowed. If you believe this was a mistake, please contact an administrator.";
-      }
-
-      // Check if sending single digits in sequence (potential phone number)
-      if (/^\d{1,3}$/.test(content.trim())) {
-        const recentSingleDigits = recentMessages.filter(msg => /^\d{1,3}$/.test(msg.content.trim()));
-
-        if (recentSingleDigits.length >= 2) {
-          return "Please avoid sending numbers one by one. If you need to share information, send it in a complete sentence. If you believe this was a mistake, please contact an administrator.";
-        }
-      }
-    }
-
-    // Add current message to store
-    recentMessages.push({ content, timestamp: now });
-    recentMessagesStore.set(conversationKey, recentMessages);
-
-    // Clean up store periodically (keep only last 20 messages per conversation)
-    if (recentMessages.length > 20) {
-      recentMessagesStore.set(conversationKey, recentMessages.slice(-20));
-    }
-
-    return null; // No violation detected
-  }
-
-  // GET /api/messages/:otherUserId  -> full conversation between current user and :otherUserId
+  // GET /api/messages/:otherUserId  -> conversation between current user and :otherUserId
+  //   ?limit=30&before=<messageId>  -> { messages, nextCursor }: one page, oldest first within the page
+  //   (no limit/before)             -> full history as a plain array, for older clients
   app.get("/api/messages/:otherUserId", requireUser, async (req, res) => {
     try {
       const me = req.user!;
@@ -3304,6 +5172,20 @@ I'm here to help you understand the concepts better and practice! Feel free to a
         return res.status(403).json({ message: "Chat is only allowed between students and tutors", fieldErrors: {} });
       }
 
+      if (req.query.limit !== undefined || req.query.before !== undefined) {
+        const studentId = me.role === "student" ? me.id : otherUserId;
+        const tutorId = me.role === "tutor" ? me.id : otherUserId;
+        const page = await listConversationMessages(studentId, tutorId, {
+          limit: clampPageSize(req.query.limit),
+          before: typeof req.query.before === "string" ? req.query.before : null,
+        });
+        const users = await batchLoadMap<any>("users", [me.id, otherUserId]);
+        return res.json({
+          messages: page.items.reverse().map((m) => toChatMessagePayload(m.id, m.data, users)),
+          nextCursor: page.nextCursor,
+        });
+      }
+
       // Fetch both directions, then merge & sort in memory
       const col = fdb!.collection("messages");
 
@@ -3321,24 +5203,48 @@ I'm here to help you understand the concepts better and practice! Feel free to a
 
       // Join sender / receiver for UI
       const mapUsers = await batchLoadMap<any>("users", [me.id, otherUserId]);
-      const out = raw.map((m) => ({
-        id: m.id,
-        senderId: m.senderId,
-        receiverId: m.receiverId,
-        content: m.content,
-        read: !!m.read,
-        createdAt: new Date(coerceMillis(m.createdAt)).toISOString(),
-        sender: mapUsers.get(m.senderId) || null,
-        receiver: mapUsers.get(m.receiverId) || null,
-      }));
+      const out = raw.map((m) => toChatMessagePayload(m.id, m, mapUsers));
 
       res.json(out);
     } catch (error) {
       console.error("Error fetching messages:", error);
+      if (error instanceof ConversationError) {
+        return res.status(error.status).json({ message: error.message, fieldErrors: {} });
+      }
       res.status(500).json({ message: "Failed to fetch messages", fieldErrors: {} });
     }
   });
 
+  // GET /api/sessions/:id/messages?limit=&before=  -> the chat thread tied to one session
+  app.get("/api/sessions/:id/messages", requireUser, async (req, res) => {
+    try {
+      const session = await getDoc<any>("tutoring_sessions", req.params.id);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found", fieldErrors: {} });
+      }
+      if (!(await getSessionRole(session, req.user!))) {
+        return res.status(403).json({ message: "Not authorized to view this session", fieldErrors: {} });
+      }
+
+      const page = await listSessionMessages(session.id, {
+        limit: clampPageSize(req.query.limit),
+        before: typeof req.query.before === "string" ? req.query.before : null,
+      });
+      const tutorProfile = await getDoc<any>("tutor_profiles", session.tutorId);
+      const users = await batchLoadMap<any>("users", [session.studentId, tutorProfile?.userId].filter(Boolean));
+      res.json({
+        messages: page.items.reverse().map((m) => toChatMessagePayload(m.id, m.data, users)),
+        nextCursor: page.nextCursor,
+      });
+    } catch (error) {
+      console.error("Error fetching session messages:", error);
+      if (error instanceof ConversationError) {
+        return res.status(error.status).json({ message: error.message, fieldErrors: {} });
+      }
+      res.status(500).json({ message: "Failed to fetch session messages", fieldErrors: {} });
+    }
+  });
+
   // POST /api/messages  -> send a new message
   app.post("/api/messages", requireUser, async (req, res) => {
     try {
@@ -3359,95 +5265,100 @@ I'm here to help you understand the concepts better and practice! Feel free to a
         return res.status(403).json({ message: "Chat is only allowed between students and tutors", fieldErrors: {} });
       }
 
-      const studentId = me.role === "student" ? me.id : (otherUser.id as string);
-      const tutorId = me.role === "tutor" ? me.id : (otherUser.id as string);
-
-      // Check for rapid numeric messages (rate limiting)
-      const rapidMessageError = checkRapidNumericMessages(me.id, body.receiverId, body.content);
-      if (rapidMessageError) {
-        return res.status(400).json({
-          message: rapidMessageError,
+      const suspendedUntil = await getChatSuspension(me.id);
+      if (suspendedUntil) {
+        return res.status(403).json({
+          message: `Your chat is suspended until ${suspendedUntil.toISOString()} because of repeated attempts to share contact details.`,
           fieldErrors: {},
           blocked: true,
+          suspendedUntil,
         });
       }
 
-      // Check for phone numbers in the message content - BLOCK if found
-      const hasPhoneNumber = containsPhoneNumber(body.content);
+      const studentId = me.role === "student" ? me.id : (otherUser.id as string);
+      const tutorId = me.role === "tutor" ? me.id : (otherUser.id as string);
 
-      if (hasPhoneNumber) {
-        // Create admin notification for phone number violation attempt
-        try {
-          const senderName = `${me.firstName || ""} ${me.lastName || ""}`.trim() || "Unknown User";
-          const receiverName = `${otherUser.firstName || ""} ${otherUser.lastName || ""}`.trim() || "Unknown User";
-
-          await fdb!.collection("notifications").add({
-            type: "PHONE_NUMBER_VIOLATION",
-            title: "Phone Number Detection - Message Blocked",
-            body: `${senderName} (${me.role}) attempted to share a phone number with ${receiverName} (${otherUser.role}). Message was blocked.`,
-            audience: "admin",
-            isRead: false,
-            createdAt: now(),
-            data: {
-              senderId: me.id,
-              senderName,
-              senderRole: me.role,
-              receiverId: body.receiverId,
-              receiverName,
-              receiverRole: otherUser.role,
-              messageContent: body.content,
-              blocked: true,
-            },
-          });
-        } catch (notifError) {
-          console.error("Failed to create phone number violation notification:", notifError);
+      // A session thread only takes messages between that session's student and tutor
+      if (body.sessionId) {
+        const session = await getDoc<any>("tutoring_sessions", body.sessionId);
+        const tutorProfile = session ? await getDoc<any>("tutor_profiles", session.tutorId) : null;
+        if (!session || session.studentId !== studentId || tutorProfile?.userId !== tutorId) {
+          return res.status(400).json({ message: "Session does not belong to this conversation", fieldErrors: {} });
         }
+      }
+
+      if (body.attachmentId) await checkChatAttachment(body.attachmentId, me.id, body.receiverId);
 
-        // BLOCK the message - do NOT send it
+      // Contact-sharing moderation: striking rules count towards a chat suspension
+      const verdict = moderateMessage(body.content, { senderId: me.id, receiverId: body.receiverId, at: Date.now() });
+      if (verdict) {
+        const strike = verdict.strike
+          ? await recordViolation({ sender: me, receiver: otherUser, verdict, content: body.content })
+          : null;
         return res.status(400).json({
-          message: "Your message was blocked because it appears to contain a phone number. Sharing phone numbers is not allowed on this platform. This violation has been reported to administrators. If you believe this was a mistake, please contact an administrator to appeal.",
+          message: verdict.message,
           fieldErrors: {},
           blocked: true,
+          ruleId: verdict.ruleId,
+          ...(strike ?? {}),
         });
       }
 
-      // If all checks pass, send the message
-      const docRef = await fdb!.collection("messages").add({
-        senderId: me.id,
-        receiverId: body.receiverId,
-        content: body.content,
-        studentId,
-        tutorId,
-        read: false,
-        createdAt: now(),
+      // If all checks pass, send the message (claiming the attachment in the same transaction)
+      const docRef = fdb!.collection("messages").doc();
+      const attachment = await fdb!.runTransaction(async (tx) => {
+        const claimed = body.attachmentId
+          ? await claimChatAttachment(tx, body.attachmentId, me.id, body.receiverId, docRef.id)
+          : null;
+        tx.set(docRef, {
+          senderId: me.id,
+          receiverId: body.receiverId,
+          content: body.content,
+          fileUrl: claimed ? chatAttachmentUrl(claimed.id) : null,
+          attachment: claimed,
+          studentId,
+          tutorId,
+          sessionId: body.sessionId ?? null,
+          read: false,
+          createdAt: now(),
+        });
+        return claimed;
       });
 
       const snap = await docRef.get();
       const data = { id: snap.id, ...(snap.data() as any) };
 
       const mapUsers = await batchLoadMap<any>("users", [me.id, body.receiverId]);
-      const resp: any = {
-        id: data.id,
-        senderId: data.senderId,
-        receiverId: data.receiverId,
-        content: data.content,
-        read: !!data.read,
-        createdAt: new Date(coerceMillis(data.createdAt)).toISOString(),
-        sender: mapUsers.get(data.senderId) || null,
-        receiver: mapUsers.get(data.receiverId) || null,
-      };
+      const resp = toChatMessagePayload(data.id, data, mapUsers);
+
+      // Keep the inbox summary in step; a failure here must not fail the send
+      try {
+        await recordConversationMessage({
+          studentId,
+          tutorId,
+          messageId: data.id,
+          senderId: me.id,
+          receiverId: body.receiverId,
+          content: body.content,
+          attachment,
+          createdAt: new Date(coerceMillis(data.createdAt)),
+        });
+      } catch (indexError) {
+        console.error("Failed to update conversation index:", indexError);
+      }
+
+      // Push to both sides so the sender's other tabs stay in sync too
+      publishToUser(body.receiverId, { type: "message:new", message: resp });
+      publishToUser(me.id, { type: "message:new", message: resp });
 
       // Create NEW_MESSAGE notification for the receiver
       try {
         const senderName = `${me.firstName || ""} ${me.lastName || ""}`.trim() || "Someone";
-        await fdb!.collection("notifications").add({
-          type: "NEW_MESSAGE",
+        await notifyUser(body.receiverId, "NEW_MESSAGE", {
           title: "New message",
-          body: `You have a new message from ${senderName}`,
-          userId: body.receiverId,
-          audience: "user",
-          isRead: false,
-          createdAt: now(),
+          body: attachment
+            ? `${senderName} sent you ${attachment.isImage ? "an image" : "a file"}`
+            : `You have a new message from ${senderName}`,
           data: {
             fromUserId: me.id,
           },
@@ -3459,6 +5370,9 @@ I'm here to help you understand the concepts better and practice! Feel free to a
       res.json(resp);
     } catch (error) {
       console.error("Error creating message:", error);
+      if (error instanceof ChatAttachmentError) {
+        return res.status(error.status).json({ message: error.message, fieldErrors: {} });
+      }
       if (error instanceof z.ZodError) {
         return res
           .status(400)
@@ -3468,6 +5382,91 @@ I'm here to help you understand the concepts better and practice! Feel free to a
     }
   });
 
+  // POST /api/chat/attachments  -> upload a file (plus optional image thumbnail) to send in chat
+  app.post(
+    "/api/chat/attachments",
+    requireUser,
+    (req, res, next) =>
+      chatAttachmentUpload(req, res, (err: unknown) => {
+        if (err instanceof multer.MulterError) {
+          const tooLarge = err.code === "LIMIT_FILE_SIZE";
+          return res.status(tooLarge ? 413 : 400).json({
+            message: tooLarge
+              ? `Attachments can be at most ${CHAT_ATTACHMENT_MAX_BYTES / (1024 * 1024)} MB`
+              : err.message,
+            fieldErrors: {},
+          });
+        }
+        if (err) return next(err);
+        next();
+      }),
+    async (req, res) => {
+      try {
+        const me = req.user!;
+        const files = (req.files ?? {}) as Record<string, Express.Multer.File[]>;
+        const file = files.file?.[0];
+        if (!file) return res.status(400).json({ message: "No file uploaded", fieldErrors: {} });
+
+        const receiverId = String(req.body?.receiverId ?? "");
+        if (!receiverId || receiverId === me.id) {
+          return res.status(400).json({ message: "A valid receiverId is required", fieldErrors: {} });
+        }
+        const otherUser = await getDoc<any>("users", receiverId);
+        if (!otherUser) {
+          return res.status(404).json({ message: "Receiver not found", fieldErrors: {} });
+        }
+        if (!isStudentTutorPair(me, otherUser)) {
+          return res.status(403).json({ message: "Chat is only allowed between students and tutors", fieldErrors: {} });
+        }
+        if (await getChatSuspension(me.id)) {
+          return res.status(403).json({ message: "Your chat is suspended", fieldErrors: {}, blocked: true });
+        }
+
+        const attachment = await storeChatAttachment({
+          uploaderId: me.id,
+          recipientId: receiverId,
+          file,
+          thumbnail: files.thumbnail?.[0] ?? null,
+        });
+        res.status(201).json({ ...attachment, url: chatAttachmentUrl(attachment.id) });
+      } catch (error) {
+        if (error instanceof ChatAttachmentError) {
+          return res.status(error.status).json({ message: error.message, fieldErrors: {} });
+        }
+        console.error("Error uploading chat attachment:", error);
+        res.status(500).json({ message: "Failed to upload attachment", fieldErrors: {} });
+      }
+    }
+  );
+
+  // GET /api/chat/attachments/:id?variant=thumbnail  -> file bytes, for the two participants and admins
+  app.get("/api/chat/attachments/:id", requireUser, async (req, res) => {
+    try {
+      const variant = req.query.variant === "thumbnail" ? "thumbnail" : "original";
+      const file = await openChatAttachment(req.params.id, req.user!, variant);
+
+      res.setHeader("Content-Type", file.mimeType);
+      res.setHeader(
+        "Content-Disposition",
+        `${file.inline ? "inline" : "attachment"}; filename*=UTF-8''${encodeURIComponent(file.fileName)}`
+      );
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      res.setHeader("Cache-Control", "private, max-age=3600");
+      res.sendFile(file.filePath, (err) => {
+        if (err && !res.headersSent) {
+          console.error("Error sending chat attachment:", err);
+          res.status(404).json({ message: "Attachment not found", fieldErrors: {} });
+        }
+      });
+    } catch (error) {
+      if (error instanceof ChatAttachmentError) {
+        return res.status(error.status).json({ message: error.message, fieldErrors: {} });
+      }
+      console.error("Error fetching chat attachment:", error);
+      res.status(500).json({ message: "Failed to fetch attachment", fieldErrors: {} });
+    }
+  });
+
   // PUT /api/messages/read/:otherUserId  -> mark all messages FROM otherUserId TO me as read
   app.put("/api/messages/read/:otherUserId", requireUser, async (req, res) => {
     try {
@@ -3497,6 +5496,18 @@ I'm here to help you understand the concepts better and practice! Feel free to a
       }
       await batch.commit();
 
+      if (!snap.empty) {
+        publishToUser(otherUserId, { type: "message:read", readerId: me.id, readAt: new Date().toISOString() });
+      }
+
+      try {
+        const studentId = me.role === "student" ? me.id : otherUserId;
+        const tutorId = me.role === "tutor" ? me.id : otherUserId;
+        await markConversationRead(studentId, tutorId, me.id);
+      } catch (indexError) {
+        console.error("Failed to update conversation index:", indexError);
+      }
+
       // Also mark related NEW_MESSAGE notifications as read
       try {
         const notifSnap = await fdb!
@@ -3523,6 +5534,84 @@ I'm here to help you understand the concepts better and practice! Feel free to a
     }
   });
 
+  // === CONVERSATIONS (inbox index over messages) ===
+
+  // GET /api/conversations?limit=30&cursor=<conversationId>  -> inbox, most recent first
+  //   admins may pass ?userId= to read another user's inbox
+  app.get("/api/conversations", requireUser, async (req, res) => {
+    try {
+      const me = req.user!;
+      const userId = typeof req.query.userId === "string" && req.query.userId ? req.query.userId : me.id;
+      if (userId !== me.id && me.role !== "admin") {
+        return res.status(403).json({ message: "Not allowed", fieldErrors: {} });
+      }
+
+      const page = await listConversations(userId, {
+        limit: clampPageSize(req.query.limit),
+        cursor: typeof req.query.cursor === "string" ? req.query.cursor : null,
+      });
+
+      const otherIds = page.items.map((c) => (c.studentId === userId ? c.tutorId : c.studentId));
+      const users = await batchLoadMap<any>("users", otherIds);
+
+      res.json({
+        conversations: page.items.map((c, i) => ({
+          id: c.id,
+          otherUser: toPublicUser(users.get(otherIds[i]), otherIds[i]),
+          lastMessage: c.lastMessage
+            ? { ...c.lastMessage, createdAt: new Date(coerceMillis(c.lastMessage.createdAt)).toISOString() }
+            : null,
+          unreadCount: c.unreadCounts?.[userId] ?? 0,
+          messageCount: c.messageCount ?? 0,
+          lastActivityAt: new Date(coerceMillis(c.lastActivityAt)).toISOString(),
+        })),
+        nextCursor: page.nextCursor,
+      });
+    } catch (error) {
+      console.error("Error fetching conversations:", error);
+      if (error instanceof ConversationError) {
+        return res.status(error.status).json({ message: error.message, fieldErrors: {} });
+      }
+      res.status(500).json({ message: "Failed to fetch conversations", fieldErrors: {} });
+    }
+  });
+
+  // GET /api/admin/conversations/:id/messages?limit=30&before=<messageId>  -> one page of any conversation
+  app.get("/api/admin/conversations/:id/messages", requireUser, requireAdmin, async (req, res) => {
+    try {
+      const conversation = await getConversation(req.params.id);
+      if (!conversation) {
+        return res.status(404).json({ message: "Conversation not found", fieldErrors: {} });
+      }
+
+      const page = await listConversationMessages(conversation.studentId, conversation.tutorId, {
+        limit: clampPageSize(req.query.limit),
+        before: typeof req.query.before === "string" ? req.query.before : null,
+      });
+      const users = await batchLoadMap<any>("users", [conversation.studentId, conversation.tutorId]);
+      res.json({
+        messages: page.items.reverse().map((m) => toChatMessagePayload(m.id, m.data, users)),
+        nextCursor: page.nextCursor,
+      });
+    } catch (error) {
+      console.error("Error fetching conversation messages:", error);
+      if (error instanceof ConversationError) {
+        return res.status(error.status).json({ message: error.message, fieldErrors: {} });
+      }
+      res.status(500).json({ message: "Failed to fetch conversation messages", fieldErrors: {} });
+    }
+  });
+
+  // POST /api/admin/conversations/rebuild  -> recreate the index from messages (backfill / repair)
+  app.post("/api/admin/conversations/rebuild", requireUser, requireAdmin, async (_req, res) => {
+    try {
+      res.json(await rebuildConversationIndex());
+    } catch (error) {
+      console.error("Error rebuilding conversation index:", error);
+      res.status(500).json({ message: "Failed to rebuild conversation index", fieldErrors: {} });
+    }
+  });
+
   // === FAVORITES ===
   app.get("/api/favorites", requireUser, async (req, res) => {
     try {
@@ -3714,6 +5803,15 @@ I'm here to help you understand the concepts better and practice! Feel free to a
         updatedAt: now(),
       });
 
+      const tutorUserId = tutorDoc.get("userId");
+      if (approved && tutorUserId && !tutorDoc.get("isVerified")) {
+        await notifyUser(tutorUserId, "TUTOR_VERIFIED", {
+          title: "Your profile is verified",
+          body: "Your tutor profile was approved and is now visible to students.",
+          data: { tutorId },
+        });
+      }
+
       res.json({
         message: approved ? "Tutor approved successfully" : "Tutor rejected",
         success: true,
@@ -3726,9 +5824,92 @@ I'm here to help you understand the concepts better and practice! Feel free to a
     }
   });
 
+  // === CANCELLATION POLICY (admin) ===
+  app.get("/api/admin/cancellation-policy", requireUser, requireAdmin, async (_req, res) => {
+    try {
+      const policy = await getCancellationPolicy();
+      res.json({ policy, defaults: DEFAULT_CANCELLATION_POLICY });
+    } catch (error) {
+      console.error("Error fetching cancellation policy:", error);
+      res.status(500).json({ message: "Failed to fetch cancellation policy", fieldErrors: {} });
+    }
+  });
+
+  app.put("/api/admin/cancellation-policy", requireUser, requireAdmin, async (req, res) => {
+    try {
+      const body = cancellationPolicySchema.parse(req.body);
+      const policy = await saveCancellationPolicy(body, req.user!.id);
+      res.json({ policy });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation failed", fieldErrors: error.flatten().fieldErrors });
+      }
+      console.error("Error saving cancellation policy:", error);
+      res.status(500).json({ message: "Failed to save cancellation policy", fieldErrors: {} });
+    }
+  });
+
+  // === SCHEDULED JOBS ===
+  // Run in-process by the job scheduler (started from index.ts once the server listens)
+  registerJob({
+    name: "auto-complete-sessions",
+    description: "Mark sessions completed once their end time has passed",
+    intervalMinutes: 15,
+    run: (at) => autoCompleteSessions(at),
+  });
+  registerJob({
+    name: "expire-pending-sessions",
+    description: "Expire booking requests the tutor did not answer in time",
+    intervalMinutes: 15,
+    run: (at) => expirePendingSessions(at),
+  });
+  registerJob({
+    name: "expire-unclaimed-payments",
+    description: "Void payment holds and intents that no booking claimed",
+    intervalMinutes: 15,
+    run: (at) => expireUnclaimedPayments(at),
+  });
+  registerJob({
+    name: "session-reminders",
+    description: "Remind students and tutors ahead of scheduled sessions",
+    intervalMinutes: 5,
+    run: (at) => sendSessionReminders(at),
+  });
+  registerJob({
+    name: "deferred-emails",
+    description: "Send notification emails held back by quiet hours once they end",
+    intervalMinutes: 15,
+    run: (at) => sendDeferredEmails(at),
+  });
+  registerJob({
+    name: "notification-digest",
+    description: "Email users a daily digest of their unread notifications",
+    intervalMinutes: 24 * 60,
+    run: (at) => sendNotificationDigests(at),
+  });
+  registerJob({
+    name: "purge-realtime-events",
+    description: "Delete realtime events already fanned out to the other server instances",
+    intervalMinutes: 60,
+    run: (at) => purgeRealtimeEvents(at),
+  });
+  registerJob({
+    name: "purge-unclaimed-attachments",
+    description: "Delete chat attachments no message claimed, with their files",
+    intervalMinutes: 60,
+    run: (at) => purgeUnclaimedChatAttachments(at),
+  });
+  registerJob({
+    name: "refresh-tutor-stats",
+    description: "Rebuild the precomputed tutor stats the ranking scores from",
+    intervalMinutes: 6 * 60,
+    run: () => refreshAllTutorStats(),
+  });
+
    // === CRON: AUTO-COMPLETE SESSIONS ===
   // POST /api/admin/cron/auto-complete-sessions
-  // - In production: call regularly (e.g. via Cloud Scheduler) without "now" -> uses current time
+  // - Runs on its own via the "auto-complete-sessions" scheduled job; this runs it
+  //   now under the same lease, so it never overlaps a scheduled run
   // - For testing: send { "now": "2025-11-16T20:00:00Z" } or ?now=... to simulate future time
   app.post("/api/admin/cron/auto-complete-sessions", requireUser, requireAdmin, async (req, res) => {
     try {
@@ -3749,13 +5930,17 @@ I'm here to help you understand the concepts better and practice! Feel free to a
         cutoff = new Date();
       }
 
-      const result = await autoCompleteSessions(cutoff);
+      const run = await runJobNow("auto-complete-sessions", req.user!.id, cutoff);
+      if (run.status === "failed") throw new Error(run.error ?? "Job failed");
 
       res.json({
-        ...result,
+        ...run.result,
         cutoff: cutoff.toISOString(),
       });
     } catch (error) {
+      if (error instanceof JobSchedulerError) {
+        return res.status(error.status).json({ message: error.message, fieldErrors: {} });
+      }
       console.error("Error auto-completing sessions:", error);
       res.status(500).json({
         message: "Failed to auto-complete sessions",
@@ -3764,10 +5949,140 @@ I'm here to help you understand the concepts better and practice! Feel free to a
     }
   });
 
+  // === CRON: EXPIRE UNANSWERED REQUESTS ===
+  // POST /api/admin/cron/expire-pending-sessions
+  // Same "now" override as auto-complete for testing
+  app.post("/api/admin/cron/expire-pending-sessions", requireUser, requireAdmin, async (req, res) => {
+    try {
+      const nowParam =
+        (req.body && typeof req.body.now === "string" && req.body.now) ||
+        (typeof req.query.now === "string" ? (req.query.now as string) : undefined);
+
+      const at = nowParam ? new Date(nowParam) : new Date();
+      if (isNaN(at.getTime())) {
+        return res.status(400).json({ message: "Invalid 'now' parameter", fieldErrors: {} });
+      }
+
+      const run = await runJobNow("expire-pending-sessions", req.user!.id, at);
+      if (run.status === "failed") throw new Error(run.error ?? "Job failed");
+      res.json({ ...run.result, at: at.toISOString() });
+    } catch (error) {
+      if (error instanceof JobSchedulerError) {
+        return res.status(error.status).json({ message: error.message, fieldErrors: {} });
+      }
+      console.error("Error expiring pending sessions:", error);
+      res.status(500).json({ message: "Failed to expire pending sessions", fieldErrors: {} });
+    }
+  });
+
+  app.get("/api/admin/session-request-expiry", requireUser, requireAdmin, async (_req, res) => {
+    try {
+      const config = await getRequestExpiryConfig();
+      res.json({ config, defaults: DEFAULT_REQUEST_EXPIRY_CONFIG });
+    } catch (error) {
+      console.error("Error fetching request expiry config:", error);
+      res.status(500).json({ message: "Failed to fetch request expiry config", fieldErrors: {} });
+    }
+  });
+
+  app.put("/api/admin/session-request-expiry", requireUser, requireAdmin, async (req, res) => {
+    try {
+      const body = requestExpiryConfigSchema.parse(req.body);
+      const config = await saveRequestExpiryConfig(body, req.user!.id);
+      res.json({ config });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation failed", fieldErrors: error.flatten().fieldErrors });
+      }
+      console.error("Error saving request expiry config:", error);
+      res.status(500).json({ message: "Failed to save request expiry config", fieldErrors: {} });
+    }
+  });
+
+  app.get("/api/admin/ranking-weights", requireUser, requireAdmin, async (_req, res) => {
+    try {
+      const config = await getRankingWeightsConfig();
+      const stats = config.experimentEnabled ? await getRankingExperimentStats(config) : [];
+      res.json({ config, defaults: DEFAULT_RANKING_WEIGHTS_CONFIG, stats });
+    } catch (error) {
+      console.error("Error fetching ranking weights:", error);
+      res.status(500).json({ message: "Failed to fetch ranking weights", fieldErrors: {} });
+    }
+  });
+
+  app.put("/api/admin/ranking-weights", requireUser, requireAdmin, async (req, res) => {
+    try {
+      const body = rankingWeightsConfigSchema.parse(req.body);
+      const config = await saveRankingWeightsConfig(body, req.user!.id);
+      res.json({ config });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation failed", fieldErrors: error.flatten().fieldErrors });
+      }
+      console.error("Error saving ranking weights:", error);
+      res.status(500).json({ message: "Failed to save ranking weights", fieldErrors: {} });
+    }
+  });
+
+  app.get("/api/admin/session-reminders", requireUser, requireAdmin, async (_req, res) => {
+    try {
+      const config = await getSessionReminderConfig();
+      res.json({ config, defaults: DEFAULT_SESSION_REMINDER_CONFIG });
+    } catch (error) {
+      console.error("Error fetching session reminder config:", error);
+      res.status(500).json({ message: "Failed to fetch session reminder config", fieldErrors: {} });
+    }
+  });
+
+  app.put("/api/admin/session-reminders", requireUser, requireAdmin, async (req, res) => {
+    try {
+      const body = sessionReminderConfigSchema.parse(req.body);
+      const config = await saveSessionReminderConfig(body, req.user!.id);
+      res.json({ config });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation failed", fieldErrors: error.flatten().fieldErrors });
+      }
+      console.error("Error saving session reminder config:", error);
+      res.status(500).json({ message: "Failed to save session reminder config", fieldErrors: {} });
+    }
+  });
+
   // === STUDY BUDDY ROUTES ===
   // Mount all Study Buddy API routes
   app.use("/api/study-buddy", studyBuddyRoutes);
 
+  // === PAYMENT ROUTES ===
+  // Intents + authorizations backing session bookings
+  app.use("/api/payments", paymentRoutes);
+
+  // === EARNINGS & PAYOUT ROUTES ===
+  // Tutor earnings ledger, commission config and payout batches
+  app.use("/api/earnings", earningsRoutes);
+
+  // === SCHEDULER ROUTES ===
+  // Job run history and manual triggers for admins
+  app.use("/api/admin/jobs", schedulerRoutes);
+
+  // === MODERATION ROUTES ===
+  // Strike status and appeals for users, appeal queue and policy for admins
+  app.use("/api/moderation", moderationRoutes);
+
+  // === REVIEW ROUTES ===
+  // Per-session reviews, tutor replies, reports and the admin moderation queue
+  app.use("/api/reviews", reviewRoutes);
+
   const httpServer = createServer(app);
+
+  // === REALTIME (WebSocket push) ===
+  // Messages, read receipts, typing indicators and notifications
+  attachRealtime(httpServer, {
+    canMessage: async (fromUserId, toUserId) => {
+      const users = await batchLoadMap<any>("users", [fromUserId, toUserId]);
+      const from = users.get(fromUserId);
+      return !!from && isStudentTutorPair(from, users.get(toUserId) ?? null);
+    },
+  });
+
   return httpServer;
 }
@@ -0,0 +1,243 @@
+/**
+ * Earnings & Payout API Routes
+ *
+ * Tutor-facing ledger/statement endpoints plus the admin endpoints that
+ * configure commission and run payout batches.
+ */
+
+import { Router } from "express";
+import { z } from "zod";
+import { requireUser, requireAdmin, fdb } from "../firebase-admin";
+import {
+  DEFAULT_COMMISSION_CONFIG,
+  getCommissionConfig,
+  saveCommissionConfig,
+  getTutorEarningsSummary,
+} from "../services/payments/earningsLedger";
+import {
+  PayoutError,
+  createPayoutBatch,
+  listPayoutBatches,
+  listBatchPayouts,
+  markPayoutBatchPaid,
+  getPayout,
+  buildPayoutStatementCsv,
+} from "../services/payments/payoutService";
+
+const router = Router();
+
+const percent = z.number().min(0).max(100);
+
+const commissionConfigSchema = z.object({
+  defaultRatePercent: percent,
+  tierRates: z.record(percent),
+  subjectRates: z.record(percent),
+});
+
+const tutorTierSchema = z.object({
+  tier: z.string().trim().min(1).max(40).nullable(), // null clears the tier (default rate)
+});
+
+const createBatchSchema = z.object({
+  periodEnd: z.string().optional(), // ISO date; defaults to now
+});
+
+async function getTutorProfileForUser(userId: string): Promise<{ id: string; [key: string]: any } | null> {
+  const snap = await fdb!.collection("tutor_profiles").where("userId", "==", userId).limit(1).get();
+  return snap.empty ? null : { id: snap.docs[0].id, ...snap.docs[0].data() };
+}
+
+// ============================================================================
+// TUTOR ENDPOINTS
+// ============================================================================
+
+/**
+ * GET /api/earnings/me
+ * Ledger entries, balances and payouts for the signed-in tutor
+ */
+router.get("/me", requireUser, async (req, res) => {
+  try {
+    const user = req.user!;
+    if (user.role !== "tutor") {
+      return res.status(403).json({ message: "Only tutors have earnings", fieldErrors: {} });
+    }
+
+    const profile = await getTutorProfileForUser(user.id);
+    if (!profile) {
+      return res.status(404).json({ message: "Tutor profile not found", fieldErrors: {} });
+    }
+
+    res.json(await getTutorEarningsSummary(profile.id));
+  } catch (error) {
+    console.error("Error fetching tutor earnings:", error);
+    res.status(500).json({ message: "Failed to fetch earnings", fieldErrors: {} });
+  }
+});
+
+/**
+ * GET /api/earnings/payouts/:id/statement
+ * CSV statement for one payout (owning tutor or admin)
+ */
+router.get("/payouts/:id/statement", requireUser, async (req, res) => {
+  try {
+    const user = req.user!;
+    const payout = await getPayout(req.params.id);
+    if (!payout) {
+      return res.status(404).json({ message: "Payout not found", fieldErrors: {} });
+    }
+
+    const tutorProfile = (await fdb!.collection("tutor_profiles").doc(payout.tutorId).get()).data() ?? null;
+    if (user.role !== "admin" && tutorProfile?.userId !== user.id) {
+      return res.status(403).json({ message: "Not authorized to view this statement", fieldErrors: {} });
+    }
+
+    const tutorUser = tutorProfile?.userId
+      ? (await fdb!.collection("users").doc(tutorProfile.userId).get()).data()
+      : null;
+    const tutorName = [tutorUser?.firstName, tutorUser?.lastName].filter(Boolean).join(" ") || payout.tutorId;
+
+    const subjectsSnap = await fdb!.collection("subjects").get();
+    const subjectNames = new Map(subjectsSnap.docs.map((d) => [d.id, String(d.data().name ?? d.id)]));
+
+    const csv = await buildPayoutStatementCsv(payout, tutorName, subjectNames);
+
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader("Content-Disposition", `attachment; filename="payout-statement-${payout.id}.csv"`);
+    res.send(csv);
+  } catch (error) {
+    console.error("Error building payout statement:", error);
+    res.status(500).json({ message: "Failed to build statement", fieldErrors: {} });
+  }
+});
+
+// ============================================================================
+// ADMIN ENDPOINTS
+// ============================================================================
+
+/**
+ * GET /api/earnings/admin/commission
+ * Current commission config (with defaults for reference)
+ */
+router.get("/admin/commission", requireUser, requireAdmin, async (_req, res) => {
+  try {
+    res.json({ config: await getCommissionConfig(), defaults: DEFAULT_COMMISSION_CONFIG });
+  } catch (error) {
+    console.error("Error fetching commission config:", error);
+    res.status(500).json({ message: "Failed to fetch commission config", fieldErrors: {} });
+  }
+});
+
+/**
+ * PUT /api/earnings/admin/commission
+ * Replace the commission config (applies to earnings accrued from now on)
+ */
+router.put("/admin/commission", requireUser, requireAdmin, async (req, res) => {
+  try {
+    const body = commissionConfigSchema.parse(req.body);
+    res.json({ config: await saveCommissionConfig(body, req.user!.id) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Validation failed", fieldErrors: error.flatten().fieldErrors });
+    }
+    console.error("Error saving commission config:", error);
+    res.status(500).json({ message: "Failed to save commission config", fieldErrors: {} });
+  }
+});
+
+/**
+ * PUT /api/earnings/admin/tutors/:tutorId/tier
+ * Assign a tutor (tutor_profiles.id) to a commission tier
+ */
+router.put("/admin/tutors/:tutorId/tier", requireUser, requireAdmin, async (req, res) => {
+  try {
+    const { tier } = tutorTierSchema.parse(req.body);
+    const ref = fdb!.collection("tutor_profiles").doc(req.params.tutorId);
+    if (!(await ref.get()).exists) {
+      return res.status(404).json({ message: "Tutor profile not found", fieldErrors: {} });
+    }
+
+    await ref.set({ commissionTier: tier, updatedAt: new Date() }, { merge: true });
+    res.json({ tutorId: ref.id, commissionTier: tier });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Validation failed", fieldErrors: error.flatten().fieldErrors });
+    }
+    console.error("Error updating commission tier:", error);
+    res.status(500).json({ message: "Failed to update commission tier", fieldErrors: {} });
+  }
+});
+
+/**
+ * GET /api/earnings/admin/payout-batches
+ * Recent payout batches
+ */
+router.get("/admin/payout-batches", requireUser, requireAdmin, async (_req, res) => {
+  try {
+    res.json(await listPayoutBatches());
+  } catch (error) {
+    console.error("Error listing payout batches:", error);
+    res.status(500).json({ message: "Failed to list payout batches", fieldErrors: {} });
+  }
+});
+
+/**
+ * POST /api/earnings/admin/payout-batches
+ * Group unpaid earnings up to periodEnd into per-tutor payouts
+ */
+router.post("/admin/payout-batches", requireUser, requireAdmin, async (req, res) => {
+  try {
+    const body = createBatchSchema.parse(req.body ?? {});
+    const periodEnd = body.periodEnd ? new Date(body.periodEnd) : new Date();
+    if (isNaN(periodEnd.getTime())) {
+      return res.status(400).json({ message: "Invalid periodEnd", fieldErrors: {} });
+    }
+
+    const batch = await createPayoutBatch(periodEnd, req.user!.id);
+    if (!batch) {
+      return res.status(409).json({ message: "No unpaid earnings for this period", fieldErrors: {} });
+    }
+
+    res.status(201).json(batch);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Validation failed", fieldErrors: error.flatten().fieldErrors });
+    }
+    if (error instanceof PayoutError) {
+      return res.status(error.status).json({ message: error.message, fieldErrors: {} });
+    }
+    console.error("Error creating payout batch:", error);
+    res.status(500).json({ message: "Failed to create payout batch", fieldErrors: {} });
+  }
+});
+
+/**
+ * GET /api/earnings/admin/payout-batches/:id/payouts
+ * Per-tutor payouts in a batch
+ */
+router.get("/admin/payout-batches/:id/payouts", requireUser, requireAdmin, async (req, res) => {
+  try {
+    res.json(await listBatchPayouts(req.params.id));
+  } catch (error) {
+    console.error("Error listing batch payouts:", error);
+    res.status(500).json({ message: "Failed to list payouts", fieldErrors: {} });
+  }
+});
+
+/**
+ * POST /api/earnings/admin/payout-batches/:id/mark-paid
+ * Record that the batch's transfers were sent
+ */
+router.post("/admin/payout-batches/:id/mark-paid", requireUser, requireAdmin, async (req, res) => {
+  try {
+    const batch = await markPayoutBatchPaid(req.params.id, req.user!.id);
+    if (!batch) {
+      return res.status(404).json({ message: "Payout batch not found", fieldErrors: {} });
+    }
+    res.json(batch);
+  } catch (error) {
+    console.error("Error marking payout batch paid:", error);
+    res.status(500).json({ message: "Failed to mark payout batch paid", fieldErrors: {} });
+  }
+});
+
+export default router;
@@ -0,0 +1,126 @@
+/**
+ * Chat Moderation API Routes
+ *
+ * Lets users see their strikes and appeal a blocked message, and lets admins
+ * work through the appeal queue and tune the strike/suspension policy.
+ */
+
+import { Router } from "express";
+import { z } from "zod";
+import { requireUser, requireAdmin } from "../firebase-admin";
+import {
+  ModerationError,
+  getChatModerationConfig,
+  getModerationStatus,
+  listAppeals,
+  resolveAppeal,
+  saveChatModerationConfig,
+  submitAppeal,
+} from "../services/moderation/chatModeration";
+import { getModerationRules } from "../services/moderation/messageModeration";
+
+const router = Router();
+
+const appealSchema = z.object({
+  violationId: z.string().min(1),
+  reason: z.string().trim().min(10, "Please explain in at least 10 characters").max(1000),
+});
+
+const resolveAppealSchema = z.object({
+  decision: z.enum(["upheld", "overturned"]),
+  note: z.string().trim().max(1000).optional(),
+});
+
+const moderationConfigSchema = z.object({
+  strikeThreshold: z.number().int().min(1).max(20),
+  strikeWindowDays: z.number().int().min(1).max(365),
+  suspensionHours: z.number().int().min(1).max(24 * 90),
+});
+
+function sendModerationError(res: any, error: unknown, fallback: string) {
+  if (error instanceof ModerationError) {
+    return res.status(error.status).json({ message: error.message, fieldErrors: {} });
+  }
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: "Validation failed", fieldErrors: error.flatten().fieldErrors });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ message: fallback, fieldErrors: {} });
+}
+
+/**
+ * GET /api/moderation/me
+ * Current strikes, suspension and recent blocked messages with their appeals
+ */
+router.get("/me", requireUser, async (req, res) => {
+  try {
+    res.json(await getModerationStatus(req.user!.id));
+  } catch (error) {
+    sendModerationError(res, error, "Failed to fetch moderation status");
+  }
+});
+
+/**
+ * POST /api/moderation/appeals
+ * Appeal one blocked message (once per strike)
+ */
+router.post("/appeals", requireUser, async (req, res) => {
+  try {
+    const { violationId, reason } = appealSchema.parse(req.body);
+    res.status(201).json(await submitAppeal(req.user!, violationId, reason));
+  } catch (error) {
+    sendModerationError(res, error, "Failed to submit appeal");
+  }
+});
+
+/**
+ * GET /api/moderation/admin/appeals?status=pending
+ * Appeal queue with the blocked message, the user and their strike count
+ */
+router.get("/admin/appeals", requireUser, requireAdmin, async (req, res) => {
+  try {
+    const status = z.enum(["pending", "upheld", "overturned"]).optional().parse(req.query.status || undefined);
+    res.json(await listAppeals(status));
+  } catch (error) {
+    sendModerationError(res, error, "Failed to fetch appeals");
+  }
+});
+
+/**
+ * PUT /api/moderation/admin/appeals/:id
+ * Uphold or overturn an appeal; overturning removes the strike
+ */
+router.put("/admin/appeals/:id", requireUser, requireAdmin, async (req, res) => {
+  try {
+    const { decision, note } = resolveAppealSchema.parse(req.body);
+    res.json(await resolveAppeal(req.params.id, decision, req.user!.id, note));
+  } catch (error) {
+    sendModerationError(res, error, "Failed to resolve appeal");
+  }
+});
+
+/**
+ * GET /api/moderation/admin/config
+ * Strike/suspension policy plus the active moderation rules
+ */
+router.get("/admin/config", requireUser, requireAdmin, async (_req, res) => {
+  try {
+    res.json({ config: await getChatModerationConfig(), rules: getModerationRules() });
+  } catch (error) {
+    sendModerationError(res, error, "Failed to fetch moderation config");
+  }
+});
+
+/**
+ * PUT /api/moderation/admin/config
+ */
+router.put("/admin/config", requireUser, requireAdmin, async (req, res) => {
+  try {
+    const config = moderationConfigSchema.parse(req.body);
+    res.json({ config: await saveChatModerationConfig(config, req.user!.id), rules: getModerationRules() });
+  } catch (error) {
+    sendModerationError(res, error, "Failed to save moderation config");
+  }
+});
+
+export default router;
@@ -0,0 +1,143 @@
+/**
+ * Payment API Routes
+ *
+ * Intent/authorization endpoints used by the booking flow. Capture and void
+ * happen server-side as the session status changes (see PUT /api/sessions/:id);
+ * the booking flow releases a hold itself only when its booking fails.
+ */
+
+import { Router } from "express";
+import { z } from "zod";
+import { requireUser, fdb } from "../firebase-admin";
+import {
+  PaymentError,
+  createPaymentIntent,
+  authorizePayment,
+  getPayment,
+  releaseUnclaimedPayment,
+} from "../services/payments/paymentService";
+
+const router = Router();
+
+const paymentMethodSchema = z.enum(["paypal", "applepay", "benefitpay"]);
+
+const createIntentSchema = z.object({
+  tutorId: z.string(), // tutor_profiles.id OR the tutor's userId
+  subjectId: z.string(),
+  durationMinutes: z.number().int().positive().max(12 * 60),
+  method: paymentMethodSchema,
+});
+
+const authorizeSchema = z.object({
+  paymentToken: z.string().optional(),
+});
+
+async function resolveTutorProfile(tutorId: string): Promise<any | null> {
+  const byId = await fdb!.collection("tutor_profiles").doc(tutorId).get();
+  if (byId.exists) return { id: byId.id, ...byId.data() };
+
+  const byUser = await fdb!.collection("tutor_profiles").where("userId", "==", tutorId).limit(1).get();
+  return byUser.empty ? null : { id: byUser.docs[0].id, ...byUser.docs[0].data() };
+}
+
+function sendPaymentError(res: any, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: "Validation failed", fieldErrors: error.flatten().fieldErrors });
+  }
+  if (error instanceof PaymentError) {
+    return res.status(error.status).json({ message: error.message, fieldErrors: {} });
+  }
+  return res.status(500).json({ message: fallback, fieldErrors: {} });
+}
+
+/**
+ * POST /api/payments/intents
+ * Price the booking server-side and open a payment intent for it
+ */
+router.post("/intents", requireUser, async (req, res) => {
+  try {
+    const user = req.user!;
+    if (user.role !== "student") {
+      return res.status(403).json({ message: "Only students can pay for sessions", fieldErrors: {} });
+    }
+
+    const body = createIntentSchema.parse(req.body);
+    const tutorProfile = await resolveTutorProfile(body.tutorId);
+    if (!tutorProfile) {
+      return res.status(404).json({ message: "Tutor profile not found", fieldErrors: {} });
+    }
+
+    const payment = await createPaymentIntent({
+      studentId: user.id,
+      tutorProfile,
+      subjectId: body.subjectId,
+      durationMinutes: body.durationMinutes,
+      method: body.method,
+    });
+
+    res.status(201).json(payment);
+  } catch (error) {
+    console.error("Error creating payment intent:", error);
+    sendPaymentError(res, error, "Failed to create payment intent");
+  }
+});
+
+/**
+ * POST /api/payments/:id/authorize
+ * Place the hold; the returned payment id is then passed to POST /api/sessions
+ */
+router.post("/:id/authorize", requireUser, async (req, res) => {
+  try {
+    const body = authorizeSchema.parse(req.body ?? {});
+    const payment = await authorizePayment(req.params.id, req.user!.id, body.paymentToken);
+    res.json(payment);
+  } catch (error) {
+    console.error("Error authorizing payment:", error);
+    sendPaymentError(res, error, "Failed to authorize payment");
+  }
+});
+
+/**
+ * POST /api/payments/:id/void
+ * Release a hold whose booking failed; holds already claimed by a session are left alone
+ */
+router.post("/:id/void", requireUser, async (req, res) => {
+  try {
+    const payment = await releaseUnclaimedPayment(req.params.id, req.user!.id);
+    if (!payment) {
+      return res.status(409).json({ message: "Payment is attached to a session", fieldErrors: {} });
+    }
+    res.json(payment);
+  } catch (error) {
+    console.error("Error voiding payment:", error);
+    sendPaymentError(res, error, "Failed to void payment");
+  }
+});
+
+/**
+ * GET /api/payments/:id
+ * Payment ledger entry (payer, tutor or admin only)
+ */
+router.get("/:id", requireUser, async (req, res) => {
+  try {
+    const user = req.user!;
+    const payment = await getPayment(req.params.id);
+    if (!payment) {
+      return res.status(404).json({ message: "Payment not found", fieldErrors: {} });
+    }
+
+    if (user.role !== "admin" && payment.studentId !== user.id) {
+      const tutorProfile = user.role === "tutor" ? await resolveTutorProfile(user.id) : null;
+      if (!tutorProfile || tutorProfile.id !== payment.tutorId) {
+        return res.status(403).json({ message: "Not authorized to view this payment", fieldErrors: {} });
+      }
+    }
+
+    res.json(payment);
+  } catch (error) {
+    console.error("Error fetching payment:", error);
+    sendPaymentError(res, error, "Failed to fetch payment");
+  }
+});
+
+export default router;
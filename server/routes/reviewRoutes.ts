@@ -0,0 +1,240 @@
+/**
+ * Review API Routes
+ *
+ * Per-session reviews by students, public replies by tutors, reports by any
+ * signed-in user, and the admin moderation queue.
+ */
+
+import { Router } from "express";
+import { z } from "zod";
+import { fdb, requireUser, requireAdmin } from "../firebase-admin";
+import { RATING_DIMENSION_IDS, REVIEW_TAG_IDS } from "../../shared/ratings";
+import type { RatingDimension, ReviewTag } from "../../shared/types";
+import {
+  ReviewError,
+  createSessionReview,
+  isPublishedReview,
+  listModerationQueue,
+  listReviewableSessions,
+  moderateReview,
+  recomputeAllTutorRatings,
+  reportReview,
+  setReviewReply,
+  toPublicReview,
+} from "../services/reviews/reviewService";
+import { refreshTutorStatsFor } from "../services/tutors/tutorStats";
+import { toPublicUser } from "../services/users/publicUser";
+
+const router = Router();
+
+const createReviewSchema = z.object({
+  sessionId: z.string().min(1),
+  rating: z.number().int().min(1).max(5),
+  dimensions: z
+    .record(z.enum(RATING_DIMENSION_IDS as [RatingDimension, ...RatingDimension[]]), z.number().int().min(1).max(5))
+    .optional(),
+  tags: z.array(z.enum(REVIEW_TAG_IDS as [ReviewTag, ...ReviewTag[]])).max(5).optional(),
+  comment: z.string().max(2000).optional(),
+});
+
+const replySchema = z.object({
+  text: z.string().trim().min(1, "Reply cannot be empty").max(1000),
+});
+
+const reportSchema = z.object({
+  reason: z.enum(["abusive", "spam", "personal_info", "off_topic", "other"]),
+  details: z.string().trim().max(1000).optional(),
+});
+
+const moderateSchema = z.object({
+  action: z.enum(["hide", "restore", "hide_reply", "dismiss_reports"]),
+  note: z.string().trim().max(1000).optional(),
+});
+
+function sendReviewError(res: any, error: unknown, fallback: string) {
+  if (error instanceof ReviewError) {
+    return res.status(error.status).json({ message: error.message, fieldErrors: {} });
+  }
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: "Invalid review data", fieldErrors: error.flatten().fieldErrors });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ message: fallback, fieldErrors: {} });
+}
+
+async function loadUsers(ids: string[]) {
+  const unique = Array.from(new Set(ids.filter(Boolean)));
+  const snaps = unique.length ? await fdb!.getAll(...unique.map((id) => fdb!.collection("users").doc(id))) : [];
+  return new Map(snaps.filter((s) => s.exists).map((s) => [s.id, { id: s.id, ...(s.data() as any) }]));
+}
+
+/**
+ * GET /api/reviews/eligible/:tutorId
+ * Completed sessions with this tutor the student has not reviewed yet
+ */
+router.get("/eligible/:tutorId", requireUser, async (req, res) => {
+  try {
+    if (req.user!.role !== "student") {
+      return res.json({ sessions: [], remaining: 0, cap: 0 });
+    }
+    const result = await listReviewableSessions(req.user!.id, req.params.tutorId);
+    const subjectIds = Array.from(new Set(result.sessions.map((s) => s.subjectId).filter(Boolean)));
+    const subjectSnaps = subjectIds.length
+      ? await fdb!.getAll(...subjectIds.map((id) => fdb!.collection("subjects").doc(id)))
+      : [];
+    const subjects = new Map(subjectSnaps.map((s) => [s.id, s.data()?.name ?? null]));
+
+    res.json({
+      ...result,
+      sessions: result.sessions.map((s) => ({
+        id: s.id,
+        scheduledAt: s.scheduledAt,
+        subjectName: subjects.get(s.subjectId) ?? null,
+      })),
+    });
+  } catch (error) {
+    sendReviewError(res, error, "Failed to fetch reviewable sessions");
+  }
+});
+
+/**
+ * GET /api/reviews/admin/queue?filter=flagged|hidden
+ * Reported reviews awaiting action, or the ones already hidden
+ */
+router.get("/admin/queue", requireUser, requireAdmin, async (req, res) => {
+  try {
+    const filter = z.enum(["flagged", "hidden"]).default("flagged").parse(req.query.filter || undefined);
+    const reviews = await listModerationQueue(filter);
+
+    const tutorIds = Array.from(new Set(reviews.map((r) => r.tutorId)));
+    const profileSnaps = tutorIds.length
+      ? await fdb!.getAll(...tutorIds.map((id) => fdb!.collection("tutor_profiles").doc(id)))
+      : [];
+    const tutorUserIds = new Map(profileSnaps.map((s) => [s.id, s.data()?.userId as string | undefined]));
+    const users = await loadUsers([
+      ...reviews.map((r) => r.studentId),
+      ...Array.from(tutorUserIds.values()).filter((id): id is string => !!id),
+    ]);
+    const summary = (u: any) => (u ? { id: u.id, firstName: u.firstName, lastName: u.lastName, email: u.email } : null);
+
+    res.json(
+      reviews.map((r) => ({
+        ...r,
+        student: summary(users.get(r.studentId)),
+        tutor: summary(users.get(tutorUserIds.get(r.tutorId) ?? "")),
+      }))
+    );
+  } catch (error) {
+    sendReviewError(res, error, "Failed to fetch review queue");
+  }
+});
+
+/**
+ * PUT /api/reviews/admin/:id
+ * Hide or restore a review, hide its reply, or dismiss the reports
+ */
+router.put("/admin/:id", requireUser, requireAdmin, async (req, res) => {
+  try {
+    const { action, note } = moderateSchema.parse(req.body);
+    const review = await moderateReview(req.user!.id, req.params.id, action, note);
+    if (action === "hide" || action === "restore") void refreshTutorStatsFor([review.tutorId]);
+    res.json(review);
+  } catch (error) {
+    sendReviewError(res, error, "Failed to moderate review");
+  }
+});
+
+/**
+ * POST /api/reviews/admin/recompute-ratings
+ * Rewrite every TutorProfile's rating fields from the published reviews
+ */
+router.post("/admin/recompute-ratings", requireUser, requireAdmin, async (_req, res) => {
+  try {
+    res.json(await recomputeAllTutorRatings());
+  } catch (error) {
+    sendReviewError(res, error, "Failed to recompute ratings");
+  }
+});
+
+/**
+ * GET /api/reviews/:tutorId
+ * Published reviews of a tutor, newest first
+ */
+router.get("/:tutorId", async (req, res) => {
+  try {
+    const snap = await fdb!
+      .collection("reviews")
+      .where("tutorId", "==", req.params.tutorId)
+      .orderBy("createdAt", "desc")
+      .get();
+    const raw = snap.docs
+      .map((d) => ({ id: d.id, ...(d.data() as any) }))
+      .filter((r) => isPublishedReview(r))
+      .map((r) => {
+        // Reporting is between the reporter and admins
+        const { reportCount, flagged, lastReportedAt, moderation, ...rest } = toPublicReview(r);
+        return rest;
+      });
+    const students = await loadUsers(raw.map((r) => r.studentId));
+    res.json(raw.map((r) => ({ ...r, student: toPublicUser(students.get(r.studentId)) })));
+  } catch (error) {
+    sendReviewError(res, error, "Failed to fetch reviews");
+  }
+});
+
+/**
+ * POST /api/reviews
+ * Review a completed session (students only)
+ */
+router.post("/", requireUser, async (req, res) => {
+  try {
+    if (req.user!.role !== "student") {
+      return res.status(403).json({ message: "Only students can submit reviews", fieldErrors: {} });
+    }
+    const body = createReviewSchema.parse(req.body);
+    const review = await createSessionReview(req.user!, body);
+    void refreshTutorStatsFor([review.tutorId]);
+    res.status(201).json(review);
+  } catch (error) {
+    sendReviewError(res, error, "Failed to create review");
+  }
+});
+
+/**
+ * PUT /api/reviews/:id/reply
+ * Post or edit the tutor's public reply
+ */
+router.put("/:id/reply", requireUser, async (req, res) => {
+  try {
+    const { text } = replySchema.parse(req.body);
+    res.json(await setReviewReply(req.user!, req.params.id, text));
+  } catch (error) {
+    sendReviewError(res, error, "Failed to save reply");
+  }
+});
+
+/**
+ * DELETE /api/reviews/:id/reply
+ */
+router.delete("/:id/reply", requireUser, async (req, res) => {
+  try {
+    res.json(await setReviewReply(req.user!, req.params.id, null));
+  } catch (error) {
+    sendReviewError(res, error, "Failed to delete reply");
+  }
+});
+
+/**
+ * POST /api/reviews/:id/report
+ * Flag a review for moderators (once per user)
+ */
+router.post("/:id/report", requireUser, async (req, res) => {
+  try {
+    const { reason, details } = reportSchema.parse(req.body);
+    res.status(201).json(await reportReview(req.user!, req.params.id, reason, details));
+  } catch (error) {
+    sendReviewError(res, error, "Failed to report review");
+  }
+});
+
+export default router;
@@ -0,0 +1,59 @@
+/**
+ * Scheduled Job API Routes
+ *
+ * Admin endpoints to inspect the in-process job scheduler (last runs, lease
+ * holders, errors) and to trigger a job by hand.
+ */
+
+import { Router } from "express";
+import { requireUser, requireAdmin } from "../firebase-admin";
+import { JobSchedulerError, listJobRuns, listJobs, runJobNow } from "../services/scheduler/jobScheduler";
+
+const router = Router();
+
+/**
+ * GET /api/admin/jobs
+ * Registered jobs with their schedule and latest outcome
+ */
+router.get("/", requireUser, requireAdmin, async (_req, res) => {
+  try {
+    res.json(await listJobs());
+  } catch (error) {
+    console.error("Error listing scheduled jobs:", error);
+    res.status(500).json({ message: "Failed to list scheduled jobs", fieldErrors: {} });
+  }
+});
+
+/**
+ * GET /api/admin/jobs/runs?job=auto-complete-sessions&limit=50
+ * Run history, newest first
+ */
+router.get("/runs", requireUser, requireAdmin, async (req, res) => {
+  try {
+    const job = typeof req.query.job === "string" && req.query.job ? req.query.job : undefined;
+    const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 200);
+    res.json(await listJobRuns(job, limit));
+  } catch (error) {
+    console.error("Error listing job runs:", error);
+    res.status(500).json({ message: "Failed to list job runs", fieldErrors: {} });
+  }
+});
+
+/**
+ * POST /api/admin/jobs/:name/run
+ * Run a job now; 409 while a run (on any instance) holds its lease
+ */
+router.post("/:name/run", requireUser, requireAdmin, async (req, res) => {
+  try {
+    const run = await runJobNow(req.params.name, req.user!.id);
+    res.json(run);
+  } catch (error) {
+    if (error instanceof JobSchedulerError) {
+      return res.status(error.status).json({ message: error.message, fieldErrors: {} });
+    }
+    console.error("Error running job:", error);
+    res.status(500).json({ message: "Failed to run job", fieldErrors: {} });
+  }
+});
+
+export default router;
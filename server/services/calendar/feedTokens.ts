@@ -0,0 +1,62 @@
+/**
+ * Calendar Feed Tokens
+ *
+ * The secret in a user's iCal subscription URL. Tokens live only in the
+ * server-only `calendar_feed_tokens/{token}` collection, one per user and
+ * found by userId. They are never stored on the user document: parts of that
+ * document are shown to other people. Rotating deletes the old token, which
+ * revokes its URL at once.
+ */
+
+import { randomBytes } from "crypto";
+import { FieldValue } from "firebase-admin/firestore";
+import { fdb } from "../../firebase-admin";
+import type { CalendarFeedToken } from "../../../shared/types";
+
+const tokensCol = () => fdb!.collection("calendar_feed_tokens");
+
+/** Current feed token of the user, creating one on first use or replacing it when rotating */
+export async function getOrCreateFeedToken(userId: string, rotate = false): Promise<string> {
+  return fdb!.runTransaction(async (tx) => {
+    const existing = await tx.get(tokensCol().where("userId", "==", userId));
+    if (!rotate && existing.size === 1) return existing.docs[0].id;
+
+    const token = randomBytes(24).toString("hex");
+    const feedToken: CalendarFeedToken = { userId, createdAt: new Date() };
+    existing.docs.forEach((d) => tx.delete(d.ref));
+    tx.set(tokensCol().doc(token), feedToken);
+    return token;
+  });
+}
+
+/** Owner of a feed token, or null for unknown / revoked tokens */
+export async function resolveFeedToken(token: string): Promise<string | null> {
+  if (!token) return null;
+  const snap = await tokensCol().doc(token).get();
+  return snap.exists ? ((snap.data() as CalendarFeedToken).userId ?? null) : null;
+}
+
+/**
+ * One-off cleanup: tokens used to be copied onto `users.calendarFeedToken`,
+ * where other users could read them. Clear the field and revoke those tokens;
+ * their owners get a fresh URL the next time they open their subscription.
+ */
+export async function revokeExposedFeedTokens(): Promise<{ users: number; revoked: number }> {
+  const snap = await fdb!.collection("users").where("calendarFeedToken", "!=", null).get();
+  let revoked = 0;
+
+  for (const doc of snap.docs) {
+    const token = doc.get("calendarFeedToken");
+    const batch = fdb!.batch();
+    if (typeof token === "string" && token) {
+      batch.delete(tokensCol().doc(token));
+      revoked++;
+    }
+    batch.update(doc.ref, { calendarFeedToken: FieldValue.delete() });
+    await batch.commit();
+  }
+
+  console.log(`revokeExposedFeedTokens: users=${snap.size}, revoked=${revoked}`);
+
+  return { users: snap.size, revoked };
+}
@@ -0,0 +1,121 @@
+/**
+ * iCalendar (RFC 5545)
+ *
+ * Builds the text/calendar documents behind the per-user subscription feed
+ * and the .ics invites attached to session emails. Every session keeps the
+ * same UID for its whole life; `icalSequence` on the session is bumped when
+ * it is moved or cancelled so calendar apps replace the earlier copy instead
+ * of adding a second event.
+ */
+
+export const ICAL_PRODUCT_ID = "-//Daresni//Tutoring Sessions//EN";
+
+export type ICalMethod = "PUBLISH" | "REQUEST" | "CANCEL";
+
+export interface ICalAttendee {
+  email: string;
+  name?: string | null;
+}
+
+export interface ICalEvent {
+  uid: string;
+  sequence: number;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string | null;
+  url?: string | null;
+  location?: string | null;
+  status: "CONFIRMED" | "TENTATIVE" | "CANCELLED";
+  organizer?: ICalAttendee | null;
+  attendees?: ICalAttendee[];
+  updatedAt?: Date | null;
+}
+
+/** Stable UID for a session, shared by the feed and every invite */
+export function sessionEventUid(sessionId: string): string {
+  return `session-${sessionId}@daresni`;
+}
+
+// 20250301T060000Z
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+function escapeParam(value: string): string {
+  return /[;:,"]/.test(value) ? `"${value.replace(/"/g, "'")}"` : value;
+}
+
+// Lines longer than 75 octets are folded onto continuation lines starting with a space
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line, "utf8");
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const ch of line) {
+    const size = Buffer.byteLength(ch, "utf8");
+    const limit = parts.length === 0 ? 75 : 74; // continuation lines lose one octet to the leading space
+    if (currentBytes + size > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += ch;
+    currentBytes += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function person(prop: "ORGANIZER" | "ATTENDEE", p: ICalAttendee, extra = ""): string {
+  const cn = p.name ? `;CN=${escapeParam(p.name)}` : "";
+  return `${prop}${cn}${extra}:mailto:${p.email}`;
+}
+
+function eventLines(event: ICalEvent, method?: ICalMethod): string[] {
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `SEQUENCE:${event.sequence}`,
+    `DTSTAMP:${formatUtc(new Date())}`,
+    `DTSTART:${formatUtc(event.start)}`,
+    `DTEND:${formatUtc(event.end)}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+    `STATUS:${event.status}`,
+  ];
+  if (event.updatedAt) lines.push(`LAST-MODIFIED:${formatUtc(event.updatedAt)}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  if (event.organizer) lines.push(person("ORGANIZER", event.organizer));
+  for (const a of event.attendees ?? []) {
+    // Invites ask for a reply; feeds just list who takes part
+    const rsvp = method === "REQUEST" ? ";ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=FALSE" : "";
+    lines.push(person("ATTENDEE", a, rsvp));
+  }
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+/** A complete VCALENDAR document with CRLF line endings */
+export function buildCalendar(options: { events: ICalEvent[]; method?: ICalMethod; name?: string }): string {
+  const lines = ["BEGIN:VCALENDAR", "VERSION:2.0", `PRODID:${ICAL_PRODUCT_ID}`, "CALSCALE:GREGORIAN"];
+  if (options.method) lines.push(`METHOD:${options.method}`);
+  if (options.name) {
+    lines.push(`X-WR-CALNAME:${escapeText(options.name)}`);
+    lines.push("REFRESH-INTERVAL;VALUE=DURATION:PT1H", "X-PUBLISHED-TTL:PT1H");
+  }
+  for (const event of options.events) lines.push(...eventLines(event, options.method));
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
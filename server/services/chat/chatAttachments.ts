@@ -0,0 +1,338 @@
+/**
+ * Chat Attachments
+ *
+ * Files sent in student–tutor chat: worksheets, photos of homework, PDFs.
+ * Unlike profile pictures and certifications they are not written under the
+ * public /uploads directory. They live in CHAT_ATTACHMENTS_DIR and are only
+ * served through GET /api/chat/attachments/:id, which lets in the uploader,
+ * the recipient and admins.
+ *
+ * A file is accepted when its declared MIME type is on the allow-list and its
+ * leading bytes match that type, so a renamed executable cannot pass as a PDF.
+ *
+ * Image thumbnails are made by the sending browser (a canvas downscale) and
+ * uploaded next to the original; the server checks them like any other image.
+ * When none was sent the original is served in its place.
+ *
+ * Uploads no message claimed (the message was never sent, or moderation
+ * blocked it) are deleted by a scheduled job after UNCLAIMED_ATTACHMENT_HOURS.
+ */
+
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import type { Transaction } from "firebase-admin/firestore";
+import { fdb } from "../../firebase-admin";
+import type { FileUpload, MessageAttachment } from "../../../shared/types";
+
+export const CHAT_ATTACHMENTS_DIR = path.join(process.cwd(), "private_uploads", "chat");
+
+export const CHAT_ATTACHMENT_MAX_BYTES = 10 * 1024 * 1024;
+export const CHAT_THUMBNAIL_MAX_BYTES = 200 * 1024;
+export const UNCLAIMED_ATTACHMENT_HOURS = 24;
+
+export class ChatAttachmentError extends Error {
+  status: number;
+  constructor(message: string, status = 400) {
+    super(message);
+    this.status = status;
+  }
+}
+
+export interface UploadedFile {
+  buffer: Buffer;
+  mimetype: string;
+  originalname: string;
+  size: number;
+}
+
+interface AttachmentTypeRule {
+  ext: string;
+  isImage: boolean;
+  /** Whether the browser may render it inline (everything else is downloaded) */
+  inline: boolean;
+  matches: (head: Buffer) => boolean;
+}
+
+const startsWith = (head: Buffer, bytes: number[]) => bytes.every((b, i) => head[i] === b);
+const ascii = (head: Buffer, start: number, text: string) =>
+  head.subarray(start, start + text.length).toString("latin1") === text;
+
+const ZIP = [0x50, 0x4b, 0x03, 0x04];
+const OLE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+
+export const CHAT_ATTACHMENT_TYPES: Record<string, AttachmentTypeRule> = {
+  "image/jpeg": { ext: ".jpg", isImage: true, inline: true, matches: (h) => startsWith(h, [0xff, 0xd8, 0xff]) },
+  "image/png": { ext: ".png", isImage: true, inline: true, matches: (h) => startsWith(h, [0x89, 0x50, 0x4e, 0x47]) },
+  "image/gif": { ext: ".gif", isImage: true, inline: true, matches: (h) => ascii(h, 0, "GIF8") },
+  "image/webp": {
+    ext: ".webp",
+    isImage: true,
+    inline: true,
+    matches: (h) => ascii(h, 0, "RIFF") && ascii(h, 8, "WEBP"),
+  },
+  "application/pdf": { ext: ".pdf", isImage: false, inline: true, matches: (h) => ascii(h, 0, "%PDF-") },
+  "application/msword": { ext: ".doc", isImage: false, inline: false, matches: (h) => startsWith(h, OLE) },
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": {
+    ext: ".docx",
+    isImage: false,
+    inline: false,
+    matches: (h) => startsWith(h, ZIP),
+  },
+  "application/vnd.ms-powerpoint": { ext: ".ppt", isImage: false, inline: false, matches: (h) => startsWith(h, OLE) },
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation": {
+    ext: ".pptx",
+    isImage: false,
+    inline: false,
+    matches: (h) => startsWith(h, ZIP),
+  },
+  "text/plain": { ext: ".txt", isImage: false, inline: false, matches: (h) => !h.includes(0) },
+};
+
+const THUMBNAIL_TYPES = ["image/jpeg", "image/png", "image/webp"];
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+function ruleFor(file: UploadedFile, what: string): AttachmentTypeRule {
+  const rule = CHAT_ATTACHMENT_TYPES[file.mimetype];
+  if (!rule) {
+    throw new ChatAttachmentError(`${what} type is not allowed. Send images, PDFs, Word, PowerPoint or text files.`);
+  }
+  if (!file.size) throw new ChatAttachmentError(`${what} is empty`);
+  if (!rule.matches(file.buffer.subarray(0, 1024))) {
+    throw new ChatAttachmentError(`${what} content does not match its type`);
+  }
+  return rule;
+}
+
+/** Check type, size and content of an attachment and its optional thumbnail */
+export function validateChatAttachment(file: UploadedFile, thumbnail?: UploadedFile | null): AttachmentTypeRule {
+  if (file.size > CHAT_ATTACHMENT_MAX_BYTES) {
+    throw new ChatAttachmentError(`Attachments can be at most ${CHAT_ATTACHMENT_MAX_BYTES / (1024 * 1024)} MB`, 413);
+  }
+  const rule = ruleFor(file, "File");
+
+  if (thumbnail) {
+    if (!rule.isImage) throw new ChatAttachmentError("Thumbnails are only accepted for images");
+    if (!THUMBNAIL_TYPES.includes(thumbnail.mimetype)) {
+      throw new ChatAttachmentError("Thumbnail must be a JPEG, PNG or WebP image");
+    }
+    if (thumbnail.size > CHAT_THUMBNAIL_MAX_BYTES) {
+      throw new ChatAttachmentError(`Thumbnails can be at most ${CHAT_THUMBNAIL_MAX_BYTES / 1024} KB`, 413);
+    }
+    ruleFor(thumbnail, "Thumbnail");
+  }
+  return rule;
+}
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+/** Strip path parts and control characters; keep the name readable for downloads */
+function safeFileName(name: string, fallbackExt: string): string {
+  const base = path.basename(name || "").replace(/[\u0000-\u001f"\\]/g, "").trim().slice(0, 120);
+  return base || `attachment${fallbackExt}`;
+}
+
+async function writeFile(buffer: Buffer, ext: string): Promise<string> {
+  await fs.promises.mkdir(CHAT_ATTACHMENTS_DIR, { recursive: true });
+  const storageName = `${crypto.randomUUID()}${ext}`;
+  await fs.promises.writeFile(path.join(CHAT_ATTACHMENTS_DIR, storageName), buffer);
+  return storageName;
+}
+
+export function toMessageAttachment(id: string, upload: FileUpload): MessageAttachment {
+  return {
+    id,
+    fileName: upload.fileName,
+    mimeType: upload.mimeType ?? "application/octet-stream",
+    fileSize: upload.fileSize ?? 0,
+    isImage: !!CHAT_ATTACHMENT_TYPES[upload.mimeType ?? ""]?.isImage,
+    hasThumbnail: !!upload.thumbnailPath,
+  };
+}
+
+export function chatAttachmentUrl(id: string): string {
+  return `/api/chat/attachments/${id}`;
+}
+
+/** Validate, write to private storage and record the upload; it is attached to a message later */
+export async function storeChatAttachment(params: {
+  uploaderId: string;
+  recipientId: string;
+  file: UploadedFile;
+  thumbnail?: UploadedFile | null;
+}): Promise<MessageAttachment> {
+  const { uploaderId, recipientId, file, thumbnail } = params;
+  const rule = validateChatAttachment(file, thumbnail);
+
+  const storagePath = await writeFile(file.buffer, rule.ext);
+  const thumbnailPath = thumbnail
+    ? await writeFile(thumbnail.buffer, CHAT_ATTACHMENT_TYPES[thumbnail.mimetype].ext)
+    : null;
+
+  const ref = fdb!.collection("file_uploads").doc();
+  const upload: FileUpload = {
+    uploaderId,
+    recipientId,
+    purpose: "chat_attachment",
+    fileName: safeFileName(file.originalname, rule.ext),
+    fileUrl: chatAttachmentUrl(ref.id),
+    fileSize: file.size,
+    mimeType: file.mimetype,
+    storagePath,
+    thumbnailPath,
+    thumbnailMimeType: thumbnail?.mimetype ?? null,
+    messageId: null,
+    createdAt: new Date(),
+  };
+  await ref.set(upload);
+  return toMessageAttachment(ref.id, upload);
+}
+
+// ============================================================================
+// ACCESS
+// ============================================================================
+
+async function loadChatUpload(id: string): Promise<FileUpload> {
+  const snap = await fdb!.collection("file_uploads").doc(id).get();
+  const upload = snap.data() as FileUpload | undefined;
+  if (!snap.exists || !upload || upload.purpose !== "chat_attachment" || !upload.storagePath) {
+    throw new ChatAttachmentError("Attachment not found", 404);
+  }
+  return upload;
+}
+
+/**
+ * Resolve the file to serve, for the two participants and admins only.
+ * `variant: "thumbnail"` falls back to the original when no thumbnail exists.
+ */
+export async function openChatAttachment(
+  id: string,
+  viewer: { id: string; role?: string | null },
+  variant: "original" | "thumbnail" = "original"
+): Promise<{ filePath: string; mimeType: string; fileName: string; inline: boolean }> {
+  const upload = await loadChatUpload(id);
+  const allowed =
+    viewer.role === "admin" || viewer.id === upload.uploaderId || viewer.id === upload.recipientId;
+  if (!allowed) throw new ChatAttachmentError("You do not have access to this attachment", 403);
+
+  const mimeType = upload.mimeType ?? "application/octet-stream";
+  if (variant === "thumbnail" && upload.thumbnailPath) {
+    return {
+      filePath: path.join(CHAT_ATTACHMENTS_DIR, upload.thumbnailPath),
+      mimeType: upload.thumbnailMimeType ?? mimeType,
+      fileName: upload.fileName,
+      inline: true,
+    };
+  }
+  return {
+    filePath: path.join(CHAT_ATTACHMENTS_DIR, upload.storagePath!),
+    mimeType,
+    fileName: upload.fileName,
+    inline: !!CHAT_ATTACHMENT_TYPES[mimeType]?.inline,
+  };
+}
+
+function assertSendable(upload: FileUpload, senderId: string, receiverId: string) {
+  if (upload.uploaderId !== senderId || upload.recipientId !== receiverId) {
+    throw new ChatAttachmentError("Attachment was uploaded for a different conversation", 403);
+  }
+  if (upload.messageId) throw new ChatAttachmentError("Attachment has already been sent", 409);
+}
+
+/**
+ * Check that the sender uploaded `id` for this receiver and has not sent it
+ * yet, before the message is moderated; claimChatAttachment repeats the
+ * check when the message is written.
+ */
+export async function checkChatAttachment(id: string, senderId: string, receiverId: string): Promise<void> {
+  assertSendable(await loadChatUpload(id), senderId, receiverId);
+}
+
+/**
+ * Inside the transaction that writes the message: re-check the upload and
+ * link it to `messageId`, so two concurrent sends cannot both attach it.
+ * Returns the summary to store on the message.
+ */
+export async function claimChatAttachment(
+  tx: Transaction,
+  id: string,
+  senderId: string,
+  receiverId: string,
+  messageId: string
+): Promise<MessageAttachment> {
+  const ref = fdb!.collection("file_uploads").doc(id);
+  const snap = await tx.get(ref);
+  const upload = snap.data() as FileUpload | undefined;
+  if (!upload || upload.purpose !== "chat_attachment" || !upload.storagePath) {
+    throw new ChatAttachmentError("Attachment not found", 404);
+  }
+  assertSendable(upload, senderId, receiverId);
+  tx.update(ref, { messageId });
+  return toMessageAttachment(id, upload);
+}
+
+// ============================================================================
+// CLEANUP
+// ============================================================================
+
+async function removeStoredFile(storageName: string | null | undefined): Promise<void> {
+  if (!storageName) return;
+  try {
+    await fs.promises.unlink(path.join(CHAT_ATTACHMENTS_DIR, storageName));
+  } catch (error: any) {
+    if (error?.code !== "ENOENT") throw error;
+  }
+}
+
+/**
+ * Scheduled: delete uploads no message claimed within `maxAgeHours`, record
+ * and files. The record is deleted in a transaction that requires it to be
+ * still unclaimed, so a send racing with the cleanup either claims it first
+ * or gets "Attachment not found".
+ */
+export async function purgeUnclaimedChatAttachments(
+  at: Date,
+  maxAgeHours = UNCLAIMED_ATTACHMENT_HOURS
+): Promise<{ checked: number; deleted: number; failed: number }> {
+  const cutoff = at.getTime() - maxAgeHours * 60 * 60_000;
+  // Filter age and purpose in memory to avoid a composite index
+  const snap = await fdb!.collection("file_uploads").where("messageId", "==", null).get();
+
+  let checked = 0;
+  let deleted = 0;
+  let failed = 0;
+
+  for (const doc of snap.docs) {
+    const upload = doc.data() as FileUpload;
+    const created = upload.createdAt as any;
+    const createdMs = typeof created?.toMillis === "function" ? created.toMillis() : new Date(created).getTime();
+    if (upload.purpose !== "chat_attachment" || !(createdMs < cutoff)) continue;
+    checked++;
+
+    try {
+      const removed = await fdb!.runTransaction(async (tx) => {
+        const current = await tx.get(doc.ref);
+        if (!current.exists || current.get("messageId")) return false;
+        tx.delete(doc.ref);
+        return true;
+      });
+      if (!removed) continue;
+
+      await removeStoredFile(upload.storagePath);
+      await removeStoredFile(upload.thumbnailPath);
+      deleted++;
+    } catch (error) {
+      failed++;
+      console.error(`purgeUnclaimedChatAttachments: failed to delete upload ${doc.id}:`, error);
+    }
+  }
+
+  console.log(`purgeUnclaimedChatAttachments: checked=${checked}, deleted=${deleted}, failed=${failed}`);
+
+  return { checked, deleted, failed };
+}
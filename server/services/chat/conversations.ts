@@ -0,0 +1,273 @@
+/**
+ * Conversation Index
+ *
+ * One summary document per student–tutor pair in `conversations`, keyed
+ * `${studentId}_${tutorId}`, so inboxes can be listed without scanning
+ * `messages`. It holds the last message preview, an unread counter per
+ * participant and the time of the last activity, and is kept up to date by
+ * POST /api/messages (recordConversationMessage) and
+ * PUT /api/messages/read/:otherUserId (markConversationRead).
+ *
+ * Conversations that predate the index are created by
+ * rebuildConversationIndex, which replays the `messages` collection.
+ *
+ * Messages may also carry a `sessionId`, tying them to one tutoring session;
+ * they stay part of the pair's conversation and can additionally be read as
+ * that session's thread (listSessionMessages).
+ *
+ * Lists and message history are cursor-paginated: the cursor is the id of the
+ * last document of the previous page.
+ */
+
+import { FieldValue } from "firebase-admin/firestore";
+import { fdb } from "../../firebase-admin";
+import { toPublicUser } from "../users/publicUser";
+import type { ChatMessagePayload, Conversation, MessageAttachment } from "../../../shared/types";
+
+export const DEFAULT_PAGE_SIZE = 30;
+export const MAX_PAGE_SIZE = 100;
+
+const PREVIEW_LENGTH = 140;
+
+export class ConversationError extends Error {
+  status: number;
+  constructor(message: string, status = 400) {
+    super(message);
+    this.status = status;
+  }
+}
+
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null;
+}
+
+function toMillis(value: any): number {
+  if (!value) return 0;
+  if (value instanceof Date) return value.getTime();
+  if (typeof value.toMillis === "function") return value.toMillis();
+  if (typeof value._seconds === "number") return value._seconds * 1000;
+  const ms = new Date(value).getTime();
+  return Number.isFinite(ms) ? ms : 0;
+}
+
+export function conversationIdFor(studentId: string, tutorId: string): string {
+  return `${studentId}_${tutorId}`;
+}
+
+export function clampPageSize(raw: unknown, fallback = DEFAULT_PAGE_SIZE): number {
+  const n = Number(raw);
+  return Number.isFinite(n) && n > 0 ? Math.min(Math.floor(n), MAX_PAGE_SIZE) : fallback;
+}
+
+function previewOf(content: string, attachment?: MessageAttachment | null): string {
+  const text = content.trim();
+  if (text) return text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH - 1)}…` : text;
+  if (attachment) return attachment.isImage ? "📷 Image" : `📎 ${attachment.fileName}`;
+  return "";
+}
+
+/** Message document -> API shape shared by REST responses and realtime pushes */
+export function toChatMessagePayload(
+  id: string,
+  m: any,
+  users?: Map<string, any>
+): ChatMessagePayload {
+  return {
+    id,
+    senderId: m.senderId,
+    receiverId: m.receiverId,
+    sessionId: m.sessionId || null,
+    content: m.content,
+    fileUrl: m.fileUrl || null,
+    attachment: m.attachment || null,
+    read: !!m.read,
+    createdAt: new Date(toMillis(m.createdAt)).toISOString(),
+    sender: toPublicUser(users?.get(m.senderId)),
+    receiver: toPublicUser(users?.get(m.receiverId)),
+  };
+}
+
+// ============================================================================
+// MAINTENANCE
+// ============================================================================
+
+/** Fold a newly sent message into the pair's summary and bump the receiver's unread count */
+export async function recordConversationMessage(params: {
+  studentId: string;
+  tutorId: string;
+  messageId: string;
+  senderId: string;
+  receiverId: string;
+  content: string;
+  attachment?: MessageAttachment | null;
+  createdAt: Date;
+}): Promise<void> {
+  const { studentId, tutorId, messageId, senderId, receiverId, content, attachment, createdAt } = params;
+  await fdb!
+    .collection("conversations")
+    .doc(conversationIdFor(studentId, tutorId))
+    .set(
+      {
+        studentId,
+        tutorId,
+        participantIds: [studentId, tutorId],
+        lastMessage: {
+          id: messageId,
+          senderId,
+          preview: previewOf(content, attachment),
+          hasAttachment: !!attachment,
+          createdAt,
+        },
+        lastActivityAt: createdAt,
+        messageCount: FieldValue.increment(1),
+        unreadCounts: { [receiverId]: FieldValue.increment(1), [senderId]: FieldValue.increment(0) },
+        updatedAt: new Date(),
+      },
+      { merge: true }
+    );
+}
+
+export async function markConversationRead(studentId: string, tutorId: string, readerId: string): Promise<void> {
+  const ref = fdb!.collection("conversations").doc(conversationIdFor(studentId, tutorId));
+  const snap = await ref.get();
+  if (!snap.exists) return;
+  await ref.update({ [`unreadCounts.${readerId}`]: 0, updatedAt: new Date() });
+}
+
+/**
+ * Recreate every summary from `messages`. Safe to re-run: each pair's doc is
+ * overwritten with the counts derived from its messages.
+ */
+export async function rebuildConversationIndex(): Promise<{ messages: number; conversations: number }> {
+  const snap = await fdb!.collection("messages").get();
+  const byPair = new Map<string, Conversation>();
+
+  for (const d of snap.docs) {
+    const m = d.data() as any;
+    if (!m.studentId || !m.tutorId) continue;
+    const id = conversationIdFor(m.studentId, m.tutorId);
+    const createdAtMs = toMillis(m.createdAt);
+    const conv =
+      byPair.get(id) ??
+      ({
+        studentId: m.studentId,
+        tutorId: m.tutorId,
+        participantIds: [m.studentId, m.tutorId],
+        lastMessage: null,
+        lastActivityAt: new Date(0),
+        messageCount: 0,
+        unreadCounts: { [m.studentId]: 0, [m.tutorId]: 0 },
+      } as Conversation);
+
+    conv.messageCount += 1;
+    if (!m.read) conv.unreadCounts[m.receiverId] = (conv.unreadCounts[m.receiverId] ?? 0) + 1;
+    if (createdAtMs >= conv.lastActivityAt.getTime()) {
+      conv.lastActivityAt = new Date(createdAtMs);
+      conv.lastMessage = {
+        id: d.id,
+        senderId: m.senderId,
+        preview: previewOf(m.content ?? "", m.attachment),
+        hasAttachment: !!m.attachment,
+        createdAt: new Date(createdAtMs),
+      };
+    }
+    byPair.set(id, conv);
+  }
+
+  const entries = Array.from(byPair.entries());
+  for (let i = 0; i < entries.length; i += 400) {
+    const batch = fdb!.batch();
+    for (const [id, conv] of entries.slice(i, i + 400)) {
+      batch.set(fdb!.collection("conversations").doc(id), { ...conv, updatedAt: new Date() });
+    }
+    await batch.commit();
+  }
+
+  console.log(`[Conversations] Rebuilt ${entries.length} conversations from ${snap.size} messages`);
+  return { messages: snap.size, conversations: entries.length };
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/** The user's conversations, most recent activity first */
+export async function listConversations(
+  userId: string,
+  options: { limit?: number; cursor?: string | null } = {}
+): Promise<Page<Conversation & { id: string }>> {
+  const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+  const col = fdb!.collection("conversations");
+  let query = col.where("participantIds", "array-contains", userId).orderBy("lastActivityAt", "desc");
+
+  if (options.cursor) {
+    const cursorSnap = await col.doc(options.cursor).get();
+    if (!cursorSnap.exists) throw new ConversationError("Invalid cursor");
+    query = query.startAfter(cursorSnap);
+  }
+
+  const snap = await query.limit(limit + 1).get();
+  const docs = snap.docs.slice(0, limit);
+  return {
+    items: docs.map((d) => ({ id: d.id, ...(d.data() as Conversation) })),
+    nextCursor: snap.docs.length > limit ? docs[docs.length - 1].id : null,
+  };
+}
+
+/** One page of a pair's messages, newest first; pass the returned cursor to go further back */
+export async function listConversationMessages(
+  studentId: string,
+  tutorId: string,
+  options: { limit?: number; before?: string | null } = {}
+): Promise<Page<{ id: string; data: any }>> {
+  const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+  const col = fdb!.collection("messages");
+  let query = col.where("studentId", "==", studentId).where("tutorId", "==", tutorId).orderBy("createdAt", "desc");
+
+  if (options.before) {
+    const cursorSnap = await col.doc(options.before).get();
+    const c = cursorSnap.data();
+    if (!cursorSnap.exists || c?.studentId !== studentId || c?.tutorId !== tutorId) {
+      throw new ConversationError("Invalid cursor");
+    }
+    query = query.startAfter(cursorSnap);
+  }
+
+  const snap = await query.limit(limit + 1).get();
+  const docs = snap.docs.slice(0, limit);
+  return {
+    items: docs.map((d) => ({ id: d.id, data: d.data() })),
+    nextCursor: snap.docs.length > limit ? docs[docs.length - 1].id : null,
+  };
+}
+
+/** One page of the thread tied to a tutoring session, newest first */
+export async function listSessionMessages(
+  sessionId: string,
+  options: { limit?: number; before?: string | null } = {}
+): Promise<Page<{ id: string; data: any }>> {
+  const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+  const col = fdb!.collection("messages");
+  let query = col.where("sessionId", "==", sessionId).orderBy("createdAt", "desc");
+
+  if (options.before) {
+    const cursorSnap = await col.doc(options.before).get();
+    if (!cursorSnap.exists || cursorSnap.data()?.sessionId !== sessionId) {
+      throw new ConversationError("Invalid cursor");
+    }
+    query = query.startAfter(cursorSnap);
+  }
+
+  const snap = await query.limit(limit + 1).get();
+  const docs = snap.docs.slice(0, limit);
+  return {
+    items: docs.map((d) => ({ id: d.id, data: d.data() })),
+    nextCursor: snap.docs.length > limit ? docs[docs.length - 1].id : null,
+  };
+}
+
+export async function getConversation(id: string): Promise<(Conversation & { id: string }) | null> {
+  const snap = await fdb!.collection("conversations").doc(id).get();
+  return snap.exists ? { id: snap.id, ...(snap.data() as Conversation) } : null;
+}
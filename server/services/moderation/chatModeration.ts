@@ -0,0 +1,352 @@
+/**
+ * Chat Moderation: strikes, suspensions and appeals
+ *
+ * Every message blocked by a striking rule (see messageModeration) is stored
+ * in `moderation_violations` and counts as a strike for `strikeWindowDays`.
+ * Reaching `strikeThreshold` active strikes suspends the sender's chat for
+ * `suspensionHours` (`users.chatSuspendedUntil`).
+ *
+ * The sender can appeal each strike once. Admins review appeals from the
+ * dashboard; overturning one voids the strike and lifts the suspension if
+ * the remaining strikes are below the threshold.
+ *
+ * The config lives in `platform_settings/chat_moderation`; anything missing
+ * falls back to DEFAULT_CHAT_MODERATION_CONFIG.
+ */
+
+import { fdb } from "../../firebase-admin";
+import { notifyAdmins, notifyUser } from "../notifications/notificationService";
+import type { ModerationVerdict } from "./messageModeration";
+import type {
+  ChatModerationConfig,
+  ModerationAppeal,
+  ModerationAppealStatus,
+  ModerationViolation,
+} from "../../../shared/types";
+
+export const DEFAULT_CHAT_MODERATION_CONFIG: ChatModerationConfig = {
+  strikeThreshold: 3,
+  strikeWindowDays: 30,
+  suspensionHours: 24,
+};
+
+const CONFIG_DOC = () => fdb!.collection("platform_settings").doc("chat_moderation");
+const CONFIG_TTL = 5 * 60 * 1000; // 5 minutes
+
+let cachedConfig: { data: ChatModerationConfig; timestamp: number } | null = null;
+
+export class ModerationError extends Error {
+  status: number;
+  constructor(message: string, status = 400) {
+    super(message);
+    this.status = status;
+  }
+}
+
+export interface ModerationStatus {
+  strikes: number;
+  strikeThreshold: number;
+  suspendedUntil: Date | null;
+  violations: Array<ModerationViolation & { id: string; appeal: (ModerationAppeal & { id: string }) | null }>;
+}
+
+function toDate(value: any): Date | null {
+  if (!value) return null;
+  if (value instanceof Date) return value;
+  if (typeof value.toDate === "function") return value.toDate();
+  const d = new Date(value);
+  return isNaN(d.getTime()) ? null : d;
+}
+
+const fullName = (u: any) => `${u?.firstName || ""} ${u?.lastName || ""}`.trim() || "Unknown User";
+
+// ============================================================================
+// CONFIG
+// ============================================================================
+
+export async function getChatModerationConfig(): Promise<ChatModerationConfig> {
+  if (cachedConfig && Date.now() - cachedConfig.timestamp < CONFIG_TTL) {
+    return cachedConfig.data;
+  }
+
+  const snap = await CONFIG_DOC().get();
+  const config = { ...DEFAULT_CHAT_MODERATION_CONFIG, ...(snap.exists ? snap.data() : {}) };
+  cachedConfig = { data: config, timestamp: Date.now() };
+  return config;
+}
+
+export async function saveChatModerationConfig(
+  config: Omit<ChatModerationConfig, "updatedAt" | "updatedBy">,
+  updatedBy: string
+): Promise<ChatModerationConfig> {
+  await CONFIG_DOC().set({ ...config, updatedAt: new Date(), updatedBy });
+
+  cachedConfig = null;
+  console.log("[Cache] Chat moderation config cache invalidated");
+
+  return getChatModerationConfig();
+}
+
+// ============================================================================
+// STRIKES & SUSPENSION
+// ============================================================================
+
+async function loadViolations(userId: string) {
+  const snap = await fdb!.collection("moderation_violations").where("userId", "==", userId).get();
+  return snap.docs
+    .map((d) => ({ id: d.id, ...(d.data() as ModerationViolation) }))
+    .sort((a, b) => (toDate(b.createdAt)?.getTime() ?? 0) - (toDate(a.createdAt)?.getTime() ?? 0));
+}
+
+function countActiveStrikes(violations: ModerationViolation[], config: ChatModerationConfig, at: Date): number {
+  const since = at.getTime() - config.strikeWindowDays * 86_400_000;
+  return violations.filter((v) => v.status === "active" && (toDate(v.createdAt)?.getTime() ?? 0) >= since).length;
+}
+
+/** End of the user's chat suspension, or null if they may chat */
+export async function getChatSuspension(userId: string, at = new Date()): Promise<Date | null> {
+  const user = (await fdb!.collection("users").doc(userId).get()).data();
+  const until = toDate(user?.chatSuspendedUntil);
+  return until && until > at ? until : null;
+}
+
+/**
+ * Store a blocked message as a strike, suspend the sender if it crosses the
+ * threshold, and tell admins (PHONE_NUMBER_VIOLATION) and, when suspended, the sender.
+ */
+export async function recordViolation(params: {
+  sender: { id: string; role?: string | null; firstName?: string | null; lastName?: string | null };
+  receiver: { id: string; role?: string | null; firstName?: string | null; lastName?: string | null };
+  verdict: ModerationVerdict;
+  content: string;
+  at?: Date;
+}): Promise<{ violationId: string; strikes: number; strikeThreshold: number; suspendedUntil: Date | null }> {
+  const { sender, receiver, verdict, content } = params;
+  const at = params.at ?? new Date();
+  const config = await getChatModerationConfig();
+
+  const ref = fdb!.collection("moderation_violations").doc();
+  const violation: ModerationViolation = {
+    userId: sender.id,
+    userRole: sender.role ?? null,
+    receiverId: receiver.id,
+    ruleId: verdict.ruleId,
+    ruleLabel: verdict.label,
+    content,
+    status: "active",
+    appealId: null,
+    suspendedUntil: null,
+    createdAt: at,
+  };
+  await ref.set(violation);
+
+  const strikes = countActiveStrikes(await loadViolations(sender.id), config, at);
+  let suspendedUntil: Date | null = null;
+  if (strikes >= config.strikeThreshold) {
+    suspendedUntil = new Date(at.getTime() + config.suspensionHours * 3_600_000);
+    await Promise.all([
+      fdb!.collection("users").doc(sender.id).set({ chatSuspendedUntil: suspendedUntil }, { merge: true }),
+      ref.update({ suspendedUntil }),
+    ]);
+  }
+
+  const senderName = fullName(sender);
+  const receiverName = fullName(receiver);
+  await notifyAdmins("PHONE_NUMBER_VIOLATION", {
+    title: `Contact Sharing Blocked: ${verdict.label}`,
+    body:
+      `${senderName} (${sender.role}) attempted to share contact details with ${receiverName} (${receiver.role}). ` +
+      `Message was blocked. Strike ${strikes} of ${config.strikeThreshold}` +
+      (suspendedUntil ? `; chat suspended for ${config.suspensionHours}h.` : "."),
+    data: {
+      violationId: ref.id,
+      ruleId: verdict.ruleId,
+      senderId: sender.id,
+      senderName,
+      senderRole: sender.role,
+      receiverId: receiver.id,
+      receiverName,
+      receiverRole: receiver.role,
+      messageContent: content,
+      strikes,
+      suspendedUntil: suspendedUntil?.toISOString() ?? null,
+      blocked: true,
+    },
+  });
+
+  if (suspendedUntil) {
+    await notifyUser(sender.id, "CHAT_SUSPENDED", {
+      title: "Chat suspended",
+      body:
+        `Your chat has been suspended for ${config.suspensionHours} hours after ${strikes} attempts to share contact details. ` +
+        `You can appeal any of these strikes from the chat window.`,
+      data: { violationId: ref.id, suspendedUntil: suspendedUntil.toISOString() },
+    });
+  }
+
+  return { violationId: ref.id, strikes, strikeThreshold: config.strikeThreshold, suspendedUntil };
+}
+
+/** Strikes, suspension and recent violations (with appeal state) for the user's own view */
+export async function getModerationStatus(userId: string, at = new Date()): Promise<ModerationStatus> {
+  const [config, violations, suspendedUntil] = await Promise.all([
+    getChatModerationConfig(),
+    loadViolations(userId),
+    getChatSuspension(userId, at),
+  ]);
+
+  const appealIds = violations.map((v) => v.appealId).filter((id): id is string => !!id);
+  const appeals = new Map<string, ModerationAppeal & { id: string }>();
+  if (appealIds.length) {
+    const snaps = await fdb!.getAll(...appealIds.map((id) => fdb!.collection("moderation_appeals").doc(id)));
+    snaps.forEach((s) => s.exists && appeals.set(s.id, { id: s.id, ...(s.data() as ModerationAppeal) }));
+  }
+
+  return {
+    strikes: countActiveStrikes(violations, config, at),
+    strikeThreshold: config.strikeThreshold,
+    suspendedUntil,
+    violations: violations.slice(0, 20).map((v) => ({ ...v, appeal: (v.appealId && appeals.get(v.appealId)) || null })),
+  };
+}
+
+// ============================================================================
+// APPEALS
+// ============================================================================
+
+export async function submitAppeal(
+  user: { id: string; role?: string | null; firstName?: string | null; lastName?: string | null },
+  violationId: string,
+  reason: string
+): Promise<ModerationAppeal & { id: string }> {
+  const violationRef = fdb!.collection("moderation_violations").doc(violationId);
+  const appealRef = fdb!.collection("moderation_appeals").doc();
+
+  const appeal = await fdb!.runTransaction(async (tx) => {
+    const snap = await tx.get(violationRef);
+    const violation = snap.data() as ModerationViolation | undefined;
+    if (!snap.exists || !violation || violation.userId !== user.id) {
+      throw new ModerationError("Violation not found", 404);
+    }
+    if (violation.appealId) throw new ModerationError("This strike has already been appealed", 409);
+
+    const appeal: ModerationAppeal = {
+      violationId,
+      userId: user.id,
+      reason,
+      status: "pending",
+      resolutionNote: null,
+      resolvedBy: null,
+      resolvedAt: null,
+      createdAt: new Date(),
+    };
+    tx.set(appealRef, appeal);
+    tx.update(violationRef, { appealId: appealRef.id });
+    return { ...appeal, violation };
+  });
+
+  const { violation, ...stored } = appeal;
+  await notifyAdmins("MODERATION_APPEAL_SUBMITTED", {
+    title: "Moderation appeal submitted",
+    body: `${fullName(user)} (${user.role}) appealed a blocked message (${violation.ruleLabel}).`,
+    data: { appealId: appealRef.id, violationId, userId: user.id, reason },
+  });
+
+  return { id: appealRef.id, ...stored };
+}
+
+export async function listAppeals(status?: ModerationAppealStatus, limit = 100) {
+  const snap = await fdb!.collection("moderation_appeals").orderBy("createdAt", "desc").limit(limit * 2).get();
+  const appeals = snap.docs
+    .map((d) => ({ id: d.id, ...(d.data() as ModerationAppeal) }))
+    .filter((a) => !status || a.status === status)
+    .slice(0, limit);
+
+  const violationSnaps = appeals.length
+    ? await fdb!.getAll(...appeals.map((a) => fdb!.collection("moderation_violations").doc(a.violationId)))
+    : [];
+  const violations = new Map(violationSnaps.map((s) => [s.id, s.exists ? { id: s.id, ...(s.data() as ModerationViolation) } : null]));
+
+  const userIds = Array.from(new Set(appeals.map((a) => a.userId)));
+  const userSnaps = userIds.length ? await fdb!.getAll(...userIds.map((id) => fdb!.collection("users").doc(id))) : [];
+  const users = new Map(userSnaps.map((s) => [s.id, s.data() ?? null]));
+
+  const config = await getChatModerationConfig();
+  const now = new Date();
+  const strikesByUser = new Map<string, number>();
+  await Promise.all(
+    userIds.map(async (id) => strikesByUser.set(id, countActiveStrikes(await loadViolations(id), config, now)))
+  );
+
+  return appeals.map((a) => {
+    const user = users.get(a.userId);
+    const suspendedUntil = toDate(user?.chatSuspendedUntil);
+    return {
+      ...a,
+      violation: violations.get(a.violationId) ?? null,
+      user: user
+        ? { id: a.userId, firstName: user.firstName, lastName: user.lastName, email: user.email, role: user.role }
+        : null,
+      strikes: strikesByUser.get(a.userId) ?? 0,
+      strikeThreshold: config.strikeThreshold,
+      suspendedUntil: suspendedUntil && suspendedUntil > now ? suspendedUntil : null,
+    };
+  });
+}
+
+/**
+ * Decide an appeal. Overturning voids the strike and lifts a running
+ * suspension once the remaining strikes are below the threshold.
+ */
+export async function resolveAppeal(
+  appealId: string,
+  decision: Exclude<ModerationAppealStatus, "pending">,
+  adminId: string,
+  note?: string | null
+): Promise<{ appeal: ModerationAppeal & { id: string }; suspensionLifted: boolean }> {
+  const appealRef = fdb!.collection("moderation_appeals").doc(appealId);
+
+  const appeal = await fdb!.runTransaction(async (tx) => {
+    const snap = await tx.get(appealRef);
+    const appeal = snap.data() as ModerationAppeal | undefined;
+    if (!snap.exists || !appeal) throw new ModerationError("Appeal not found", 404);
+    if (appeal.status !== "pending") throw new ModerationError("Appeal has already been resolved", 409);
+
+    const resolved: ModerationAppeal = {
+      ...appeal,
+      status: decision,
+      resolutionNote: note || null,
+      resolvedBy: adminId,
+      resolvedAt: new Date(),
+    };
+    tx.set(appealRef, resolved);
+    if (decision === "overturned") {
+      tx.update(fdb!.collection("moderation_violations").doc(appeal.violationId), { status: "overturned" });
+    }
+    return { id: appealId, ...resolved };
+  });
+
+  let suspensionLifted = false;
+  if (decision === "overturned") {
+    const [config, violations, suspendedUntil] = await Promise.all([
+      getChatModerationConfig(),
+      loadViolations(appeal.userId),
+      getChatSuspension(appeal.userId),
+    ]);
+    if (suspendedUntil && countActiveStrikes(violations, config, new Date()) < config.strikeThreshold) {
+      await fdb!.collection("users").doc(appeal.userId).set({ chatSuspendedUntil: null }, { merge: true });
+      suspensionLifted = true;
+    }
+  }
+
+  await notifyUser(appeal.userId, "MODERATION_APPEAL_RESOLVED", {
+    title: decision === "overturned" ? "Appeal accepted" : "Appeal declined",
+    body:
+      decision === "overturned"
+        ? `Your appeal was accepted and the strike removed${suspensionLifted ? "; your chat is available again" : ""}.`
+        : `Your appeal was reviewed and the strike stands.${note ? ` Note from the reviewer: ${note}` : ""}`,
+    data: { appealId, violationId: appeal.violationId, decision, suspensionLifted },
+  });
+
+  return { appeal, suspensionLifted };
+}
@@ -0,0 +1,279 @@
+/**
+ * Message Moderation Pipeline
+ *
+ * Chat must stay on the platform, so messages that try to hand over contact
+ * details are blocked before they are stored. Each rule looks at the message
+ * and either passes or returns a verdict; the first rule that fires wins.
+ *
+ * Rules see two versions of the text: the original, and a normalized copy
+ * (lower-case, Arabic-Indic digits folded to ASCII, "(at)"/"[dot]" style
+ * obfuscation undone) so each rule only has to match one spelling.
+ *
+ * Verdicts with `strike: true` count against the sender (see chatModeration);
+ * rate-limit style rules only slow the sender down.
+ *
+ * New rules are added with registerModerationRule and run after the built-ins.
+ */
+
+import type { ModerationRuleId } from "../../../shared/types";
+
+export interface ModerationContext {
+  senderId: string;
+  receiverId: string;
+  at: number; // epoch ms
+}
+
+export interface ModerationVerdict {
+  ruleId: ModerationRuleId;
+  label: string;
+  /** Shown to the sender */
+  message: string;
+  /** Whether it counts towards a chat suspension */
+  strike: boolean;
+}
+
+export interface ModerationRule {
+  id: ModerationRuleId;
+  label: string;
+  message: string;
+  strike: boolean;
+  matches: (text: { raw: string; normalized: string }, context: ModerationContext) => boolean;
+}
+
+const APPEAL_HINT = " If you believe this was a mistake, you can appeal it from the chat window.";
+
+// ============================================================================
+// NORMALIZATION
+// ============================================================================
+
+const DIGIT_RANGES: Array<[number, number]> = [
+  [0x0660, 0x0669], // Arabic-Indic
+  [0x06f0, 0x06f9], // Extended Arabic-Indic (Persian/Urdu)
+  [0xff10, 0xff19], // Fullwidth
+];
+
+function foldDigits(text: string): string {
+  return text.replace(/[\u0660-\u0669\u06f0-\u06f9\uff10-\uff19]/g, (ch) => {
+    const code = ch.charCodeAt(0);
+    const range = DIGIT_RANGES.find(([from, to]) => code >= from && code <= to)!;
+    return String(code - range[0]);
+  });
+}
+
+export function normalizeForModeration(text: string): string {
+  return foldDigits(text)
+    .toLowerCase()
+    .replace(/[\u200b-\u200f\u202a-\u202e\u2066-\u2069]/g, "") // zero-width and direction marks
+    .replace(/\s*[([{]\s*at\s*[)\]}]\s*/g, "@")
+    .replace(/\s*[([{]\s*dot\s*[)\]}]\s*/g, ".");
+}
+
+// ============================================================================
+// BUILT-IN RULES
+// ============================================================================
+
+const PHONE_PATTERNS = [
+  /\+?\d{1,3}[\s.-]?\(?\d{2,4}\)?[\s.-]?\d{3,4}[\s.-]?\d{2,4}/, // International format
+  /\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{2,4}/, // US format variations
+  /\d{8,15}/, // Simple 8-15 digit sequences
+  /\d[\s.-]{0,2}\d[\s.-]{0,2}\d[\s.-]{0,2}\d[\s.-]{0,2}\d[\s.-]{0,2}\d[\s.-]{0,2}\d[\s.-]{0,2}\d/, // Spaced digits
+];
+
+const EMAIL_PATTERN = /[a-z0-9._%+-]+@\s*[a-z0-9-]+(?:\s*\.\s*[a-z0-9-]+)*\s*\.\s*[a-z]{2,}/;
+
+const LINK_PATTERNS = [
+  /\b(?:https?:\/\/|www\.)\S+/,
+  /\b[a-z0-9-]+\.(?:com|net|org|io|me|co|ly|gg|app|link|info|biz|xyz|to|sa|ae|bh|kw|qa|om|eg|jo)\b(?:\/\S*)?/,
+];
+
+// Only names that are unambiguous in normal conversation ("snap", "signal" are not)
+const SOCIAL_PLATFORMS = [
+  "instagram", "insta", "ig", "whatsapp", "whats app", "snapchat", "telegram", "tiktok", "facebook",
+  "twitter", "discord", "viber", "wechat", "skype",
+  "واتساب", "واتس", "الواتس", "انستقرام", "انستغرام", "انستا", "سناب", "سناب شات", "تلغرام", "تيليجرام",
+  "تيك توك", "فيسبوك", "ديسكورد",
+];
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const PLATFORM_HANDLE_PATTERN = new RegExp(
+  `(?:^|[^\\p{L}])(?:${SOCIAL_PLATFORMS.map(escapeRegExp).join("|")})(?!\\p{L})` +
+    `\\s*([:=]|\\bis\\b|\\bid\\b|هو|حسابي)?\\s*(@)?([a-z0-9._]{3,})`,
+  "gu"
+);
+// A bare "@jane.doe" that is not part of an email address
+const AT_HANDLE_PATTERN = /(?:^|[^a-z0-9._%+-])@(?=[a-z0-9._]*[a-z])[a-z0-9._]{3,}/;
+
+/**
+ * "insta: jane", "ig @jane", "my snapchat is jane_99", "واتساب jane.doe" — a
+ * platform name followed by something handle-shaped. Plain words after the
+ * name ("my instagram is private") are let through.
+ */
+function sharesSocialHandle(normalized: string): boolean {
+  if (AT_HANDLE_PATTERN.test(normalized)) return true;
+  for (const [, separator, at, handle] of Array.from(normalized.matchAll(PLATFORM_HANDLE_PATTERN))) {
+    if (at || separator === ":" || separator === "=" || /[0-9._]/.test(handle)) return true;
+  }
+  return false;
+}
+
+const ENGLISH_NUMBER_WORDS: Record<string, number> = {
+  zero: 1, oh: 1, one: 1, two: 1, three: 1, four: 1, five: 1, six: 1, seven: 1, eight: 1, nine: 1,
+};
+const ARABIC_NUMBER_WORDS = [
+  "صفر", "واحد", "وحده", "اثنين", "اثنان", "اتنين", "إثنين", "ثنين", "ثلاثة", "ثلاث", "ثلاثه", "تلاتة", "تلاته",
+  "أربعة", "اربعة", "اربعه", "أربع", "اربع", "خمسة", "خمسه", "خمس", "ستة", "سته", "ست", "سبعة", "سبعه", "سبع",
+  "ثمانية", "ثمانيه", "ثمان", "تمانية", "تمانيه", "تسعة", "تسعه", "تسع",
+];
+const MULTIPLIERS: Record<string, number> = { double: 2, triple: 3, دبل: 2 };
+const NUMBER_WORD_RUN = 7;
+
+function digitsIn(token: string): number {
+  if (/^\d+$/.test(token)) return token.length;
+  if (ENGLISH_NUMBER_WORDS[token]) return ENGLISH_NUMBER_WORDS[token];
+  // Arabic joins "and" (و) onto the next word: "وخمسة"
+  const bare = token.startsWith("و") && token.length > 2 ? token.slice(1) : token;
+  if (ARABIC_NUMBER_WORDS.includes(token) || ARABIC_NUMBER_WORDS.includes(bare)) return 1;
+  return 0;
+}
+
+/** Longest run of spelled-out digits (mixed with numerals), e.g. "three nine 7 double five..." */
+function spelledNumberRun(normalized: string): { digits: number; hasWords: boolean } {
+  const tokens = normalized.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+  let best = { digits: 0, hasWords: false };
+  let run = { digits: 0, hasWords: false };
+  let multiplier = 1;
+  for (const token of tokens) {
+    if (MULTIPLIERS[token]) {
+      multiplier = MULTIPLIERS[token];
+      continue;
+    }
+    const digits = digitsIn(token);
+    if (digits === 0) {
+      run = { digits: 0, hasWords: false };
+      multiplier = 1;
+      continue;
+    }
+    run = { digits: run.digits + digits * multiplier, hasWords: run.hasWords || !/^\d+$/.test(token) };
+    multiplier = 1;
+    if (run.digits > best.digits) best = { ...run };
+  }
+  return best;
+}
+
+// Short-lived per-conversation memory for the rapid numeric rule.
+// In production, consider using Redis or similar
+const recentMessagesStore = new Map<string, Array<{ content: string; timestamp: number }>>();
+const RAPID_WINDOW_MS = 30_000;
+const MAX_NUMERIC_MESSAGES = 3;
+
+// If more than 60% digits, or it's just 1-3 digits, flag it
+function isMostlyNumeric(text: string): boolean {
+  const cleanText = text.replace(/\s/g, "");
+  if (cleanText.length === 0) return false;
+  const digitCount = (cleanText.match(/\d/g) || []).length;
+  return digitCount / cleanText.length > 0.6 || /^\d{1,3}$/.test(cleanText);
+}
+
+/** Records the message and reports whether the sender is splitting a number across messages */
+function isRapidNumeric(content: string, context: ModerationContext): boolean {
+  const conversationKey = [context.senderId, context.receiverId].sort().join("_");
+  const recent = (recentMessagesStore.get(conversationKey) || []).filter(
+    (msg) => context.at - msg.timestamp < RAPID_WINDOW_MS
+  );
+
+  let flagged = false;
+  if (isMostlyNumeric(content)) {
+    const recentNumeric = recent.filter((msg) => isMostlyNumeric(msg.content)).length;
+    const recentSingleDigits = recent.filter((msg) => /^\d{1,3}$/.test(msg.content.trim())).length;
+    flagged = recentNumeric >= MAX_NUMERIC_MESSAGES || (/^\d{1,3}$/.test(content.trim()) && recentSingleDigits >= 2);
+  }
+
+  if (!flagged) recent.push({ content, timestamp: context.at });
+  recentMessagesStore.set(conversationKey, recent.slice(-20));
+  return flagged;
+}
+
+const rules: ModerationRule[] = [
+  {
+    id: "phone",
+    label: "Phone number",
+    strike: true,
+    message:
+      "Your message was blocked because it appears to contain a phone number. Sharing contact details is not allowed on this platform." +
+      APPEAL_HINT,
+    matches: ({ normalized }) => PHONE_PATTERNS.some((p) => p.test(normalized)),
+  },
+  {
+    id: "email",
+    label: "Email address",
+    strike: true,
+    message:
+      "Your message was blocked because it appears to contain an email address. Please keep communication on the platform." +
+      APPEAL_HINT,
+    matches: ({ normalized }) => EMAIL_PATTERN.test(normalized),
+  },
+  {
+    id: "social_handle",
+    label: "Social media handle",
+    strike: true,
+    message:
+      "Your message was blocked because it appears to share a social media or messaging account. Please keep communication on the platform." +
+      APPEAL_HINT,
+    matches: ({ normalized }) => sharesSocialHandle(normalized),
+  },
+  {
+    id: "link",
+    label: "External link",
+    strike: true,
+    message: "Your message was blocked because links to outside websites are not allowed in chat." + APPEAL_HINT,
+    matches: ({ normalized }) => LINK_PATTERNS.some((p) => p.test(normalized)),
+  },
+  {
+    id: "number_words",
+    label: "Spelled-out number",
+    strike: true,
+    message:
+      "Your message was blocked because it appears to spell out a phone number. Sharing contact details is not allowed on this platform." +
+      APPEAL_HINT,
+    matches: ({ normalized }) => {
+      const run = spelledNumberRun(normalized);
+      return run.hasWords && run.digits >= NUMBER_WORD_RUN;
+    },
+  },
+  {
+    id: "rapid_numeric",
+    label: "Numbers sent piece by piece",
+    strike: false,
+    message:
+      "You're sending numbers too quickly. Please send complete sentences instead of numbers one by one. Sharing phone numbers is not allowed.",
+    matches: ({ normalized }, context) => isRapidNumeric(normalized, context),
+  },
+];
+
+// ============================================================================
+// PIPELINE
+// ============================================================================
+
+/** Add a rule; it runs after the ones already registered */
+export function registerModerationRule(rule: ModerationRule): void {
+  if (rules.some((r) => r.id === rule.id)) {
+    throw new Error(`Moderation rule "${rule.id}" is already registered`);
+  }
+  rules.push(rule);
+}
+
+export function getModerationRules(): ReadonlyArray<Pick<ModerationRule, "id" | "label" | "strike">> {
+  return rules.map(({ id, label, strike }) => ({ id, label, strike }));
+}
+
+/** First rule the message breaks, or null if it may be sent */
+export function moderateMessage(content: string, context: ModerationContext): ModerationVerdict | null {
+  const text = { raw: content, normalized: normalizeForModeration(content) };
+  for (const rule of rules) {
+    if (rule.matches(text, context)) {
+      return { ruleId: rule.id, label: rule.label, message: rule.message, strike: rule.strike };
+    }
+  }
+  return null;
+}
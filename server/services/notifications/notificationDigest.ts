@@ -0,0 +1,77 @@
+/**
+ * Notification Digest
+ *
+ * Once a day, users who left in-app notifications unread are sent a single
+ * email listing them, so nothing important is missed between visits. Users
+ * can turn it off with the `dailyDigest` notification preference. Admin
+ * broadcast notifications (no userId) are not included.
+ *
+ * `notification_digests/{userId}` records the day (UTC) each user was last
+ * sent a digest, so running the job again the same day (e.g. a manual run
+ * from the admin jobs panel) does not send a second one, and a later digest
+ * never repeats notifications an earlier one already listed.
+ */
+
+import { fdb } from "../../firebase-admin";
+import { sendEmail, createNotificationDigestEmail } from "../../email";
+import { resolveNotificationPreferences } from "./notificationService";
+
+const DIGEST_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const digestPeriod = (at: Date) => at.toISOString().slice(0, 10);
+
+function toMillis(value: any): number {
+  if (!value) return 0;
+  if (value instanceof Date) return value.getTime();
+  if (typeof value.toMillis === "function") return value.toMillis();
+  return new Date(value).getTime() || 0;
+}
+
+export async function sendNotificationDigests(at: Date): Promise<{ users: number; sent: number }> {
+  if (!fdb) throw new Error("Firestore not initialized");
+
+  // Range on createdAt only; isRead is filtered in memory to avoid a composite index
+  const since = new Date(at.getTime() - DIGEST_WINDOW_MS);
+  const snap = await fdb
+    .collection("notifications")
+    .where("createdAt", ">", since)
+    .where("createdAt", "<=", at)
+    .get();
+
+  const byUser = new Map<string, Array<{ title: string; body?: string | null; createdAt: number }>>();
+  for (const d of snap.docs) {
+    const n = d.data();
+    if (n.isRead || !n.userId) continue;
+    const list = byUser.get(n.userId) ?? [];
+    list.push({ title: n.title, body: n.body ?? null, createdAt: toMillis(n.createdAt) });
+    byUser.set(n.userId, list);
+  }
+
+  const period = digestPeriod(at);
+  let sent = 0;
+  for (const [userId, unread] of byUser) {
+    try {
+      const digestRef = fdb.collection("notification_digests").doc(userId);
+      const last = (await digestRef.get()).data();
+      if (last?.lastPeriod === period) continue;
+
+      const lastSentAt = toMillis(last?.lastSentAt);
+      const items = unread.filter((n) => n.createdAt > lastSentAt);
+      if (items.length === 0) continue;
+
+      const user = (await fdb.collection("users").doc(userId).get()).data();
+      if (!user?.email) continue;
+      if (!resolveNotificationPreferences(user.notificationPreferences).dailyDigest) continue;
+
+      const { subject, html, text } = createNotificationDigestEmail(user.firstName || "there", items);
+      await sendEmail({ to: [user.email], subject, html, text });
+      await digestRef.set({ userId, lastPeriod: period, lastSentAt: at });
+      sent++;
+    } catch (error) {
+      console.error(`sendNotificationDigests: failed for user ${userId}:`, error);
+    }
+  }
+
+  console.log(`sendNotificationDigests: users=${byUser.size}, sent=${sent}, at=${at.toISOString()}`);
+  return { users: byUser.size, sent };
+}
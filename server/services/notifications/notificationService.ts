@@ -0,0 +1,335 @@
+/**
+ * Notification Service
+ *
+ * Single entry point for everything that notifies a user. Producers name an
+ * event from NOTIFICATION_EVENTS and pass the rendered title/body; the
+ * service then routes it to the channels the recipient chose for that event
+ * (`users.notificationPreferences`), falling back to the catalogue defaults:
+ *
+ *   - in-app: a document in the `notifications` collection, also pushed to
+ *             the user's open realtime connections
+ *   - email:  via sendEmail; during the recipient's quiet hours the email is
+ *             queued in `deferred_emails` and sent once they end
+ *
+ * Admin events are not user-configurable: they always land in the admin
+ * notification list, and are emailed to every admin when the catalogue says so.
+ */
+
+import { fdb } from "../../firebase-admin";
+import { createNotificationEmail, sendEmail, sendToAdmins } from "../../email";
+import { publishToUser } from "../realtime/realtimeHub";
+import { addDaysYMD, resolveTimeZone, toZonedHHMM, toZonedYMD, zonedTimeToUtc } from "../../../shared/timezone";
+import type {
+  DeferredEmail,
+  Notification,
+  NotificationChannelPreference,
+  NotificationPreferences,
+  NotificationType,
+  QuietHours,
+} from "../../../shared/types";
+
+export interface NotificationEventDefinition {
+  label: string;
+  description: string;
+  audience: "user" | "admin";
+  defaults: NotificationChannelPreference;
+}
+
+export const NOTIFICATION_EVENTS: Record<NotificationType, NotificationEventDefinition> = {
+  SESSION_REQUESTED: {
+    label: "Session requests",
+    description: "A student asks to book a session with you",
+    audience: "user",
+    defaults: { inApp: true, email: true },
+  },
+  SESSION_CANCELLED: {
+    label: "Cancellations",
+    description: "A session is cancelled, with the refund outcome",
+    audience: "user",
+    defaults: { inApp: true, email: true },
+  },
+  SESSION_RESCHEDULE_REQUESTED: {
+    label: "Reschedule requests",
+    description: "The other side proposes a new time",
+    audience: "user",
+    defaults: { inApp: true, email: true },
+  },
+  SESSION_RESCHEDULED: {
+    label: "Reschedules accepted",
+    description: "A proposed new time was accepted",
+    audience: "user",
+    defaults: { inApp: true, email: false },
+  },
+  SESSION_RESCHEDULE_DECLINED: {
+    label: "Reschedules declined",
+    description: "A proposed new time was declined",
+    audience: "user",
+    defaults: { inApp: true, email: false },
+  },
+  SESSION_EXPIRED: {
+    label: "Expired requests",
+    description: "A tutor did not answer your request in time",
+    audience: "user",
+    defaults: { inApp: true, email: true },
+  },
+  SESSION_REMINDER: {
+    label: "Session reminders",
+    description: "Before a confirmed session starts",
+    audience: "user",
+    defaults: { inApp: true, email: true },
+  },
+  NEW_MESSAGE: {
+    label: "New messages",
+    description: "Someone sends you a chat message",
+    audience: "user",
+    defaults: { inApp: true, email: false },
+  },
+  LESSON_REPORT_READY: {
+    label: "Lesson reports",
+    description: "Your tutor published a report for a session",
+    audience: "user",
+    defaults: { inApp: true, email: true },
+  },
+  NEW_REVIEW: {
+    label: "New reviews",
+    description: "A student reviewed one of your sessions",
+    audience: "user",
+    defaults: { inApp: true, email: true },
+  },
+  REVIEW_REPLY: {
+    label: "Review replies",
+    description: "A tutor replied to your review",
+    audience: "user",
+    defaults: { inApp: true, email: false },
+  },
+  CHAT_SUSPENDED: {
+    label: "Chat suspensions",
+    description: "Your chat was suspended after repeated contact-sharing strikes",
+    audience: "user",
+    defaults: { inApp: true, email: true },
+  },
+  MODERATION_APPEAL_RESOLVED: {
+    label: "Appeal decisions",
+    description: "An admin reviewed your appeal of a blocked message",
+    audience: "user",
+    defaults: { inApp: true, email: true },
+  },
+  TUTOR_VERIFIED: {
+    label: "Profile verification",
+    description: "Your tutor profile was approved",
+    audience: "user",
+    defaults: { inApp: true, email: true },
+  },
+  TUTOR_REGISTERED: {
+    label: "New tutor registrations",
+    description: "A tutor completed their profile and awaits review",
+    audience: "admin",
+    defaults: { inApp: true, email: true },
+  },
+  PENDING_TUTOR_APPROVAL: {
+    label: "Pending tutor approvals",
+    description: "Tutors waiting for verification",
+    audience: "admin",
+    defaults: { inApp: true, email: false },
+  },
+  PHONE_NUMBER_VIOLATION: {
+    label: "Contact sharing attempts",
+    description: "A chat message with contact details was blocked",
+    audience: "admin",
+    defaults: { inApp: true, email: false },
+  },
+  MODERATION_APPEAL_SUBMITTED: {
+    label: "Moderation appeals",
+    description: "A user appealed a blocked chat message",
+    audience: "admin",
+    defaults: { inApp: true, email: false },
+  },
+  REVIEW_REPORTED: {
+    label: "Reported reviews",
+    description: "A user reported a review",
+    audience: "admin",
+    defaults: { inApp: true, email: false },
+  },
+};
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  events: {},
+  quietHours: { enabled: false, start: "22:00", end: "07:00" },
+  dailyDigest: true,
+};
+
+export interface NotificationContent {
+  title: string;
+  body: string;
+  data?: Record<string, unknown>;
+}
+
+/** Tailored email to send instead of the generic copy of the notification */
+export interface NotificationEmail {
+  subject: string;
+  html: string;
+  text?: string;
+}
+
+// ============================================================================
+// PREFERENCES
+// ============================================================================
+
+/** Stored preferences merged over the defaults */
+export function resolveNotificationPreferences(
+  raw?: Partial<NotificationPreferences> | null
+): NotificationPreferences {
+  return {
+    ...DEFAULT_NOTIFICATION_PREFERENCES,
+    ...(raw ?? {}),
+    events: { ...(raw?.events ?? {}) },
+    quietHours: { ...DEFAULT_NOTIFICATION_PREFERENCES.quietHours, ...(raw?.quietHours ?? {}) },
+  };
+}
+
+export function channelsFor(prefs: NotificationPreferences, type: NotificationType): NotificationChannelPreference {
+  return prefs.events[type] ?? NOTIFICATION_EVENTS[type].defaults;
+}
+
+/** Whether `at` falls inside the quiet-hours window, read in the user's zone */
+export function isInQuietHours(quietHours: QuietHours, at: Date, timeZone: string): boolean {
+  if (!quietHours.enabled || quietHours.start === quietHours.end) return false;
+  const t = toZonedHHMM(at, timeZone);
+  return quietHours.start < quietHours.end
+    ? t >= quietHours.start && t < quietHours.end
+    : t >= quietHours.start || t < quietHours.end; // wraps past midnight
+}
+
+/** When the quiet-hours window containing `at` ends */
+export function quietHoursEnd(quietHours: QuietHours, at: Date, timeZone: string): Date {
+  const today = toZonedYMD(at, timeZone);
+  const end = zonedTimeToUtc(today, quietHours.end, timeZone);
+  return end > at ? end : zonedTimeToUtc(addDaysYMD(today, 1), quietHours.end, timeZone);
+}
+
+// ============================================================================
+// DELIVERY
+// ============================================================================
+
+/**
+ * Notify one user through the channels they chose for `type`.
+ * Never throws; returns which channels were used.
+ */
+export async function notifyUser(
+  userId: string,
+  type: NotificationType,
+  content: NotificationContent,
+  options: { email?: NotificationEmail } = {}
+): Promise<{ inApp: boolean; email: boolean }> {
+  const delivered = { inApp: false, email: false };
+  try {
+    const user = (await fdb!.collection("users").doc(userId).get()).data();
+    const prefs = resolveNotificationPreferences(user?.notificationPreferences);
+    const channels = channelsFor(prefs, type);
+
+    if (channels.inApp) {
+      const notification: Notification = {
+        type,
+        title: content.title,
+        body: content.body,
+        userId,
+        audience: "user",
+        data: content.data ?? {},
+        isRead: false,
+        createdAt: new Date(),
+      };
+      const ref = await fdb!.collection("notifications").add(notification);
+      publishToUser(userId, { type: "notification:new", notification: { id: ref.id, ...notification } });
+      delivered.inApp = true;
+    }
+
+    if (channels.email && user?.email) {
+      const email =
+        options.email ?? createNotificationEmail(user.firstName || "there", content.title, content.body);
+      const now = new Date();
+      const timeZone = resolveTimeZone(user.timezone);
+      if (isInQuietHours(prefs.quietHours, now, timeZone)) {
+        const deferred: DeferredEmail = {
+          userId,
+          type,
+          subject: email.subject,
+          html: email.html,
+          text: email.text ?? null,
+          sendAfter: quietHoursEnd(prefs.quietHours, now, timeZone),
+          createdAt: now,
+        };
+        await fdb!.collection("deferred_emails").add(deferred);
+      } else {
+        await sendEmail({ to: [user.email], ...email });
+      }
+      delivered.email = true;
+    }
+  } catch (error) {
+    console.error(`Failed to deliver ${type} notification to ${userId}:`, error);
+  }
+  return delivered;
+}
+
+/**
+ * Scheduled: send the emails held back by quiet hours that are now due.
+ * Sent to the user's current address; dropped if they have since turned
+ * email off for that event.
+ */
+export async function sendDeferredEmails(at: Date): Promise<{ due: number; sent: number; dropped: number }> {
+  const snap = await fdb!.collection("deferred_emails").where("sendAfter", "<=", at).get();
+
+  let sent = 0;
+  let dropped = 0;
+  for (const doc of snap.docs) {
+    const deferred = doc.data() as DeferredEmail;
+    try {
+      const user = (await fdb!.collection("users").doc(deferred.userId).get()).data();
+      const prefs = resolveNotificationPreferences(user?.notificationPreferences);
+      if (user?.email && channelsFor(prefs, deferred.type).email) {
+        await sendEmail({
+          to: [user.email],
+          subject: deferred.subject,
+          html: deferred.html,
+          text: deferred.text ?? undefined,
+        });
+        sent++;
+      } else {
+        dropped++;
+      }
+      await doc.ref.delete();
+    } catch (error) {
+      console.error(`sendDeferredEmails: failed for ${doc.id}:`, error);
+    }
+  }
+
+  console.log(`sendDeferredEmails: due=${snap.size}, sent=${sent}, dropped=${dropped}, at=${at.toISOString()}`);
+  return { due: snap.size, sent, dropped };
+}
+
+/** Add to the admin notification list, and email admins for events that warrant it */
+export async function notifyAdmins(
+  type: NotificationType,
+  content: NotificationContent,
+  options: { email?: NotificationEmail } = {}
+): Promise<void> {
+  const { defaults } = NOTIFICATION_EVENTS[type];
+  try {
+    if (defaults.inApp) {
+      await fdb!.collection("notifications").add({
+        type,
+        title: content.title,
+        body: content.body,
+        audience: "admin",
+        data: content.data ?? {},
+        isRead: false,
+        createdAt: new Date(),
+      });
+    }
+    if (defaults.email) {
+      const email = options.email ?? createNotificationEmail("Admin", content.title, content.body);
+      await sendToAdmins(email.subject, email.html, email.text);
+    }
+  } catch (error) {
+    console.error(`Failed to deliver ${type} admin notification:`, error);
+  }
+}
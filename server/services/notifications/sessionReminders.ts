@@ -0,0 +1,123 @@
+/**
+ * Session Reminders
+ *
+ * Both participants of a `scheduled` session are reminded ahead of its start
+ * at the platform's lead times (24h and 1h by default, admin-tunable in
+ * `platform_settings/session_reminders`). Each user can opt out of
+ * individual lead times (`users.reminderPreferences`); which channels a
+ * reminder uses follows their SESSION_REMINDER notification preference.
+ *
+ * Every reminder sent is recorded in `session_reminders` under a key that
+ * includes the session's start time, so a tick never sends the same reminder
+ * twice while a rescheduled session gets fresh reminders for its new time.
+ */
+
+import { fdb } from "../../firebase-admin";
+import type { ReminderPreferences, SessionReminderConfig } from "../../../shared/types";
+
+export const DEFAULT_SESSION_REMINDER_CONFIG: SessionReminderConfig = {
+  leadTimesMinutes: [24 * 60, 60],
+};
+
+export const DEFAULT_REMINDER_PREFERENCES: ReminderPreferences = {
+  leadTimesMinutes: null,
+};
+
+const CONFIG_DOC = () => fdb!.collection("platform_settings").doc("session_reminders");
+const CONFIG_TTL = 5 * 60 * 1000; // 5 minutes
+
+let cachedConfig: { data: SessionReminderConfig; timestamp: number } | null = null;
+
+// ============================================================================
+// CONFIG
+// ============================================================================
+
+export async function getSessionReminderConfig(): Promise<SessionReminderConfig> {
+  if (cachedConfig && Date.now() - cachedConfig.timestamp < CONFIG_TTL) {
+    return cachedConfig.data;
+  }
+
+  const snap = await CONFIG_DOC().get();
+  const config = { ...DEFAULT_SESSION_REMINDER_CONFIG, ...(snap.exists ? snap.data() : {}) };
+  cachedConfig = { data: config, timestamp: Date.now() };
+  return config;
+}
+
+export async function saveSessionReminderConfig(
+  config: Omit<SessionReminderConfig, "updatedAt" | "updatedBy">,
+  updatedBy: string
+): Promise<SessionReminderConfig> {
+  const leadTimesMinutes = Array.from(new Set(config.leadTimesMinutes)).sort((a, b) => b - a);
+  await CONFIG_DOC().set({ leadTimesMinutes, updatedAt: new Date(), updatedBy });
+
+  cachedConfig = null;
+  console.log("[Cache] Session reminder config cache invalidated");
+
+  return getSessionReminderConfig();
+}
+
+/** Stored preferences merged over the defaults */
+export function resolveReminderPreferences(raw?: Partial<ReminderPreferences> | null): ReminderPreferences {
+  return { ...DEFAULT_REMINDER_PREFERENCES, ...(raw ?? {}) };
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+/**
+ * The reminder that is due for a session starting at `scheduledAt`: the
+ * smallest lead time that has been reached. A session booked 3 hours ahead
+ * therefore gets the 24h reminder right away and the 1h reminder later,
+ * never both at once. Null once the session has started.
+ */
+export function dueLeadTime(leadTimesMinutes: number[], scheduledAt: Date, at: Date): number | null {
+  const remaining = (scheduledAt.getTime() - at.getTime()) / 60_000;
+  if (remaining <= 0) return null;
+
+  const reached = leadTimesMinutes.filter((lead) => lead >= remaining);
+  return reached.length ? Math.min(...reached) : null;
+}
+
+export function wantsReminder(prefs: ReminderPreferences, leadMinutes: number): boolean {
+  return !prefs.leadTimesMinutes || prefs.leadTimesMinutes.includes(leadMinutes);
+}
+
+/** "24 hours", "1 hour", "30 minutes" */
+export function formatLeadTime(minutes: number): string {
+  if (minutes % 60 === 0) {
+    const hours = minutes / 60;
+    return `${hours} hour${hours === 1 ? "" : "s"}`;
+  }
+  return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+}
+
+// ============================================================================
+// DEDUPLICATION
+// ============================================================================
+
+/**
+ * Record that a reminder is being sent. Returns false if it was already sent
+ * (for this session, user, lead time and start time).
+ */
+export async function claimReminder(
+  sessionId: string,
+  userId: string,
+  leadMinutes: number,
+  scheduledAt: Date
+): Promise<boolean> {
+  const key = `${sessionId}_${userId}_${leadMinutes}_${scheduledAt.getTime()}`;
+  try {
+    await fdb!.collection("session_reminders").doc(key).create({
+      sessionId,
+      userId,
+      leadMinutes,
+      scheduledAt,
+      sentAt: new Date(),
+    });
+    return true;
+  } catch (error: any) {
+    if (error?.code === 6) return false; // ALREADY_EXISTS
+    throw error;
+  }
+}
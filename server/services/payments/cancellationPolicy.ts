@@ -0,0 +1,110 @@
+/**
+ * Cancellation Policy
+ *
+ * Decides how much of a session's price goes back to the student when a
+ * session is cancelled. The policy is stored in `platform_settings/cancellation_policy`
+ * so admins can tune it; anything missing falls back to DEFAULT_CANCELLATION_POLICY.
+ *
+ * Evaluation order:
+ *   1. Session was never accepted (pending)        -> full refund
+ *   2. Cancelled by the tutor / an admin            -> tutorCancel / adminCancel percent
+ *   3. Cancelled by the student after the start     -> afterStartRefundPercent
+ *   4. Cancelled by the student before the start    -> first notice tier that matches
+ */
+
+import { fdb } from "../../firebase-admin";
+import type {
+  CancellationPolicy,
+  CancellationRule,
+  CancelledBy,
+} from "../../../shared/types";
+
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicy = {
+  noticeTiers: [
+    { minHoursBefore: 24, refundPercent: 100 },
+    { minHoursBefore: 0, refundPercent: 50 },
+  ],
+  afterStartRefundPercent: 0,
+  tutorCancelRefundPercent: 100,
+  adminCancelRefundPercent: 100,
+};
+
+const POLICY_DOC = () => fdb!.collection("platform_settings").doc("cancellation_policy");
+const POLICY_TTL = 5 * 60 * 1000; // 5 minutes
+
+let cachedPolicy: { data: CancellationPolicy; timestamp: number } | null = null;
+
+export interface CancellationDecision {
+  rule: CancellationRule;
+  refundPercent: number;
+  hoursBeforeStart: number; // negative once the session has started
+}
+
+// ============================================================================
+// CONFIG
+// ============================================================================
+
+function normalizePolicy(raw: Partial<CancellationPolicy> | undefined): CancellationPolicy {
+  const merged = { ...DEFAULT_CANCELLATION_POLICY, ...(raw ?? {}) };
+  return {
+    ...merged,
+    // Highest notice first so evaluation can stop at the first match
+    noticeTiers: [...(merged.noticeTiers ?? [])].sort((a, b) => b.minHoursBefore - a.minHoursBefore),
+  };
+}
+
+export async function getCancellationPolicy(): Promise<CancellationPolicy> {
+  if (cachedPolicy && Date.now() - cachedPolicy.timestamp < POLICY_TTL) {
+    return cachedPolicy.data;
+  }
+
+  const snap = await POLICY_DOC().get();
+  const policy = normalizePolicy(snap.exists ? (snap.data() as CancellationPolicy) : undefined);
+  cachedPolicy = { data: policy, timestamp: Date.now() };
+  return policy;
+}
+
+export async function saveCancellationPolicy(
+  policy: Omit<CancellationPolicy, "updatedAt" | "updatedBy">,
+  updatedBy: string
+): Promise<CancellationPolicy> {
+  const normalized = normalizePolicy(policy);
+  await POLICY_DOC().set({ ...normalized, updatedAt: new Date(), updatedBy });
+
+  cachedPolicy = null;
+  console.log("[Cache] Cancellation policy cache invalidated");
+
+  return getCancellationPolicy();
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+export function evaluateCancellation(
+  policy: CancellationPolicy,
+  input: { status: string; scheduledAt: Date; cancelledBy: CancelledBy; at?: Date }
+): CancellationDecision {
+  const at = input.at ?? new Date();
+  const hoursBeforeStart = (input.scheduledAt.getTime() - at.getTime()) / 3_600_000;
+
+  if (input.status === "pending") {
+    return { rule: "unconfirmed", refundPercent: 100, hoursBeforeStart };
+  }
+  if (input.cancelledBy === "tutor") {
+    return { rule: "tutor_cancelled", refundPercent: policy.tutorCancelRefundPercent, hoursBeforeStart };
+  }
+  if (input.cancelledBy === "admin") {
+    return { rule: "admin_cancelled", refundPercent: policy.adminCancelRefundPercent, hoursBeforeStart };
+  }
+  if (hoursBeforeStart <= 0) {
+    return { rule: "after_start", refundPercent: policy.afterStartRefundPercent, hoursBeforeStart };
+  }
+
+  const tier = policy.noticeTiers.find((t) => hoursBeforeStart >= t.minHoursBefore);
+  return {
+    rule: tier ? "notice_tier" : "after_start",
+    refundPercent: tier ? tier.refundPercent : policy.afterStartRefundPercent,
+    hoursBeforeStart,
+  };
+}
@@ -0,0 +1,218 @@
+/**
+ * Tutor Earnings Ledger
+ *
+ * Server-side record of what the platform owes each tutor. A credit is written
+ * to `tutor_earnings` when a session completes (manually or via
+ * autoCompleteSessions) and when a late cancellation leaves part of the price
+ * with the tutor. Each credit applies the platform commission in force at
+ * accrual time, so later config changes never rewrite history.
+ *
+ * Entry ids are deterministic (`${sessionId}_${type}`) which makes accrual
+ * idempotent: completing the same session twice is a no-op.
+ *
+ * An entry is only written when, re-read in the same transaction, the session
+ * is in the status its type pays for and its payment was captured: money that
+ * was refunded or never taken is never credited.
+ */
+
+import { fdb } from "../../firebase-admin";
+import type {
+  CommissionConfig,
+  EarningsEntry,
+  EarningsEntryType,
+  Payout,
+} from "../../../shared/types";
+import { PAYMENT_CURRENCY } from "./paymentService";
+
+export const DEFAULT_COMMISSION_CONFIG: CommissionConfig = {
+  defaultRatePercent: 15,
+  tierRates: { standard: 15, pro: 12, elite: 10 },
+  subjectRates: {},
+};
+
+const CONFIG_DOC = () => fdb!.collection("platform_settings").doc("commission");
+const CONFIG_TTL = 5 * 60 * 1000; // 5 minutes
+
+// Session status each entry type is credited for
+const ACCRUAL_SESSION_STATUS: Record<EarningsEntryType, string> = {
+  session: "completed",
+  cancellation_fee: "cancelled",
+};
+const CAPTURED_PAYMENT_STATUSES = ["captured", "partially_refunded"];
+
+let cachedConfig: { data: CommissionConfig; timestamp: number } | null = null;
+
+type EarningsRecord = EarningsEntry & { id: string };
+
+type SessionForEarnings = {
+  id: string;
+  tutorId: string;
+  studentId: string;
+  subjectId: string;
+  priceCents?: number;
+  scheduledAt?: unknown;
+};
+
+// ============================================================================
+// COMMISSION CONFIG
+// ============================================================================
+
+export async function getCommissionConfig(): Promise<CommissionConfig> {
+  if (cachedConfig && Date.now() - cachedConfig.timestamp < CONFIG_TTL) {
+    return cachedConfig.data;
+  }
+
+  const snap = await CONFIG_DOC().get();
+  const config = { ...DEFAULT_COMMISSION_CONFIG, ...(snap.exists ? (snap.data() as CommissionConfig) : {}) };
+  cachedConfig = { data: config, timestamp: Date.now() };
+  return config;
+}
+
+export async function saveCommissionConfig(
+  config: Omit<CommissionConfig, "updatedAt" | "updatedBy">,
+  updatedBy: string
+): Promise<CommissionConfig> {
+  await CONFIG_DOC().set({ ...config, updatedAt: new Date(), updatedBy });
+
+  cachedConfig = null;
+  console.log("[Cache] Commission config cache invalidated");
+
+  return getCommissionConfig();
+}
+
+export function resolveCommissionRate(
+  config: CommissionConfig,
+  subjectId: string,
+  commissionTier?: string | null
+): { ratePercent: number; source: EarningsEntry["commissionSource"] } {
+  const subjectRate = config.subjectRates?.[subjectId];
+  if (typeof subjectRate === "number") return { ratePercent: subjectRate, source: "subject" };
+
+  const tierRate = commissionTier ? config.tierRates?.[commissionTier] : undefined;
+  if (typeof tierRate === "number") return { ratePercent: tierRate, source: "tier" };
+
+  return { ratePercent: config.defaultRatePercent, source: "default" };
+}
+
+// ============================================================================
+// ACCRUAL
+// ============================================================================
+
+function toDate(value: any): Date | null {
+  if (!value) return null;
+  if (value instanceof Date) return value;
+  if (typeof value.toDate === "function") return value.toDate();
+  const d = new Date(value);
+  return isNaN(d.getTime()) ? null : d;
+}
+
+async function accrue(
+  session: SessionForEarnings,
+  type: EarningsEntryType,
+  grossCents: number,
+  tutorProfile?: { commissionTier?: string } | null
+): Promise<EarningsRecord | null> {
+  if (!(grossCents > 0)) return null;
+
+  const ref = fdb!.collection("tutor_earnings").doc(`${session.id}_${type}`);
+
+  let profile = tutorProfile;
+  if (profile === undefined) {
+    const snap = await fdb!.collection("tutor_profiles").doc(session.tutorId).get();
+    profile = snap.exists ? (snap.data() as { commissionTier?: string }) : null;
+  }
+
+  const config = await getCommissionConfig();
+  const { ratePercent, source } = resolveCommissionRate(config, session.subjectId, profile?.commissionTier);
+  const commissionCents = Math.round((grossCents * ratePercent) / 100);
+
+  const entry: EarningsEntry = {
+    tutorId: session.tutorId,
+    sessionId: session.id,
+    studentId: session.studentId,
+    subjectId: session.subjectId,
+    type,
+    grossCents,
+    commissionRatePercent: ratePercent,
+    commissionSource: source,
+    commissionCents,
+    netCents: grossCents - commissionCents,
+    currency: PAYMENT_CURRENCY,
+    sessionDate: toDate(session.scheduledAt),
+    payoutId: null,
+    accruedAt: new Date(),
+  };
+
+  const written = await fdb!.runTransaction(async (tx) => {
+    const [existing, sessionSnap] = await Promise.all([
+      tx.get(ref),
+      tx.get(fdb!.collection("tutoring_sessions").doc(session.id)),
+    ]);
+    if (existing.exists) return false;
+
+    const current = sessionSnap.data();
+    if (current?.status !== ACCRUAL_SESSION_STATUS[type]) return false;
+    if (!current.paymentId) return false;
+    const paymentSnap = await tx.get(fdb!.collection("payments").doc(current.paymentId));
+    if (!CAPTURED_PAYMENT_STATUSES.includes(paymentSnap.get("status"))) return false;
+
+    tx.create(ref, entry);
+    return true;
+  });
+  if (!written) return null;
+
+  return { id: ref.id, ...entry };
+}
+
+/** Credit the tutor for a completed session (no-op if already accrued) */
+export function accrueSessionEarnings(
+  session: SessionForEarnings,
+  tutorProfile?: { commissionTier?: string } | null
+) {
+  return accrue(session, "session", Number(session.priceCents ?? 0), tutorProfile);
+}
+
+/** Credit the share of a cancelled session the policy left with the tutor */
+export function accrueCancellationFee(session: SessionForEarnings, tutorRetainedCents: number) {
+  return accrue(session, "cancellation_fee", tutorRetainedCents);
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+export async function listTutorEarnings(tutorId: string): Promise<EarningsRecord[]> {
+  const snap = await fdb!.collection("tutor_earnings").where("tutorId", "==", tutorId).get();
+  return snap.docs
+    .map((d) => ({ id: d.id, ...(d.data() as EarningsEntry) }))
+    .sort((a, b) => (toDate(b.accruedAt)?.getTime() ?? 0) - (toDate(a.accruedAt)?.getTime() ?? 0));
+}
+
+/**
+ * Balance overview for one tutor: what is owed now, what is in a pending
+ * payout and what has been paid.
+ */
+export async function getTutorEarningsSummary(tutorId: string) {
+  const [entries, payoutSnap] = await Promise.all([
+    listTutorEarnings(tutorId),
+    fdb!.collection("payouts").where("tutorId", "==", tutorId).get(),
+  ]);
+
+  const payouts = payoutSnap.docs
+    .map((d) => ({ id: d.id, ...(d.data() as Payout) }))
+    .sort((a, b) => (toDate(b.createdAt)?.getTime() ?? 0) - (toDate(a.createdAt)?.getTime() ?? 0));
+
+  const sum = (list: Array<{ netCents: number }>) => list.reduce((acc, x) => acc + x.netCents, 0);
+
+  return {
+    currency: PAYMENT_CURRENCY,
+    availableCents: sum(entries.filter((e) => !e.payoutId)),
+    pendingPayoutCents: sum(payouts.filter((p) => p.status === "pending")),
+    paidOutCents: sum(payouts.filter((p) => p.status === "paid")),
+    lifetimeGrossCents: entries.reduce((acc, e) => acc + e.grossCents, 0),
+    lifetimeCommissionCents: entries.reduce((acc, e) => acc + e.commissionCents, 0),
+    lifetimeNetCents: sum(entries),
+    entries,
+    payouts,
+  };
+}
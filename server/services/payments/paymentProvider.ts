@@ -0,0 +1,99 @@
+/**
+ * Payment Provider Adapters
+ *
+ * The payments ledger talks to card/wallet processors only through the
+ * PaymentProvider interface, so a real gateway (PayPal, Apple Pay, BenefitPay)
+ * can be plugged in without touching booking logic.
+ *
+ * FakePaymentProvider is a local, stateless stand-in used in development and
+ * tests: every call succeeds unless the payment token is one of the decline
+ * tokens below.
+ */
+
+import { randomUUID } from "crypto";
+import type { PaymentMethod } from "../../../shared/types";
+
+export interface CreateIntentInput {
+  amountCents: number;
+  currency: string;
+  method: PaymentMethod;
+  metadata?: Record<string, string>;
+}
+
+export type ProviderResult =
+  | { ok: true; providerRef: string }
+  | { ok: false; error: string };
+
+export interface PaymentProvider {
+  readonly name: string;
+  createIntent(input: CreateIntentInput): Promise<ProviderResult>;
+  /** Place a hold for the full intent amount */
+  authorize(intentId: string, paymentToken?: string): Promise<ProviderResult>;
+  /** Settle a previously authorized hold (authorizationRef comes from authorize) */
+  capture(authorizationRef: string, amountCents: number): Promise<ProviderResult>;
+  /** Release a hold that was never captured */
+  void(authorizationRef: string): Promise<ProviderResult>;
+  /** Return part or all of a captured amount (captureRef comes from capture) */
+  refund(captureRef: string, amountCents: number): Promise<ProviderResult>;
+}
+
+// Tokens the fake provider treats as failures, handy for exercising error paths
+export const FAKE_DECLINE_TOKEN = "tok_fake_declined";
+export const FAKE_CAPTURE_FAIL_TOKEN = "tok_fake_capture_fails";
+
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = "fake";
+
+  async createIntent(_input: CreateIntentInput): Promise<ProviderResult> {
+    return { ok: true, providerRef: `fake_pi_${randomUUID()}` };
+  }
+
+  async authorize(intentId: string, paymentToken?: string): Promise<ProviderResult> {
+    if (paymentToken === FAKE_DECLINE_TOKEN) {
+      return { ok: false, error: "card_declined" };
+    }
+    // Encode the capture-failure flag in the auth reference so capture() can stay stateless
+    const suffix = paymentToken === FAKE_CAPTURE_FAIL_TOKEN ? "_capfail" : "";
+    return { ok: true, providerRef: `fake_auth_${intentId}${suffix}` };
+  }
+
+  async capture(authorizationRef: string, _amountCents: number): Promise<ProviderResult> {
+    if (authorizationRef.endsWith("_capfail")) {
+      return { ok: false, error: "capture_declined" };
+    }
+    return { ok: true, providerRef: `fake_cap_${randomUUID()}` };
+  }
+
+  async void(_authorizationRef: string): Promise<ProviderResult> {
+    return { ok: true, providerRef: `fake_void_${randomUUID()}` };
+  }
+
+  async refund(_captureRef: string, _amountCents: number): Promise<ProviderResult> {
+    return { ok: true, providerRef: `fake_refund_${randomUUID()}` };
+  }
+}
+
+let provider: PaymentProvider | null = null;
+
+/**
+ * Resolve the configured provider (PAYMENT_PROVIDER env). Only the fake
+ * adapter ships today; anything else falls back to it with a warning.
+ */
+export function getPaymentProvider(): PaymentProvider {
+  if (provider) return provider;
+
+  const configured = (process.env.PAYMENT_PROVIDER || "fake").toLowerCase();
+  if (configured !== "fake") {
+    console.warn(`Unknown PAYMENT_PROVIDER "${configured}", falling back to fake provider`);
+  } else if (process.env.NODE_ENV === "production") {
+    console.warn("Payments are running against the fake provider. No real charges will be made.");
+  }
+
+  provider = new FakePaymentProvider();
+  return provider;
+}
+
+/** Swap the active provider (used by tests and future real adapters) */
+export function setPaymentProvider(next: PaymentProvider | null): void {
+  provider = next;
+}
@@ -0,0 +1,480 @@
+/**
+ * Payments Ledger
+ *
+ * Every booking is backed by a document in the `payments` collection that
+ * records the lifecycle of the charge:
+ *
+ *   requires_authorization -> authorized -> captured -> partially_refunded / refunded
+ *                          \-> failed      \-> voided
+ *
+ * - The student creates an intent and authorizes it before a session can be
+ *   requested (POST /api/sessions only accepts an authorized, unclaimed intent).
+ * - The hold is captured when the tutor accepts the session (status -> scheduled).
+ * - The hold is voided if the request is cancelled before acceptance, or if
+ *   no booking claims it (the booking failed or was abandoned; see
+ *   releaseUnclaimedPayment / expireUnclaimedPayments).
+ * - Captured payments are refunded according to the cancellation policy
+ *   (see cancellationPolicy.ts / refundService.ts).
+ *
+ * Each transition is appended to `events` so the document doubles as an audit log.
+ *
+ * Provider calls are reserved in a transaction first (`operation`), so two
+ * calls for the same payment, e.g. a capture from an accept racing a void
+ * from a cancel, can never both go through.
+ */
+
+import { FieldValue, type Transaction } from "firebase-admin/firestore";
+import { fdb } from "../../firebase-admin";
+import type { Payment, PaymentEvent, PaymentMethod, PaymentOperation } from "../../../shared/types";
+import { getPaymentProvider } from "./paymentProvider";
+
+export const PAYMENT_CURRENCY = "BHD";
+export const PLATFORM_FEE_RATE = 0.1; // matches the 10% fee shown in BookingModal
+const DEFAULT_HOURLY_RATE = 15; // same fallback the booking UI uses
+export const UNCLAIMED_HOLD_MINUTES = 60; // authorized holds no booking claimed within this are voided
+const OPERATION_LEASE_MS = 2 * 60_000; // a provider call that crashed stops blocking the payment after this
+
+export class PaymentError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "PaymentError";
+    this.status = status;
+  }
+}
+
+type PaymentRecord = Payment & { id: string };
+
+function paymentsCol() {
+  return fdb!.collection("payments");
+}
+
+function toMillis(value: any): number {
+  if (!value) return 0;
+  if (value instanceof Date) return value.getTime();
+  if (typeof value.toMillis === "function") return value.toMillis();
+  if (typeof value._seconds === "number") return value._seconds * 1000;
+  const ms = new Date(value).getTime();
+  return Number.isFinite(ms) ? ms : 0;
+}
+
+function event(type: PaymentEvent["type"], extra: Omit<PaymentEvent, "type" | "at"> = {}): PaymentEvent {
+  return { type, at: new Date(), ...extra };
+}
+
+/**
+ * Reserve the payment for one provider call. `check` sees the payment as read
+ * in the transaction: it throws to refuse, or returns false when there is
+ * nothing to do (the payment is returned as it is).
+ */
+async function beginOperation(
+  paymentId: string,
+  operation: PaymentOperation,
+  check: (payment: PaymentRecord) => boolean
+): Promise<{ payment: PaymentRecord; started: boolean }> {
+  const ref = paymentsCol().doc(paymentId);
+
+  return fdb!.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists) throw new PaymentError("Payment not found", 404);
+
+    const payment = { id: snap.id, ...(snap.data() as Payment) } as PaymentRecord;
+    if (!check(payment)) return { payment, started: false };
+    if (payment.operation && Date.now() - toMillis(payment.operation.startedAt) < OPERATION_LEASE_MS) {
+      throw new PaymentError("Payment is being processed, try again shortly", 409);
+    }
+
+    tx.update(ref, { operation: { type: operation, startedAt: new Date() }, updatedAt: new Date() });
+    return { payment, started: true };
+  });
+}
+
+/** Store the outcome of the provider call and release the reservation */
+async function endOperation(paymentId: string, update: Record<string, unknown> = {}): Promise<void> {
+  await paymentsCol().doc(paymentId).update({ ...update, operation: null, updatedAt: new Date() });
+}
+
+/** Run a provider call under a reservation, releasing it if the call throws */
+async function callProvider<T>(paymentId: string, call: () => Promise<T>): Promise<T> {
+  try {
+    return await call();
+  } catch (error) {
+    await endOperation(paymentId);
+    throw error;
+  }
+}
+
+// ============================================================================
+// PRICING
+// ============================================================================
+
+/**
+ * Price a booking from the tutor's own pricing (never trust client amounts).
+ * Subject-specific price wins over the legacy hourlyRate.
+ */
+export function quoteSession(
+  tutorProfile: { hourlyRate?: number; subjectPricing?: Record<string, number> },
+  subjectId: string,
+  durationMinutes: number
+): { sessionPriceCents: number; platformFeeCents: number; amountCents: number } {
+  const subjectRate = Number(tutorProfile.subjectPricing?.[subjectId] ?? 0);
+  const hourlyRate = subjectRate || Number(tutorProfile.hourlyRate ?? 0) || DEFAULT_HOURLY_RATE;
+
+  const sessionPriceCents = Math.round(hourlyRate * 100 * (durationMinutes / 60));
+  const platformFeeCents = Math.round(sessionPriceCents * PLATFORM_FEE_RATE);
+
+  return {
+    sessionPriceCents,
+    platformFeeCents,
+    amountCents: sessionPriceCents + platformFeeCents,
+  };
+}
+
+// ============================================================================
+// LIFECYCLE
+// ============================================================================
+
+export async function getPayment(paymentId: string): Promise<PaymentRecord | null> {
+  const snap = await paymentsCol().doc(paymentId).get();
+  return snap.exists ? ({ id: snap.id, ...(snap.data() as Payment) } as PaymentRecord) : null;
+}
+
+/**
+ * Create a payment intent for a prospective booking
+ */
+export async function createPaymentIntent(input: {
+  studentId: string;
+  tutorProfile: { id: string; hourlyRate?: number; subjectPricing?: Record<string, number> };
+  subjectId: string;
+  durationMinutes: number;
+  method: PaymentMethod;
+}): Promise<PaymentRecord> {
+  const quote = quoteSession(input.tutorProfile, input.subjectId, input.durationMinutes);
+  const provider = getPaymentProvider();
+
+  const result = await provider.createIntent({
+    amountCents: quote.amountCents,
+    currency: PAYMENT_CURRENCY,
+    method: input.method,
+    metadata: { studentId: input.studentId, tutorId: input.tutorProfile.id },
+  });
+  if (!result.ok) {
+    throw new PaymentError(`Payment provider rejected the intent: ${result.error}`, 502);
+  }
+
+  const ref = paymentsCol().doc();
+  const payment: Payment = {
+    studentId: input.studentId,
+    tutorId: input.tutorProfile.id,
+    subjectId: input.subjectId,
+    sessionId: null,
+    durationMinutes: input.durationMinutes,
+    ...quote,
+    currency: PAYMENT_CURRENCY,
+    method: input.method,
+    provider: provider.name,
+    providerIntentId: result.providerRef,
+    providerAuthRef: null,
+    providerCaptureRef: null,
+    refundedCents: 0,
+    status: "requires_authorization",
+    failureReason: null,
+    events: [event("intent_created", { amountCents: quote.amountCents, providerRef: result.providerRef })],
+    authorizedAt: null,
+    capturedAt: null,
+    voidedAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  await ref.set(payment);
+  return { id: ref.id, ...payment };
+}
+
+/**
+ * Authorize (hold) the intent. A declined authorization marks the intent failed;
+ * the student has to start a new intent to retry.
+ */
+export async function authorizePayment(
+  paymentId: string,
+  studentId: string,
+  paymentToken?: string
+): Promise<PaymentRecord> {
+  const { payment, started } = await beginOperation(paymentId, "authorize", (p) => {
+    if (p.studentId !== studentId) throw new PaymentError("Not authorized to use this payment", 403);
+    if (p.status === "authorized") return false;
+    if (p.status !== "requires_authorization") {
+      throw new PaymentError(`Payment cannot be authorized from status "${p.status}"`, 409);
+    }
+    return true;
+  });
+  if (!started) return payment;
+
+  const result = await callProvider(paymentId, () =>
+    getPaymentProvider().authorize(payment.providerIntentId, paymentToken)
+  );
+
+  if (!result.ok) {
+    await endOperation(paymentId, {
+      status: "failed",
+      failureReason: result.error,
+      events: FieldValue.arrayUnion(event("authorization_failed", { error: result.error })),
+    });
+    throw new PaymentError(`Payment was declined (${result.error})`, 402);
+  }
+
+  await endOperation(paymentId, {
+    status: "authorized",
+    providerAuthRef: result.providerRef,
+    authorizedAt: new Date(),
+    events: FieldValue.arrayUnion(
+      event("authorized", { amountCents: payment.amountCents, providerRef: result.providerRef })
+    ),
+  });
+
+  return (await getPayment(paymentId))!;
+}
+
+type PaymentClaim = {
+  paymentId: string;
+  studentId: string;
+  tutorId: string;
+  subjectId: string;
+  durationMinutes: number;
+  sessionId: string;
+};
+
+/**
+ * Inside a booking transaction: verify the intent is authorized, unclaimed and
+ * matches the booking, then link it to the new session.
+ */
+export async function claimAuthorizedPayment(
+  tx: Transaction,
+  paymentId: string,
+  expected: Omit<PaymentClaim, "paymentId">
+): Promise<PaymentRecord> {
+  const [payment] = await claimAuthorizedPayments(tx, [{ paymentId, ...expected }]);
+  return payment;
+}
+
+/**
+ * Multi-session variant used by series bookings. All payments are read before
+ * any is linked (Firestore transactions require reads before writes).
+ */
+export async function claimAuthorizedPayments(tx: Transaction, claims: PaymentClaim[]): Promise<PaymentRecord[]> {
+  if (new Set(claims.map((c) => c.paymentId)).size !== claims.length) {
+    throw new PaymentError("Each session needs its own payment", 400);
+  }
+
+  const refs = claims.map((c) => paymentsCol().doc(c.paymentId));
+  const snaps = await Promise.all(refs.map((ref) => tx.get(ref)));
+
+  const payments = snaps.map((snap, i) => {
+    const expected = claims[i];
+    if (!snap.exists) throw new PaymentError("Payment not found", 404);
+
+    const payment = { id: snap.id, ...(snap.data() as Payment) } as PaymentRecord;
+    if (payment.studentId !== expected.studentId) {
+      throw new PaymentError("Not authorized to use this payment", 403);
+    }
+    if (payment.status !== "authorized") {
+      throw new PaymentError("Payment has not been authorized", 402);
+    }
+    if (payment.sessionId) {
+      throw new PaymentError("Payment is already attached to another session", 409);
+    }
+    if (payment.releaseRequestedAt) {
+      throw new PaymentError("Payment hold has been released", 409);
+    }
+    if (
+      payment.tutorId !== expected.tutorId ||
+      payment.subjectId !== expected.subjectId ||
+      payment.durationMinutes !== expected.durationMinutes
+    ) {
+      throw new PaymentError("Payment does not match this booking", 400);
+    }
+    return payment;
+  });
+
+  refs.forEach((ref, i) => tx.update(ref, { sessionId: claims[i].sessionId, updatedAt: new Date() }));
+  return payments;
+}
+
+/**
+ * Capture the held amount. Idempotent for already-captured payments.
+ */
+export async function capturePayment(paymentId: string): Promise<PaymentRecord> {
+  const { payment, started } = await beginOperation(paymentId, "capture", (p) => {
+    if (p.status === "captured") return false;
+    if (p.status !== "authorized" || !p.providerAuthRef) {
+      throw new PaymentError(`Payment cannot be captured from status "${p.status}"`, 409);
+    }
+    return true;
+  });
+  if (!started) return payment;
+
+  const result = await callProvider(paymentId, () =>
+    getPaymentProvider().capture(payment.providerAuthRef!, payment.amountCents)
+  );
+
+  if (!result.ok) {
+    // Keep the hold so the capture can be retried
+    await endOperation(paymentId, {
+      failureReason: result.error,
+      events: FieldValue.arrayUnion(event("capture_failed", { error: result.error })),
+    });
+    throw new PaymentError(`Payment capture failed (${result.error})`, 402);
+  }
+
+  await endOperation(paymentId, {
+    status: "captured",
+    providerCaptureRef: result.providerRef,
+    failureReason: null,
+    capturedAt: new Date(),
+    events: FieldValue.arrayUnion(
+      event("captured", { amountCents: payment.amountCents, providerRef: result.providerRef })
+    ),
+  });
+
+  return (await getPayment(paymentId))!;
+}
+
+/**
+ * Release an uncaptured hold. Captured, failed and already-voided payments are
+ * returned unchanged.
+ */
+export async function voidPayment(paymentId: string): Promise<PaymentRecord | null> {
+  if (!(await paymentsCol().doc(paymentId).get()).exists) return null;
+
+  const { payment, started } = await beginOperation(
+    paymentId,
+    "void",
+    (p) => p.status === "authorized" || p.status === "requires_authorization"
+  );
+  if (!started) return payment;
+
+  if (payment.status === "authorized" && payment.providerAuthRef) {
+    const result = await callProvider(paymentId, () => getPaymentProvider().void(payment.providerAuthRef!));
+    if (!result.ok) {
+      await endOperation(paymentId);
+      throw new PaymentError(`Failed to release payment hold (${result.error})`, 502);
+    }
+    await endOperation(paymentId, {
+      status: "voided",
+      voidedAt: new Date(),
+      events: FieldValue.arrayUnion(event("voided", { amountCents: payment.amountCents, providerRef: result.providerRef })),
+    });
+  } else {
+    // Never authorized: nothing is held at the provider
+    await endOperation(paymentId, {
+      status: "voided",
+      voidedAt: new Date(),
+      events: FieldValue.arrayUnion(event("voided")),
+    });
+  }
+
+  return getPayment(paymentId);
+}
+
+/**
+ * Void a hold no booking claimed. The payment is first marked as released in a
+ * transaction so a booking racing with the release can no longer claim it.
+ * Returns null when a session claimed it first.
+ */
+export async function releaseUnclaimedPayment(paymentId: string, studentId?: string): Promise<PaymentRecord | null> {
+  const ref = paymentsCol().doc(paymentId);
+
+  const releasable = await fdb!.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists) throw new PaymentError("Payment not found", 404);
+
+    const payment = snap.data() as Payment;
+    if (studentId && payment.studentId !== studentId) {
+      throw new PaymentError("Not authorized to use this payment", 403);
+    }
+    if (payment.sessionId) return false;
+    if (payment.status !== "authorized" && payment.status !== "requires_authorization") return true;
+
+    if (!payment.releaseRequestedAt) tx.update(ref, { releaseRequestedAt: new Date(), updatedAt: new Date() });
+    return true;
+  });
+
+  return releasable ? voidPayment(paymentId) : null;
+}
+
+/**
+ * Scheduled: void holds and intents that never became a session (booking
+ * rejected, failed, or the tab was closed before it was sent or before the
+ * intent was authorized). Intents age from creation, holds from authorization.
+ */
+export async function expireUnclaimedPayments(
+  at: Date,
+  maxAgeMinutes = UNCLAIMED_HOLD_MINUTES
+): Promise<{ checked: number; voided: number; failed: number }> {
+  const cutoff = at.getTime() - maxAgeMinutes * 60_000;
+  const snap = await paymentsCol().where("status", "in", ["authorized", "requires_authorization"]).get();
+
+  let checked = 0;
+  let voided = 0;
+  let failed = 0;
+
+  for (const doc of snap.docs) {
+    const payment = doc.data() as Payment;
+    if (payment.sessionId || toMillis(payment.authorizedAt ?? payment.createdAt) > cutoff) continue;
+    checked++;
+
+    try {
+      const released = await releaseUnclaimedPayment(doc.id);
+      if (released?.status === "voided") voided++;
+    } catch (error) {
+      failed++;
+      console.error(`expireUnclaimedPayments: failed to release payment ${doc.id}:`, error);
+    }
+  }
+
+  console.log(`expireUnclaimedPayments: checked=${checked}, voided=${voided}, failed=${failed}, at=${at.toISOString()}`);
+
+  return { checked, voided, failed };
+}
+
+/**
+ * Return part of a captured payment to the student. Amounts are capped at what
+ * is still refundable; a failed provider call is recorded and rethrown.
+ */
+export async function refundPayment(paymentId: string, amountCents: number): Promise<{
+  payment: PaymentRecord;
+  refundedCents: number;
+  providerRef: string | null;
+}> {
+  let amount = 0;
+  const { payment, started } = await beginOperation(paymentId, "refund", (p) => {
+    if (p.status !== "captured" && p.status !== "partially_refunded") {
+      throw new PaymentError(`Payment cannot be refunded from status "${p.status}"`, 409);
+    }
+    amount = Math.min(Math.max(0, Math.round(amountCents)), p.amountCents - Number(p.refundedCents ?? 0));
+    return amount > 0;
+  });
+  if (!started) return { payment, refundedCents: 0, providerRef: null };
+
+  const result = await callProvider(paymentId, () =>
+    getPaymentProvider().refund(payment.providerCaptureRef ?? "", amount)
+  );
+
+  if (!result.ok) {
+    await endOperation(paymentId, {
+      failureReason: result.error,
+      events: FieldValue.arrayUnion(event("refund_failed", { amountCents: amount, error: result.error })),
+    });
+    throw new PaymentError(`Refund failed (${result.error})`, 502);
+  }
+
+  const totalRefunded = Number(payment.refundedCents ?? 0) + amount;
+  await endOperation(paymentId, {
+    status: totalRefunded >= payment.amountCents ? "refunded" : "partially_refunded",
+    refundedCents: totalRefunded,
+    events: FieldValue.arrayUnion(event("refunded", { amountCents: amount, providerRef: result.providerRef })),
+  });
+
+  return { payment: (await getPayment(paymentId))!, refundedCents: amount, providerRef: result.providerRef };
+}
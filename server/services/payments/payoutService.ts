@@ -0,0 +1,285 @@
+/**
+ * Tutor Payouts
+ *
+ * Admins periodically run a payout batch: every unpaid ledger entry accrued up
+ * to `periodEnd` is grouped per tutor into a `payouts` document, and the
+ * entries are stamped with that payout id so they are never paid twice.
+ * Once the transfers have been made outside the platform, the batch is marked
+ * paid. Each payout has a downloadable CSV statement.
+ *
+ * Only one batch is built at a time: the run holds a lease on
+ * `payout_locks/create_batch` (claimed in a transaction, expiring on its own
+ * if the process dies) so two runs can never stamp the same entries.
+ */
+
+import type { DocumentData, DocumentReference, UpdateData } from "firebase-admin/firestore";
+import { fdb } from "../../firebase-admin";
+import type { EarningsEntry, Payout, PayoutBatch } from "../../../shared/types";
+import { PAYMENT_CURRENCY } from "./paymentService";
+
+type PayoutRecord = Payout & { id: string };
+type PayoutBatchRecord = PayoutBatch & { id: string };
+type EarningsRecord = EarningsEntry & { id: string };
+
+const BATCH_LIMIT = 400; // stay under Firestore's 500 writes per batch
+const LOCK_LEASE_MS = 10 * 60_000; // longer than any batch run should take
+
+export class PayoutError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "PayoutError";
+    this.status = status;
+  }
+}
+
+function toMillis(value: any): number {
+  if (!value) return 0;
+  if (value instanceof Date) return value.getTime();
+  if (typeof value.toMillis === "function") return value.toMillis();
+  return new Date(value).getTime() || 0;
+}
+
+/** Commit writes in chunks that stay under the per-batch limit */
+function chunkedWriter() {
+  let writer = fdb!.batch();
+  let ops = 0;
+  const flush = async () => {
+    if (ops > 0) {
+      await writer.commit();
+      writer = fdb!.batch();
+      ops = 0;
+    }
+  };
+  return {
+    set: (ref: DocumentReference, data: DocumentData) => {
+      writer.set(ref, data);
+      ops++;
+    },
+    update: (ref: DocumentReference, data: UpdateData<any>) => {
+      writer.update(ref, data);
+      ops++;
+    },
+    flushIfFull: async () => {
+      if (ops >= BATCH_LIMIT) await flush();
+    },
+    flush,
+  };
+}
+
+// ============================================================================
+// LOCK
+// ============================================================================
+
+const lockRef = () => fdb!.collection("payout_locks").doc("create_batch");
+
+async function acquirePayoutLock(owner: string): Promise<void> {
+  const at = Date.now();
+  const acquired = await fdb!.runTransaction(async (tx) => {
+    const snap = await tx.get(lockRef());
+    if (snap.exists && toMillis(snap.data()?.expiresAt) > at) return false;
+    tx.set(lockRef(), { owner, acquiredAt: new Date(at), expiresAt: new Date(at + LOCK_LEASE_MS) });
+    return true;
+  });
+  if (!acquired) throw new PayoutError("Another payout batch is being created; try again shortly", 409);
+}
+
+async function releasePayoutLock(owner: string): Promise<void> {
+  await fdb!.runTransaction(async (tx) => {
+    const snap = await tx.get(lockRef());
+    if (snap.data()?.owner === owner) tx.delete(lockRef());
+  });
+}
+
+// ============================================================================
+// BATCHES
+// ============================================================================
+
+/**
+ * Group all unpaid earnings accrued up to periodEnd into per-tutor payouts.
+ * Returns null when there is nothing to pay; throws a 409 PayoutError while
+ * another run holds the lock.
+ */
+export async function createPayoutBatch(periodEnd: Date, createdBy: string): Promise<PayoutBatchRecord | null> {
+  const batchRef = fdb!.collection("payout_batches").doc();
+  await acquirePayoutLock(batchRef.id);
+  try {
+    return await buildPayoutBatch(batchRef, periodEnd, createdBy);
+  } finally {
+    await releasePayoutLock(batchRef.id);
+  }
+}
+
+async function buildPayoutBatch(
+  batchRef: DocumentReference,
+  periodEnd: Date,
+  createdBy: string
+): Promise<PayoutBatchRecord | null> {
+  const unpaidSnap = await fdb!.collection("tutor_earnings").where("payoutId", "==", null).get();
+  const entries = unpaidSnap.docs
+    .map((d) => ({ id: d.id, ...(d.data() as EarningsEntry) }) as EarningsRecord)
+    .filter((e) => toMillis(e.accruedAt) <= periodEnd.getTime());
+
+  if (entries.length === 0) return null;
+
+  const byTutor = new Map<string, EarningsRecord[]>();
+  for (const e of entries) {
+    const list = byTutor.get(e.tutorId) ?? [];
+    list.push(e);
+    byTutor.set(e.tutorId, list);
+  }
+
+  const createdAt = new Date();
+  const payouts: PayoutRecord[] = [];
+
+  for (const [tutorId, list] of Array.from(byTutor.entries())) {
+    const payoutRef = fdb!.collection("payouts").doc();
+    payouts.push({
+      id: payoutRef.id,
+      batchId: batchRef.id,
+      tutorId,
+      entryIds: list.map((e) => e.id),
+      entryCount: list.length,
+      grossCents: list.reduce((acc, e) => acc + e.grossCents, 0),
+      commissionCents: list.reduce((acc, e) => acc + e.commissionCents, 0),
+      netCents: list.reduce((acc, e) => acc + e.netCents, 0),
+      currency: PAYMENT_CURRENCY,
+      status: "pending",
+      periodEnd,
+      createdAt,
+      paidAt: null,
+    });
+  }
+
+  const batch: PayoutBatch = {
+    periodEnd,
+    status: "pending",
+    payoutCount: payouts.length,
+    totalGrossCents: payouts.reduce((acc, p) => acc + p.grossCents, 0),
+    totalCommissionCents: payouts.reduce((acc, p) => acc + p.commissionCents, 0),
+    totalNetCents: payouts.reduce((acc, p) => acc + p.netCents, 0),
+    createdBy,
+    createdAt,
+    paidAt: null,
+    paidBy: null,
+  };
+
+  // Write payouts + stamp entries in chunks
+  const writer = chunkedWriter();
+  writer.set(batchRef, batch);
+
+  for (const p of payouts) {
+    const { id, ...data } = p;
+    writer.set(fdb!.collection("payouts").doc(id), data);
+    for (const entryId of p.entryIds) {
+      writer.update(fdb!.collection("tutor_earnings").doc(entryId), { payoutId: id });
+      await writer.flushIfFull();
+    }
+    await writer.flushIfFull();
+  }
+  await writer.flush();
+
+  console.log(
+    `createPayoutBatch: batch=${batchRef.id}, payouts=${payouts.length}, net=${batch.totalNetCents}, periodEnd=${periodEnd.toISOString()}`
+  );
+
+  return { id: batchRef.id, ...batch };
+}
+
+export async function listPayoutBatches(limit = 50): Promise<PayoutBatchRecord[]> {
+  const snap = await fdb!.collection("payout_batches").orderBy("createdAt", "desc").limit(limit).get();
+  return snap.docs.map((d) => ({ id: d.id, ...(d.data() as PayoutBatch) }));
+}
+
+export async function listBatchPayouts(batchId: string): Promise<PayoutRecord[]> {
+  const snap = await fdb!.collection("payouts").where("batchId", "==", batchId).get();
+  return snap.docs.map((d) => ({ id: d.id, ...(d.data() as Payout) }));
+}
+
+/** Record that the batch's transfers were sent */
+export async function markPayoutBatchPaid(batchId: string, paidBy: string): Promise<PayoutBatchRecord | null> {
+  const batchRef = fdb!.collection("payout_batches").doc(batchId);
+  const snap = await batchRef.get();
+  if (!snap.exists) return null;
+
+  const current = snap.data() as PayoutBatch;
+  if (current.status === "paid") return { id: snap.id, ...current };
+
+  const paidAt = new Date();
+  const payouts = await listBatchPayouts(batchId);
+
+  // Payouts first: the batch only reads as paid once all of them are
+  const writer = chunkedWriter();
+  for (const p of payouts) {
+    writer.update(fdb!.collection("payouts").doc(p.id), { status: "paid", paidAt });
+    await writer.flushIfFull();
+  }
+  writer.update(batchRef, { status: "paid", paidAt, paidBy });
+  await writer.flush();
+
+  return { id: snap.id, ...current, status: "paid", paidAt, paidBy };
+}
+
+// ============================================================================
+// STATEMENTS
+// ============================================================================
+
+export async function getPayout(payoutId: string): Promise<PayoutRecord | null> {
+  const snap = await fdb!.collection("payouts").doc(payoutId).get();
+  return snap.exists ? { id: snap.id, ...(snap.data() as Payout) } : null;
+}
+
+function csvCell(value: unknown): string {
+  const str = String(value ?? "");
+  return /[",\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+}
+
+const money = (cents: number) => (cents / 100).toFixed(2);
+
+/**
+ * CSV statement listing every ledger entry included in the payout
+ */
+export async function buildPayoutStatementCsv(
+  payout: PayoutRecord,
+  tutorName: string,
+  subjectNames: Map<string, string>
+): Promise<string> {
+  const entrySnaps = await Promise.all(
+    payout.entryIds.map((id) => fdb!.collection("tutor_earnings").doc(id).get())
+  );
+  const entries = entrySnaps
+    .filter((s) => s.exists)
+    .map((s) => ({ id: s.id, ...(s.data() as EarningsEntry) }) as EarningsRecord)
+    .sort((a, b) => toMillis(a.sessionDate ?? a.accruedAt) - toMillis(b.sessionDate ?? b.accruedAt));
+
+  const rows: unknown[][] = [
+    ["Payout statement"],
+    ["Tutor", tutorName],
+    ["Payout ID", payout.id],
+    ["Period end", new Date(toMillis(payout.periodEnd)).toISOString().slice(0, 10)],
+    ["Status", payout.status],
+    ["Currency", payout.currency],
+    [],
+    ["Date", "Session ID", "Subject", "Type", "Gross", "Commission %", "Commission", "Net"],
+  ];
+
+  for (const e of entries) {
+    const date = toMillis(e.sessionDate ?? e.accruedAt);
+    rows.push([
+      date ? new Date(date).toISOString().slice(0, 10) : "",
+      e.sessionId,
+      subjectNames.get(e.subjectId) ?? e.subjectId,
+      e.type === "session" ? "Session" : "Cancellation fee",
+      money(e.grossCents),
+      e.commissionRatePercent,
+      money(e.commissionCents),
+      money(e.netCents),
+    ]);
+  }
+
+  rows.push([]);
+  rows.push(["Totals", "", "", "", money(payout.grossCents), "", money(payout.commissionCents), money(payout.netCents)]);
+
+  return rows.map((r) => r.map(csvCell).join(",")).join("\n") + "\n";
+}
@@ -0,0 +1,145 @@
+/**
+ * Refunds
+ *
+ * Applies the cancellation policy to a session and moves the money:
+ * - authorized (uncaptured) payment -> hold released, nothing was charged
+ * - captured payment                -> provider refund of the policy share
+ * - no payment on file (legacy)     -> refund recorded as `manual` for admins
+ *
+ * Every cancellation of a priced session produces a `refunds` document and a
+ * SessionCancellation summary that the caller stores on the session.
+ */
+
+import { fdb } from "../../firebase-admin";
+import type { CancelledBy, Refund, SessionCancellation } from "../../../shared/types";
+import { evaluateCancellation, getCancellationPolicy, type CancellationDecision } from "./cancellationPolicy";
+import { PAYMENT_CURRENCY, PaymentError, getPayment, refundPayment, voidPayment } from "./paymentService";
+
+type SessionForCancellation = {
+  id: string;
+  studentId: string;
+  tutorId: string;
+  status: string;
+  scheduledAt: Date;
+  priceCents?: number;
+  paymentId?: string | null;
+};
+
+export interface CancellationQuote extends CancellationDecision {
+  sessionPriceCents: number;
+  refundCents: number;
+  tutorRetainedCents: number;
+}
+
+/**
+ * Preview what a cancellation would refund right now (no side effects)
+ */
+export async function quoteCancellation(
+  session: SessionForCancellation,
+  cancelledBy: CancelledBy
+): Promise<CancellationQuote> {
+  const policy = await getCancellationPolicy();
+  const decision = evaluateCancellation(policy, {
+    status: session.status,
+    scheduledAt: session.scheduledAt,
+    cancelledBy,
+  });
+
+  const sessionPriceCents = Number(session.priceCents ?? 0);
+  const refundCents = Math.round((sessionPriceCents * decision.refundPercent) / 100);
+
+  return {
+    ...decision,
+    sessionPriceCents,
+    refundCents,
+    tutorRetainedCents: sessionPriceCents - refundCents,
+  };
+}
+
+/**
+ * Evaluate the policy, refund/release the payment and record the refund.
+ * Provider failures are recorded on the refund (status `failed`) rather than
+ * blocking the cancellation itself.
+ */
+export async function settleCancellation(input: {
+  session: SessionForCancellation;
+  cancelledBy: CancelledBy;
+  actorId: string;
+  reason?: string | null;
+}): Promise<SessionCancellation> {
+  const { session, cancelledBy } = input;
+  const quote = await quoteCancellation(session, cancelledBy);
+
+  const refund: Refund = {
+    sessionId: session.id,
+    paymentId: session.paymentId ?? null,
+    studentId: session.studentId,
+    tutorId: session.tutorId,
+    cancelledBy,
+    rule: quote.rule,
+    refundPercent: quote.refundPercent,
+    sessionPriceCents: quote.sessionPriceCents,
+    refundCents: quote.refundCents,
+    platformFeeRefundCents: 0,
+    tutorRetainedCents: quote.tutorRetainedCents,
+    currency: PAYMENT_CURRENCY,
+    kind: "none",
+    status: quote.refundCents > 0 ? "manual" : "not_required",
+    providerRef: null,
+    failureReason: null,
+    createdAt: new Date(),
+  };
+
+  const payment = session.paymentId ? await getPayment(session.paymentId) : null;
+
+  if (payment) {
+    refund.currency = payment.currency;
+    // Platform fee follows the same percentage as the session price
+    refund.platformFeeRefundCents = Math.round((payment.platformFeeCents * quote.refundPercent) / 100);
+
+    try {
+      if (payment.status === "authorized" || payment.status === "requires_authorization") {
+        // Nothing was charged: release the whole hold regardless of the policy share
+        await voidPayment(payment.id);
+        refund.kind = "release";
+        refund.refundCents = quote.sessionPriceCents;
+        refund.platformFeeRefundCents = payment.platformFeeCents;
+        refund.tutorRetainedCents = 0;
+        refund.status = "succeeded";
+      } else if (payment.status === "captured" || payment.status === "partially_refunded") {
+        refund.kind = "refund";
+        const total = refund.refundCents + refund.platformFeeRefundCents;
+        if (total > 0) {
+          const result = await refundPayment(payment.id, total);
+          refund.providerRef = result.providerRef;
+          refund.status = "succeeded";
+        } else {
+          refund.status = "not_required";
+        }
+      } else {
+        // voided / failed / already refunded: no money left to move
+        refund.status = "not_required";
+      }
+    } catch (error) {
+      if (!(error instanceof PaymentError)) throw error;
+      console.error(`Refund for session ${session.id} failed:`, error.message);
+      refund.status = "failed";
+      refund.failureReason = error.message;
+    }
+  }
+
+  const ref = await fdb!.collection("refunds").add(refund);
+
+  return {
+    cancelledBy,
+    cancelledByUserId: input.actorId,
+    cancelledAt: new Date(),
+    reason: input.reason ?? null,
+    rule: refund.rule,
+    refundPercent: refund.kind === "release" ? 100 : refund.refundPercent,
+    refundCents: refund.refundCents,
+    tutorRetainedCents: refund.tutorRetainedCents,
+    refundId: ref.id,
+    refundStatus: refund.status,
+  };
+}
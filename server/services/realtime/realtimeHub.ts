@@ -0,0 +1,220 @@
+/**
+ * Realtime Hub
+ *
+ * WebSocket push channel on the app's HTTP server at REALTIME_PATH. A client
+ * connects, sends `{ type: "auth", token }` with the same Firebase ID token
+ * used for the REST API, and from then on receives new chat messages, read
+ * receipts, typing indicators and notifications as they happen.
+ *
+ * Sockets are tracked per user in each process. A single instance delivers
+ * straight to its sockets and touches no Firestore. When several instances
+ * run, set REALTIME_FANOUT=true so they behave as one: every published event
+ * is then also written to `realtime_events`; each instance listens to that
+ * collection and delivers the events other instances wrote to its own
+ * sockets. Typing indicators are the exception: they are only worth anything
+ * live and stay local. Old events are purged by a scheduled job.
+ */
+
+import type { Server as HttpServer, IncomingMessage } from "http";
+import type { Duplex } from "stream";
+import { hostname } from "os";
+import { randomBytes } from "crypto";
+import { WebSocketServer, WebSocket } from "ws";
+import { auth, fdb } from "../../firebase-admin";
+import type { RealtimeClientEvent, RealtimeServerEvent } from "../../../shared/types";
+
+export const REALTIME_PATH = "/ws";
+
+const AUTH_TIMEOUT_MS = 10_000;
+const HEARTBEAT_MS = 30_000;
+const FANOUT_RETRY_MS = 30_000;
+const EVENT_RETENTION_MS = 60 * 60_000; // events only matter to instances listening when they were written
+const INSTANCE_ID = `${hostname()}-${process.pid}-${randomBytes(3).toString("hex")}`;
+
+const eventsCol = () => fdb!.collection("realtime_events");
+const fanOutEnabled = () => process.env.REALTIME_FANOUT === "true" && !!fdb;
+
+type TrackedSocket = WebSocket & { userId?: string; isAlive?: boolean };
+
+export interface RealtimeOptions {
+  /** Whether `fromUserId` may send typing indicators to `toUserId` */
+  canMessage: (fromUserId: string, toUserId: string) => Promise<boolean>;
+}
+
+const socketsByUser = new Map<string, Set<TrackedSocket>>();
+
+// ============================================================================
+// PUBLISHING
+// ============================================================================
+
+/** Send to the user's sockets on this instance */
+function deliverLocally(userId: string, event: RealtimeServerEvent): void {
+  const sockets = socketsByUser.get(userId);
+  if (!sockets) return;
+  const frame = JSON.stringify(event);
+  for (const ws of sockets) {
+    if (ws.readyState === WebSocket.OPEN) ws.send(frame);
+  }
+}
+
+/** Push an event to every open socket of the user, on any instance; no-op if they are offline */
+export function publishToUser(userId: string, event: RealtimeServerEvent): void {
+  deliverLocally(userId, event);
+  if (event.type === "typing" || !fanOutEnabled()) return;
+
+  // JSON round trip: Firestore rejects undefined fields and would turn dates into Timestamps
+  eventsCol()
+    .add({ userId, origin: INSTANCE_ID, event: JSON.parse(JSON.stringify(event)), createdAt: new Date() })
+    .catch((error) => console.error("[Realtime] Failed to fan out event:", error));
+}
+
+export function isUserConnected(userId: string): boolean {
+  return (socketsByUser.get(userId)?.size ?? 0) > 0;
+}
+
+// ============================================================================
+// FAN-OUT
+// ============================================================================
+
+/** Deliver events written by other instances from now on; resubscribes if the listener fails */
+function listenForOtherInstances(): void {
+  if (!fanOutEnabled()) return;
+  const since = new Date();
+  const unsubscribe = eventsCol()
+    .where("createdAt", ">", since)
+    .onSnapshot(
+      (snap) => {
+        for (const change of snap.docChanges()) {
+          if (change.type !== "added") continue;
+          const data = change.doc.data();
+          if (data.origin === INSTANCE_ID || !isUserConnected(data.userId)) continue;
+          deliverLocally(data.userId, data.event as RealtimeServerEvent);
+        }
+      },
+      (error) => {
+        console.error("[Realtime] Fan-out listener failed, retrying:", error);
+        unsubscribe();
+        setTimeout(listenForOtherInstances, FANOUT_RETRY_MS).unref();
+      }
+    );
+}
+
+/** Scheduled: delete fanned-out events no instance needs any more */
+export async function purgeRealtimeEvents(at: Date): Promise<{ deleted: number }> {
+  const cutoff = new Date(at.getTime() - EVENT_RETENTION_MS);
+  let deleted = 0;
+  for (;;) {
+    const snap = await eventsCol().where("createdAt", "<", cutoff).limit(400).get();
+    if (snap.empty) break;
+    const batch = fdb!.batch();
+    snap.docs.forEach((d) => batch.delete(d.ref));
+    await batch.commit();
+    deleted += snap.size;
+  }
+  return { deleted };
+}
+
+// ============================================================================
+// CONNECTIONS
+// ============================================================================
+
+function track(ws: TrackedSocket, userId: string) {
+  ws.userId = userId;
+  let set = socketsByUser.get(userId);
+  if (!set) socketsByUser.set(userId, (set = new Set()));
+  set.add(ws);
+}
+
+function untrack(ws: TrackedSocket) {
+  if (!ws.userId) return;
+  const set = socketsByUser.get(ws.userId);
+  set?.delete(ws);
+  if (set && set.size === 0) socketsByUser.delete(ws.userId);
+}
+
+function parseFrame(raw: unknown): RealtimeClientEvent | null {
+  try {
+    const frame = JSON.parse(String(raw));
+    return frame && typeof frame.type === "string" ? frame : null;
+  } catch {
+    return null;
+  }
+}
+
+async function handleFrame(ws: TrackedSocket, frame: RealtimeClientEvent, options: RealtimeOptions) {
+  if (frame.type === "auth") {
+    if (ws.userId) return;
+    try {
+      const decoded = await auth.verifyIdToken(String(frame.token ?? ""));
+      track(ws, decoded.uid);
+      ws.send(JSON.stringify({ type: "ready", userId: decoded.uid } satisfies RealtimeServerEvent));
+    } catch {
+      ws.close(4001, "Invalid token");
+    }
+    return;
+  }
+
+  if (!ws.userId) {
+    ws.close(4001, "Not authenticated");
+    return;
+  }
+
+  if (frame.type === "typing" && typeof frame.toUserId === "string") {
+    if (!isUserConnected(frame.toUserId)) return;
+    if (!(await options.canMessage(ws.userId, frame.toUserId))) return;
+    publishToUser(frame.toUserId, { type: "typing", fromUserId: ws.userId, isTyping: !!frame.isTyping });
+  }
+}
+
+/** Accept realtime connections on the given server (other upgrade requests, e.g. Vite HMR, are left alone) */
+export function attachRealtime(server: HttpServer, options: RealtimeOptions): void {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const pathname = (req.url ?? "").split("?")[0];
+    if (pathname !== REALTIME_PATH) return;
+    wss.handleUpgrade(req, socket, head, (ws) => wss.emit("connection", ws, req));
+  });
+
+  wss.on("connection", (ws: TrackedSocket) => {
+    ws.isAlive = true;
+    const authTimer = setTimeout(() => {
+      if (!ws.userId) ws.close(4001, "Authentication timeout");
+    }, AUTH_TIMEOUT_MS);
+
+    ws.on("pong", () => {
+      ws.isAlive = true;
+    });
+    ws.on("message", (raw) => {
+      const frame = parseFrame(raw);
+      if (!frame) return;
+      handleFrame(ws, frame, options).catch((error) => console.error("[Realtime] Frame failed:", error));
+    });
+    ws.on("close", () => {
+      clearTimeout(authTimer);
+      untrack(ws);
+    });
+    ws.on("error", (error) => console.error("[Realtime] Socket error:", error));
+  });
+
+  // Drop connections that stopped answering pings (sleeping laptops, dead proxies)
+  const heartbeat = setInterval(() => {
+    for (const ws of wss.clients as Set<TrackedSocket>) {
+      if (!ws.isAlive) {
+        ws.terminate();
+        continue;
+      }
+      ws.isAlive = false;
+      ws.ping();
+    }
+  }, HEARTBEAT_MS);
+  heartbeat.unref();
+  wss.on("close", () => clearInterval(heartbeat));
+
+  listenForOtherInstances();
+
+  console.log(
+    `[Realtime] Listening for WebSocket connections on ${REALTIME_PATH}` +
+      (fanOutEnabled() ? " (fan-out to other instances on)" : "")
+  );
+}
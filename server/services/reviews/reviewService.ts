@@ -0,0 +1,347 @@
+/**
+ * Reviews: verified per-session reviews, tutor replies and moderation
+ *
+ * A student reviews a completed session, not a tutor: the review is stored
+ * at `reviews/{sessionId}`, so each session can be reviewed once. A student
+ * can review at most MAX_REVIEWS_PER_PAIR sessions of the same tutor, so a
+ * single regular student cannot dominate a tutor's rating.
+ *
+ * Tutors can post one public reply per review. Any signed-in user can report
+ * a review (`review_reports`, one per user and review), which flags it for
+ * the admin queue; admins hide or restore reviews, hide abusive replies or
+ * dismiss the reports.
+ *
+ * TutorProfile.rating and totalReviews, plus the per-dimension averages and
+ * tag counts, are recomputed from the published reviews inside the same
+ * transaction as every change that affects them.
+ * Reviews written before this (one per tutor, random ids) are treated as
+ * published and keep counting.
+ */
+
+import { fdb } from "../../firebase-admin";
+import { notifyAdmins, notifyUser } from "../notifications/notificationService";
+import { aggregateReviewRatings } from "../../../shared/ratings";
+import type {
+  RatingDimension,
+  Review,
+  ReviewModerationAction,
+  ReviewReport,
+  ReviewReportReason,
+  ReviewTag,
+} from "../../../shared/types";
+
+export const MAX_REVIEWS_PER_PAIR = 5;
+
+export class ReviewError extends Error {
+  status: number;
+  constructor(message: string, status = 400) {
+    super(message);
+    this.status = status;
+  }
+}
+
+type Actor = { id: string; role?: string | null; firstName?: string | null; lastName?: string | null };
+
+function toMillis(value: any): number {
+  if (!value) return 0;
+  if (value instanceof Date) return value.getTime();
+  if (typeof value.toMillis === "function") return value.toMillis();
+  if (typeof value._seconds === "number") return value._seconds * 1000;
+  const ms = new Date(value).getTime();
+  return Number.isFinite(ms) ? ms : 0;
+}
+
+const fullName = (u: any) => `${u?.firstName || ""} ${u?.lastName || ""}`.trim() || "Someone";
+
+/** Whether a review counts towards ratings and is shown publicly */
+export function isPublishedReview(review: Partial<Review> | undefined | null): boolean {
+  return !!review && review.status !== "hidden";
+}
+
+/** Review as shown to the public: hidden replies are dropped */
+export function toPublicReview<T extends Partial<Review>>(review: T): T {
+  return review.reply?.hidden ? { ...review, reply: null } : review;
+}
+
+/** The TutorProfile rating fields derived from a tutor's reviews */
+function ratingAggregate(reviews: Array<Partial<Review>>) {
+  const { rating, totalReviews, dimensions, tagCounts } = aggregateReviewRatings(reviews);
+  return { rating, totalReviews, ratingDimensions: dimensions, reviewTagCounts: tagCounts };
+}
+
+const tutorReviewsQuery = (tutorId: string) => fdb!.collection("reviews").where("tutorId", "==", tutorId);
+
+// ============================================================================
+// WRITING
+// ============================================================================
+
+/** Sessions of this tutor the student can still review, newest first */
+export async function listReviewableSessions(studentId: string, tutorId: string) {
+  const [sessionsSnap, reviewsSnap] = await Promise.all([
+    fdb!
+      .collection("tutoring_sessions")
+      .where("tutorId", "==", tutorId)
+      .where("studentId", "==", studentId)
+      .where("status", "==", "completed")
+      .get(),
+    tutorReviewsQuery(tutorId).where("studentId", "==", studentId).get(),
+  ]);
+
+  const reviewed = new Set(reviewsSnap.docs.map((d) => (d.data() as Review).sessionId).filter(Boolean));
+  const remaining = Math.max(0, MAX_REVIEWS_PER_PAIR - reviewsSnap.size);
+  const sessions = sessionsSnap.docs
+    .filter((d) => !reviewed.has(d.id))
+    .map((d) => {
+      const data = d.data() as any;
+      return { id: d.id, subjectId: data.subjectId as string, scheduledAt: new Date(toMillis(data.scheduledAt)) };
+    })
+    .sort((a, b) => b.scheduledAt.getTime() - a.scheduledAt.getTime());
+
+  return { sessions: remaining > 0 ? sessions : [], remaining, cap: MAX_REVIEWS_PER_PAIR };
+}
+
+export async function createSessionReview(
+  student: Actor,
+  input: {
+    sessionId: string;
+    rating: number;
+    dimensions?: Partial<Record<RatingDimension, number>>;
+    tags?: ReviewTag[];
+    comment?: string;
+  }
+): Promise<Review & { id: string }> {
+  const sessionRef = fdb!.collection("tutoring_sessions").doc(input.sessionId);
+  const reviewRef = fdb!.collection("reviews").doc(input.sessionId);
+
+  const { review, tutorUserId } = await fdb!.runTransaction(async (tx) => {
+    const sessionSnap = await tx.get(sessionRef);
+    const session = sessionSnap.data();
+    if (!sessionSnap.exists || !session || session.studentId !== student.id) {
+      throw new ReviewError("Session not found", 404);
+    }
+    if (session.status !== "completed") {
+      throw new ReviewError("You can only review a session once it is completed", 403);
+    }
+    if ((await tx.get(reviewRef)).exists) {
+      throw new ReviewError("You have already reviewed this session", 409);
+    }
+
+    const profileRef = fdb!.collection("tutor_profiles").doc(session.tutorId);
+    const [profileSnap, tutorReviewsSnap] = await Promise.all([
+      tx.get(profileRef),
+      tx.get(tutorReviewsQuery(session.tutorId)),
+    ]);
+    if (!profileSnap.exists) throw new ReviewError("Tutor profile not found", 404);
+
+    const existing = tutorReviewsSnap.docs.map((d) => d.data() as Review);
+    if (existing.filter((r) => r.studentId === student.id).length >= MAX_REVIEWS_PER_PAIR) {
+      throw new ReviewError(`You can review at most ${MAX_REVIEWS_PER_PAIR} sessions with the same tutor`, 409);
+    }
+
+    const review: Review = {
+      sessionId: input.sessionId,
+      tutorId: session.tutorId,
+      studentId: student.id,
+      rating: input.rating,
+      dimensions: input.dimensions ?? {},
+      tags: Array.from(new Set(input.tags ?? [])),
+      comment: (input.comment ?? "").trim(),
+      status: "published",
+      reply: null,
+      reportCount: 0,
+      flagged: false,
+      lastReportedAt: null,
+      moderation: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    tx.set(reviewRef, review);
+    tx.update(profileRef, { ...ratingAggregate([...existing, review]), updatedAt: new Date() });
+    return { review, tutorUserId: profileSnap.data()?.userId as string | undefined };
+  });
+
+  if (tutorUserId) {
+    await notifyUser(tutorUserId, "NEW_REVIEW", {
+      title: "New review",
+      body: `${fullName(student)} rated a session ${review.rating}/5.`,
+      data: { reviewId: reviewRef.id, sessionId: input.sessionId },
+    });
+  }
+
+  return { id: reviewRef.id, ...review };
+}
+
+/** Post, edit (text) or remove (null) the tutor's public reply */
+export async function setReviewReply(tutor: Actor, reviewId: string, text: string | null) {
+  const reviewRef = fdb!.collection("reviews").doc(reviewId);
+
+  const { review, isNew } = await fdb!.runTransaction(async (tx) => {
+    const snap = await tx.get(reviewRef);
+    const review = snap.data() as Review | undefined;
+    if (!snap.exists || !review) throw new ReviewError("Review not found", 404);
+
+    const profileSnap = await tx.get(fdb!.collection("tutor_profiles").doc(review.tutorId));
+    if (profileSnap.data()?.userId !== tutor.id) {
+      throw new ReviewError("Only the reviewed tutor can reply", 403);
+    }
+    if (review.reply?.hidden) {
+      throw new ReviewError("Your reply was removed by a moderator and cannot be edited", 403);
+    }
+
+    const at = new Date();
+    const reply = text === null ? null : { text, createdAt: review.reply?.createdAt ?? at, updatedAt: at };
+    tx.update(reviewRef, { reply, updatedAt: at });
+    return { review: { ...review, reply }, isNew: !review.reply && !!reply };
+  });
+
+  if (isNew) {
+    await notifyUser(review.studentId, "REVIEW_REPLY", {
+      title: "Your tutor replied to your review",
+      body: text!.length > 140 ? `${text!.slice(0, 139)}…` : text!,
+      data: { reviewId, tutorId: review.tutorId },
+    });
+  }
+
+  return { id: reviewId, ...review };
+}
+
+export async function reportReview(
+  reporter: Actor,
+  reviewId: string,
+  reason: ReviewReportReason,
+  details?: string
+): Promise<ReviewReport & { id: string }> {
+  const reviewRef = fdb!.collection("reviews").doc(reviewId);
+  const reportRef = fdb!.collection("review_reports").doc(`${reviewId}_${reporter.id}`);
+
+  const report = await fdb!.runTransaction(async (tx) => {
+    const [reviewSnap, reportSnap] = await Promise.all([tx.get(reviewRef), tx.get(reportRef)]);
+    const review = reviewSnap.data() as Review | undefined;
+    if (!reviewSnap.exists || !isPublishedReview(review)) throw new ReviewError("Review not found", 404);
+    if (reportSnap.exists) throw new ReviewError("You have already reported this review", 409);
+
+    const report: ReviewReport = {
+      reviewId,
+      reporterId: reporter.id,
+      reason,
+      details: details || null,
+      status: "open",
+      createdAt: new Date(),
+      resolvedAt: null,
+    };
+    tx.set(reportRef, report);
+    tx.update(reviewRef, {
+      reportCount: (review!.reportCount ?? 0) + 1,
+      flagged: true,
+      lastReportedAt: report.createdAt,
+    });
+    return report;
+  });
+
+  await notifyAdmins("REVIEW_REPORTED", {
+    title: "Review reported",
+    body: `${fullName(reporter)} (${reporter.role}) reported a review as ${reason.replace("_", " ")}.`,
+    data: { reviewId, reason },
+  });
+
+  return { id: reportRef.id, ...report };
+}
+
+// ============================================================================
+// MODERATION
+// ============================================================================
+
+/**
+ * Apply an admin action. Every action closes the open reports; hiding or
+ * restoring the review also recomputes the tutor's rating.
+ */
+export async function moderateReview(
+  adminId: string,
+  reviewId: string,
+  action: ReviewModerationAction,
+  note?: string
+): Promise<Review & { id: string }> {
+  const reviewRef = fdb!.collection("reviews").doc(reviewId);
+  const openReportsQuery = fdb!
+    .collection("review_reports")
+    .where("reviewId", "==", reviewId)
+    .where("status", "==", "open");
+
+  return fdb!.runTransaction(async (tx) => {
+    const snap = await tx.get(reviewRef);
+    const review = snap.data() as Review | undefined;
+    if (!snap.exists || !review) throw new ReviewError("Review not found", 404);
+    if (action === "hide_reply" && !review.reply) throw new ReviewError("This review has no reply");
+
+    const affectsRating = action === "hide" || action === "restore";
+    const profileRef = fdb!.collection("tutor_profiles").doc(review.tutorId);
+    const [reportsSnap, tutorReviewsSnap] = await Promise.all([
+      tx.get(openReportsQuery),
+      affectsRating ? tx.get(tutorReviewsQuery(review.tutorId)) : Promise.resolve(null),
+    ]);
+
+    const at = new Date();
+    const updated: Review = {
+      ...review,
+      status: action === "hide" ? "hidden" : action === "restore" ? "published" : review.status ?? "published",
+      reply: action === "hide_reply" && review.reply ? { ...review.reply, hidden: true } : review.reply ?? null,
+      flagged: false,
+      moderation: { action, note: note || null, by: adminId, at },
+      updatedAt: at,
+    };
+    tx.set(reviewRef, updated);
+    reportsSnap.docs.forEach((d) => tx.update(d.ref, { status: "resolved", resolvedAt: at }));
+
+    if (tutorReviewsSnap) {
+      const reviews = tutorReviewsSnap.docs.map((d) => (d.id === reviewId ? updated : (d.data() as Review)));
+      tx.update(profileRef, { ...ratingAggregate(reviews), updatedAt: at });
+    }
+    return { id: reviewId, ...updated };
+  });
+}
+
+/** Flagged (reported, not yet handled) or hidden reviews, with their reports */
+export async function listModerationQueue(filter: "flagged" | "hidden", limit = 100) {
+  const snap =
+    filter === "flagged"
+      ? await fdb!.collection("reviews").where("flagged", "==", true).limit(limit).get()
+      : await fdb!.collection("reviews").where("status", "==", "hidden").limit(limit).get();
+  const reviews = snap.docs
+    .map((d) => ({ id: d.id, ...(d.data() as Review) }))
+    .sort(
+      (a, b) =>
+        toMillis(b.lastReportedAt ?? b.updatedAt ?? b.createdAt) - toMillis(a.lastReportedAt ?? a.updatedAt ?? a.createdAt)
+    );
+
+  const reports = await Promise.all(
+    reviews.map(async (r) => {
+      const rs = await fdb!.collection("review_reports").where("reviewId", "==", r.id).get();
+      return rs.docs
+        .map((d) => ({ id: d.id, ...(d.data() as ReviewReport) }))
+        .sort((a, b) => toMillis(b.createdAt) - toMillis(a.createdAt));
+    })
+  );
+  return reviews.map((r, i) => ({ ...r, reports: reports[i] }));
+}
+
+/** Recompute one tutor's stored rating fields from their published reviews */
+export async function recomputeTutorRating(tutorId: string): Promise<ReturnType<typeof ratingAggregate>> {
+  const profileRef = fdb!.collection("tutor_profiles").doc(tutorId);
+  return fdb!.runTransaction(async (tx) => {
+    const [profileSnap, reviewsSnap] = await Promise.all([tx.get(profileRef), tx.get(tutorReviewsQuery(tutorId))]);
+    if (!profileSnap.exists) throw new ReviewError("Tutor profile not found", 404);
+    const aggregate = ratingAggregate(reviewsSnap.docs.map((d) => d.data() as Review));
+    tx.update(profileRef, { ...aggregate, updatedAt: new Date() });
+    return aggregate;
+  });
+}
+
+/** Bring every tutor's stored rating in line with their reviews (backfill) */
+export async function recomputeAllTutorRatings(): Promise<{ tutors: number }> {
+  const snap = await fdb!.collection("tutor_profiles").get();
+  for (const d of snap.docs) {
+    await recomputeTutorRating(d.id);
+  }
+  console.log(`[Reviews] Recomputed ratings for ${snap.size} tutors`);
+  return { tutors: snap.size };
+}
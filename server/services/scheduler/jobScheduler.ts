@@ -0,0 +1,239 @@
+/**
+ * Job Scheduler
+ *
+ * Runs recurring background jobs (auto-complete, request expiry, digests...)
+ * inside the server process. Jobs are registered at startup with
+ * `registerJob` and the scheduler ticks once a minute.
+ *
+ * Several server instances may run the scheduler at once, so each job's
+ * state lives in `scheduler_jobs/{name}` and doubles as a lease lock: an
+ * instance only runs a job after claiming the lease in a transaction, and
+ * the lease expires on its own if that instance dies mid-run. Every
+ * execution is recorded in `job_runs` with its duration, result and error.
+ */
+
+import { hostname } from "os";
+import { randomBytes } from "crypto";
+import { fdb } from "../../firebase-admin";
+import type { JobRun, JobTrigger, ScheduledJobState } from "../../../shared/types";
+
+export interface JobDefinition {
+  name: string;
+  description: string;
+  intervalMinutes: number;
+  /** Summary returned here is stored on the run, e.g. { checked, completed } */
+  run: (at: Date) => Promise<Record<string, unknown> | void>;
+}
+
+export class JobSchedulerError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "JobSchedulerError";
+    this.status = status;
+  }
+}
+
+const TICK_MS = 60_000;
+const LEASE_MS = 10 * 60_000; // longer than any job should take
+const INSTANCE_ID = `${hostname()}-${process.pid}-${randomBytes(3).toString("hex")}`;
+
+const jobs = new Map<string, JobDefinition>();
+let timer: NodeJS.Timeout | null = null;
+let ticking = false;
+
+const jobsCol = () => fdb!.collection("scheduler_jobs");
+const runsCol = () => fdb!.collection("job_runs");
+
+function toMillis(v: any): number {
+  if (!v) return 0;
+  if (v instanceof Date) return v.getTime();
+  if (typeof v.toMillis === "function") return v.toMillis();
+  return new Date(v).getTime() || 0;
+}
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+export function registerJob(job: JobDefinition): void {
+  if (jobs.has(job.name)) {
+    throw new Error(`Job "${job.name}" is already registered`);
+  }
+  jobs.set(job.name, job);
+}
+
+export function getRegisteredJobs(): JobDefinition[] {
+  return Array.from(jobs.values());
+}
+
+// ============================================================================
+// LEASE
+// ============================================================================
+
+/**
+ * Claim the job's lease for this instance. Scheduled runs also require the
+ * job to be due; manual runs only require that no run holds the lease. A
+ * lease this instance holds counts too: it means a run is still in progress.
+ */
+async function acquireLease(job: JobDefinition, at: Date, trigger: JobTrigger): Promise<boolean> {
+  const ref = jobsCol().doc(job.name);
+  return fdb!.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    const state = (snap.data() ?? {}) as ScheduledJobState;
+
+    if (state.leaseOwner && toMillis(state.leaseExpiresAt) > at.getTime()) return false;
+    if (trigger === "schedule" && toMillis(state.nextRunAt) > at.getTime()) return false;
+
+    tx.set(
+      ref,
+      { leaseOwner: INSTANCE_ID, leaseExpiresAt: new Date(at.getTime() + LEASE_MS), updatedAt: at },
+      { merge: true }
+    );
+    return true;
+  });
+}
+
+// ============================================================================
+// EXECUTION
+// ============================================================================
+
+async function executeJob(
+  job: JobDefinition,
+  trigger: JobTrigger,
+  triggeredBy: string | null,
+  at?: Date
+): Promise<JobRun & { id: string }> {
+  const startedAt = new Date();
+  const runRef = runsCol().doc();
+  const run: JobRun = {
+    job: job.name,
+    trigger,
+    triggeredBy,
+    instanceId: INSTANCE_ID,
+    status: "running",
+    startedAt,
+  };
+  await runRef.set(run);
+
+  try {
+    const result = await job.run(at ?? startedAt);
+    run.status = "succeeded";
+    run.result = result ?? null;
+  } catch (error: any) {
+    console.error(`[Scheduler] Job ${job.name} failed:`, error);
+    run.status = "failed";
+    run.error = String(error?.message ?? error);
+  }
+
+  const finishedAt = new Date();
+  run.finishedAt = finishedAt;
+  run.durationMs = finishedAt.getTime() - startedAt.getTime();
+
+  await runRef.update({
+    status: run.status,
+    result: run.result ?? null,
+    error: run.error ?? null,
+    finishedAt,
+    durationMs: run.durationMs,
+  });
+
+  const state: ScheduledJobState = {
+    leaseOwner: null,
+    leaseExpiresAt: null,
+    nextRunAt: new Date(startedAt.getTime() + job.intervalMinutes * 60_000),
+    lastRunAt: startedAt,
+    lastStatus: run.status,
+    lastDurationMs: run.durationMs,
+    lastError: run.error ?? null,
+    updatedAt: finishedAt,
+  };
+  await jobsCol().doc(job.name).set(state, { merge: true });
+
+  console.log(`[Scheduler] ${job.name} ${run.status} in ${run.durationMs}ms (${trigger})`);
+  return { id: runRef.id, ...run };
+}
+
+async function tick(): Promise<void> {
+  // A slow job can outlast the interval; never start a second tick on top of it
+  if (ticking) return;
+  ticking = true;
+  try {
+    for (const job of jobs.values()) {
+      try {
+        if (await acquireLease(job, new Date(), "schedule")) {
+          await executeJob(job, "schedule", null);
+        }
+      } catch (error) {
+        console.error(`[Scheduler] Could not run ${job.name}:`, error);
+      }
+    }
+  } finally {
+    ticking = false;
+  }
+}
+
+/** Start ticking. Set DISABLE_JOB_SCHEDULER=true to leave jobs to another process. */
+export function startScheduler(): void {
+  if (timer) return;
+  if (process.env.DISABLE_JOB_SCHEDULER === "true") {
+    console.log("[Scheduler] Disabled via DISABLE_JOB_SCHEDULER");
+    return;
+  }
+  if (!fdb) {
+    console.warn("[Scheduler] Firestore not initialized, background jobs will not run");
+    return;
+  }
+
+  timer = setInterval(() => void tick(), TICK_MS);
+  timer.unref();
+  void tick();
+  console.log(`[Scheduler] Started ${jobs.size} job(s) on ${INSTANCE_ID}`);
+}
+
+export function stopScheduler(): void {
+  if (timer) clearInterval(timer);
+  timer = null;
+}
+
+/**
+ * Run a job immediately on behalf of an admin, outside its schedule. `at`
+ * overrides the time the job runs for (testing with a simulated clock).
+ */
+export async function runJobNow(name: string, triggeredBy: string, at?: Date): Promise<JobRun & { id: string }> {
+  const job = jobs.get(name);
+  if (!job) throw new JobSchedulerError("Job not found", 404);
+
+  if (!(await acquireLease(job, new Date(), "manual"))) {
+    throw new JobSchedulerError("Job is already running", 409);
+  }
+  return executeJob(job, "manual", triggeredBy, at);
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+export async function listJobs(): Promise<
+  Array<Omit<JobDefinition, "run"> & { state: ScheduledJobState }>
+> {
+  const defs = getRegisteredJobs();
+  const snaps = defs.length ? await fdb!.getAll(...defs.map((j) => jobsCol().doc(j.name))) : [];
+  return defs.map((j, i) => ({
+    name: j.name,
+    description: j.description,
+    intervalMinutes: j.intervalMinutes,
+    state: (snaps[i]?.data() ?? {}) as ScheduledJobState,
+  }));
+}
+
+/** Latest runs, newest first, optionally for one job */
+export async function listJobRuns(job?: string, limit = 50): Promise<Array<JobRun & { id: string }>> {
+  // Filter in memory to avoid a composite (job, startedAt) index
+  const snap = await runsCol().orderBy("startedAt", "desc").limit(job ? limit * 5 : limit).get();
+  return snap.docs
+    .map((d) => ({ id: d.id, ...(d.data() as JobRun) }))
+    .filter((r) => !job || r.job === job)
+    .slice(0, limit);
+}
@@ -0,0 +1,65 @@
+/**
+ * Session Request Expiry
+ *
+ * A booking request stays `pending` until the tutor accepts it. Requests the
+ * tutor never answers are expired by a scheduled job: either once they have
+ * waited `responseWindowHours`, or once the session is less than
+ * `minHoursBeforeStart` away (too late to confirm), whichever comes first.
+ *
+ * The config lives in `platform_settings/session_request_expiry`; anything
+ * missing falls back to DEFAULT_REQUEST_EXPIRY_CONFIG.
+ */
+
+import { fdb } from "../../firebase-admin";
+import type { SessionRequestExpiryConfig } from "../../../shared/types";
+
+export const DEFAULT_REQUEST_EXPIRY_CONFIG: SessionRequestExpiryConfig = {
+  responseWindowHours: 48,
+  minHoursBeforeStart: 2,
+};
+
+const CONFIG_DOC = () => fdb!.collection("platform_settings").doc("session_request_expiry");
+const CONFIG_TTL = 5 * 60 * 1000; // 5 minutes
+
+let cachedConfig: { data: SessionRequestExpiryConfig; timestamp: number } | null = null;
+
+// ============================================================================
+// CONFIG
+// ============================================================================
+
+export async function getRequestExpiryConfig(): Promise<SessionRequestExpiryConfig> {
+  if (cachedConfig && Date.now() - cachedConfig.timestamp < CONFIG_TTL) {
+    return cachedConfig.data;
+  }
+
+  const snap = await CONFIG_DOC().get();
+  const config = { ...DEFAULT_REQUEST_EXPIRY_CONFIG, ...(snap.exists ? snap.data() : {}) };
+  cachedConfig = { data: config, timestamp: Date.now() };
+  return config;
+}
+
+export async function saveRequestExpiryConfig(
+  config: Omit<SessionRequestExpiryConfig, "updatedAt" | "updatedBy">,
+  updatedBy: string
+): Promise<SessionRequestExpiryConfig> {
+  await CONFIG_DOC().set({ ...config, updatedAt: new Date(), updatedBy });
+
+  cachedConfig = null;
+  console.log("[Cache] Session request expiry config cache invalidated");
+
+  return getRequestExpiryConfig();
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+/** When an unanswered request stops being answerable */
+export function requestExpiresAt(
+  config: SessionRequestExpiryConfig,
+  request: { createdAt: Date; scheduledAt: Date }
+): Date {
+  const windowEnd = request.createdAt.getTime() + config.responseWindowHours * 3_600_000;
+  const startCutoff = request.scheduledAt.getTime() - config.minHoursBeforeStart * 3_600_000;
+  return new Date(Math.min(windowEnd, startCutoff));
+}
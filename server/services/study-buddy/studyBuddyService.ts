@@ -18,6 +18,7 @@ import {
 } from "../../../shared/studyBuddyTypes";
 import { Timestamp } from "firebase-admin/firestore";
 import { db } from "../../firebase-admin";
+import { isPublishedReview } from "../reviews/reviewService";
 import { buildStudentContext, formatContextForAI } from "./contextBuilder";
 import {
   shouldSuggestTutor,
@@ -418,8 +419,9 @@ async function getRecommendedTutors(
         .get();
 
       let avgRating = 0;
-      if (!reviewsSnapshot.empty) {
-        const ratings = reviewsSnapshot.docs.map(
+      const publishedReviews = reviewsSnapshot.docs.filter((doc) => isPublishedReview(doc.data()));
+      if (publishedReviews.length > 0) {
+        const ratings = publishedReviews.map(
           (doc) => doc.data().rating || 0
         );
         avgRating =
@@ -0,0 +1,96 @@
+/**
+ * Education Taxonomy
+ *
+ * Curricula (Bahraini national, IGCSE, IB, SAT, ...) and their grade bands,
+ * which tutors pick from to declare the levels they teach and students pick
+ * from in the match wizard and search. Subjects carry their own topic tree
+ * on the subject document.
+ *
+ * The taxonomy lives in `platform_settings/education_taxonomy`; until an
+ * admin saves one, DEFAULT_EDUCATION_TAXONOMY applies.
+ */
+
+import { fdb } from "../../firebase-admin";
+import type { EducationTaxonomy, SubjectTopic } from "../../../shared/types";
+
+export const DEFAULT_EDUCATION_TAXONOMY: EducationTaxonomy = {
+  curricula: [
+    {
+      id: "bahraini-national",
+      name: "Bahraini National",
+      gradeBands: [
+        { id: "g1-3", label: "Grades 1–3" },
+        { id: "g4-6", label: "Grades 4–6" },
+        { id: "g7-9", label: "Grades 7–9" },
+        { id: "g10-12", label: "Grades 10–12" },
+      ],
+    },
+    {
+      id: "igcse",
+      name: "IGCSE / Cambridge",
+      gradeBands: [
+        { id: "y7-9", label: "Lower Secondary (Years 7–9)" },
+        { id: "y10-11", label: "IGCSE (Years 10–11)" },
+        { id: "as-a", label: "AS & A Level" },
+      ],
+    },
+    {
+      id: "ib",
+      name: "International Baccalaureate",
+      gradeBands: [
+        { id: "pyp", label: "Primary Years (PYP)" },
+        { id: "myp", label: "Middle Years (MYP)" },
+        { id: "dp", label: "Diploma (DP)" },
+      ],
+    },
+    {
+      id: "sat",
+      name: "SAT",
+      gradeBands: [{ id: "prep", label: "Test preparation" }],
+    },
+  ],
+};
+
+const CONFIG_DOC = () => fdb!.collection("platform_settings").doc("education_taxonomy");
+const CONFIG_TTL = 5 * 60 * 1000; // 5 minutes
+
+let cachedTaxonomy: { data: EducationTaxonomy; timestamp: number } | null = null;
+
+// ============================================================================
+// TAXONOMY
+// ============================================================================
+
+export async function getEducationTaxonomy(): Promise<EducationTaxonomy> {
+  if (cachedTaxonomy && Date.now() - cachedTaxonomy.timestamp < CONFIG_TTL) {
+    return cachedTaxonomy.data;
+  }
+
+  const snap = await CONFIG_DOC().get();
+  const taxonomy = { ...DEFAULT_EDUCATION_TAXONOMY, ...(snap.exists ? snap.data() : {}) } as EducationTaxonomy;
+  cachedTaxonomy = { data: taxonomy, timestamp: Date.now() };
+  return taxonomy;
+}
+
+export async function saveEducationTaxonomy(
+  taxonomy: Omit<EducationTaxonomy, "updatedAt" | "updatedBy">,
+  updatedBy: string
+): Promise<EducationTaxonomy> {
+  await CONFIG_DOC().set({ curricula: taxonomy.curricula, updatedAt: new Date(), updatedBy });
+
+  cachedTaxonomy = null;
+  console.log("[Cache] Education taxonomy cache invalidated");
+
+  return getEducationTaxonomy();
+}
+
+// ============================================================================
+// SUBJECT TOPICS
+// ============================================================================
+
+/** Replace a subject's topic tree; false when the subject does not exist */
+export async function saveSubjectTopics(subjectId: string, topics: SubjectTopic[]): Promise<boolean> {
+  const ref = fdb!.collection("subjects").doc(subjectId);
+  if (!(await ref.get()).exists) return false;
+  await ref.set({ topics, updatedAt: new Date() }, { merge: true });
+  return true;
+}
@@ -3,47 +3,90 @@
  *
  * Intelligently ranks tutors based on multiple criteria:
  * - Subject expertise and match
- * - Rating and reviews
+ * - Rating and reviews (per-dimension, weighted by the student's priorities)
  * - Success metrics (completion rate, repeat students)
  * - Availability
  * - Value for money
  * - Experience level
+ *
+ * How many points each factor is worth comes from the admin-managed weighting
+ * profile the student is assigned (see tutors/rankingWeights.ts).
+ *
+ * Scoring reads precomputed per-tutor aggregates (tutors/tutorStats.ts)
+ * rather than each tutor's sessions and reviews, so ranking N tutors costs
+ * one batched document read and one tutor_subjects query instead of several
+ * queries per tutor.
  */
 
 import { Firestore } from "firebase-admin/firestore";
+import { RATING_DIMENSIONS } from "../../shared/ratings";
+import { parseLevelKey, teachesLevel } from "../../shared/taxonomy";
+import { DEFAULT_RANKING_WEIGHTS } from "./tutors/rankingWeights";
+import { emptyTutorStats, refreshTutorStatsFor } from "./tutors/tutorStats";
+import type {
+  RankingFactor,
+  RankingWeights,
+  RatingDimension,
+  RatingSummary,
+  TutorProfile,
+  TutorStats,
+} from "../../shared/types";
 
 export interface TutorRankingCriteria {
   subjectId?: string;
-  gradeLevel?: string;
+  gradeLevel?: string;  // education taxonomy level key, e.g. "igcse:y10-11"
   studentId?: string;
   maxBudget?: number;  // in cents
   preferredDays?: string[];  // ["monday", "wednesday"]
   preferredTimeSlots?: string[];  // ["10:00", "14:00"]
+  priorities?: RatingDimension[];  // review dimensions the student cares most about
+  openSlots?: Record<string, number>;  // tutorId -> free slots in a requested time window
 }
 
+// Weights when blending the overall rating with per-dimension averages
+const OVERALL_RATING_WEIGHT = 1;
+const PRIORITY_DIMENSION_WEIGHT = 2;
+const OTHER_DIMENSION_WEIGHT = 0.5;
+
+// Scale each score* method works on; results are rescaled to the profile's weights
+const FACTOR_MAX_POINTS: RankingWeights = DEFAULT_RANKING_WEIGHTS;
+
+type FactorResult = { score: number; reasons: string[] };
+
 export interface RankedTutor {
   tutorId: string;
   score: number;  // 0-100
-  breakdown: {
-    subjectExpertise: number;  // 0-25
-    ratingScore: number;       // 0-20
-    successMetrics: number;    // 0-20
-    availability: number;      // 0-15
-    valueScore: number;        // 0-10
-    experience: number;        // 0-10
+  breakdown: {                 // points out of the profile's weight (default profile in brackets)
+    subjectExpertise: number;  // (0-25)
+    ratingScore: number;       // (0-20)
+    successMetrics: number;    // (0-20)
+    availability: number;      // (0-15)
+    valueScore: number;        // (0-10)
+    experience: number;        // (0-10)
   };
-  reasoning: string[];  // Human-readable explanations
+  reasoning: string[];  // Human-readable explanations, most heavily weighted factors first
+}
+
+/** What scoring needs about one tutor, from the batched load */
+interface TutorRankingInput {
+  tutorId: string;
+  profile: TutorProfile | null;
+  stats: TutorStats;
+  teachesSubject: boolean;
 }
 
 export class TutorRankingService {
   private db: Firestore;
+  private weights: RankingWeights;
 
-  constructor(db: Firestore) {
+  constructor(db: Firestore, weights: RankingWeights = DEFAULT_RANKING_WEIGHTS) {
     this.db = db;
+    this.weights = weights;
   }
 
   /**
-   * Main ranking function - returns sorted list of tutors by AI score
+   * Main ranking function - returns sorted list of tutors by AI score.
+   * Tutor ids are tutor_profiles ids.
    */
   async rankTutors(
     tutorIds: string[],
@@ -53,14 +96,15 @@ export class TutorRankingService {
       return [];
     }
 
+    const inputs = await this.loadRankingInputs(Array.from(new Set(tutorIds)), criteria);
+
     const rankings: RankedTutor[] = [];
 
-    for (const tutorId of tutorIds) {
+    for (const input of inputs) {
       try {
-        const ranking = await this.scoreTutor(tutorId, criteria);
-        rankings.push(ranking);
+        rankings.push(this.scoreTutor(input, criteria));
       } catch (error) {
-        console.error(`Error ranking tutor ${tutorId}:`, error);
+        console.error(`Error ranking tutor ${input.tutorId}:`, error);
         // Continue with other tutors
       }
     }
@@ -70,56 +114,79 @@ export class TutorRankingService {
   }
 
   /**
-   * Score a single tutor based on all criteria
+   * Profiles and precomputed stats of all tutors in one batched read, plus one
+   * query for who teaches the requested subject. A tutor without a stats
+   * document yet is scored from empty stats and gets one built in the
+   * background, off this request.
    */
-  private async scoreTutor(
-    tutorId: string,
+  private async loadRankingInputs(
+    tutorIds: string[],
     criteria: TutorRankingCriteria
-  ): Promise<RankedTutor> {
-    const [
-      subjectScore,
-      ratingScore,
-      successScore,
-      availabilityScore,
-      valueScore,
-      experienceScore,
-    ] = await Promise.all([
-      this.scoreSubjectExpertise(tutorId, criteria),
-      this.scoreRating(tutorId),
-      this.scoreSuccessMetrics(tutorId, criteria),
-      this.scoreAvailability(tutorId, criteria),
-      this.scoreValue(tutorId, criteria),
-      this.scoreExperience(tutorId),
+  ): Promise<TutorRankingInput[]> {
+    const refs = tutorIds.flatMap((id) => [
+      this.db.collection("tutor_profiles").doc(id),
+      this.db.collection("tutor_stats").doc(id),
     ]);
 
-    const breakdown = {
-      subjectExpertise: subjectScore.score,
-      ratingScore: ratingScore.score,
-      successMetrics: successScore.score,
-      availability: availabilityScore.score,
-      valueScore: valueScore.score,
-      experience: experienceScore.score,
-    };
+    const [snaps, subjectSnap] = await Promise.all([
+      this.db.getAll(...refs),
+      criteria.subjectId
+        ? this.db.collection("tutor_subjects").where("subjectId", "==", criteria.subjectId).get()
+        : Promise.resolve(null),
+    ]);
+    const teachers = subjectSnap ? new Set(subjectSnap.docs.map((d) => d.get("tutorId") as string)) : null;
+
+    const missingStats: string[] = [];
+    const inputs = tutorIds.map((tutorId, i): TutorRankingInput => {
+      const profile = (snaps[i * 2].data() as TutorProfile | undefined) ?? null;
+      const statsSnap = snaps[i * 2 + 1];
+      if (!statsSnap.exists) missingStats.push(tutorId);
+      const stats = statsSnap.exists ? (statsSnap.data() as TutorStats) : emptyTutorStats(tutorId, profile);
+      return { tutorId, profile, stats, teachesSubject: !teachers || teachers.has(tutorId) };
+    });
+    if (missingStats.length > 0) void refreshTutorStatsFor(missingStats);
+
+    return inputs;
+  }
 
-    const totalScore =
-      breakdown.subjectExpertise +
-      breakdown.ratingScore +
-      breakdown.successMetrics +
-      breakdown.availability +
-      breakdown.valueScore +
-      breakdown.experience;
-
-    const reasoning = [
-      ...subjectScore.reasons,
-      ...ratingScore.reasons,
-      ...successScore.reasons,
-      ...availabilityScore.reasons,
-      ...valueScore.reasons,
-      ...experienceScore.reasons,
+  /**
+   * Score a single tutor based on all criteria
+   */
+  private scoreTutor(
+    input: TutorRankingInput,
+    criteria: TutorRankingCriteria
+  ): RankedTutor {
+    const weights = this.weights;
+    // Factors the profile gives no points are not computed at all
+    const unweighted = (factor: RankingFactor, score: () => FactorResult): FactorResult =>
+      weights[factor] > 0 ? score() : { score: 0, reasons: [] };
+
+    const factors: Array<[RankingFactor, FactorResult]> = [
+      ["subjectExpertise", unweighted("subjectExpertise", () => this.scoreSubjectExpertise(input, criteria))],
+      ["ratingScore", unweighted("ratingScore", () => this.scoreRating(input, criteria))],
+      ["successMetrics", unweighted("successMetrics", () => this.scoreSuccessMetrics(input))],
+      ["availability", unweighted("availability", () => this.scoreAvailability(input, criteria))],
+      ["valueScore", unweighted("valueScore", () => this.scoreValue(input, criteria))],
+      ["experience", unweighted("experience", () => this.scoreExperience(input))],
     ];
 
+    const breakdown = Object.fromEntries(
+      factors.map(([factor, result]) => [
+        factor,
+        Math.round((result.score / FACTOR_MAX_POINTS[factor]) * weights[factor] * 10) / 10,
+      ])
+    ) as RankedTutor["breakdown"];
+
+    const totalScore = factors.reduce((sum, [factor]) => sum + breakdown[factor], 0);
+
+    // Explain the factors this profile weighs most first
+    const reasoning = factors
+      .filter(([factor]) => weights[factor] > 0)
+      .sort(([a], [b]) => weights[b] - weights[a])
+      .flatMap(([, result]) => result.reasons);
+
     return {
-      tutorId,
+      tutorId: input.tutorId,
       score: Math.round(totalScore * 10) / 10,  // Round to 1 decimal
       breakdown,
       reasoning,
@@ -128,14 +195,14 @@ export class TutorRankingService {
 
   /**
    * Score subject expertise (0-25 points)
-   * - Does tutor teach this subject?
+   * - Does tutor teach this subject (at the requested level)?
    * - Number of sessions in this subject
    * - Subject-specific rating
    */
-  private async scoreSubjectExpertise(
-    tutorId: string,
+  private scoreSubjectExpertise(
+    { profile, stats, teachesSubject }: TutorRankingInput,
     criteria: TutorRankingCriteria
-  ): Promise<{ score: number; reasons: string[] }> {
+  ): FactorResult {
     const reasons: string[] = [];
     let score = 0;
 
@@ -143,30 +210,24 @@ export class TutorRankingService {
       return { score: 25, reasons: ["No subject filter - full points"] };
     }
 
-    // Check if tutor teaches this subject
-    const tutorSubjectSnap = await this.db
-      .collection("tutor_subjects")
-      .where("tutorId", "==", tutorId)
-      .where("subjectId", "==", criteria.subjectId)
-      .limit(1)
-      .get();
-
-    if (tutorSubjectSnap.empty) {
+    if (!teachesSubject) {
       return { score: 0, reasons: ["Does not teach requested subject"] };
     }
 
+    if (criteria.gradeLevel) {
+      const levels: string[] = profile?.teachingLevels ?? [];
+      if (!teachesLevel(levels, criteria.gradeLevel)) {
+        return { score: 0, reasons: ["Does not teach requested level"] };
+      }
+      const exactBand = levels.includes(criteria.gradeLevel) && !!parseLevelKey(criteria.gradeLevel).bandId;
+      reasons.push(exactBand ? "Teaches your grade level" : "Teaches your curriculum");
+    }
+
     score += 10;
     reasons.push("Teaches requested subject");
 
-    // Count sessions in this subject
-    const sessionsSnap = await this.db
-      .collection("tutoring_sessions")
-      .where("tutorId", "==", tutorId)
-      .where("subjectId", "==", criteria.subjectId)
-      .where("status", "==", "completed")
-      .get();
-
-    const sessionCount = sessionsSnap.size;
+    // Completed sessions in this subject
+    const sessionCount = stats.completedBySubject?.[criteria.subjectId] ?? 0;
 
     if (sessionCount > 50) {
       score += 10;
@@ -182,21 +243,11 @@ export class TutorRankingService {
       reasons.push(`Limited experience in subject (${sessionCount} sessions)`);
     }
 
-    // Calculate subject-specific rating
-    const reviewsSnap = await this.db
-      .collection("reviews")
-      .where("tutorId", "==", tutorId)
-      .get();
-
-    const subjectReviews = reviewsSnap.docs.filter((doc) => {
-      const sessionId = doc.data().sessionId;
-      return sessionsSnap.docs.some((s) => s.id === sessionId);
-    });
+    // Subject-specific rating (reviews of completed sessions in this subject)
+    const subjectRating = stats.subjectRatings?.[criteria.subjectId];
 
-    if (subjectReviews.length > 0) {
-      const avgRating =
-        subjectReviews.reduce((sum, r) => sum + (r.data().rating || 0), 0) /
-        subjectReviews.length;
+    if (subjectRating?.count) {
+      const avgRating = subjectRating.sum / subjectRating.count;
 
       if (avgRating >= 4.5) {
         score += 5;
@@ -216,26 +267,23 @@ export class TutorRankingService {
   /**
    * Score overall rating (0-20 points)
    * - Average rating weighted by number of reviews
+   * - With priorities, blended with the dimension averages, prioritized
+   *   dimensions counting most
    */
-  private async scoreRating(
-    tutorId: string
-  ): Promise<{ score: number; reasons: string[] }> {
+  private scoreRating(
+    { stats }: TutorRankingInput,
+    criteria: TutorRankingCriteria
+  ): FactorResult {
     const reasons: string[] = [];
     let score = 0;
 
-    const reviewsSnap = await this.db
-      .collection("reviews")
-      .where("tutorId", "==", tutorId)
-      .get();
-
-    if (reviewsSnap.empty) {
+    const summary = stats.reviews;
+    if (!summary?.totalReviews) {
       return { score: 0, reasons: ["No reviews yet"] };
     }
 
-    const reviews = reviewsSnap.docs.map((d) => d.data());
-    const avgRating =
-      reviews.reduce((sum, r) => sum + (r.rating || 0), 0) / reviews.length;
-    const reviewCount = reviews.length;
+    const avgRating = this.blendDimensionRatings(summary, criteria.priorities, reasons);
+    const reviewCount = summary.totalReviews;
 
     // Base score from rating (0-15 points)
     if (avgRating >= 4.8) {
@@ -276,39 +324,54 @@ export class TutorRankingService {
     return { score, reasons };
   }
 
+  /**
+   * Overall rating blended with the per-dimension averages. Without
+   * priorities (or dimension data) this is the plain overall average.
+   */
+  private blendDimensionRatings(
+    summary: RatingSummary,
+    priorities: RatingDimension[] | undefined,
+    reasons: string[]
+  ): number {
+    if (!priorities?.length) return summary.rating;
+
+    let weighted = summary.rating * OVERALL_RATING_WEIGHT;
+    let totalWeight = OVERALL_RATING_WEIGHT;
+
+    for (const { id, label } of RATING_DIMENSIONS) {
+      const dimension = summary.dimensions?.[id];
+      if (!dimension) continue;
+      const prioritized = priorities.includes(id);
+      const weight = prioritized ? PRIORITY_DIMENSION_WEIGHT : OTHER_DIMENSION_WEIGHT;
+      weighted += dimension.average * weight;
+      totalWeight += weight;
+
+      if (prioritized && dimension.average >= 4.5) {
+        reasons.push(`Strong on ${label.toLowerCase()} (${dimension.average.toFixed(1)}/5)`);
+      } else if (prioritized && dimension.average < 3.5) {
+        reasons.push(`Weaker on ${label.toLowerCase()} (${dimension.average.toFixed(1)}/5)`);
+      }
+    }
+
+    return weighted / totalWeight;
+  }
+
   /**
    * Score success metrics (0-20 points)
    * - Session completion rate
    * - Repeat student rate
    */
-  private async scoreSuccessMetrics(
-    tutorId: string,
-    criteria: TutorRankingCriteria
-  ): Promise<{ score: number; reasons: string[] }> {
+  private scoreSuccessMetrics({ stats }: TutorRankingInput): FactorResult {
     const reasons: string[] = [];
     let score = 0;
 
-    // Get all sessions for this tutor
-    const allSessionsSnap = await this.db
-      .collection("tutoring_sessions")
-      .where("tutorId", "==", tutorId)
-      .get();
-
-    if (allSessionsSnap.empty) {
+    if (!stats.totalSessions) {
       return { score: 0, reasons: ["No session history"] };
     }
 
-    const sessions = allSessionsSnap.docs.map((d) => ({
-      id: d.id,
-      ...d.data(),
-    }));
-
     // Calculate completion rate (0-12 points)
-    const nonCancelled = sessions.filter((s) => s.status !== "cancelled");
-    const completed = sessions.filter((s) => s.status === "completed");
-
-    if (nonCancelled.length > 0) {
-      const completionRate = completed.length / nonCancelled.length;
+    if (stats.nonCancelledSessions > 0) {
+      const completionRate = stats.completedSessions / stats.nonCancelledSessions;
 
       if (completionRate >= 0.95) {
         score += 12;
@@ -334,9 +397,7 @@ export class TutorRankingService {
     }
 
     // Calculate repeat student rate (0-8 points)
-    const studentIds = sessions.map((s) => s.studentId);
-    const uniqueStudents = new Set(studentIds).size;
-    const repeatRate = uniqueStudents > 0 ? studentIds.length / uniqueStudents : 0;
+    const repeatRate = stats.uniqueStudents > 0 ? stats.totalSessions / stats.uniqueStudents : 0;
 
     if (repeatRate >= 3.0) {
       score += 8;
@@ -365,63 +426,98 @@ export class TutorRankingService {
 
   /**
    * Score availability (0-15 points)
-   * - Has available time slots
-   * - Matches preferred days/times
+   * - Has available time slots (open days and weekly hours from the stats)
+   * - Matches preferred days/times, or the free slots found in a concrete
+   *   window (criteria.openSlots) when the caller searched one
    */
-  private async scoreAvailability(
-    tutorId: string,
+  private scoreAvailability(
+    { tutorId, profile, stats }: TutorRankingInput,
     criteria: TutorRankingCriteria
-  ): Promise<{ score: number; reasons: string[] }> {
+  ): FactorResult {
     const reasons: string[] = [];
     let score = 0;
 
-    const tutorProfileSnap = await this.db
-      .collection("tutor_profiles")
-      .where("userId", "==", tutorId)
-      .limit(1)
-      .get();
-
-    if (tutorProfileSnap.empty) {
+    if (!profile) {
       return { score: 0, reasons: ["No availability data"] };
     }
 
-    const tutorProfile = tutorProfileSnap.docs[0].data();
-    const availability = tutorProfile.availability || {};
-
-    // Count available days
-    const availableDays = Object.entries(availability).filter(
-      ([_, slot]: [string, any]) => slot.isAvailable === true
-    );
+    const openDays = stats.openDays ?? [];
+    const hours = stats.weeklyOpenHours ?? 0;
 
     // Base score for having availability (0-8 points)
-    if (availableDays.length >= 6) {
+    if (openDays.length >= 6) {
       score += 8;
-      reasons.push("Very flexible schedule (6+ days available)");
-    } else if (availableDays.length >= 4) {
+      reasons.push(`Very flexible schedule (6+ days, ${hours}h/week available)`);
+    } else if (openDays.length >= 4) {
       score += 6;
-      reasons.push(`Flexible schedule (${availableDays.length} days available)`);
-    } else if (availableDays.length >= 2) {
+      reasons.push(`Flexible schedule (${openDays.length} days, ${hours}h/week available)`);
+    } else if (openDays.length >= 2) {
       score += 4;
-      reasons.push(`Limited availability (${availableDays.length} days available)`);
-    } else if (availableDays.length === 1) {
+      reasons.push(`Limited availability (${openDays.length} days, ${hours}h/week available)`);
+    } else if (openDays.length === 1) {
       score += 2;
-      reasons.push("Very limited availability (1 day)");
+      reasons.push(`Very limited availability (1 day, ${hours}h/week)`);
     }
 
-    // Bonus for matching preferred days (0-7 points)
-    if (criteria.preferredDays && criteria.preferredDays.length > 0) {
-      const matchingDays = availableDays.filter(([day]) =>
-        criteria.preferredDays!.includes(day.toLowerCase())
+    // Bonus for matching the requested window or preferred days/times (0-7 points)
+    const openSlots = criteria.openSlots?.[tutorId];
+    const preferredDays = criteria.preferredDays ?? [];
+    const preferredTimes = criteria.preferredTimeSlots ?? [];
+
+    if (openSlots !== undefined) {
+      if (openSlots >= 3) {
+        score += 7;
+      } else if (openSlots === 2) {
+        score += 5;
+      } else if (openSlots === 1) {
+        score += 4;
+      }
+      if (openSlots > 0) {
+        reasons.push(`${openSlots} open slot${openSlots === 1 ? "" : "s"} in your requested time`);
+      }
+    } else if (preferredDays.length > 0 || preferredTimes.length > 0) {
+      const availableDays = Object.entries(profile.availability || {}).filter(
+        ([_, slot]: [string, any]) => slot.isAvailable === true
       );
+      const candidateDays = preferredDays.length
+        ? availableDays.filter(([day]) => preferredDays.includes(day.toLowerCase()))
+        : availableDays;
+      const ratios: number[] = [];
+
+      if (preferredDays.length > 0) {
+        ratios.push(candidateDays.length / preferredDays.length);
+        if (candidateDays.length > 0) {
+          reasons.push(
+            candidateDays.length === preferredDays.length
+              ? "Available on all your preferred days"
+              : `Available on ${candidateDays.length}/${preferredDays.length} preferred days`
+          );
+        }
+      }
+
+      if (preferredTimes.length > 0) {
+        // "HH:MM" strings compare chronologically
+        const covers = ([, slot]: [string, any], time: string) =>
+          (Array.isArray(slot.windows) && slot.windows.length
+            ? slot.windows
+            : [{ startTime: slot.startTime || "09:00", endTime: slot.endTime || "17:00" }]
+          ).some((w: { startTime: string; endTime: string }) => w.startTime <= time && time < w.endTime);
+        const matchingTimes = preferredTimes.filter((t) => candidateDays.some((d) => covers(d, t)));
+        ratios.push(matchingTimes.length / preferredTimes.length);
+        if (matchingTimes.length > 0) {
+          reasons.push(
+            matchingTimes.length === preferredTimes.length
+              ? "Teaches at your preferred times"
+              : `Teaches at ${matchingTimes.length}/${preferredTimes.length} preferred times`
+          );
+        }
+      }
 
-      if (matchingDays.length === criteria.preferredDays.length) {
+      const match = ratios.reduce((a, b) => a + b, 0) / ratios.length;
+      if (match === 1) {
         score += 7;
-        reasons.push("Available on all your preferred days");
-      } else if (matchingDays.length > 0) {
+      } else if (match > 0) {
         score += 4;
-        reasons.push(
-          `Available on ${matchingDays.length}/${criteria.preferredDays.length} preferred days`
-        );
       }
     } else {
       // No preference specified - give medium bonus
@@ -436,32 +532,24 @@ export class TutorRankingService {
    * - Rating vs. price ratio
    * - Within budget
    */
-  private async scoreValue(
-    tutorId: string,
+  private scoreValue(
+    { profile, stats }: TutorRankingInput,
     criteria: TutorRankingCriteria
-  ): Promise<{ score: number; reasons: string[] }> {
+  ): FactorResult {
     const reasons: string[] = [];
     let score = 0;
 
-    const tutorProfileSnap = await this.db
-      .collection("tutor_profiles")
-      .where("userId", "==", tutorId)
-      .limit(1)
-      .get();
-
-    if (tutorProfileSnap.empty) {
+    if (!profile) {
       return { score: 5, reasons: ["No pricing data"] };
     }
 
-    const tutorProfile = tutorProfileSnap.docs[0].data();
-
     // Get pricing (check subject-specific or fallback to general)
     let hourlyRateCents = 0;
-    if (criteria.subjectId && tutorProfile.subjectPricing) {
-      hourlyRateCents = tutorProfile.subjectPricing[criteria.subjectId] || 0;
+    if (criteria.subjectId && profile.subjectPricing) {
+      hourlyRateCents = profile.subjectPricing[criteria.subjectId] || 0;
     }
-    if (!hourlyRateCents && tutorProfile.hourlyRate) {
-      hourlyRateCents = tutorProfile.hourlyRate * 100;
+    if (!hourlyRateCents && profile.hourlyRate) {
+      hourlyRateCents = profile.hourlyRate * 100;
     }
 
     if (hourlyRateCents === 0) {
@@ -476,16 +564,9 @@ export class TutorRankingService {
     score += 5;
     reasons.push("Within your budget");
 
-    // Get rating for value calculation
-    const reviewsSnap = await this.db
-      .collection("reviews")
-      .where("tutorId", "==", tutorId)
-      .get();
-
-    if (reviewsSnap.size > 0) {
-      const avgRating =
-        reviewsSnap.docs.reduce((sum, d) => sum + (d.data().rating || 0), 0) /
-        reviewsSnap.size;
+    // Rating for value calculation
+    if (stats.reviews?.totalReviews) {
+      const avgRating = stats.reviews.rating;
 
       // Value score = rating / (price in dollars / 10)
       // Higher rating + lower price = better value
@@ -517,20 +598,11 @@ export class TutorRankingService {
    * - Total sessions taught
    * - Certifications
    */
-  private async scoreExperience(
-    tutorId: string
-  ): Promise<{ score: number; reasons: string[] }> {
+  private scoreExperience({ profile, stats }: TutorRankingInput): FactorResult {
     const reasons: string[] = [];
     let score = 0;
 
-    // Count total sessions
-    const sessionsSnap = await this.db
-      .collection("tutoring_sessions")
-      .where("tutorId", "==", tutorId)
-      .where("status", "==", "completed")
-      .get();
-
-    const totalSessions = sessionsSnap.size;
+    const totalSessions = stats.completedSessions ?? 0;
 
     if (totalSessions >= 100) {
       score += 6;
@@ -553,23 +625,14 @@ export class TutorRankingService {
     }
 
     // Check for certifications
-    const tutorProfileSnap = await this.db
-      .collection("tutor_profiles")
-      .where("userId", "==", tutorId)
-      .limit(1)
-      .get();
+    const certifications = profile?.certifications || [];
 
-    if (!tutorProfileSnap.empty) {
-      const tutorProfile = tutorProfileSnap.docs[0].data();
-      const certifications = tutorProfile.certifications || [];
-
-      if (certifications.length >= 3) {
-        score += 4;
-        reasons.push(`Multiple certifications (${certifications.length})`);
-      } else if (certifications.length >= 1) {
-        score += 2;
-        reasons.push(`Certified (${certifications.length} certification${certifications.length > 1 ? 's' : ''})`);
-      }
+    if (certifications.length >= 3) {
+      score += 4;
+      reasons.push(`Multiple certifications (${certifications.length})`);
+    } else if (certifications.length >= 1) {
+      score += 2;
+      reasons.push(`Certified (${certifications.length} certification${certifications.length > 1 ? 's' : ''})`);
     }
 
     return { score, reasons };
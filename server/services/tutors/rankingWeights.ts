@@ -0,0 +1,208 @@
+/**
+ * Ranking Weights & A/B Evaluation
+ *
+ * The tutor ranking scores six factors; the points each one can contribute
+ * come from a weighting profile instead of being hard-coded. Admins edit two
+ * profiles (A and B). Without an experiment every student is ranked with A;
+ * with one running, a stable share of students (hashed per experiment) is
+ * ranked with B.
+ *
+ * Every ranked list served to a student during an experiment is recorded as
+ * an exposure; a booking with one of the tutors they were shown counts as a
+ * conversion for the profile they were assigned.
+ *
+ * The config lives in `platform_settings/ranking_weights`; until an admin
+ * saves one, DEFAULT_RANKING_WEIGHTS_CONFIG applies.
+ */
+
+import { createHash, randomBytes } from "crypto";
+import { FieldValue } from "firebase-admin/firestore";
+import { fdb } from "../../firebase-admin";
+import type {
+  RankingExposure,
+  RankingProfileId,
+  RankingProfileStats,
+  RankingWeights,
+  RankingWeightsConfig,
+} from "../../../shared/types";
+
+/** The original point budget: subject 25, rating 20, success 20, availability 15, value 10, experience 10 */
+export const DEFAULT_RANKING_WEIGHTS: RankingWeights = {
+  subjectExpertise: 25,
+  ratingScore: 20,
+  successMetrics: 20,
+  availability: 15,
+  valueScore: 10,
+  experience: 10,
+};
+
+export const DEFAULT_RANKING_WEIGHTS_CONFIG: RankingWeightsConfig = {
+  profiles: {
+    A: { name: "Baseline", weights: DEFAULT_RANKING_WEIGHTS },
+    B: { name: "Variant", weights: DEFAULT_RANKING_WEIGHTS },
+  },
+  experimentEnabled: false,
+  splitPercent: 50,
+  experimentId: "none",
+  experimentStartedAt: null,
+};
+
+export const RANKING_PROFILE_IDS: RankingProfileId[] = ["A", "B"];
+
+const CONFIG_DOC = () => fdb!.collection("platform_settings").doc("ranking_weights");
+const CONFIG_TTL = 5 * 60 * 1000; // 5 minutes
+
+let cachedConfig: { data: RankingWeightsConfig; timestamp: number } | null = null;
+
+// ============================================================================
+// CONFIG
+// ============================================================================
+
+export async function getRankingWeightsConfig(): Promise<RankingWeightsConfig> {
+  if (cachedConfig && Date.now() - cachedConfig.timestamp < CONFIG_TTL) {
+    return cachedConfig.data;
+  }
+
+  const snap = await CONFIG_DOC().get();
+  const config = { ...DEFAULT_RANKING_WEIGHTS_CONFIG, ...(snap.exists ? snap.data() : {}) } as RankingWeightsConfig;
+  cachedConfig = { data: config, timestamp: Date.now() };
+  return config;
+}
+
+/**
+ * Save profiles and experiment settings. Starting an experiment, or changing
+ * a profile's weights while one runs, begins a new experiment id so
+ * conversion numbers never mix two weightings.
+ */
+export async function saveRankingWeightsConfig(
+  config: Pick<RankingWeightsConfig, "profiles" | "experimentEnabled" | "splitPercent">,
+  updatedBy: string
+): Promise<RankingWeightsConfig> {
+  const current = await getRankingWeightsConfig();
+  const weightsChanged = RANKING_PROFILE_IDS.some(
+    (id) => JSON.stringify(current.profiles[id].weights) !== JSON.stringify(config.profiles[id].weights)
+  );
+  const restart = config.experimentEnabled && (!current.experimentEnabled || weightsChanged);
+
+  await CONFIG_DOC().set({
+    ...config,
+    experimentId: restart ? randomBytes(6).toString("hex") : current.experimentId,
+    experimentStartedAt: restart ? new Date() : current.experimentStartedAt ?? null,
+    updatedAt: new Date(),
+    updatedBy,
+  });
+
+  cachedConfig = null;
+  console.log("[Cache] Ranking weights config cache invalidated");
+
+  return getRankingWeightsConfig();
+}
+
+// ============================================================================
+// ASSIGNMENT
+// ============================================================================
+
+/** Profile a student is ranked with; anonymous visitors always get A */
+export function assignRankingProfile(config: RankingWeightsConfig, studentId?: string): RankingProfileId {
+  if (!config.experimentEnabled || !studentId) return "A";
+  const digest = createHash("sha256").update(`${config.experimentId}:${studentId}`).digest();
+  return digest.readUInt32BE(0) % 100 < config.splitPercent ? "B" : "A";
+}
+
+// ============================================================================
+// EXPOSURES & CONVERSIONS
+// ============================================================================
+
+const MAX_EXPOSED_TUTORS = 200;
+
+const exposureRef = (experimentId: string, studentId: string) =>
+  fdb!.collection("ranking_exposures").doc(`${experimentId}_${studentId}`);
+
+/**
+ * Remember which tutors a student was shown under which profile (experiments
+ * only). Keeps the MAX_EXPOSED_TUTORS most recently shown, so a booking counts
+ * when the tutor was among them.
+ */
+export async function recordRankingExposure(
+  config: RankingWeightsConfig,
+  profile: RankingProfileId,
+  studentId: string | undefined,
+  tutorIds: string[]
+): Promise<void> {
+  if (!config.experimentEnabled || !studentId || tutorIds.length === 0) return;
+  try {
+    const ref = exposureRef(config.experimentId, studentId);
+    await fdb!.runTransaction(async (tx) => {
+      const shown = ((await tx.get(ref)).data() as RankingExposure | undefined)?.tutorIds ?? [];
+      const recent = Array.from(new Set([...tutorIds, ...shown])).slice(0, MAX_EXPOSED_TUTORS);
+      tx.set(
+        ref,
+        {
+          experimentId: config.experimentId,
+          studentId,
+          profile,
+          tutorIds: recent,
+          rankings: FieldValue.increment(1),
+          lastRankedAt: new Date(),
+        },
+        { merge: true }
+      );
+    });
+  } catch (error) {
+    console.error("Failed to record ranking exposure:", error);
+  }
+}
+
+/** Count a booking towards the experiment when the student was shown this tutor */
+export async function recordRankingConversion(studentId: string, tutorId: string): Promise<void> {
+  try {
+    const config = await getRankingWeightsConfig();
+    if (!config.experimentEnabled) return;
+
+    const ref = exposureRef(config.experimentId, studentId);
+    const snap = await ref.get();
+    const exposure = snap.data() as RankingExposure | undefined;
+    if (!exposure?.tutorIds?.includes(tutorId)) return;
+
+    await ref.update({
+      bookings: FieldValue.increment(1),
+      ...(!exposure.convertedAt && { convertedAt: new Date() }),
+    });
+  } catch (error) {
+    console.error("Failed to record ranking conversion:", error);
+  }
+}
+
+/** Students, ranked lists served, bookings and conversion rate per profile for the running experiment */
+export async function getRankingExperimentStats(config: RankingWeightsConfig): Promise<RankingProfileStats[]> {
+  const stats = new Map<RankingProfileId, RankingProfileStats>(
+    RANKING_PROFILE_IDS.map((id) => [
+      id,
+      {
+        profile: id,
+        name: config.profiles[id].name,
+        students: 0,
+        rankings: 0,
+        convertedStudents: 0,
+        bookings: 0,
+        conversionRate: 0,
+      },
+    ])
+  );
+
+  const snap = await fdb!.collection("ranking_exposures").where("experimentId", "==", config.experimentId).get();
+  for (const doc of snap.docs) {
+    const exposure = doc.data() as RankingExposure;
+    const s = stats.get(exposure.profile);
+    if (!s) continue;
+    s.students += 1;
+    s.rankings += exposure.rankings ?? 0;
+    s.bookings += exposure.bookings ?? 0;
+    if (exposure.convertedAt) s.convertedStudents += 1;
+  }
+
+  return Array.from(stats.values()).map((s) => ({
+    ...s,
+    conversionRate: s.students ? s.convertedStudents / s.students : 0,
+  }));
+}
@@ -0,0 +1,197 @@
+/**
+ * Tutor search: text query, filters, subject facets and cursor pagination
+ *
+ * Works on the joined tutor listing served by GET /api/tutors (profile + user
+ * + subjects + rating), which is cached in memory, so a search costs no extra
+ * Firestore reads. Firestore has no full-text search; the pool of active,
+ * verified tutors is small enough to scan per request.
+ *
+ * Cursors are keyset-based (sort key + tutor id of the last item) rather than
+ * offsets, so a page boundary stays put when the listing is refreshed between
+ * requests.
+ */
+
+import { teachesLevel } from "../../../shared/taxonomy";
+
+export type TutorSearchSort = "relevance" | "rating" | "price_low" | "price_high" | "reviews";
+
+export interface TutorSearchParams {
+  q?: string;
+  subjectId?: string;
+  minPrice?: number;   // same unit as TutorProfile.hourlyRate
+  maxPrice?: number;
+  minRating?: number;
+  level?: string;      // education taxonomy level key, e.g. "igcse:y10-11"
+  date?: string;       // "YYYY-MM-DD": only tutors with open hours that day
+  sort?: TutorSearchSort;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface SubjectFacet {
+  id: string;
+  name: string;
+  count: number;
+}
+
+export class TutorSearchError extends Error {
+  status: number;
+  constructor(message: string, status = 400) {
+    super(message);
+    this.status = status;
+  }
+}
+
+export const DEFAULT_SEARCH_LIMIT = 12;
+export const MAX_SEARCH_LIMIT = 50;
+
+type ListingTutor = {
+  id: string;
+  bio?: string | null;
+  hourlyRate?: number | null;
+  subjectPricing?: Record<string, number>;
+  averageRating?: number;
+  reviewCount?: number;
+  teachingLevels?: string[];
+  user?: { firstName?: string | null; lastName?: string | null } | null;
+  subjects?: Array<{ id: string; name?: string } | null>;
+};
+
+type Cursor = { k: number; id: string };
+
+function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeCursor(raw: string): Cursor {
+  try {
+    const parsed = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+    if (typeof parsed?.k === "number" && typeof parsed?.id === "string") return parsed;
+  } catch {
+    // fall through
+  }
+  throw new TutorSearchError("Invalid cursor");
+}
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+const normalize = (s: unknown) =>
+  String(s ?? "")
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "");
+
+/**
+ * Relevance of a tutor for the query, 0 when some term matches nowhere.
+ * Every term must match the name, a subject or the bio; name hits weigh most.
+ */
+function textScore(tutor: ListingTutor, terms: string[]): number {
+  if (terms.length === 0) return 1;
+  const name = normalize(`${tutor.user?.firstName ?? ""} ${tutor.user?.lastName ?? ""}`);
+  const subjects = (tutor.subjects ?? []).map((s) => normalize(s?.name));
+  const bio = normalize(tutor.bio);
+
+  let score = 0;
+  for (const term of terms) {
+    let termScore = 0;
+    if (name.includes(term)) termScore += 3;
+    if (subjects.some((s) => s.includes(term))) termScore += 2;
+    if (bio.includes(term)) termScore += 1;
+    if (termScore === 0) return 0;
+    score += termScore;
+  }
+  return score;
+}
+
+/** Hourly price for the subject, or the cheapest price the tutor offers */
+export function tutorPrice(tutor: ListingTutor, subjectId?: string): number {
+  const pricing = tutor.subjectPricing ?? {};
+  if (subjectId && Number(pricing[subjectId]) > 0) return Number(pricing[subjectId]);
+  const prices = [Number(tutor.hourlyRate), ...Object.values(pricing).map(Number)].filter((p) => p > 0);
+  return prices.length ? Math.min(...prices) : 0;
+}
+
+const teaches = (tutor: ListingTutor, subjectId: string) =>
+  (tutor.subjects ?? []).some((s) => s?.id === subjectId);
+
+// ============================================================================
+// SEARCH
+// ============================================================================
+
+/**
+ * Filter, facet, sort and page the listing. `isAvailableOn` decides the date
+ * filter (the caller owns the availability rules).
+ */
+export function searchTutors<T extends ListingTutor>(
+  listing: T[],
+  params: TutorSearchParams,
+  isAvailableOn: (tutor: T, ymd: string) => boolean
+) {
+  const terms = normalize(params.q).split(/\s+/).filter(Boolean);
+  const limit = Math.max(1, Math.min(MAX_SEARCH_LIMIT, params.limit ?? DEFAULT_SEARCH_LIMIT));
+  const sort: TutorSearchSort = params.sort === "relevance" && terms.length === 0 ? "rating" : params.sort ?? "rating";
+
+  // Everything except the subject filter, so facets show what picking another subject would give
+  const candidates: Array<{ tutor: T; relevance: number }> = [];
+  for (const tutor of listing) {
+    const price = tutorPrice(tutor, params.subjectId);
+    if (price <= 0) continue; // no pricing set: not bookable
+    if (params.minPrice !== undefined && price < params.minPrice) continue;
+    if (params.maxPrice !== undefined && price > params.maxPrice) continue;
+    if (params.minRating && Number(tutor.averageRating ?? 0) < params.minRating) continue;
+    if (params.level && !teachesLevel(tutor.teachingLevels, params.level)) continue;
+    const relevance = textScore(tutor, terms);
+    if (relevance === 0) continue;
+    if (params.date && !isAvailableOn(tutor, params.date)) continue;
+    candidates.push({ tutor, relevance });
+  }
+
+  const facetCounts = new Map<string, SubjectFacet>();
+  for (const { tutor } of candidates) {
+    for (const s of tutor.subjects ?? []) {
+      if (!s?.id) continue;
+      const facet = facetCounts.get(s.id) ?? { id: s.id, name: s.name ?? s.id, count: 0 };
+      facet.count += 1;
+      facetCounts.set(s.id, facet);
+    }
+  }
+  const facets = Array.from(facetCounts.values()).sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+
+  const matches = params.subjectId ? candidates.filter((c) => teaches(c.tutor, params.subjectId!)) : candidates;
+
+  // Ascending sort key; descending orders are negated
+  const keyOf = ({ tutor, relevance }: { tutor: T; relevance: number }): number => {
+    switch (sort) {
+      case "relevance":
+        return -(relevance * 10 + Number(tutor.averageRating ?? 0));
+      case "price_low":
+        return tutorPrice(tutor, params.subjectId);
+      case "price_high":
+        return -tutorPrice(tutor, params.subjectId);
+      case "reviews":
+        return -Number(tutor.reviewCount ?? 0);
+      default:
+        return -Number(tutor.averageRating ?? 0);
+    }
+  };
+  let keyed = matches
+    .map((m) => ({ tutor: m.tutor, k: keyOf(m) }))
+    .sort((a, b) => a.k - b.k || (a.tutor.id < b.tutor.id ? -1 : a.tutor.id > b.tutor.id ? 1 : 0));
+
+  if (params.cursor) {
+    const after = decodeCursor(params.cursor);
+    keyed = keyed.filter((x) => x.k > after.k || (x.k === after.k && x.tutor.id > after.id));
+  }
+
+  const page = keyed.slice(0, limit);
+  const last = page[page.length - 1];
+  return {
+    tutors: page.map((x) => x.tutor),
+    total: matches.length,
+    facets,
+    sort,
+    nextCursor: keyed.length > limit && last ? encodeCursor({ k: last.k, id: last.tutor.id }) : null,
+  };
+}
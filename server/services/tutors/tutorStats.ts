@@ -0,0 +1,191 @@
+/**
+ * Tutor Stats
+ *
+ * Per-tutor aggregates the ranking scores from: session completion and
+ * repeat students, completed sessions per subject, published review stats
+ * (overall, per dimension and per subject) and the slot density of the
+ * weekly availability pattern.
+ *
+ * Ranking used to derive these from each tutor's sessions and reviews on
+ * every request. They now live in `tutor_stats/{tutorProfileId}` and are
+ * rebuilt in the background whenever a session, review or the tutor's profile
+ * changes, so the request that made the change does not wait for it; a
+ * scheduled job rebuilds them all as a safety net for writes that bypass
+ * those hooks. A tutor without a document yet is ranked from empty stats
+ * (emptyTutorStats) while one is built in the background.
+ *
+ * A rebuild reads and writes in one transaction, so a rebuild that read
+ * before a newer change cannot overwrite the result of one that read after
+ * it. Within an instance, changes that arrive while a tutor is being rebuilt
+ * are coalesced into one more rebuild.
+ */
+
+import type { Transaction } from "firebase-admin/firestore";
+import { fdb } from "../../firebase-admin";
+import { aggregateReviewRatings } from "../../../shared/ratings";
+import { isPublishedReview } from "../reviews/reviewService";
+import type { Review, TutorProfile, TutorStats } from "../../../shared/types";
+
+const statsCol = () => fdb!.collection("tutor_stats");
+
+const toMinutes = (hhmm: string) => {
+  const [h, m] = String(hhmm).split(":").map(Number);
+  return (h || 0) * 60 + (m || 0);
+};
+
+// ============================================================================
+// BUILD
+// ============================================================================
+
+/** Open weekdays and bookable minutes per week of the weekly pattern; overlapping windows count once */
+function weeklyDensity(availability: Record<string, any> | undefined) {
+  const openDays: string[] = [];
+  let minutes = 0;
+
+  for (const [day, slot] of Object.entries(availability ?? {})) {
+    if (slot?.isAvailable !== true) continue;
+    openDays.push(day.toLowerCase());
+
+    const ranges = (
+      Array.isArray(slot.windows) && slot.windows.length
+        ? slot.windows
+        : [{ startTime: slot.startTime || "09:00", endTime: slot.endTime || "17:00" }]
+    )
+      .map((w: { startTime: string; endTime: string }) => [toMinutes(w.startTime), toMinutes(w.endTime)])
+      .filter(([start, end]: number[]) => end > start)
+      .sort((a: number[], b: number[]) => a[0] - b[0]);
+
+    let coveredUntil = 0;
+    for (const [start, end] of ranges) {
+      const from = Math.max(start, coveredUntil);
+      if (end > from) minutes += end - from;
+      coveredUntil = Math.max(coveredUntil, end);
+    }
+  }
+
+  return { openDays, weeklyOpenHours: Math.round((minutes / 60) * 10) / 10 };
+}
+
+/** Stats of a tutor with no sessions or reviews; the availability density comes from the profile */
+export function emptyTutorStats(tutorId: string, profile: TutorProfile | null): TutorStats {
+  return {
+    tutorId,
+    totalSessions: 0,
+    completedSessions: 0,
+    nonCancelledSessions: 0,
+    uniqueStudents: 0,
+    completedBySubject: {},
+    reviews: aggregateReviewRatings([]),
+    subjectRatings: {},
+    ...weeklyDensity(profile?.availability),
+    updatedAt: new Date(),
+  };
+}
+
+/** Aggregates from the tutor's sessions, reviews and profile, read in the given transaction */
+async function buildTutorStats(tx: Transaction, tutorId: string): Promise<TutorStats> {
+  const [sessionsSnap, reviewsSnap, profileSnap] = await Promise.all([
+    tx.get(fdb!.collection("tutoring_sessions").where("tutorId", "==", tutorId)),
+    tx.get(fdb!.collection("reviews").where("tutorId", "==", tutorId)),
+    tx.get(fdb!.collection("tutor_profiles").doc(tutorId)),
+  ]);
+  const profileData = profileSnap.data() as TutorProfile | undefined;
+
+  const sessions = sessionsSnap.docs.map((d) => ({ id: d.id, ...(d.data() as any) }));
+  const completed = sessions.filter((s) => s.status === "completed");
+  const subjectOfCompleted = new Map<string, string>(completed.map((s) => [s.id, s.subjectId]));
+
+  const completedBySubject: Record<string, number> = {};
+  for (const s of completed) {
+    if (s.subjectId) completedBySubject[s.subjectId] = (completedBySubject[s.subjectId] ?? 0) + 1;
+  }
+
+  const published = reviewsSnap.docs.map((d) => d.data()).filter(isPublishedReview) as Review[];
+  const subjectRatings: TutorStats["subjectRatings"] = {};
+  for (const r of published) {
+    const subjectId = r.sessionId ? subjectOfCompleted.get(r.sessionId) : undefined;
+    if (!subjectId) continue;
+    const acc = (subjectRatings[subjectId] ??= { sum: 0, count: 0 });
+    acc.sum += Number(r.rating) || 0;
+    acc.count += 1;
+  }
+
+  return {
+    tutorId,
+    totalSessions: sessions.length,
+    completedSessions: completed.length,
+    nonCancelledSessions: sessions.filter((s) => s.status !== "cancelled").length,
+    uniqueStudents: new Set(sessions.map((s) => s.studentId)).size,
+    completedBySubject,
+    reviews: aggregateReviewRatings(published),
+    subjectRatings,
+    ...weeklyDensity(profileData?.availability),
+    updatedAt: new Date(),
+  };
+}
+
+// ============================================================================
+// REFRESH
+// ============================================================================
+
+/** Rebuild and store one tutor's stats */
+export async function refreshTutorStats(tutorId: string): Promise<TutorStats> {
+  return fdb!.runTransaction(async (tx) => {
+    const stats = await buildTutorStats(tx, tutorId);
+    tx.set(statsCol().doc(tutorId), stats);
+    return stats;
+  });
+}
+
+// Rebuilds in progress on this instance, and tutors changed again meanwhile
+const rebuilding = new Map<string, Promise<void>>();
+const changedDuringRebuild = new Set<string>();
+
+function scheduleRebuild(tutorId: string): Promise<void> {
+  const running = rebuilding.get(tutorId);
+  if (running) {
+    changedDuringRebuild.add(tutorId);
+    return running;
+  }
+
+  const run = (async () => {
+    do {
+      changedDuringRebuild.delete(tutorId);
+      try {
+        await refreshTutorStats(tutorId);
+      } catch (error) {
+        console.error(`Failed to refresh tutor stats for ${tutorId}:`, error);
+      }
+    } while (changedDuringRebuild.has(tutorId));
+    rebuilding.delete(tutorId);
+  })();
+
+  rebuilding.set(tutorId, run);
+  return run;
+}
+
+/**
+ * Rebuild stats after sessions/reviews/profiles changed. Request handlers
+ * call this without awaiting it; the promise (which never rejects) settles
+ * once the rebuilds are done. A stale document is corrected by the next
+ * change or the scheduled rebuild.
+ */
+export function refreshTutorStatsFor(tutorIds: Iterable<string | null | undefined>): Promise<void> {
+  const unique = Array.from(new Set(Array.from(tutorIds).filter(Boolean) as string[]));
+  return Promise.all(unique.map(scheduleRebuild)).then(() => undefined);
+}
+
+/** Scheduled safety net: rebuild every tutor's stats */
+export async function refreshAllTutorStats(): Promise<{ tutors: number; failed: number }> {
+  const profilesSnap = await fdb!.collection("tutor_profiles").get();
+  let failed = 0;
+  for (const doc of profilesSnap.docs) {
+    try {
+      await refreshTutorStats(doc.id);
+    } catch (error) {
+      failed += 1;
+      console.error(`Failed to refresh tutor stats for ${doc.id}:`, error);
+    }
+  }
+  return { tutors: profilesSnap.size, failed };
+}
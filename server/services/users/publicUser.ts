@@ -0,0 +1,28 @@
+/**
+ * Public User Fields
+ *
+ * User documents also hold contact details, preferences and moderation
+ * state, so they are never sent to other people as they are. Routes that
+ * show a user next to something (tutor listings, reviews, chat, sessions)
+ * pick one of these shapes instead.
+ */
+
+import type { ContactUser, PublicUser } from "../../../shared/types";
+
+/** Name, avatar and role: safe on public, unauthenticated routes */
+export function toPublicUser(u: any, id?: string): PublicUser | null {
+  if (!u) return null;
+  return {
+    id: u.id ?? id,
+    firstName: u.firstName ?? null,
+    lastName: u.lastName ?? null,
+    profileImageUrl: u.profileImageUrl ?? null,
+    role: u.role ?? null,
+  };
+}
+
+/** Public fields plus the email, for the other party of a booked session */
+export function toContactUser(u: any, id?: string): ContactUser | null {
+  const user = toPublicUser(u, id);
+  return user ? { ...user, email: u.email ?? null } : null;
+}
@@ -0,0 +1,59 @@
+/**
+ * Review rating dimensions and tags shared by server and client.
+ *
+ * Besides the overall 1–5 rating a review can score the session on a few
+ * fixed dimensions and pick tags. aggregateReviewRatings folds published
+ * reviews into the per-tutor summary that is stored on TutorProfile, shown
+ * on the profile page and used by the ranking service.
+ */
+
+import type { RatingDimension, RatingSummary, Review, ReviewTag } from "./types";
+
+export const RATING_DIMENSIONS: Array<{ id: RatingDimension; label: string; description: string }> = [
+  { id: "clarity", label: "Clarity", description: "Explains things so they make sense" },
+  { id: "punctuality", label: "Punctuality", description: "Starts and ends sessions on time" },
+  { id: "patience", label: "Patience", description: "Calm with questions and mistakes" },
+  { id: "preparation", label: "Preparation", description: "Comes with material and a plan" },
+];
+
+export const REVIEW_TAGS: Array<{ id: ReviewTag; label: string }> = [
+  { id: "exam_prep", label: "Great for exam prep" },
+  { id: "homework_help", label: "Helpful with homework" },
+  { id: "engaging", label: "Engaging" },
+  { id: "good_materials", label: "Good materials" },
+  { id: "flexible", label: "Flexible" },
+  { id: "encouraging", label: "Encouraging" },
+];
+
+export const RATING_DIMENSION_IDS = RATING_DIMENSIONS.map((d) => d.id);
+export const REVIEW_TAG_IDS = REVIEW_TAGS.map((t) => t.id);
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/** Average overall rating, per-dimension averages and tag counts of the given reviews */
+export function aggregateReviewRatings(
+  reviews: Array<Partial<Pick<Review, "rating" | "dimensions" | "tags" | "status">>>
+): RatingSummary {
+  const published = reviews.filter((r) => r.status !== "hidden" && Number(r.rating) > 0);
+  const sum = published.reduce((acc, r) => acc + Number(r.rating), 0);
+
+  const dimensions: RatingSummary["dimensions"] = {};
+  for (const { id } of RATING_DIMENSIONS) {
+    const scores = published.map((r) => Number(r.dimensions?.[id])).filter((n) => n >= 1 && n <= 5);
+    if (scores.length) {
+      dimensions[id] = { average: round2(scores.reduce((a, b) => a + b, 0) / scores.length), count: scores.length };
+    }
+  }
+
+  const tagCounts: RatingSummary["tagCounts"] = {};
+  for (const r of published) {
+    for (const tag of r.tags ?? []) tagCounts[tag] = (tagCounts[tag] ?? 0) + 1;
+  }
+
+  return {
+    rating: published.length ? round2(sum / published.length) : 0,
+    totalReviews: published.length,
+    dimensions,
+    tagCounts,
+  };
+}
@@ -0,0 +1,49 @@
+/**
+ * Education taxonomy helpers shared by server and client.
+ *
+ * Tutors declare the levels they teach as level keys: "curriculumId" for a
+ * whole curriculum or "curriculumId:bandId" for one grade band. A student
+ * asking for a band is matched by tutors who list that band or the whole
+ * curriculum; asking for a curriculum matches any of its bands.
+ */
+
+import type { EducationTaxonomy } from "./types";
+
+export function levelKey(curriculumId: string, bandId?: string | null): string {
+  return bandId ? `${curriculumId}:${bandId}` : curriculumId;
+}
+
+export function parseLevelKey(key: string): { curriculumId: string; bandId: string | null } {
+  const [curriculumId, bandId] = key.split(":");
+  return { curriculumId, bandId: bandId || null };
+}
+
+/** Whether a tutor's declared levels cover the requested level key */
+export function teachesLevel(levels: string[] | null | undefined, wanted: string): boolean {
+  if (!levels?.length) return false;
+  const want = parseLevelKey(wanted);
+  return levels.some((key) => {
+    const have = parseLevelKey(key);
+    if (have.curriculumId !== want.curriculumId) return false;
+    return !want.bandId || !have.bandId || have.bandId === want.bandId;
+  });
+}
+
+/** "IGCSE / Cambridge · Years 10–11"; the key itself when the taxonomy no longer has it */
+export function levelLabel(taxonomy: EducationTaxonomy | null | undefined, key: string): string {
+  const { curriculumId, bandId } = parseLevelKey(key);
+  const curriculum = taxonomy?.curricula.find((c) => c.id === curriculumId);
+  if (!curriculum) return key;
+  if (!bandId) return curriculum.name;
+  const band = curriculum.gradeBands.find((b) => b.id === bandId);
+  return band ? `${curriculum.name} · ${band.label}` : key;
+}
+
+/** Level keys the taxonomy does not define */
+export function unknownLevelKeys(taxonomy: EducationTaxonomy, keys: string[]): string[] {
+  return keys.filter((key) => {
+    const { curriculumId, bandId } = parseLevelKey(key);
+    const curriculum = taxonomy.curricula.find((c) => c.id === curriculumId);
+    return !curriculum || (!!bandId && !curriculum.gradeBands.some((b) => b.id === bandId));
+  });
+}
@@ -0,0 +1,161 @@
+/**
+ * Time zone helpers shared by server and client.
+ *
+ * Availability is stored as wall-clock "HH:MM" ranges in the tutor's IANA
+ * zone, while sessions are stored as UTC instants. These helpers convert
+ * between the two with the built-in Intl API, so results do not depend on
+ * the time zone of the process running them.
+ */
+
+/** Platform default for users and tutors who have not picked a zone */
+export const DEFAULT_TIMEZONE = "Asia/Bahrain";
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function partsFormatter(timeZone: string): Intl.DateTimeFormat {
+  let f = formatterCache.get(timeZone);
+  if (!f) {
+    f = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatterCache.set(timeZone, f);
+  }
+  return f;
+}
+
+export function isValidTimeZone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== "string" || !timeZone) return false;
+  try {
+    partsFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** The given zone if valid, otherwise the platform default */
+export function resolveTimeZone(timeZone?: string | null): string {
+  return isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIMEZONE;
+}
+
+export type ZonedParts = {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number; // 0 = Sunday
+};
+
+/** Calendar date and wall-clock time of an instant in a zone */
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts: Record<string, number> = {};
+  for (const p of partsFormatter(timeZone).formatToParts(date)) {
+    if (p.type !== "literal") parts[p.type] = Number(p.value);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+    weekday: new Date(Date.UTC(parts.year, parts.month - 1, parts.day)).getUTCDay(),
+  };
+}
+
+/** Minutes the zone is ahead of UTC at the given instant (e.g. 180 for Bahrain) */
+export function getTimeZoneOffsetMinutes(date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60_000);
+}
+
+/**
+ * The instant at which the zone's clock shows `hhmm` on `ymd`. Times that do
+ * not exist (skipped by a DST change) resolve to the instant just after the gap.
+ */
+export function zonedTimeToUtc(ymd: string, hhmm: string, timeZone: string): Date {
+  const [y, m, d] = ymd.split("-").map(Number);
+  const [hh, mm] = hhmm.split(":").map(Number);
+  const wallClock = Date.UTC(y, m - 1, d, hh || 0, mm || 0);
+
+  // Guess with the offset at the wall-clock instant, then correct once for DST
+  const guess = wallClock - getTimeZoneOffsetMinutes(new Date(wallClock), timeZone) * 60_000;
+  const offset = getTimeZoneOffsetMinutes(new Date(guess), timeZone);
+  const corrected = wallClock - offset * 60_000;
+  if (corrected === guess) return new Date(guess);
+
+  // The corrected instant is only valid if it sees the same offset; otherwise
+  // the wall-clock time falls in a DST gap and the first guess lies past it
+  return new Date(getTimeZoneOffsetMinutes(new Date(corrected), timeZone) === offset ? corrected : guess);
+}
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+/** "YYYY-MM-DD" of the instant in the zone */
+export function toZonedYMD(date: Date, timeZone: string): string {
+  const p = getZonedParts(date, timeZone);
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}`;
+}
+
+/** "HH:MM" of the instant in the zone */
+export function toZonedHHMM(date: Date, timeZone: string): string {
+  const p = getZonedParts(date, timeZone);
+  return `${pad(p.hour)}:${pad(p.minute)}`;
+}
+
+/** ISO 8601 with the zone's offset, e.g. "2025-03-01T09:00:00+03:00" */
+export function toZonedISO(date: Date, timeZone: string): string {
+  const p = getZonedParts(date, timeZone);
+  const offset = getTimeZoneOffsetMinutes(date, timeZone);
+  const sign = offset < 0 ? "-" : "+";
+  const abs = Math.abs(offset);
+  return (
+    `${p.year}-${pad(p.month)}-${pad(p.day)}T${pad(p.hour)}:${pad(p.minute)}:${pad(p.second)}` +
+    `${sign}${pad(Math.floor(abs / 60))}:${pad(abs % 60)}`
+  );
+}
+
+/** Calendar arithmetic on "YYYY-MM-DD" strings */
+export function addDaysYMD(ymd: string, days: number): string {
+  const [y, m, d] = ymd.split("-").map(Number);
+  const dt = new Date(Date.UTC(y, m - 1, d + days));
+  return `${dt.getUTCFullYear()}-${pad(dt.getUTCMonth() + 1)}-${pad(dt.getUTCDate())}`;
+}
+
+/** Day of week (0 = Sunday) of a "YYYY-MM-DD" date */
+export function weekdayOfYMD(ymd: string): number {
+  const [y, m, d] = ymd.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d)).getUTCDay();
+}
+
+/** The browser's (or server process's) zone, falling back to the default */
+export function getLocalTimeZone(): string {
+  return resolveTimeZone(Intl.DateTimeFormat().resolvedOptions().timeZone);
+}
+
+/** Human-readable date and time of an instant in a zone, e.g. "Sat, Mar 1, 2025, 09:00" */
+export function formatInTimeZone(
+  date: Date,
+  timeZone: string,
+  options: Intl.DateTimeFormatOptions = {
+    weekday: "short",
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }
+): string {
+  return new Intl.DateTimeFormat("en-US", { ...options, timeZone }).format(date);
+}
@@ -15,6 +15,10 @@ export interface User {
   profileImageUrl?: string | null;
   role: UserRole;
   lastNameChangeAt?: Date | null;  // Track when user last changed their name (7-day limit)
+  timezone?: string | null;   // IANA zone times are shown in, e.g. "Asia/Bahrain"
+  reminderPreferences?: ReminderPreferences | null;
+  notificationPreferences?: NotificationPreferences | null;
+  chatSuspendedUntil?: Date | null; // set by chat moderation after too many strikes
 
   // Tutor-related (optional at user level; full details live in TutorProfile)
   phone?: string;
@@ -31,6 +35,12 @@ export interface User {
   updatedAt?: Date;
 }
 
+// What other people get to see of a user next to their content (listings, reviews, chat)
+export type PublicUser = Pick<User, 'id' | 'firstName' | 'lastName' | 'profileImageUrl' | 'role'>;
+
+// Public fields plus the email, for the other party of a session
+export type ContactUser = PublicUser & Pick<User, 'email'>;
+
 /* =========================
  *        SUBJECT
  * =======================*/
@@ -39,9 +49,39 @@ export interface Subject {
   name: string;
   description?: string;
   category?: string;
+  topics?: SubjectTopic[];    // admin-managed topic tree (two levels)
   createdAt?: Date;
 }
 
+export interface SubjectTopic {
+  id: string;
+  name: string;
+  children?: SubjectTopic[];
+}
+
+/* =========================
+ *   EDUCATION TAXONOMY
+ * =======================*/
+// platform_settings/education_taxonomy: curricula and their grade bands, managed by admins.
+// A level key is "curriculumId" (the whole curriculum) or "curriculumId:bandId";
+// helpers live in shared/taxonomy.ts
+export interface EducationTaxonomy {
+  curricula: Curriculum[];
+  updatedAt?: Date;
+  updatedBy?: string | null;
+}
+
+export interface Curriculum {
+  id: string;                 // e.g. "igcse"
+  name: string;               // e.g. "IGCSE / Cambridge"
+  gradeBands: GradeBand[];
+}
+
+export interface GradeBand {
+  id: string;                 // e.g. "y10-11"
+  label: string;              // e.g. "Years 10–11"
+}
+
 /* =========================
  *      TUTOR PROFILE
  * =======================*/
@@ -56,11 +96,16 @@ export interface TutorProfile {
   subjects?: string[];        // array of Subject.id
   availability?: {
     [day: string]: {          // e.g., "monday", "tuesday", ...
-      startTime: string;      // "09:00"
-      endTime: string;        // "17:00"
+      startTime: string;      // "09:00" (earliest window start when `windows` is set)
+      endTime: string;        // "17:00" (latest window end when `windows` is set)
       isAvailable: boolean;
+      windows?: Array<{ startTime: string; endTime: string }>; // several ranges per day, e.g. 09-12 + 16-20
     };
   };
+  timezone?: string;          // IANA zone `availability` and exceptions are written in (default Asia/Bahrain)
+  bufferMinutes?: number;     // kept free before and after each booked session
+  minNoticeHours?: number;    // bookings must start at least this far ahead
+  availabilityExceptions?: AvailabilityException[]; // date-specific overrides of `availability`
   certifications?: Array<{    // certification files
     url: string;
     name: string;
@@ -68,17 +113,112 @@ export interface TutorProfile {
   verified?: boolean;
   rating?: number;
   totalReviews?: number;
+  ratingDimensions?: RatingSummary['dimensions']; // per-dimension averages of published reviews
+  reviewTagCounts?: RatingSummary['tagCounts'];
   totalSessions?: number;
   profileImageUrl?: string | null;
+  commissionTier?: string | null; // key into CommissionConfig.tierRates, e.g. "standard" | "pro"
+  teachingLevels?: string[];  // level keys from the education taxonomy, e.g. "igcse:y10-11"
 
   createdAt?: Date;
   updatedAt?: Date;
 }
 
+export type AvailabilityExceptionType = 'time_off' | 'extra_slot';
+
+// One-off override of the weekly pattern. time_off closes whole days (a single
+// blocked day has startDate === endDate); extra_slot opens hours on a date the
+// weekly pattern leaves closed. Time off wins when both apply.
+export interface AvailabilityException {
+  id: string;
+  type: AvailabilityExceptionType;
+  startDate: string;          // "YYYY-MM-DD", tutor-local, inclusive
+  endDate: string;            // "YYYY-MM-DD", inclusive
+  startTime?: string | null;  // extra_slot only, "HH:MM"
+  endTime?: string | null;    // extra_slot only, "HH:MM"
+  note?: string | null;
+}
+
+/* =========================
+ *       TUTOR STATS
+ * =======================*/
+// tutor_stats/{tutorProfileId}: ranking inputs precomputed from the tutor's sessions,
+// reviews and weekly availability, rebuilt whenever one of those changes
+export interface TutorStats {
+  tutorId: string;
+  totalSessions: number;          // any status
+  completedSessions: number;
+  nonCancelledSessions: number;
+  uniqueStudents: number;
+  completedBySubject: Record<string, number>;  // subjectId -> completed sessions
+  reviews: RatingSummary;         // published reviews
+  subjectRatings: Record<string, { sum: number; count: number }>;  // published reviews of completed sessions, by subject
+  openDays: string[];             // weekdays open in the weekly pattern, e.g. ["monday"]
+  weeklyOpenHours: number;        // slot density: bookable hours per week
+  updatedAt: Date;
+}
+
+/* =========================
+ *     RANKING WEIGHTS
+ * =======================*/
+// Points each factor of the tutor ranking can contribute; a profile's weights add up to 100
+export type RankingFactor =
+  | 'subjectExpertise'
+  | 'ratingScore'
+  | 'successMetrics'
+  | 'availability'
+  | 'valueScore'
+  | 'experience';
+
+export type RankingWeights = Record<RankingFactor, number>;
+
+export type RankingProfileId = 'A' | 'B';
+
+export interface RankingWeightProfile {
+  name: string;               // e.g. "Baseline", "Rating-heavy"
+  weights: RankingWeights;
+}
+
+// platform_settings/ranking_weights. Without an experiment every student is ranked
+// with profile A; with one, splitPercent% of students (stable per student) get B.
+export interface RankingWeightsConfig {
+  profiles: Record<RankingProfileId, RankingWeightProfile>;
+  experimentEnabled: boolean;
+  splitPercent: number;       // 0-100, share of students ranked with profile B
+  experimentId: string;       // changes when an experiment (re)starts, so its numbers start from zero
+  experimentStartedAt?: Date | null;
+  updatedAt?: Date;
+  updatedBy?: string | null;
+}
+
+// ranking_exposures/{experimentId}_{studentId}: a student who was shown ranked
+// tutors during an experiment, and whether they went on to book one of them
+export interface RankingExposure {
+  experimentId: string;
+  studentId: string;
+  profile: RankingProfileId;
+  tutorIds: string[];         // tutors shown to the student in ranked results, most recent first (capped)
+  rankings: number;           // ranked result lists served
+  bookings?: number;          // sessions booked with one of tutorIds
+  convertedAt?: Date | null;  // first such booking
+  lastRankedAt: Date;
+}
+
+export interface RankingProfileStats {
+  profile: RankingProfileId;
+  name: string;
+  students: number;
+  rankings: number;
+  convertedStudents: number;
+  bookings: number;
+  conversionRate: number;     // convertedStudents / students, 0-1
+}
+
 /* =========================
  *        SESSIONS
  * =======================*/
-export type SessionStatus = 'scheduled' | 'in_progress' | 'completed' | 'cancelled';
+// 'expired': a pending request the tutor never answered (set by the expiry job)
+export type SessionStatus = 'pending' | 'scheduled' | 'in_progress' | 'completed' | 'cancelled' | 'expired';
 
 export interface SessionDoc {
   id?: string;                // Firestore doc id
@@ -92,6 +232,13 @@ export interface SessionDoc {
   meetingLink?: string | null;
   notes?: string;             // optional free text
   priceCents: number;         // store monetary values as integer cents
+  paymentId?: string | null;  // Payment.id of the authorized intent backing this booking
+  cancellation?: SessionCancellation | null; // set when status moves to 'cancelled'
+  seriesId?: string | null;   // SessionSeries.id when booked as part of a recurring series
+  seriesIndex?: number;       // 0-based position within the series
+  reschedules?: RescheduleProposal[]; // every proposal ever made, oldest first; at most one 'pending'
+  icalSequence?: number;      // iCalendar SEQUENCE; bumped when the session is moved or cancelled
+  expiredAt?: Date | null;    // set when an unanswered request moves to 'expired'
 
   // AI-Generated Lesson Summary fields
   tutorNotes?: string;        // Raw notes from tutor after session
@@ -107,17 +254,335 @@ export interface SessionDoc {
   updatedAt?: Date;
 }
 
+export type RescheduleStatus = 'pending' | 'accepted' | 'declined';
+
+// A proposed move of a session; the other party accepts or declines it
+export interface RescheduleProposal {
+  id: string;
+  proposedBy: 'student' | 'tutor' | 'admin';
+  proposedByUserId: string;
+  fromScheduledAt: Date;      // session time when the proposal was made
+  fromTimeSlots?: string[];
+  scheduledAt: Date;          // proposed new start
+  timeSlots?: string[];       // proposed HH:MM slots
+  reason?: string | null;
+  status: RescheduleStatus;
+  createdAt: Date;
+  respondedAt?: Date | null;
+  respondedByUserId?: string | null;
+  responseNote?: string | null;
+}
+
+// Admin-tunable limits for unanswered requests (platform_settings/session_request_expiry)
+export interface SessionRequestExpiryConfig {
+  responseWindowHours: number;  // tutor must answer within this long after the request
+  minHoursBeforeStart: number;  // ...and no later than this long before the session starts
+  updatedAt?: Date;
+  updatedBy?: string | null;
+}
+
+/* =========================
+ *     SESSION SERIES
+ * =======================*/
+export type SeriesFrequency = 'weekly' | 'biweekly';
+export type SeriesStatus = 'active' | 'cancelled';
+
+// Recurring booking: one tutoring_sessions doc per occurrence, linked by seriesId
+export interface SessionSeries {
+  id?: string;
+  studentId: string;
+  tutorId: string;            // TutorProfile.id
+  subjectId: string;
+  frequency: SeriesFrequency;
+  startAt: Date;              // first occurrence
+  duration: number;           // minutes, same for every occurrence
+  occurrenceCount: number;
+  until?: Date | null;        // set when the series was booked "until a date"
+  sessionIds: string[];       // ordered by occurrence
+  status: SeriesStatus;
+  cancelledAt?: Date | null;
+  cancelledByUserId?: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/* =========================
+ *     CALENDAR FEEDS
+ * =======================*/
+// Secret token behind a user's iCal subscription URL (doc id = token)
+export interface CalendarFeedToken {
+  userId: string;
+  createdAt: Date;
+}
+
+/* =========================
+ *         PAYMENTS
+ * =======================*/
+export type PaymentMethod = 'paypal' | 'applepay' | 'benefitpay';
+
+// requires_authorization -> authorized -> captured -> partially_refunded / refunded
+//                        \-> failed      \-> voided (hold released)
+export type PaymentStatus =
+  | 'requires_authorization'
+  | 'authorized'
+  | 'captured'
+  | 'partially_refunded'
+  | 'refunded'
+  | 'voided'
+  | 'failed';
+
+export type PaymentEventType =
+  | 'intent_created'
+  | 'authorized'
+  | 'authorization_failed'
+  | 'captured'
+  | 'capture_failed'
+  | 'voided'
+  | 'refunded'
+  | 'refund_failed';
+
+// Provider call a payment is reserved for while it runs
+export type PaymentOperation = 'authorize' | 'capture' | 'void' | 'refund';
+
+export interface PaymentEvent {
+  type: PaymentEventType;
+  at: Date;
+  amountCents?: number;
+  providerRef?: string | null;
+  error?: string | null;
+}
+
+export interface Payment {
+  id?: string;
+  studentId: string;          // User.id of the payer
+  tutorId: string;            // TutorProfile.id
+  subjectId: string;          // Subject.id
+  sessionId?: string | null;  // set once a booking claims the authorized intent
+  durationMinutes: number;
+  sessionPriceCents: number;  // tutor price for the booked duration
+  platformFeeCents: number;
+  amountCents: number;        // total charged to the student (session price + platform fee)
+  currency: string;           // e.g. "BHD"
+  method: PaymentMethod;
+  provider: string;           // adapter name, e.g. "fake"
+  providerIntentId: string;
+  providerAuthRef?: string | null;
+  providerCaptureRef?: string | null;
+  refundedCents?: number;     // running total returned to the student after capture
+  status: PaymentStatus;
+  failureReason?: string | null;
+  events: PaymentEvent[];
+  authorizedAt?: Date | null;
+  capturedAt?: Date | null;
+  voidedAt?: Date | null;
+  releaseRequestedAt?: Date | null; // set once an unclaimed hold is being voided; it can no longer be claimed
+  operation?: { type: PaymentOperation; startedAt: Date } | null; // provider call in progress
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/* =========================
+ *  CANCELLATIONS & REFUNDS
+ * =======================*/
+export type CancelledBy = 'student' | 'tutor' | 'admin';
+
+// Which policy branch produced the refund percentage
+export type CancellationRule =
+  | 'unconfirmed'       // tutor never accepted: nothing was captured
+  | 'tutor_cancelled'
+  | 'admin_cancelled'
+  | 'notice_tier'       // student cancelled before start, matched a notice tier
+  | 'after_start';
+
+export interface CancellationNoticeTier {
+  minHoursBefore: number;     // applies when cancelled at least this many hours before scheduledAt
+  refundPercent: number;      // 0–100
+}
+
+export interface CancellationPolicy {
+  noticeTiers: CancellationNoticeTier[];
+  afterStartRefundPercent: number;
+  tutorCancelRefundPercent: number;
+  adminCancelRefundPercent: number;
+  updatedAt?: Date;
+  updatedBy?: string | null;
+}
+
+// succeeded: money returned / hold released; manual: no payment on file (legacy booking)
+export type RefundStatus = 'succeeded' | 'failed' | 'manual' | 'not_required';
+
+export interface Refund {
+  id?: string;
+  sessionId: string;
+  paymentId?: string | null;
+  studentId: string;
+  tutorId: string;
+  cancelledBy: CancelledBy;
+  rule: CancellationRule;
+  refundPercent: number;
+  sessionPriceCents: number;    // SessionDoc.priceCents at cancellation time
+  refundCents: number;          // part of sessionPriceCents returned to the student
+  platformFeeRefundCents: number;
+  tutorRetainedCents: number;   // sessionPriceCents - refundCents
+  currency: string;
+  kind: 'refund' | 'release' | 'none'; // release = authorized hold voided before capture
+  status: RefundStatus;
+  providerRef?: string | null;
+  failureReason?: string | null;
+  createdAt?: Date;
+}
+
+// Summary denormalized onto the session so both parties see the outcome
+export interface SessionCancellation {
+  cancelledBy: CancelledBy;
+  cancelledByUserId: string;
+  cancelledAt: Date;
+  reason?: string | null;
+  rule: CancellationRule;
+  refundPercent: number;
+  refundCents: number;
+  tutorRetainedCents: number;
+  refundId?: string | null;
+  refundStatus: RefundStatus;
+}
+
+/* =========================
+ *   EARNINGS & PAYOUTS
+ * =======================*/
+// Platform commission taken from the tutor's session price.
+// Precedence: subjectRates[subjectId] > tierRates[tutor.commissionTier] > defaultRatePercent
+export interface CommissionConfig {
+  defaultRatePercent: number;
+  tierRates: Record<string, number>;
+  subjectRates: Record<string, number>;
+  updatedAt?: Date;
+  updatedBy?: string | null;
+}
+
+export type EarningsEntryType = 'session' | 'cancellation_fee';
+
+// One credit in the tutor earnings ledger (`tutor_earnings`), id = `${sessionId}_${type}`
+export interface EarningsEntry {
+  id?: string;
+  tutorId: string;            // TutorProfile.id
+  sessionId: string;
+  studentId: string;
+  subjectId: string;
+  type: EarningsEntryType;
+  grossCents: number;         // priceCents (or retained cancellation share)
+  commissionRatePercent: number;
+  commissionSource: 'subject' | 'tier' | 'default';
+  commissionCents: number;
+  netCents: number;           // grossCents - commissionCents, owed to the tutor
+  currency: string;
+  sessionDate?: Date | null;
+  payoutId: string | null;    // set once included in a payout
+  accruedAt: Date;
+}
+
+export type PayoutStatus = 'pending' | 'paid';
+
+export interface Payout {
+  id?: string;
+  batchId: string;
+  tutorId: string;
+  entryIds: string[];
+  entryCount: number;
+  grossCents: number;
+  commissionCents: number;
+  netCents: number;
+  currency: string;
+  status: PayoutStatus;
+  periodEnd: Date;
+  createdAt: Date;
+  paidAt?: Date | null;
+}
+
+export interface PayoutBatch {
+  id?: string;
+  periodEnd: Date;            // entries accrued up to this instant are included
+  status: PayoutStatus;
+  payoutCount: number;
+  totalGrossCents: number;
+  totalCommissionCents: number;
+  totalNetCents: number;
+  createdBy: string;
+  createdAt: Date;
+  paidAt?: Date | null;
+  paidBy?: string | null;
+}
+
 /* =========================
  *         REVIEWS
  * =======================*/
+// reviews/{sessionId}: one review per completed session, capped per student–tutor pair
 export interface Review {
   id?: string;
-  sessionId: string;          // SessionDoc.id
+  sessionId?: string;         // SessionDoc.id; absent on legacy one-per-tutor reviews
   studentId: string;          // User.id
-  tutorId: string;            // TutorProfile.id or User.id (match your choice above)
+  tutorId: string;            // TutorProfile.id
   rating: number;             // 1–5
+  dimensions?: Partial<Record<RatingDimension, number>>; // optional 1–5 per dimension
+  tags?: ReviewTag[];
   comment?: string;
+  status?: ReviewStatus;      // missing = 'published'
+  reply?: ReviewReply | null; // the tutor's public response
+  reportCount?: number;
+  flagged?: boolean;          // has reports an admin has not acted on yet
+  lastReportedAt?: Date | null;
+  moderation?: ReviewModerationRecord | null;
   createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export type ReviewStatus = 'published' | 'hidden';
+
+// Labels live in shared/ratings.ts
+export type RatingDimension = 'clarity' | 'punctuality' | 'patience' | 'preparation';
+
+export type ReviewTag =
+  | 'exam_prep'
+  | 'homework_help'
+  | 'engaging'
+  | 'good_materials'
+  | 'flexible'
+  | 'encouraging';
+
+export interface RatingSummary {
+  rating: number;             // average overall rating, 2 decimals
+  totalReviews: number;
+  dimensions: Partial<Record<RatingDimension, { average: number; count: number }>>;
+  tagCounts: Partial<Record<ReviewTag, number>>;
+}
+
+export interface ReviewReply {
+  text: string;
+  hidden?: boolean;           // removed from public view by an admin
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type ReviewModerationAction = 'hide' | 'restore' | 'hide_reply' | 'dismiss_reports';
+
+export interface ReviewModerationRecord {
+  action: ReviewModerationAction;
+  note?: string | null;
+  by: string;                 // admin User.id
+  at: Date;
+}
+
+export type ReviewReportReason = 'abusive' | 'spam' | 'personal_info' | 'off_topic' | 'other';
+
+// review_reports/{reviewId_reporterId}: one report per user per review
+export interface ReviewReport {
+  id?: string;
+  reviewId: string;
+  reporterId: string;         // User.id
+  reason: ReviewReportReason;
+  details?: string | null;
+  status: 'open' | 'resolved';
+  createdAt: Date;
+  resolvedAt?: Date | null;
 }
 
 /* =========================
@@ -127,22 +592,66 @@ export interface Message {
   id?: string;
   senderId: string;           // User.id
   receiverId: string;         // User.id
-  sessionId?: string | null;  // optional link to a session
+  sessionId?: string | null;  // SessionDoc.id when the message belongs to that session's thread
   content: string;
   fileUrl?: string | null;
+  attachment?: MessageAttachment | null;
   read?: boolean;
   createdAt?: Date;
 }
 
+// Summary of a chat attachment stored on the message (the file itself is in file_uploads)
+export interface MessageAttachment {
+  id: string;                 // FileUpload.id
+  fileName: string;
+  mimeType: string;
+  fileSize: number;
+  isImage: boolean;
+  hasThumbnail: boolean;
+}
+
+// conversations/{studentId_tutorId}: inbox summary of one student–tutor chat
+export interface Conversation {
+  id?: string;
+  studentId: string;
+  tutorId: string;
+  participantIds: string[];   // [studentId, tutorId], for array-contains queries
+  lastMessage: {
+    id: string;
+    senderId: string;
+    preview: string;          // truncated text, or a label for attachment-only messages
+    hasAttachment: boolean;
+    createdAt: Date;
+  } | null;
+  lastActivityAt: Date;
+  messageCount: number;
+  unreadCounts: Record<string, number>; // User.id -> messages they have not read
+  updatedAt?: Date;
+}
+
 /* =========================
  *      NOTIFICATIONS
  * =======================*/
 export type NotificationType =
   | 'NEW_MESSAGE'
   | 'TUTOR_VERIFIED'
+  | 'TUTOR_REGISTERED'
+  | 'SESSION_REQUESTED'
+  | 'SESSION_CANCELLED'
   | 'SESSION_REMINDER'
-  | 'PHONE_NUMBER_VIOLATION'
-  | 'PENDING_TUTOR_APPROVAL';
+  | 'PHONE_NUMBER_VIOLATION'         // any blocked contact-sharing attempt, not only phone numbers
+  | 'CHAT_SUSPENDED'
+  | 'MODERATION_APPEAL_SUBMITTED'
+  | 'MODERATION_APPEAL_RESOLVED'
+  | 'PENDING_TUTOR_APPROVAL'
+  | 'SESSION_RESCHEDULE_REQUESTED'
+  | 'SESSION_RESCHEDULED'
+  | 'SESSION_RESCHEDULE_DECLINED'
+  | 'SESSION_EXPIRED'
+  | 'LESSON_REPORT_READY'
+  | 'NEW_REVIEW'
+  | 'REVIEW_REPLY'
+  | 'REVIEW_REPORTED';
 
 export interface Notification {
   id?: string;
@@ -156,6 +665,164 @@ export interface Notification {
   createdAt?: Date;
 }
 
+// Lead times before a session at which reminders go out (platform_settings/session_reminders)
+export interface SessionReminderConfig {
+  leadTimesMinutes: number[];   // e.g. [1440, 60]
+  updatedAt?: Date;
+  updatedBy?: string | null;
+}
+
+// Per-user reminder lead times (users.reminderPreferences); channels follow NotificationPreferences
+export interface ReminderPreferences {
+  leadTimesMinutes: number[] | null;  // subset of the platform lead times; null = all of them
+}
+
+export interface NotificationChannelPreference {
+  inApp: boolean;
+  email: boolean;             // both off = "none"
+}
+
+// Wall-clock window in the user's time zone during which emails are held back
+export interface QuietHours {
+  enabled: boolean;
+  start: string;              // "22:00"
+  end: string;                // "07:00" (may wrap past midnight)
+}
+
+// Notification email held back by quiet hours (deferred_emails), sent at sendAfter
+export interface DeferredEmail {
+  userId: string;
+  type: NotificationType;
+  subject: string;
+  html: string;
+  text?: string | null;
+  sendAfter: Date;            // end of the quiet hours it was queued in
+  createdAt: Date;
+}
+
+// Per-user channel routing (users.notificationPreferences); missing events use the catalogue defaults
+export interface NotificationPreferences {
+  events: Partial<Record<NotificationType, NotificationChannelPreference>>;
+  quietHours: QuietHours;
+  dailyDigest: boolean;       // email a summary of unread in-app notifications
+}
+
+/* =========================
+ *        REALTIME
+ * =======================*/
+// Chat message as returned by /api/messages and pushed over the realtime socket
+export interface ChatMessagePayload {
+  id: string;
+  senderId: string;
+  receiverId: string;
+  sessionId?: string | null;
+  content: string;
+  fileUrl?: string | null;
+  attachment?: MessageAttachment | null;
+  read: boolean;
+  createdAt: string;          // ISO
+  sender?: Record<string, unknown> | null;
+  receiver?: Record<string, unknown> | null;
+}
+
+// Server -> client frames on the realtime socket
+export type RealtimeServerEvent =
+  | { type: 'ready'; userId: string }
+  | { type: 'message:new'; message: ChatMessagePayload }
+  | { type: 'message:read'; readerId: string; readAt: string }   // readerId read everything you sent them
+  | { type: 'typing'; fromUserId: string; isTyping: boolean }
+  | { type: 'notification:new'; notification: Notification & { id: string } };
+
+// Client -> server frames; the first one must be 'auth'
+export type RealtimeClientEvent =
+  | { type: 'auth'; token: string }
+  | { type: 'typing'; toUserId: string; isTyping: boolean };
+
+/* =========================
+ *     SCHEDULED JOBS
+ * =======================*/
+export type JobRunStatus = 'running' | 'succeeded' | 'failed';
+export type JobTrigger = 'schedule' | 'manual';
+
+// scheduler_jobs/{name}: lease lock plus the outcome of the latest run
+export interface ScheduledJobState {
+  leaseOwner?: string | null;       // scheduler instance currently running the job
+  leaseExpiresAt?: Date | null;     // lease is void after this even if never released
+  nextRunAt?: Date | null;
+  lastRunAt?: Date | null;
+  lastStatus?: JobRunStatus | null;
+  lastDurationMs?: number | null;
+  lastError?: string | null;
+  updatedAt?: Date;
+}
+
+// job_runs/{id}: one document per execution
+export interface JobRun {
+  id?: string;
+  job: string;
+  trigger: JobTrigger;
+  triggeredBy?: string | null;      // admin User.id for manual runs
+  instanceId: string;
+  status: JobRunStatus;
+  startedAt: Date;
+  finishedAt?: Date | null;
+  durationMs?: number | null;
+  result?: Record<string, unknown> | null;
+  error?: string | null;
+}
+
+/* =========================
+ *     CHAT MODERATION
+ * =======================*/
+export type ModerationRuleId =
+  | 'phone'
+  | 'email'
+  | 'social_handle'
+  | 'link'
+  | 'number_words'
+  | 'rapid_numeric'
+  | (string & {});              // rules registered by other modules
+
+export type ModerationViolationStatus = 'active' | 'overturned';
+export type ModerationAppealStatus = 'pending' | 'upheld' | 'overturned';
+
+// platform_settings/chat_moderation
+export interface ChatModerationConfig {
+  strikeThreshold: number;    // active strikes that trigger a suspension
+  strikeWindowDays: number;   // strikes older than this no longer count
+  suspensionHours: number;
+  updatedAt?: Date;
+  updatedBy?: string;
+}
+
+// moderation_violations/{id}: one blocked message that counted as a strike
+export interface ModerationViolation {
+  id?: string;
+  userId: string;
+  userRole?: string | null;
+  receiverId: string;
+  ruleId: ModerationRuleId;
+  ruleLabel: string;
+  content: string;
+  status: ModerationViolationStatus;
+  appealId?: string | null;
+  suspendedUntil?: Date | null;     // suspension this strike triggered, if any
+  createdAt: Date;
+}
+
+// moderation_appeals/{id}
+export interface ModerationAppeal {
+  id?: string;
+  violationId: string;
+  userId: string;
+  reason: string;
+  status: ModerationAppealStatus;
+  resolutionNote?: string | null;
+  resolvedBy?: string | null;
+  resolvedAt?: Date | null;
+  createdAt: Date;
+}
+
 /* =========================
  *       FILE UPLOADS
  * =======================*/
@@ -167,6 +834,12 @@ export interface FileUpload {
   fileSize?: number;
   mimeType?: string;
   sessionId?: string | null;
+  purpose?: 'chat_attachment';
+  recipientId?: string | null;     // chat: the other participant
+  storagePath?: string;            // chat: file name inside the private attachments dir
+  thumbnailPath?: string | null;
+  thumbnailMimeType?: string | null;
+  messageId?: string | null;       // chat: set once the attachment is sent
   createdAt?: Date;
 }
 